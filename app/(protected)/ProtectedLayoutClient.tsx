@@ -62,7 +62,11 @@ export default function ProtectedLayoutClient({ children, user }: ProtectedLayou
   // Determine active menu item from pathname
   const getActiveMenuItem = (): string => {
     if (pathname.startsWith('/admin/users') || pathname === '/users') return 'users';
+    if (pathname.startsWith('/admin/extraction-cache')) return 'extraction-cache';
     if (pathname.startsWith('/csi')) return 'csi';
+    if (pathname.startsWith('/subcontractors')) return 'subcontractors';
+    if (pathname.startsWith('/cost-library')) return 'cost-library';
+    if (pathname.startsWith('/inbox')) return 'inbox';
     return 'projects';
   };
 
@@ -72,12 +76,24 @@ export default function ProtectedLayoutClient({ children, user }: ProtectedLayou
       case 'projects':
         router.push('/');
         break;
+      case 'inbox':
+        router.push('/inbox');
+        break;
       case 'users':
         router.push('/admin/users');
         break;
+      case 'extraction-cache':
+        router.push('/admin/extraction-cache');
+        break;
       case 'csi':
         router.push('/csi');
         break;
+      case 'subcontractors':
+        router.push('/subcontractors');
+        break;
+      case 'cost-library':
+        router.push('/cost-library');
+        break;
       case 'settings':
         // TODO: Add settings page
         break;
@@ -0,0 +1,12 @@
+'use client';
+
+/**
+ * Cost Library Page
+ * /cost-library route - historical unit prices by CSI code and unit
+ */
+
+import CostLibraryView from '@/components/CostLibraryView';
+
+export default function CostLibraryPage() {
+  return <CostLibraryView />;
+}
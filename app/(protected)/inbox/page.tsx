@@ -0,0 +1,127 @@
+'use client';
+
+/**
+ * Inbox Page
+ * /inbox route - inbound bid invitations; opening one starts a project from
+ * its drawings
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import InboxListView from '@/components/InboxListView';
+import InboxRulesModal from '@/components/InboxRulesModal';
+import { EXTRACTION_JOBS_STORAGE_KEY } from '@/components/ProjectReviewView';
+import { InboxItem } from '@/types/inbox';
+
+// "RE: FW: Invitation to Bid - Main Street Clinic" -> "Main Street Clinic"
+const getProjectName = (subject: string) =>
+  subject
+    .replace(/^((re|fw|fwd)\s*:\s*)+/i, '')
+    .replace(/^(invitation to bid|itb|bid invitation|request for proposal|rfp)\s*[:\-–]\s*/i, '')
+    .trim();
+
+export default function InboxPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inbox');
+      if (!response.ok) throw new Error('Failed to load inbox');
+      const data = await response.json();
+      setItems(data.items || []);
+    } catch (error) {
+      console.error('Error loading inbox:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const handleCheckMail = async () => {
+    setIsChecking(true);
+    try {
+      const response = await fetch('/api/inbox/ingest', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to check the inbox folder');
+      if (data.failed?.length > 0) {
+        alert(`Could not read ${data.failed.map((failure: { file: string }) => failure.file).join(', ')}`);
+      }
+      await loadItems();
+    } catch (error) {
+      console.error('Error checking inbox folder:', error);
+      alert(error instanceof Error ? error.message : 'Failed to check the inbox folder');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleItemSelect = async (item: InboxItem) => {
+    if (item.projectId) {
+      router.push(`/projects/${item.projectId}`);
+      return;
+    }
+
+    const drawings = (item.attachments || []).filter(attachment => attachment.fileUrl);
+    if (drawings.length === 0) {
+      alert('This email has no drawings attached. Create the project manually from New Project.');
+      return;
+    }
+
+    try {
+      await fetch(`/api/inbox/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'in_progress' })
+      });
+    } catch (error) {
+      console.error('Error updating inbox item:', error);
+    }
+
+    // Same hand-off as New Project; new drawings are already diagrams, so the
+    // project takes them over instead of creating copies
+    sessionStorage.setItem('projectCreationData', JSON.stringify({
+      mode: 'manual',
+      uploadedDocuments: drawings.map(attachment => ({
+        fileName: attachment.fileName,
+        url: attachment.fileUrl,
+        fileSize: attachment.fileSize,
+        fileType: attachment.fileType,
+        diagramId: attachment.duplicate ? undefined : attachment.diagramId
+      })),
+      projectName: getProjectName(item.subject),
+      inboxItemId: item.id
+    }));
+    sessionStorage.removeItem(EXTRACTION_JOBS_STORAGE_KEY);
+    router.push('/projects/review');
+  };
+
+  const archivedCount = items.filter(item => item.status === 'archived').length;
+
+  return (
+    <>
+      <InboxListView
+        items={showArchived ? items : items.filter(item => item.status !== 'archived')}
+        onItemSelect={handleItemSelect}
+        onNewDiagram={() => router.push('/projects/new')}
+        onCheckMail={handleCheckMail}
+        isCheckingMail={isChecking}
+        onManageRules={() => setShowRules(true)}
+        archivedCount={archivedCount}
+        showArchived={showArchived}
+        onToggleArchived={() => setShowArchived(prev => !prev)}
+      />
+      <InboxRulesModal
+        isOpen={showRules}
+        onClose={() => {
+          setShowRules(false);
+          loadItems();
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+/**
+ * Bid Leveling Page
+ * /projects/:projectId/packages/:packageId/leveling route
+ */
+
+import { useState, useEffect, use } from 'react';
+import { useRouter } from 'next/navigation';
+import BidLevelingView from '@/components/BidLevelingView';
+import { LineItem } from '@/components/BidFormTable';
+import { BidPackage } from '@/types/bidPackage';
+import { BID_LEVELING_STATUSES } from '@/types/bidLeveling';
+import { Permission, hasPermission } from '@/types/permissions';
+import { useAuth } from '@/hooks/useAuth';
+
+interface PageProps {
+  params: Promise<{ projectId: string; packageId: string }>;
+}
+
+export default function BidLevelingPage({ params }: PageProps) {
+  const { projectId, packageId } = use(params);
+  const router = useRouter();
+  const { user } = useAuth();
+
+  const [bidPackage, setBidPackage] = useState<BidPackage | null>(null);
+  const [lineItems, setLineItems] = useState<LineItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPackage = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/bid-packages/${packageId}`);
+        if (!response.ok) {
+          setError('Bid package not found');
+          return;
+        }
+        const data = await response.json();
+        setBidPackage(data.bidPackage);
+        setLineItems(data.bidPackage.lineItems || []);
+      } catch (err) {
+        console.error('Failed to load bid package:', err);
+        setError('Failed to load bid package');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPackage();
+  }, [packageId]);
+
+  const handleBack = () => {
+    router.push(`/projects/${projectId}/packages/${packageId}`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-zinc-900 mx-auto mb-4"></div>
+          <p className="text-gray-600 font-mono">Loading bid leveling...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !bidPackage) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-zinc-900 mb-2">{error || 'Not found'}</h2>
+          <button
+            onClick={handleBack}
+            className="mt-4 px-4 py-2 bg-zinc-900 text-white rounded-lg hover:bg-zinc-800 transition-colors"
+          >
+            Back to Workspace
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <BidLevelingView
+      bidPackage={bidPackage}
+      lineItems={lineItems}
+      canEdit={
+        BID_LEVELING_STATUSES.includes(bidPackage.status) &&
+        !!user && hasPermission(user.role, Permission.EDIT_LINE_ITEMS)
+      }
+      canRecommend={!!user && hasPermission(user.role, Permission.MANAGE_BID_PACKAGES)}
+      canInvite={
+        BID_LEVELING_STATUSES.includes(bidPackage.status) &&
+        !!user && hasPermission(user.role, Permission.MANAGE_BID_PACKAGES)
+      }
+      onBack={handleBack}
+    />
+  );
+}
@@ -12,13 +12,13 @@ import BidPackageWorkspace from '@/components/BidPackageWorkspace';
 import { BuildingConnectedProject } from '@/types/buildingconnected';
 import { BidPackage } from '@/types/bidPackage';
 import { LineItem } from '@/components/BidFormTable';
-import { ChatMessage } from '@/types/chat';
+import { ChatMessage, ChatRevision, ChatThread, ProposedChangeError } from '@/types/chat';
+import { LineItemChangeSource } from '@/types/lineItemHistory';
 import { generateId } from '@/lib/generateId';
 import { useWorkspaceParams } from '@/hooks/useWorkspaceParams';
 
 interface BidPackageWorkspaceData extends BidPackage {
   lineItems: LineItem[];
-  chatMessages: ChatMessage[];
   chatOpen: boolean;
 }
 
@@ -37,6 +37,11 @@ export default function WorkspacePage({ params }: PageProps) {
   const [error, setError] = useState<string | null>(null);
   const [extracting, setExtracting] = useState(false);
   const [chatLoading, setChatLoading] = useState(false);
+  const [chatRevisions, setChatRevisions] = useState<ChatRevision[]>([]);
+  // Messages of the open chat thread; no thread is open until the first message
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
 
   useEffect(() => {
     loadData();
@@ -49,15 +54,41 @@ export default function WorkspacePage({ params }: PageProps) {
     }
   }, [workspaceParams.chat]);
 
-  const loadData = async () => {
+  const loadChatThreads = async (): Promise<ChatThread[]> => {
     try {
-      setIsLoading(true);
+      const response = await fetch(`/api/bid-packages/${packageId}/chat-threads`);
+      if (!response.ok) throw new Error('Failed to load chat threads');
+      const data = await response.json();
+      setChatThreads(data.threads || []);
+      return data.threads || [];
+    } catch (error) {
+      console.error('Error loading chat threads:', error);
+      return [];
+    }
+  };
+
+  const loadChatThread = async (threadId: string) => {
+    try {
+      const response = await fetch(`/api/bid-packages/${packageId}/chat-threads/${threadId}`);
+      if (!response.ok) throw new Error('Failed to load chat thread');
+      const data = await response.json();
+      setActiveThreadId(threadId);
+      setChatMessages(data.messages || []);
+    } catch (error) {
+      console.error('Error loading chat thread:', error);
+    }
+  };
+
+  const loadData = async (showLoading = true) => {
+    try {
+      if (showLoading) setIsLoading(true);
       setError(null);
 
       // Fetch project and bid package in parallel
-      const [projectRes, packageRes] = await Promise.all([
+      const [projectRes, packageRes, revisionsRes] = await Promise.all([
         fetch(`/api/projects/${projectId}`),
         fetch(`/api/bid-packages/${packageId}`),
+        fetch(`/api/bid-packages/${packageId}/chat-revisions`),
       ]);
 
       if (!projectRes.ok) {
@@ -75,44 +106,15 @@ export default function WorkspacePage({ params }: PageProps) {
 
       setProject(projectData.project);
 
-      // Initialize workspace data for bid package
-      const pkg = packageData.bidPackage;
-      let lineItems: LineItem[] = [];
-      let chatMessages: ChatMessage[] = [];
-
-      // Try to load workspace data if it exists
-      if (pkg.workspaceData) {
-        try {
-          const parsed = typeof pkg.workspaceData === 'string'
-            ? JSON.parse(pkg.workspaceData)
-            : pkg.workspaceData;
-          if (parsed.lineItems) lineItems = parsed.lineItems;
-          if (parsed.chatMessages) chatMessages = parsed.chatMessages;
-        } catch (e) {
-          console.error('Failed to parse workspace data:', e);
-        }
+      if (revisionsRes.ok) {
+        const revisionsData = await revisionsRes.json();
+        setChatRevisions(revisionsData.revisions || []);
       }
 
-      // If no workspace data, load line items from bid forms
-      if (lineItems.length === 0 && pkg.bidForms) {
-        lineItems = pkg.bidForms.flatMap((bf: any) =>
-          bf.lineItems?.map((li: any) => ({
-            id: li.id,
-            item_number: li.itemNumber,
-            description: li.description,
-            quantity: li.quantity,
-            unit: li.unit,
-            unit_price: li.unitPrice,
-            total_price: li.totalPrice,
-            notes: li.notes,
-            verified: li.verified,
-            csiCode: li.csiCode,
-            csiTitle: li.csiTitle,
-            confidence: li.confidence,
-            approved: li.approved,
-          })) || []
-        );
-      }
+      // Initialize workspace data for bid package
+      const pkg = packageData.bidPackage;
+      // Line items come from LineItem rows; chat history from chat threads
+      let lineItems: LineItem[] = pkg.lineItems || [];
 
       // Ensure all line items have approved values
       // Only generate random confidence for items that don't have one (undefined)
@@ -126,9 +128,13 @@ export default function WorkspacePage({ params }: PageProps) {
       setBidPackage({
         ...pkg,
         lineItems,
-        chatMessages,
         chatOpen: workspaceParams.chat,
       });
+
+      // Reopen the thread that was open, else the most recently active one
+      const threads = await loadChatThreads();
+      const threadId = threads.find(thread => thread.id === activeThreadId)?.id ?? threads[0]?.id;
+      if (threadId) await loadChatThread(threadId);
     } catch (error) {
       console.error('Failed to load data:', error);
       setError('Failed to load data');
@@ -137,7 +143,7 @@ export default function WorkspacePage({ params }: PageProps) {
     }
   };
 
-  const handleLineItemsUpdate = useCallback(async (updatedItems: LineItem[]) => {
+  const handleLineItemsUpdate = useCallback(async (updatedItems: LineItem[], source: LineItemChangeSource = 'table') => {
     if (!bidPackage) return;
 
     // Update local state immediately
@@ -150,7 +156,7 @@ export default function WorkspacePage({ params }: PageProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           lineItems: updatedItems,
-          chatMessages: bidPackage.chatMessages,
+          changeSource: source,
         }),
       });
     } catch (error) {
@@ -169,18 +175,14 @@ export default function WorkspacePage({ params }: PageProps) {
 
     setChatLoading(true);
 
-    // Add user message
-    const userMessage: ChatMessage = {
+    // Shown until the stored message comes back
+    const pendingMessage: ChatMessage = {
       id: generateId(),
       role: 'user',
       content: message,
       timestamp: Date.now(),
     };
-
-    setBidPackage(prev => prev ? {
-      ...prev,
-      chatMessages: [...prev.chatMessages, userMessage],
-    } : null);
+    setChatMessages(prev => [...prev, pendingMessage]);
 
     // Get diagram URL from project diagrams
     const diagramUrl = project?.diagrams?.[0]?.fileUrl || null;
@@ -194,7 +196,8 @@ export default function WorkspacePage({ params }: PageProps) {
           imageUrl: diagramUrl,
           currentLineItems: bidPackage.lineItems,
           projectName: bidPackage.name,
-          conversationHistory: bidPackage.chatMessages,
+          bidPackageId: packageId,
+          threadId: activeThreadId,
         }),
       });
 
@@ -202,19 +205,12 @@ export default function WorkspacePage({ params }: PageProps) {
 
       const data = await response.json();
 
-      // Add assistant message
-      const assistantMessage: ChatMessage = {
-        id: generateId(),
-        role: 'assistant',
-        content: data.response,
-        timestamp: Date.now(),
-        proposedChanges: data.proposedChanges,
-      };
-
-      setBidPackage(prev => prev ? {
-        ...prev,
-        chatMessages: [...prev.chatMessages, assistantMessage],
-      } : null);
+      setActiveThreadId(data.threadId);
+      setChatMessages(prev => [
+        ...prev.map(m => (m.id === pendingMessage.id ? data.userMessage : m)),
+        data.assistantMessage,
+      ]);
+      loadChatThreads();
     } catch (error) {
       console.error('Chat error:', error);
       const errorMessage: ChatMessage = {
@@ -224,70 +220,138 @@ export default function WorkspacePage({ params }: PageProps) {
         timestamp: Date.now(),
       };
 
-      setBidPackage(prev => prev ? {
-        ...prev,
-        chatMessages: [...prev.chatMessages, errorMessage],
-      } : null);
+      setChatMessages(prev => [...prev, errorMessage]);
     } finally {
       setChatLoading(false);
     }
-  }, [bidPackage]);
+  }, [bidPackage, project, packageId, activeThreadId]);
+
+  const mergeChatMessages = useCallback((updatedMessages: ChatMessage[]) => {
+    setChatMessages(prev => prev.map(m => updatedMessages.find(updated => updated.id === m.id) ?? m));
+  }, []);
+
+  // Server results of chat revision steps replace the local line items
+  const applyChatRevisionResult = useCallback(async (response: Response, failureMessage: string) => {
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const errors: ProposedChangeError[] = data.errors || [];
+      alert([data.error || failureMessage, ...errors.map(error => `• ${error.message}`)].join('\n'));
+      return;
+    }
 
-  const handleAcceptChatChanges = useCallback(async (messageId: string) => {
-    if (!bidPackage) return;
+    setBidPackage(prev => prev ? {
+      ...prev,
+      lineItems: data.lineItems.map((item: LineItem) => ({ ...item, approved: item.approved ?? false })),
+    } : null);
+    mergeChatMessages(data.updatedMessages || []);
+    setChatRevisions(data.revisions || []);
+  }, [mergeChatMessages]);
 
-    const message = bidPackage.chatMessages.find(m => m.id === messageId);
-    if (!message?.proposedChanges) return;
+  const handleAcceptChatChanges = useCallback(async (messageId: string, changeIndexes: number[]) => {
+    setChatLoading(true);
+    try {
+      const response = await fetch(`/api/bid-packages/${packageId}/chat-revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, changeIndexes }),
+      });
+      await applyChatRevisionResult(response, 'Failed to apply the chat changes');
+    } catch (error) {
+      console.error('Error applying chat changes:', error);
+      alert('Failed to apply the chat changes. Please try again.');
+    } finally {
+      setChatLoading(false);
+    }
+  }, [packageId, applyChatRevisionResult]);
 
-    let updatedItems = [...bidPackage.lineItems];
+  const handleRejectChatChanges = useCallback(async (messageId: string, changeIndexes: number[]) => {
+    // Update local state immediately
+    setChatMessages(prev => prev.map(m => {
+      if (m.id !== messageId || !m.proposedChanges) return m;
+      const changeStatuses = m.proposedChanges.map((_, i) =>
+        changeIndexes.includes(i) ? 'rejected' as const : m.changeStatuses?.[i] ?? 'pending'
+      );
+      return { ...m, changeStatuses };
+    }));
 
-    message.proposedChanges.forEach(change => {
-      if (change.type === 'add' && change.newItem) {
-        updatedItems.push({ ...change.newItem, id: change.newItem.id || generateId() });
-      } else if (change.type === 'update' && change.itemId && change.newItem) {
-        updatedItems = updatedItems.map(item =>
-          item.id === change.itemId ? { ...item, ...change.newItem } : item
-        );
-      } else if (change.type === 'delete' && change.itemId) {
-        updatedItems = updatedItems.filter(item => item.id !== change.itemId);
-      }
-    });
+    try {
+      const response = await fetch(`/api/bid-packages/${packageId}/chat-messages/${messageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rejectChangeIndexes: changeIndexes }),
+      });
+      if (!response.ok) throw new Error('Failed to reject the chat changes');
+      const data = await response.json();
+      mergeChatMessages([data.message]);
+    } catch (error) {
+      console.error('Error rejecting chat changes:', error);
+    }
+  }, [packageId, mergeChatMessages]);
 
-    const updatedChatMessages = bidPackage.chatMessages.map(m =>
-      m.id === messageId ? { ...m, changesAccepted: true } : m
-    );
+  const handleStepChatRevisions = useCallback(async (direction: 'undo' | 'redo', count: number) => {
+    setChatLoading(true);
+    try {
+      const response = await fetch(`/api/bid-packages/${packageId}/chat-revisions/${direction}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ count }),
+      });
+      await applyChatRevisionResult(response, `Failed to ${direction} the chat changes`);
+    } catch (error) {
+      console.error(`Error trying to ${direction} chat changes:`, error);
+      alert(`Failed to ${direction} the chat changes. Please try again.`);
+    } finally {
+      setChatLoading(false);
+    }
+  }, [packageId, applyChatRevisionResult]);
 
-    setBidPackage(prev => prev ? {
-      ...prev,
-      lineItems: updatedItems,
-      chatMessages: updatedChatMessages,
-    } : null);
+  // The thread itself is created with its first message
+  const handleNewChatThread = () => {
+    setActiveThreadId(null);
+    setChatMessages([]);
+  };
 
-    // Persist to database
+  const handleRenameChatThread = async (threadId: string, title: string) => {
     try {
-      await fetch(`/api/bid-packages/${packageId}`, {
-        method: 'PUT',
+      const response = await fetch(`/api/bid-packages/${packageId}/chat-threads/${threadId}`, {
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          lineItems: updatedItems,
-          chatMessages: updatedChatMessages,
-        }),
+        body: JSON.stringify({ title }),
       });
+      if (!response.ok) throw new Error('Failed to rename the conversation');
+      const data = await response.json();
+      setChatThreads(prev => prev.map(thread => (thread.id === threadId ? data.thread : thread)));
     } catch (error) {
-      console.error('Error saving bid package:', error);
+      console.error('Error renaming chat thread:', error);
+      alert('Failed to rename the conversation');
     }
-  }, [bidPackage, packageId]);
+  };
 
-  const handleRejectChatChanges = useCallback((messageId: string) => {
-    if (!bidPackage) return;
+  const handleDeleteChatThread = async (threadId: string) => {
+    try {
+      const response = await fetch(`/api/bid-packages/${packageId}/chat-threads/${threadId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || 'Failed to delete the conversation');
+        return;
+      }
 
-    setBidPackage(prev => prev ? {
-      ...prev,
-      chatMessages: prev.chatMessages.map(m =>
-        m.id === messageId ? { ...m, changesRejected: true } : m
-      ),
-    } : null);
-  }, [bidPackage]);
+      const remaining = chatThreads.filter(thread => thread.id !== threadId);
+      setChatThreads(remaining);
+      if (threadId === activeThreadId) {
+        if (remaining[0]) {
+          await loadChatThread(remaining[0].id);
+        } else {
+          handleNewChatThread();
+        }
+      }
+    } catch (error) {
+      console.error('Error deleting chat thread:', error);
+      alert('Failed to delete the conversation');
+    }
+  };
 
   const handleBack = () => {
     router.push(`/projects/${projectId}`);
@@ -307,21 +371,27 @@ export default function WorkspacePage({ params }: PageProps) {
   const handleSubmitToReview = useCallback(async () => {
     if (!bidPackage) return;
 
-    // Update local state immediately to 'pending-review'
+    // Update local state immediately to 'in review'
     setBidPackage(prev => prev ? {
       ...prev,
-      status: 'pending-review' as any, // TypeScript workaround for status
+      status: 'in review',
     } : null);
 
     try {
-      await fetch(`/api/bid-packages/${packageId}`, {
+      const response = await fetch(`/api/bid-packages/${packageId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          status: 'pending-review',
-          assignedTo: 'Precon Leader',
+          status: 'in review',
         }),
       });
+
+      // Transition rejected by the workflow - restore the server's status
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || 'Failed to submit for review');
+        await loadData();
+      }
     } catch (error) {
       console.error('Error submitting for review:', error);
     }
@@ -332,18 +402,23 @@ export default function WorkspacePage({ params }: PageProps) {
 
     setBidPackage(prev => prev ? {
       ...prev,
-      status: 'active' as const,
+      status: 'in progress',
     } : null);
 
     try {
-      await fetch(`/api/bid-packages/${packageId}`, {
+      const response = await fetch(`/api/bid-packages/${packageId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          status: 'active',
-          assignedTo: null,
+          status: 'in progress',
         }),
       });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        alert(data.error || 'Failed to recall from review');
+        await loadData();
+      }
     } catch (error) {
       console.error('Error recalling:', error);
     }
@@ -405,7 +480,7 @@ export default function WorkspacePage({ params }: PageProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           lineItems: updatedCurrentItems,
-          chatMessages: bidPackage.chatMessages,
+          changeSource: 'reallocation',
         }),
       });
     } catch (error) {
@@ -464,16 +539,27 @@ export default function WorkspacePage({ params }: PageProps) {
       onLineItemsUpdate={handleLineItemsUpdate}
       onUploadNew={handleUploadNew}
       onUploadSuccess={handleUploadSuccess}
+      onDiagramRevised={() => loadData(false)}
       onBack={handleBack}
       chatOpen={bidPackage.chatOpen}
-      chatMessages={bidPackage.chatMessages}
+      chatMessages={chatMessages}
       onChatToggle={handleChatToggle}
       onSendChatMessage={handleSendChatMessage}
       onAcceptChatChanges={handleAcceptChatChanges}
       onRejectChatChanges={handleRejectChatChanges}
       isChatLoading={chatLoading}
+      chatThreads={chatThreads}
+      activeChatThreadId={activeThreadId}
+      onSelectChatThread={loadChatThread}
+      onNewChatThread={handleNewChatThread}
+      onRenameChatThread={handleRenameChatThread}
+      onDeleteChatThread={handleDeleteChatThread}
+      chatRevisions={chatRevisions}
+      onUndoChatRevisions={count => handleStepChatRevisions('undo', count)}
+      onRedoChatRevisions={count => handleStepChatRevisions('redo', count)}
       onSubmitToReview={handleSubmitToReview}
       onRecall={handleRecall}
+      onOpenLeveling={() => router.push(`/projects/${projectId}/packages/${packageId}/leveling`)}
       onDeleteProject={handleDeleteProject}
       initialViewMode={workspaceParams.view}
       initialItemId={workspaceParams.item}
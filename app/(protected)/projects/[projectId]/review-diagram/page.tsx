@@ -127,7 +127,6 @@ export default function ReviewDiagramPage({ params }: PageProps) {
             bcProjectId: projectId,
             name: selectedCategory,
             description: `Bid package for ${selectedCategory}`,
-            status: 'draft',
             progress: 0,
             diagramIds: [diagram.id],
           }),
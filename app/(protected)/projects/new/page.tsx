@@ -7,6 +7,7 @@
 
 import { useRouter } from 'next/navigation';
 import ProjectCreationView from '@/components/ProjectCreationView';
+import { EXTRACTION_JOBS_STORAGE_KEY } from '@/components/ProjectReviewView';
 
 export default function NewProjectPage() {
   const router = useRouter();
@@ -18,6 +19,7 @@ export default function NewProjectPage() {
   const handleContinue = (data: any) => {
     // Store data in sessionStorage for the review page
     sessionStorage.setItem('projectCreationData', JSON.stringify(data));
+    sessionStorage.removeItem(EXTRACTION_JOBS_STORAGE_KEY); // New documents get new extraction jobs
     router.push('/projects/review');
   };
 
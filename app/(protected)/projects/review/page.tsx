@@ -7,7 +7,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import ProjectReviewView from '@/components/ProjectReviewView';
+import ProjectReviewView, { EXTRACTION_JOBS_STORAGE_KEY } from '@/components/ProjectReviewView';
 import { BuildingConnectedProject } from '@/types/buildingconnected';
 
 export default function ProjectReviewPage() {
@@ -34,6 +34,7 @@ export default function ProjectReviewPage() {
 
   const handleCancel = () => {
     sessionStorage.removeItem('projectCreationData');
+    sessionStorage.removeItem(EXTRACTION_JOBS_STORAGE_KEY);
     router.push('/');
   };
 
@@ -41,7 +42,7 @@ export default function ProjectReviewPage() {
     try {
       // If we have extractedBidPackagesData, don't pass bidPackages to project creation
       // to avoid creating duplicate bid packages (they'll be created from extractedBidPackagesData below)
-      const projectPayload = { ...approvedData };
+      const projectPayload = { ...approvedData, inboxItemId: projectData.inboxItemId };
       if (approvedData.extractedBidPackagesData?.length > 0) {
         delete projectPayload.bidPackages;
       }
@@ -59,6 +60,7 @@ export default function ProjectReviewPage() {
 
         // Clear session storage
         sessionStorage.removeItem('projectCreationData');
+        sessionStorage.removeItem(EXTRACTION_JOBS_STORAGE_KEY);
 
         // If project has pre-extracted bid packages data, create them
         if (createdProjectId && approvedData.extractedBidPackagesData?.length > 0) {
@@ -80,7 +82,6 @@ export default function ProjectReviewPage() {
                       name: pkg.name,
                       description: pkg.description || `${pkg.name} scope of work`,
                       scope: pkg.description,
-                      status: 'draft',
                       progress: 0,
                       diagramIds: diagramId ? [diagramId] : [],
                       lineItems: pkg.line_items.map((item: any, index: number) => ({
@@ -0,0 +1,12 @@
+'use client';
+
+/**
+ * Subcontractor Directory Page
+ * /subcontractors route - subcontractor companies, contacts and trade coverage
+ */
+
+import SubcontractorDirectoryView from '@/components/SubcontractorDirectoryView';
+
+export default function SubcontractorsPage() {
+  return <SubcontractorDirectoryView />;
+}
@@ -0,0 +1,222 @@
+'use client';
+
+/**
+ * Extraction Cache Page
+ * Admin only
+ * Size and use of the per-page extraction cache, and clearing stale or all entries
+ */
+
+import { useState, useEffect } from 'react';
+import { UserRole } from '@/types/user';
+import { ExtractionCacheClearScope, ExtractionCacheStats } from '@/types/extractionCache';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function ExtractionCachePage() {
+  const [stats, setStats] = useState<ExtractionCacheStats | null>(null);
+  const [authorized, setAuthorized] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [clearing, setClearing] = useState<ExtractionCacheClearScope | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Fetch current user and check permissions
+  useEffect(() => {
+    async function checkAuth() {
+      try {
+        const response = await fetch('/api/auth/me');
+        if (!response.ok) {
+          window.location.href = '/login';
+          return;
+        }
+        const { user } = await response.json();
+
+        if (user.role !== UserRole.ADMIN) {
+          window.location.href = '/';
+          return;
+        }
+
+        setAuthorized(true);
+      } catch (error) {
+        console.error('Auth check failed:', error);
+        window.location.href = '/login';
+      }
+    }
+    checkAuth();
+  }, []);
+
+  // Fetch cache stats
+  useEffect(() => {
+    if (!authorized) return;
+
+    async function fetchStats() {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/admin/extraction-cache');
+        if (response.ok) {
+          const { stats } = await response.json();
+          setStats(stats);
+        } else {
+          console.error('Failed to fetch extraction cache stats');
+        }
+      } catch (error) {
+        console.error('Error fetching extraction cache stats:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchStats();
+  }, [authorized]);
+
+  const handleClear = async (scope: ExtractionCacheClearScope) => {
+    const prompt = scope === 'all'
+      ? 'Clear the entire extraction cache? Every drawing will be sent to the model again on its next extraction.'
+      : 'Clear cached pages from outdated prompt versions?';
+    if (!confirm(prompt)) return;
+
+    try {
+      setClearing(scope);
+      const response = await fetch(`/api/admin/extraction-cache?scope=${scope}`, { method: 'DELETE' });
+
+      if (response.ok) {
+        const { deleted, stats } = await response.json();
+        setStats(stats);
+        setMessage(`Removed ${deleted} cached ${deleted === 1 ? 'page' : 'pages'}`);
+      } else {
+        const { error } = await response.json();
+        alert(`Error: ${error}`);
+      }
+    } catch (error) {
+      console.error('Error clearing extraction cache:', error);
+      alert('Failed to clear extraction cache');
+    } finally {
+      setClearing(null);
+    }
+  };
+
+  if (!authorized || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-gray-500">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Extraction Cache</h1>
+            <p className="text-gray-600 mt-1">
+              Drawing pages already extracted with the current prompt and model are reused instead of sent to the model again
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleClear('stale')}
+              disabled={clearing !== null || !stats?.staleEntries}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {clearing === 'stale' ? 'Clearing...' : 'Clear Stale'}
+            </button>
+            <button
+              onClick={() => handleClear('all')}
+              disabled={clearing !== null || !stats?.entries}
+              className="px-4 py-2 bg-zinc-900 text-white rounded-lg hover:bg-zinc-800 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {clearing === 'all' ? 'Clearing...' : 'Clear All'}
+            </button>
+          </div>
+        </div>
+
+        {stats && !stats.enabled && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            Caching is turned off (EXTRACTION_CACHE=false). Existing entries are kept but not used.
+          </div>
+        )}
+
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            {message}
+          </div>
+        )}
+
+        {/* Summary */}
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            {[
+              { label: 'Cached Pages', value: stats.entries.toLocaleString() },
+              { label: 'Size', value: formatBytes(stats.sizeBytes) },
+              { label: 'Cache Hits', value: stats.hits.toLocaleString() },
+              { label: 'Stale Pages', value: stats.staleEntries.toLocaleString() },
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-white rounded-lg shadow-sm p-4">
+                <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</div>
+                <div className="text-2xl font-semibold text-gray-900 mt-1">{value}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Breakdown */}
+        <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prompt Version</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Pages</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Size</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Hits</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {stats?.groups.map((group) => (
+                <tr key={`${group.task}-${group.promptVersion}-${group.provider}-${group.model}`} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{group.task}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    v{group.promptVersion}
+                    {group.stale && (
+                      <span className="ml-2 px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800">
+                        Stale
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {group.model}
+                    <span className="ml-2 text-xs text-gray-400">{group.provider}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{group.entries.toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{formatBytes(group.sizeBytes)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{group.hits.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {stats?.groups.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              Nothing cached yet.
+            </div>
+          )}
+        </div>
+
+        {stats && stats.entries > 0 && (
+          <p className="text-sm text-gray-500 mt-4">
+            Oldest entry {formatDate(stats.oldestAt)} · last used {formatDate(stats.lastUsedAt)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Extraction Cache Admin API
+ * GET /api/admin/extraction-cache - Cache size and use per task, prompt version and model
+ * DELETE /api/admin/extraction-cache?scope=stale|all[&fileHash=] - Invalidate cached pages
+ * Only accessible to Admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { clearExtractionCache, getExtractionCacheStats } from '@/lib/extraction-cache';
+import { ExtractionCacheClearScope } from '@/types/extractionCache';
+import { UserRole } from '@/types/user';
+
+/**
+ * GET - Cache statistics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requireRole(request, [UserRole.ADMIN]);
+    if (response) return response;
+
+    const stats = await getExtractionCacheStats();
+    return NextResponse.json({ stats });
+  } catch (error) {
+    console.error('Error fetching extraction cache stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch extraction cache stats' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove stale entries (default), or all entries; either
+ * can be limited to one file with ?fileHash=
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await requireRole(request, [UserRole.ADMIN]);
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const scope = (searchParams.get('scope') || 'stale') as ExtractionCacheClearScope;
+    const fileHash = searchParams.get('fileHash') || undefined;
+
+    if (scope !== 'stale' && scope !== 'all') {
+      return NextResponse.json(
+        { error: 'scope must be "stale" or "all"' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await clearExtractionCache(scope, { fileHash });
+    console.log(`Extraction cache cleared by ${user.email}: ${deleted} ${scope} entries${fileHash ? ` for file ${fileHash}` : ''}`);
+
+    const stats = await getExtractionCacheStats();
+    return NextResponse.json({ deleted, stats });
+  } catch (error) {
+    console.error('Error clearing extraction cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear extraction cache' },
+      { status: 500 }
+    );
+  }
+}
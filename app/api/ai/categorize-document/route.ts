@@ -1,18 +1,20 @@
-import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { NextRequest, NextResponse } from 'next/server';
 import { readFile } from 'fs/promises';
 import path from 'path';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
+import { requirePermission } from '@/lib/route-guard';
+import { completeExtraction } from '@/lib/extraction-provider';
+import { Permission } from '@/types/permissions';
+import { ImageMediaType } from '@/types/extractionProvider';
 
 /**
  * POST /api/ai/categorize-document
  * Use Claude Vision to analyze a document and suggest bid package category
  */
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
+    const { response } = await requirePermission(request, [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
     const body = await request.json();
     const { imageUrl, fileName, fileType } = body;
 
@@ -91,21 +93,17 @@ Provide alternative categories if the document could reasonably fit multiple cat
 File name: ${fileName || 'Unknown'}
 File type: ${fileType || 'Unknown'}`;
 
-    // Call Claude API
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 1024,
+    // Call the vision model
+    const message = await completeExtraction({
+      task: 'categorize_document',
       messages: [
         {
           role: 'user',
           content: [
             {
               type: 'image',
-              source: {
-                type: 'base64',
-                media_type: mediaType as any,
-                data: base64Image
-              }
+              mediaType: mediaType as ImageMediaType,
+              data: base64Image
             },
             {
               type: 'text',
@@ -117,12 +115,11 @@ File type: ${fileType || 'Unknown'}`;
     });
 
     // Extract text response
-    const textContent = message.content.find((block: any) => block.type === 'text');
-    if (!textContent) {
-      throw new Error('No text content in Claude response');
+    if (!message.text) {
+      throw new Error('No text content in model response');
     }
 
-    let responseText = textContent.text.trim();
+    let responseText = message.text.trim();
 
     // Parse JSON from response (handle markdown code blocks)
     let categorization;
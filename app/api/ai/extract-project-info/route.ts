@@ -4,21 +4,51 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-import { readFile } from 'fs/promises';
 import path from 'path';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { requirePermission } from '@/lib/route-guard';
+import { completeExtraction } from '@/lib/extraction-provider';
+import { readUploadedFile } from '@/lib/file-utils';
+import { convertPDFToImages, extractPDFText, isPDFFile } from '@/lib/pdf-utils';
+import { Permission } from '@/types/permissions';
+import { ExtractionContent, ImageMediaType } from '@/types/extractionProvider';
 
 interface ProjectInfoExtractionRequest {
   documentUrls: string[];
   documentNames: string[];
 }
 
+// Pages of each PDF whose text layer is sent; project details sit on the first sheets
+const PDF_TEXT_PAGES = 3;
+const MAX_PDF_TEXT_LENGTH = 15000;
+
+/**
+ * The cover sheet of a PDF as an image, followed by the text layer of its
+ * first pages (which reads names, addresses and dates exactly)
+ */
+async function getPDFContents(buffer: Buffer, fileName: string): Promise<ExtractionContent[]> {
+  const [coverSheet] = await convertPDFToImages(buffer, { maxPages: 1, scale: 1.5 });
+  const contents: ExtractionContent[] = [{
+    type: 'image',
+    mediaType: 'image/png',
+    data: coverSheet.imageBuffer.toString('base64'),
+  }];
+
+  const text = await extractPDFText(buffer, PDF_TEXT_PAGES).catch(() => '');
+  if (text) {
+    contents.push({
+      type: 'text',
+      text: `Text layer of ${fileName} (first ${PDF_TEXT_PAGES} pages):\n${text.slice(0, MAX_PDF_TEXT_LENGTH)}`,
+    });
+  }
+
+  return contents;
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const access = await requirePermission(request, [Permission.UPLOAD_DIAGRAMS]);
+    if (access.response) return access.response;
+
     const body: ProjectInfoExtractionRequest = await request.json();
     const { documentUrls, documentNames } = body;
 
@@ -29,73 +59,47 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Prepare image content for Claude Vision API
-    // Note: Claude Vision API only supports image formats, not PDFs
-    const imageContents = [];
+    // Prepare content for the vision model: images as they are, PDFs as
+    // their first page's image plus the text layer of their first pages
+    const documentContents: ExtractionContent[] = [];
     const skippedFiles = [];
 
     for (let i = 0; i < documentUrls.length; i++) {
-      const imageUrl = documentUrls[i];
+      const documentUrl = documentUrls[i];
       const fileName = documentNames[i];
-      let imageData: string;
-      let mediaType: string;
 
-      if (imageUrl.startsWith('/uploads/')) {
-        // Read local file
-        const ext = path.extname(imageUrl).toLowerCase();
+      try {
+        const buffer = await readUploadedFile(documentUrl);
 
-        // Skip PDF files as Claude Vision doesn't support them
-        if (ext === '.pdf') {
-          skippedFiles.push(fileName);
+        if (isPDFFile(fileName) || isPDFFile(buffer)) {
+          documentContents.push(...await getPDFContents(buffer, fileName));
           continue;
         }
 
-        const filepath = path.join(process.cwd(), 'public', imageUrl);
-        const buffer = await readFile(filepath);
-        imageData = buffer.toString('base64');
-
         // Determine media type from file extension
-        mediaType = ext === '.png' ? 'image/png' :
-                   ext === '.jpg' || ext === '.jpeg' ? 'image/jpeg' :
+        const ext = path.extname(fileName || documentUrl).toLowerCase();
+        const mediaType: ImageMediaType = ext === '.png' ? 'image/png' :
                    ext === '.webp' ? 'image/webp' :
                    ext === '.gif' ? 'image/gif' :
                    'image/jpeg'; // Default to JPEG
-      } else {
-        // Fetch remote URL
-        const response = await fetch(imageUrl);
-        const buffer = await response.arrayBuffer();
-
-        // Get media type from response headers
-        const contentType = response.headers.get('content-type');
-
-        // Skip PDF files
-        if (contentType === 'application/pdf' || imageUrl.toLowerCase().endsWith('.pdf')) {
-          skippedFiles.push(fileName);
-          continue;
-        }
 
-        imageData = Buffer.from(buffer).toString('base64');
-        mediaType = contentType && contentType.startsWith('image/')
-          ? contentType
-          : 'image/jpeg'; // Default to JPEG
+        documentContents.push({
+          type: 'image',
+          mediaType,
+          data: buffer.toString('base64'),
+        });
+      } catch (error) {
+        console.error(`Could not read ${fileName} for project info extraction:`, error);
+        skippedFiles.push(fileName);
       }
-
-      imageContents.push({
-        type: 'image' as const,
-        source: {
-          type: 'base64' as const,
-          media_type: mediaType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
-          data: imageData,
-        },
-      });
     }
 
-    // If no valid images found (e.g., all PDFs), return an appropriate message
-    if (imageContents.length === 0) {
+    // If no document could be read, return an appropriate message
+    if (documentContents.length === 0) {
       return NextResponse.json({
         success: false,
-        error: 'No supported image files found',
-        message: 'PDF files are not currently supported for project info extraction. Please upload image files (PNG, JPG, WebP, GIF) instead.',
+        error: 'No readable documents found',
+        message: 'None of the documents could be read. Please upload PDF or image files (PNG, JPG, WebP, GIF).',
         skippedFiles
       });
     }
@@ -211,15 +215,14 @@ Return your analysis as a JSON object with this structure:
 
 IMPORTANT: Return ONLY the JSON object, no additional text. Use null for any fields that cannot be determined from the documents.`;
 
-    // Call Claude Vision API
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
+    // Call the vision model
+    const response = await completeExtraction({
+      task: 'project_info',
       messages: [
         {
           role: 'user',
           content: [
-            ...imageContents,
+            ...documentContents,
             {
               type: 'text',
               text: prompt,
@@ -230,23 +233,18 @@ IMPORTANT: Return ONLY the JSON object, no additional text. Use null for any fie
     });
 
     // Parse response
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude API');
-    }
-
     let extractedData;
     try {
       // Try to parse as direct JSON
-      extractedData = JSON.parse(content.text);
+      extractedData = JSON.parse(response.text);
     } catch (e) {
       // Try to extract JSON from markdown code block
-      const jsonMatch = content.text.match(/```json\n([\s\S]*?)\n```/);
+      const jsonMatch = response.text.match(/```json\n([\s\S]*?)\n```/);
       if (jsonMatch) {
         extractedData = JSON.parse(jsonMatch[1]);
       } else {
         // Try to find any JSON object in the response
-        const objectMatch = content.text.match(/\{[\s\S]*\}/);
+        const objectMatch = response.text.match(/\{[\s\S]*\}/);
         if (objectMatch) {
           extractedData = JSON.parse(objectMatch[0]);
         } else {
@@ -1,17 +1,22 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireBidFormAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
 
 /**
  * GET /api/bid-forms/[id]
  * Fetch a single bid form by ID with line items
  */
 export async function GET(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
+    const { response } = await requireBidFormAccess(request, id, 'view');
+    if (response) return response;
+
     const bidForm = await prisma.bidForm.findUnique({
       where: { id },
       include: {
@@ -47,11 +52,15 @@ export async function GET(
  * Update a bid form and its line items
  */
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+
+    const { response } = await requireBidFormAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
     const body = await request.json();
 
     const {
@@ -131,12 +140,15 @@ export async function PUT(
  * Delete a bid form (cascades to line items)
  */
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
+    const { response } = await requireBidFormAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
     await prisma.bidForm.delete({
       where: { id }
     });
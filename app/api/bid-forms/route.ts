@@ -1,11 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
 
 /**
  * POST /api/bid-forms
  * Create a new bid form with line items
  */
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
@@ -26,17 +28,9 @@ export async function POST(request: Request) {
       );
     }
 
-    // Verify bid package exists
-    const bidPackage = await prisma.bidPackage.findUnique({
-      where: { id: bidPackageId }
-    });
-
-    if (!bidPackage) {
-      return NextResponse.json(
-        { error: 'Bid package not found' },
-        { status: 404 }
-      );
-    }
+    // Verify bid package exists and the user can edit it
+    const { response } = await requireBidPackageAccess(request, bidPackageId, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
 
     // Verify diagram exists if provided
     if (diagramId) {
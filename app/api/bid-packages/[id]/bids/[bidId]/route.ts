@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { getBidPackageLineItems } from '@/lib/line-item-utils';
+import { canRecordBids, fromSubcontractorBidRow, toBidItemData, validateBidItems } from '@/lib/bid-leveling';
+import { normalizeBidPackageStatus } from '@/lib/bid-package-status';
+import { findPackageInvitation, markInvitationSubmitted } from '@/lib/bid-invitations';
+import { SubcontractorBidInput } from '@/types/bidLeveling';
+import { Permission, hasPermission } from '@/types/permissions';
+
+type RouteParams = { params: Promise<{ id: string; bidId: string }> };
+
+/**
+ * Load a bid and check it belongs to the bid package in the URL
+ */
+async function findPackageBid(bidPackageId: string, bidId: string) {
+  const bid = await prisma.subcontractorBid.findUnique({
+    where: { id: bidId },
+    include: { bidPackage: { select: { status: true } } }
+  });
+  return bid && bid.bidPackageId === bidPackageId ? bid : null;
+}
+
+/**
+ * PUT /api/bid-packages/[id]/bids/[bidId]
+ * Update a subcontractor bid; `items` replaces all item prices.
+ * Setting `isRecommended` (Precon Lead / Admin) clears it on the package's other bids.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, bidId } = await params;
+
+    const { user, response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const existing = await findPackageBid(id, bidId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Bid not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canRecordBids(normalizeBidPackageStatus(existing.bidPackage.status))) {
+      return NextResponse.json(
+        { error: 'Bids can only be changed while the bid package is bidding or being leveled' },
+        { status: 400 }
+      );
+    }
+
+    const body: SubcontractorBidInput = await request.json();
+    const {
+      bidderName,
+      invitationId,
+      contactName,
+      contactEmail,
+      baseBidAmount,
+      exclusions,
+      alternates,
+      notes,
+      items,
+      isRecommended
+    } = body;
+
+    // Only leads pick the recommended bidder
+    if (isRecommended !== undefined && !hasPermission(user.role, Permission.MANAGE_BID_PACKAGES)) {
+      return NextResponse.json(
+        { error: 'Forbidden - insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    if (bidderName !== undefined && !bidderName.trim()) {
+      return NextResponse.json(
+        { error: 'bidderName cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (items !== undefined && items !== null) {
+      const itemsError = validateBidItems(items);
+      if (itemsError) {
+        return NextResponse.json(
+          { error: itemsError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (invitationId && !(await findPackageInvitation(id, invitationId))) {
+      return NextResponse.json(
+        { error: 'Invitation not found for this bid package' },
+        { status: 400 }
+      );
+    }
+
+    const lineItemIds = items !== undefined
+      ? new Set((await getBidPackageLineItems(id)).map(item => item.id as string))
+      : null;
+
+    const bid = await prisma.$transaction(async (tx) => {
+      if (isRecommended) {
+        await tx.subcontractorBid.updateMany({
+          where: { bidPackageId: id, id: { not: bidId } },
+          data: { isRecommended: false }
+        });
+      }
+
+      if (items !== undefined && lineItemIds) {
+        await tx.subcontractorBidItem.deleteMany({ where: { bidId } });
+      }
+
+      return tx.subcontractorBid.update({
+        where: { id: bidId },
+        data: {
+          ...(bidderName !== undefined && { bidderName: bidderName.trim() }),
+          ...(invitationId !== undefined && { invitationId: invitationId || null }),
+          ...(contactName !== undefined && { contactName: contactName || null }),
+          ...(contactEmail !== undefined && { contactEmail: contactEmail || null }),
+          ...(baseBidAmount !== undefined && { baseBidAmount }),
+          ...(exclusions !== undefined && { exclusions: exclusions || null }),
+          ...(alternates !== undefined && {
+            alternates: alternates && alternates.length > 0 ? JSON.stringify(alternates) : null
+          }),
+          ...(notes !== undefined && { notes: notes || null }),
+          ...(isRecommended !== undefined && { isRecommended }),
+          ...(items !== undefined && lineItemIds && {
+            items: { create: toBidItemData(items || [], lineItemIds) }
+          })
+        },
+        include: { items: true }
+      });
+    });
+
+    if (bid.invitationId && bid.invitationId !== existing.invitationId) {
+      await markInvitationSubmitted(bid.invitationId);
+    }
+
+    return NextResponse.json({ bid: fromSubcontractorBidRow(bid) });
+  } catch (error) {
+    console.error('Error updating subcontractor bid:', error);
+    return NextResponse.json(
+      { error: 'Failed to update subcontractor bid' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bid-packages/[id]/bids/[bidId]
+ * Delete a subcontractor bid and its item prices
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, bidId } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const existing = await findPackageBid(id, bidId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Bid not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canRecordBids(normalizeBidPackageStatus(existing.bidPackage.status))) {
+      return NextResponse.json(
+        { error: 'Bids can only be changed while the bid package is bidding or being leveled' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.subcontractorBid.delete({
+      where: { id: bidId }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting subcontractor bid:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete subcontractor bid' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { getBidPackageLineItems } from '@/lib/line-item-utils';
+import {
+  buildLevelingComparison,
+  canRecordBids,
+  fromSubcontractorBidRow,
+  getSubcontractorBids,
+  toBidItemData,
+  validateBidItems
+} from '@/lib/bid-leveling';
+import { normalizeBidPackageStatus } from '@/lib/bid-package-status';
+import { findPackageInvitation, markInvitationSubmitted } from '@/lib/bid-invitations';
+import { SubcontractorBidInput } from '@/types/bidLeveling';
+import { Permission } from '@/types/permissions';
+
+/**
+ * GET /api/bid-packages/[id]/bids
+ * Fetch all subcontractor bids for a bid package with the leveling comparison
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const [lineItems, bids] = await Promise.all([
+      getBidPackageLineItems(id),
+      getSubcontractorBids(id)
+    ]);
+
+    return NextResponse.json({
+      bids,
+      comparison: buildLevelingComparison(lineItems, bids)
+    });
+  } catch (error) {
+    console.error('Error fetching subcontractor bids:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subcontractor bids' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bid-packages/[id]/bids
+ * Record a subcontractor bid against the package's line items
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const body: SubcontractorBidInput = await request.json();
+    const {
+      bidderName,
+      invitationId,
+      contactName,
+      contactEmail,
+      baseBidAmount,
+      exclusions,
+      alternates,
+      notes,
+      items
+    } = body;
+
+    if (!bidderName?.trim()) {
+      return NextResponse.json(
+        { error: 'bidderName is required' },
+        { status: 400 }
+      );
+    }
+
+    const bidPackage = await prisma.bidPackage.findUnique({
+      where: { id },
+      select: { status: true }
+    });
+
+    if (items !== undefined && items !== null) {
+      const itemsError = validateBidItems(items);
+      if (itemsError) {
+        return NextResponse.json(
+          { error: itemsError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!bidPackage || !canRecordBids(normalizeBidPackageStatus(bidPackage.status))) {
+      return NextResponse.json(
+        { error: 'Bids can only be recorded while the bid package is bidding or being leveled' },
+        { status: 400 }
+      );
+    }
+
+    if (invitationId && !(await findPackageInvitation(id, invitationId))) {
+      return NextResponse.json(
+        { error: 'Invitation not found for this bid package' },
+        { status: 400 }
+      );
+    }
+
+    const lineItems = await getBidPackageLineItems(id);
+    const lineItemIds = new Set(lineItems.map(item => item.id as string));
+
+    const bid = await prisma.subcontractorBid.create({
+      data: {
+        bidPackageId: id,
+        bidderName: bidderName.trim(),
+        invitationId: invitationId || null,
+        contactName: contactName || null,
+        contactEmail: contactEmail || null,
+        baseBidAmount: baseBidAmount ?? null,
+        exclusions: exclusions || null,
+        alternates: alternates && alternates.length > 0 ? JSON.stringify(alternates) : null,
+        notes: notes || null,
+        items: {
+          create: toBidItemData(items || [], lineItemIds)
+        }
+      },
+      include: { items: true }
+    });
+
+    if (bid.invitationId) {
+      await markInvitationSubmitted(bid.invitationId);
+    }
+
+    return NextResponse.json({ bid: fromSubcontractorBidRow(bid) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating subcontractor bid:', error);
+    return NextResponse.json(
+      { error: 'Failed to create subcontractor bid' },
+      { status: 500 }
+    );
+  }
+}
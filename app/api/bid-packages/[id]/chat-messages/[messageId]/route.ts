@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { fromChatMessageRow, setChatMessageChangeStatuses } from '@/lib/chat-threads';
+import { Permission } from '@/types/permissions';
+
+/**
+ * PATCH /api/bid-packages/[id]/chat-messages/[messageId]
+ * Reject proposed changes of a chat message (only pending ones)
+ * Body: { rejectChangeIndexes }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    const { id, messageId } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const { rejectChangeIndexes } = await request.json();
+    if (!Array.isArray(rejectChangeIndexes)) {
+      return NextResponse.json({ error: 'rejectChangeIndexes is required' }, { status: 400 });
+    }
+
+    const row = await prisma.chatMessage.findFirst({
+      where: { id: messageId, thread: { bidPackageId: id } },
+    });
+    if (!row) {
+      return NextResponse.json({ error: 'Chat message not found' }, { status: 404 });
+    }
+
+    const current = fromChatMessageRow(row);
+    const pendingIndexes = rejectChangeIndexes.filter((index: unknown) =>
+      typeof index === 'number' && (current.changeStatuses?.[index] ?? 'pending') === 'pending'
+    );
+    const message = await setChatMessageChangeStatuses(messageId, pendingIndexes, 'rejected');
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    console.error('Error updating chat message:', error);
+    return NextResponse.json(
+      { error: 'Failed to update chat message' },
+      { status: 500 }
+    );
+  }
+}
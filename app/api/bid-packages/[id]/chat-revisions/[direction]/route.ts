@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { stepChatRevisions } from '@/lib/chat-revisions';
+import { Permission } from '@/types/permissions';
+
+/**
+ * POST /api/bid-packages/[id]/chat-revisions/undo
+ * POST /api/bid-packages/[id]/chat-revisions/redo
+ * Undo the latest `count` chat revisions, or redo the `count` most recently
+ * undone ones
+ * Body: { count } (optional; defaults to 1)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; direction: string }> }
+) {
+  try {
+    const { id, direction } = await params;
+    if (direction !== 'undo' && direction !== 'redo') {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const { user, response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    // An empty body steps one revision
+    const { count = 1 } = await request.json().catch(() => ({}));
+    if (!Number.isInteger(count) || count < 1) {
+      return NextResponse.json(
+        { error: 'count must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    const result = await stepChatRevisions(id, direction, count, user);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: `Could not ${direction} the chat changes`, errors: result.errors },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error stepping chat revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to update chat revisions' },
+      { status: 500 }
+    );
+  }
+}
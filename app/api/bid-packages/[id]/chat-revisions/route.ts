@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { applyChatChanges, getChatRevisions } from '@/lib/chat-revisions';
+import { Permission } from '@/types/permissions';
+
+/**
+ * GET /api/bid-packages/[id]/chat-revisions
+ * Chat-applied revisions of the package's line items, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const revisions = await getChatRevisions(id);
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error('Error fetching chat revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chat revisions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bid-packages/[id]/chat-revisions
+ * Apply the chosen proposed changes of a chat message as one revision
+ * Body: { messageId, changeIndexes }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { user, response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const { messageId, changeIndexes } = await request.json();
+    if (typeof messageId !== 'string' || !Array.isArray(changeIndexes)) {
+      return NextResponse.json(
+        { error: 'messageId and changeIndexes are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyChatChanges(id, { messageId, changeIndexes }, user);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Some changes could not be applied', errors: result.errors },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error applying chat changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply chat changes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { getChatThread } from '@/lib/chat-threads';
+import { Permission, hasPermission } from '@/types/permissions';
+
+/**
+ * GET /api/bid-packages/[id]/chat-threads/[threadId]
+ * A chat thread with all its messages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const { id, threadId } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const result = await getChatThread(id, threadId);
+    if (!result) {
+      return NextResponse.json({ error: 'Chat thread not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching chat thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chat thread' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/bid-packages/[id]/chat-threads/[threadId]
+ * Rename a chat thread
+ * Body: { title }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const { id, threadId } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const { title } = await request.json();
+    if (typeof title !== 'string' || !title.trim()) {
+      return NextResponse.json({ error: 'A title is required' }, { status: 400 });
+    }
+
+    const { count } = await prisma.chatThread.updateMany({
+      where: { id: threadId, bidPackageId: id },
+      data: { title: title.trim() },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: 'Chat thread not found' }, { status: 404 });
+    }
+
+    const result = await getChatThread(id, threadId);
+    return NextResponse.json({ thread: result?.thread });
+  } catch (error) {
+    console.error('Error renaming chat thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename chat thread' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bid-packages/[id]/chat-threads/[threadId]
+ * Delete a chat thread and its messages (its creator, or package managers)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  try {
+    const { id, threadId } = await params;
+
+    const { user, response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const thread = await prisma.chatThread.findFirst({
+      where: { id: threadId, bidPackageId: id },
+      select: { createdById: true },
+    });
+    if (!thread) {
+      return NextResponse.json({ error: 'Chat thread not found' }, { status: 404 });
+    }
+
+    if (thread.createdById !== user.id && !hasPermission(user.role, Permission.MANAGE_BID_PACKAGES)) {
+      return NextResponse.json(
+        { error: 'Forbidden - insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.chatThread.delete({ where: { id: threadId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting chat thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete chat thread' },
+      { status: 500 }
+    );
+  }
+}
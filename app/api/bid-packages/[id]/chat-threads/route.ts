@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { createChatThread, getChatThreads, searchChatThreads } from '@/lib/chat-threads';
+import { Permission } from '@/types/permissions';
+
+/**
+ * GET /api/bid-packages/[id]/chat-threads
+ * Chat threads of the package, most recently active first
+ * (?q= searches thread titles and messages)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const query = request.nextUrl.searchParams.get('q')?.trim();
+    const threads = query
+      ? await searchChatThreads(id, query)
+      : await getChatThreads(id);
+
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error('Error fetching chat threads:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch chat threads' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bid-packages/[id]/chat-threads
+ * Start a new chat thread
+ * Body: { title? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { user, response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const body = await request.json().catch(() => ({}));
+    const thread = await createChatThread(id, typeof body.title === 'string' ? body.title : '', user);
+
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating chat thread:', error);
+    return NextResponse.json(
+      { error: 'Failed to create chat thread' },
+      { status: 500 }
+    );
+  }
+}
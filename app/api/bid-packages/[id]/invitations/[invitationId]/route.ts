@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import {
+  fromBidInvitationRow,
+  getStatusTimestamps,
+  isBidInvitationStatus
+} from '@/lib/bid-invitations';
+import { Permission } from '@/types/permissions';
+import { UpdateBidInvitationInput } from '@/types/bidInvitation';
+
+/**
+ * PUT /api/bid-packages/[id]/invitations/[invitationId]
+ * Update an invitee's status (e.g. logged from a phone call) or contact
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const { id, invitationId } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.MANAGE_BID_PACKAGES]);
+    if (response) return response;
+
+    const body: UpdateBidInvitationInput = await request.json();
+    const { status, declineReason, contactName, contactEmail } = body;
+
+    if (status !== undefined && !isBidInvitationStatus(status)) {
+      return NextResponse.json(
+        { error: `Invalid invitation status "${status}"` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.bidInvitation.findFirst({
+      where: { id: invitationId, bidPackageId: id }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    const invitation = await prisma.bidInvitation.update({
+      where: { id: invitationId },
+      data: {
+        ...(status !== undefined && status !== existing.status && {
+          status,
+          ...getStatusTimestamps(status)
+        }),
+        ...(declineReason !== undefined && { declineReason: declineReason || null }),
+        ...(contactName !== undefined && { contactName: contactName || null }),
+        ...(contactEmail !== undefined && { contactEmail: contactEmail || null })
+      }
+    });
+
+    return NextResponse.json({ invitation: fromBidInvitationRow(invitation) });
+  } catch (error) {
+    console.error('Error updating bid invitation:', error);
+    return NextResponse.json(
+      { error: 'Failed to update bid invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/bid-packages/[id]/invitations/[invitationId]
+ * Withdraw an invitation
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const { id, invitationId } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.MANAGE_BID_PACKAGES]);
+    if (response) return response;
+
+    const result = await prisma.bidInvitation.deleteMany({
+      where: { id: invitationId, bidPackageId: id }
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting bid invitation:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete bid invitation' },
+      { status: 500 }
+    );
+  }
+}
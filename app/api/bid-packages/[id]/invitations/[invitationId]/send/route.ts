@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { sendBidInvitation } from '@/lib/bid-invitations';
+import { Permission } from '@/types/permissions';
+
+/**
+ * POST /api/bid-packages/[id]/invitations/[invitationId]/send
+ * Email (or re-send) an invitation's packet link
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const { id, invitationId } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.MANAGE_BID_PACKAGES]);
+    if (response) return response;
+
+    const existing = await prisma.bidInvitation.findFirst({
+      where: { id: invitationId, bidPackageId: id },
+      select: { id: true, contactEmail: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!existing.contactEmail) {
+      return NextResponse.json(
+        { error: 'Invitation has no contact email' },
+        { status: 400 }
+      );
+    }
+
+    const invitation = await sendBidInvitation(invitationId, new URL(request.url).origin);
+
+    return NextResponse.json({ invitation });
+  } catch (error) {
+    console.error('Error sending bid invitation:', error);
+    return NextResponse.json(
+      { error: 'Failed to send bid invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { getInvitationPacket } from '@/lib/bid-invitations';
+
+/**
+ * GET /api/bid-packages/[id]/invitations/packet
+ * Preview the invitation packet (approved scope, diagrams, due date)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const packet = await getInvitationPacket(id);
+
+    if (!packet) {
+      return NextResponse.json(
+        { error: 'Bid package not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ packet });
+  } catch (error) {
+    console.error('Error building invitation packet:', error);
+    return NextResponse.json(
+      { error: 'Failed to build invitation packet' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import {
+  canSendInvitations,
+  fromBidInvitationRow,
+  generateInvitationToken,
+  resolveInvitees,
+  sendBidInvitation
+} from '@/lib/bid-invitations';
+import { Permission } from '@/types/permissions';
+import { BidInvitation, CreateBidInvitationsInput } from '@/types/bidInvitation';
+
+/**
+ * GET /api/bid-packages/[id]/invitations
+ * List invitations to bid for a bid package
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const invitations = await prisma.bidInvitation.findMany({
+      where: { bidPackageId: id },
+      orderBy: { companyName: 'asc' }
+    });
+
+    return NextResponse.json({ invitations: invitations.map(fromBidInvitationRow) });
+  } catch (error) {
+    console.error('Error fetching bid invitations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bid invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/bid-packages/[id]/invitations
+ * Invite subcontractors to bid and (by default) email them the packet link
+ * Returns the invitations plus any that could not be emailed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { user, response } = await requireBidPackageAccess(request, id, 'edit', [Permission.MANAGE_BID_PACKAGES]);
+    if (response) return response;
+
+    const body: CreateBidInvitationsInput = await request.json();
+    const { invitees, dueDate, instructions, send = true } = body;
+
+    if (!Array.isArray(invitees) || invitees.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one invitee is required' },
+        { status: 400 }
+      );
+    }
+
+    const bidPackage = await prisma.bidPackage.findUnique({
+      where: { id },
+      select: { status: true, bidDueDate: true }
+    });
+
+    if (!bidPackage || !canSendInvitations(bidPackage.status)) {
+      return NextResponse.json(
+        { error: 'Invitations can only be sent once the bid package is out to bid' },
+        { status: 400 }
+      );
+    }
+
+    let resolved;
+    try {
+      resolved = await resolveInvitees(invitees);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid invitees' },
+        { status: 400 }
+      );
+    }
+
+    const created = await prisma.$transaction(
+      resolved.map(invitee => prisma.bidInvitation.create({
+        data: {
+          bidPackageId: id,
+          ...invitee,
+          token: generateInvitationToken(),
+          dueDate: dueDate ? new Date(dueDate) : bidPackage.bidDueDate,
+          instructions: instructions || null,
+          invitedById: user.id
+        }
+      }))
+    );
+
+    let invitations: BidInvitation[] = created.map(fromBidInvitationRow);
+    const failures: { invitationId: string; companyName: string; error: string }[] = [];
+
+    if (send) {
+      const baseUrl = new URL(request.url).origin;
+      invitations = [];
+      for (const invitation of created) {
+        try {
+          invitations.push(await sendBidInvitation(invitation.id, baseUrl));
+        } catch (error) {
+          console.error('Error sending bid invitation:', error);
+          invitations.push(fromBidInvitationRow(invitation));
+          failures.push({
+            invitationId: invitation.id,
+            companyName: invitation.companyName,
+            error: error instanceof Error ? error.message : 'Failed to send invitation'
+          });
+        }
+      }
+    }
+
+    return NextResponse.json({ invitations, failures }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating bid invitations:', error);
+    return NextResponse.json(
+      { error: 'Failed to create bid invitations' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,29 +1,37 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-
-/**
- * Calculate approval percentage from line items
- */
-function calculateApprovalPercentage(lineItems: any[]): number {
-  if (!lineItems || lineItems.length === 0) {
-    return 0;
-  }
-
-  const approvedCount = lineItems.filter(item => item.approved === true).length;
-  return Math.round((approvedCount / lineItems.length) * 100);
-}
+import {
+  calculateApprovalPercentage,
+  getBidPackageLineItems,
+  syncBidPackageLineItems
+} from '@/lib/line-item-utils';
+import { getChangeContext } from '@/lib/line-item-history';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import {
+  applyAutomaticStatusTransition,
+  checkStatusTransition,
+  getStatusTransitions,
+  normalizeBidPackageStatus,
+  transitionBidPackageStatus
+} from '@/lib/bid-package-status';
+import { captureCompletedPackageCosts, removePackageCosts } from '@/lib/cost-library';
+import { parseSheetIds } from '@/lib/diagram-sheets';
+import { Permission, hasPermission } from '@/types/permissions';
 
 /**
  * GET /api/bid-packages/[id]
  * Fetch a single bid package by ID with all relations
  */
 export async function GET(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
     const bidPackage = await prisma.bidPackage.findUnique({
       where: { id },
       include: {
@@ -62,28 +70,19 @@ export async function GET(
       );
     }
 
-    // Calculate progress from workspaceData if not already set
-    if (bidPackage.workspaceData && (bidPackage.progress === null || bidPackage.progress === undefined)) {
-      try {
-        const workspaceData = JSON.parse(bidPackage.workspaceData);
-        if (workspaceData.lineItems && Array.isArray(workspaceData.lineItems)) {
-          const calculatedProgress = calculateApprovalPercentage(workspaceData.lineItems);
-
-          // Update in database
-          await prisma.bidPackage.update({
-            where: { id: bidPackage.id },
-            data: { progress: calculatedProgress }
-          });
-
-          // Update returned object
-          bidPackage.progress = calculatedProgress;
-        }
-      } catch (error) {
-        console.error('Error calculating progress from workspaceData:', error);
-      }
-    }
+    // Line items across all bid forms, in workspace shape and order
+    const lineItems = await getBidPackageLineItems(id);
+    const statusTransitions = await getStatusTransitions(id);
 
-    return NextResponse.json({ bidPackage });
+    return NextResponse.json({
+      bidPackage: {
+        ...bidPackage,
+        status: normalizeBidPackageStatus(bidPackage.status),
+        sheetIds: parseSheetIds(bidPackage.sheetIds),
+        lineItems,
+        statusTransitions
+      }
+    });
   } catch (error) {
     console.error('Error fetching bid package:', error);
     return NextResponse.json(
@@ -98,11 +97,15 @@ export async function GET(
  * Update a bid package
  */
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+
+    const { user, response } = await requireBidPackageAccess(request, id, 'edit');
+    if (response) return response;
+
     const body = await request.json();
 
     const {
@@ -113,57 +116,139 @@ export async function PUT(
       status,
       progress,
       diagramIds,
+      sheetIds,
       captainId,
       captainName,
       budgetAmount,
       location,
       lineItems,
-      chatMessages
+      changeSource
     } = body;
 
-    // Prepare workspace data if lineItems or chatMessages are provided
-    let workspaceData = undefined;
-    if (lineItems !== undefined || chatMessages !== undefined) {
-      workspaceData = JSON.stringify({
-        lineItems: lineItems || [],
-        chatMessages: chatMessages || []
-      });
+    // Editing line items and reassigning the captain need their own permissions
+    if (lineItems !== undefined && !hasPermission(user.role, Permission.EDIT_LINE_ITEMS)) {
+      return NextResponse.json(
+        { error: 'Forbidden - insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    const current = await prisma.bidPackage.findUnique({
+      where: { id },
+      select: { status: true, captainId: true }
+    });
+
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Bid package not found' },
+        { status: 404 }
+      );
+    }
+
+    if (
+      captainId !== undefined &&
+      current.captainId !== captainId &&
+      !hasPermission(user.role, Permission.MANAGE_ASSIGNMENTS)
+    ) {
+      return NextResponse.json(
+        { error: 'Forbidden - insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    // Status changes must follow the workflow (lib/bid-package-status.ts)
+    const currentStatus = normalizeBidPackageStatus(current.status);
+    const requestedStatus = status !== undefined && status !== currentStatus ? status : undefined;
+    if (requestedStatus !== undefined) {
+      const check = checkStatusTransition(currentStatus, requestedStatus, user.role);
+      if (!check.allowed) {
+        return NextResponse.json(
+          { error: check.message },
+          { status: check.reason === 'forbidden' ? 403 : 400 }
+        );
+      }
     }
 
     // Auto-calculate progress from line items if provided (unless explicitly set)
     let calculatedProgress = progress;
     if (lineItems !== undefined && progress === undefined) {
-      calculatedProgress = calculateApprovalPercentage(lineItems);
-      console.log(`Auto-calculated progress: ${calculatedProgress}% (${lineItems.filter((i: any) => i.approved).length}/${lineItems.length} approved)`);
+      calculatedProgress = calculateApprovalPercentage(lineItems || []);
     }
 
-    const bidPackage = await prisma.bidPackage.update({
-      where: { id },
-      data: {
-        ...(name && { name }),
-        ...(description !== undefined && { description }),
-        ...(scope !== undefined && { scope }),
-        ...(bidDueDate !== undefined && { bidDueDate: bidDueDate ? new Date(bidDueDate) : null }),
-        ...(status && { status }),
-        ...(calculatedProgress !== undefined && { progress: calculatedProgress }),
-        ...(diagramIds !== undefined && { diagramIds: diagramIds ? JSON.stringify(diagramIds) : null }),
-        ...(captainId !== undefined && { captainId }),
-        ...(captainName !== undefined && { captainName }),
-        ...(workspaceData !== undefined && { workspaceData }),
-        ...(budgetAmount !== undefined && { budgetAmount }),
-        ...(location !== undefined && { location })
-      },
-      include: {
-        captain: true,
-        bidForms: {
-          include: {
-            lineItems: true
-          }
+    // Attribute line item edits to the current user and the surface they came from
+    const changeContext = lineItems !== undefined
+      ? getChangeContext(user, changeSource)
+      : undefined;
+
+    // New items whose IDs were already taken are saved under new IDs
+    let lineItemIdMap = new Map<string, string>();
+
+    const bidPackage = await prisma.$transaction(async (tx) => {
+      if (lineItems !== undefined) {
+        ({ idMap: lineItemIdMap } = await syncBidPackageLineItems(id, lineItems || [], tx, changeContext));
+      }
+
+      if (requestedStatus !== undefined) {
+        await transitionBidPackageStatus(id, currentStatus, requestedStatus, 'manual', user, tx);
+      }
+
+      await tx.bidPackage.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(description !== undefined && { description }),
+          ...(scope !== undefined && { scope }),
+          ...(bidDueDate !== undefined && { bidDueDate: bidDueDate ? new Date(bidDueDate) : null }),
+          ...(calculatedProgress !== undefined && { progress: calculatedProgress }),
+          ...(diagramIds !== undefined && { diagramIds: diagramIds ? JSON.stringify(diagramIds) : null }),
+          ...(sheetIds !== undefined && { sheetIds: sheetIds ? JSON.stringify(sheetIds) : null }),
+          ...(captainId !== undefined && { captainId }),
+          ...(captainName !== undefined && { captainName }),
+          ...(budgetAmount !== undefined && { budgetAmount }),
+          ...(location !== undefined && { location })
         }
+      });
+
+      // Completed packages feed the cost library; reopening withdraws their prices
+      if (requestedStatus === 'completed') {
+        await captureCompletedPackageCosts(id, tx);
+      } else if (requestedStatus !== undefined && currentStatus === 'completed') {
+        await removePackageCosts(id, tx);
+      }
+
+      // Captain and approval changes move the package along on their own,
+      // unless the user chose a status explicitly
+      if (requestedStatus === undefined) {
+        await applyAutomaticStatusTransition(id, user, tx);
       }
+
+      return tx.bidPackage.findUniqueOrThrow({
+        where: { id },
+        include: {
+          captain: true,
+          bidForms: {
+            include: {
+              lineItems: {
+                orderBy: {
+                  order: 'asc'
+                }
+              }
+            }
+          }
+        }
+      });
     });
 
-    return NextResponse.json({ bidPackage });
+    const updatedLineItems = await getBidPackageLineItems(id);
+
+    return NextResponse.json({
+      bidPackage: {
+        ...bidPackage,
+        status: normalizeBidPackageStatus(bidPackage.status),
+        lineItems: updatedLineItems
+      },
+      lineItemIdMap: Object.fromEntries(lineItemIdMap)
+    });
   } catch (error: any) {
     console.error('Error updating bid package:', error);
 
@@ -186,12 +271,15 @@ export async function PUT(
  * Delete a bid package (cascades to bid forms and line items)
  */
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
+    const { response } = await requireBidPackageAccess(request, id, 'edit', [Permission.MANAGE_BID_PACKAGES]);
+    if (response) return response;
+
     await prisma.bidPackage.delete({
       where: { id }
     });
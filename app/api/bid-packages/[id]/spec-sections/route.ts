@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { getBidPackageSpecSections } from '@/lib/spec-books';
+
+/**
+ * GET /api/bid-packages/[id]/spec-sections
+ * Spec sections from the project's spec books that cover the CSI codes of
+ * the package's line items, with their text
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const sections = await getBidPackageSpecSections(id, { includeContent: true });
+
+    return NextResponse.json({ sections });
+  } catch (error) {
+    console.error('Error fetching bid package spec sections:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bid package spec sections' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { suggestSubcontractorsForBidPackage } from '@/lib/subcontractor-utils';
+
+/**
+ * GET /api/bid-packages/[id]/suggested-subcontractors
+ * Subcontractors whose trades / CSI divisions cover the package's line items, best match first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireBidPackageAccess(request, id, 'view');
+    if (response) return response;
+
+    const suggestions = await suggestSubcontractorsForBidPackage(id);
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error('Error suggesting subcontractors:', error);
+    return NextResponse.json(
+      { error: 'Failed to suggest subcontractors' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-
-/**
- * Calculate approval percentage from line items
- */
-function calculateApprovalPercentage(lineItems: any[]): number {
-  if (!lineItems || lineItems.length === 0) {
-    return 0;
-  }
-
-  const approvedCount = lineItems.filter(item => item.approved === true).length;
-  return Math.round((approvedCount / lineItems.length) * 100);
-}
+import { reallocateLineItem } from '@/lib/line-item-utils';
+import { getChangeContext } from '@/lib/line-item-history';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
 
 /**
  * POST /api/bid-packages/reallocate
  * Move a line item from one bid package to another
  */
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { itemId, sourcePackageId, targetPackageId, item } = body;
@@ -29,6 +21,13 @@ export async function POST(request: Request) {
       );
     }
 
+    // The user must be able to edit both packages
+    const sourceAccess = await requireBidPackageAccess(request, sourcePackageId, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (sourceAccess.response) return sourceAccess.response;
+
+    const targetAccess = await requireBidPackageAccess(request, targetPackageId, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (targetAccess.response) return targetAccess.response;
+
     // Get target package
     const targetPackage = await prisma.bidPackage.findUnique({
       where: { id: targetPackageId }
@@ -41,46 +40,17 @@ export async function POST(request: Request) {
       );
     }
 
-    // Parse target package workspace data
-    let targetWorkspaceData: { lineItems: any[]; chatMessages: any[] } = {
-      lineItems: [],
-      chatMessages: []
-    };
+    const changeContext = getChangeContext(sourceAccess.user, 'reallocation');
 
-    if (targetPackage.workspaceData) {
-      try {
-        targetWorkspaceData = JSON.parse(targetPackage.workspaceData);
-      } catch (e) {
-        console.error('Failed to parse target workspace data:', e);
-      }
-    }
-
-    // Add the item to the target package
-    const newItem = {
-      ...item,
-      id: item.id || `reallocated-${Date.now()}`,
-      approved: false, // Reset approval status when reallocating
-    };
-
-    targetWorkspaceData.lineItems.push(newItem);
-
-    // Calculate progress for target package
-    const targetProgress = calculateApprovalPercentage(targetWorkspaceData.lineItems);
-
-    // Update target package with new item
-    await prisma.bidPackage.update({
-      where: { id: targetPackageId },
-      data: {
-        workspaceData: JSON.stringify(targetWorkspaceData),
-        progress: targetProgress
-      }
-    });
+    const movedItemId = await prisma.$transaction(tx =>
+      reallocateLineItem({ itemId, sourcePackageId, targetPackageId, item }, changeContext, tx)
+    );
 
     return NextResponse.json({
       success: true,
       message: `Item moved to ${targetPackage.name}`,
       targetPackageId,
-      itemId: newItem.id
+      itemId: movedItemId
     });
   } catch (error) {
     console.error('Error reallocating item:', error);
@@ -1,11 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { accessibleBidPackagesWhere, requireProjectAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
+import { LineItemInput, toLineItemData } from '@/lib/line-item-utils';
+import { INITIAL_BID_PACKAGE_STATUS, applyAutomaticStatusTransition } from '@/lib/bid-package-status';
 
 /**
  * GET /api/bid-packages
  * Get all bid packages for a project
  */
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const bcProjectId = searchParams.get('bcProjectId');
@@ -17,8 +21,11 @@ export async function GET(request: Request) {
       );
     }
 
+    const { user, response } = await requireProjectAccess(request, bcProjectId, 'view');
+    if (response) return response;
+
     const bidPackages = await prisma.bidPackage.findMany({
-      where: { bcProjectId },
+      where: { bcProjectId, ...accessibleBidPackagesWhere(user) },
       include: {
         bidForms: {
           include: {
@@ -50,7 +57,7 @@ export async function GET(request: Request) {
  * POST /api/bid-packages
  * Create a new bid package
  */
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
@@ -59,9 +66,9 @@ export async function POST(request: Request) {
       bcProjectId,
       name,
       bidDueDate,
-      status,
       progress,
       diagramIds,
+      sheetIds,
       lineItems // NEW: Support creating line items in same call
     } = body;
 
@@ -73,17 +80,9 @@ export async function POST(request: Request) {
       );
     }
 
-    // Verify project exists
-    const project = await prisma.buildingConnectedProject.findUnique({
-      where: { id: bcProjectId }
-    });
-
-    if (!project) {
-      return NextResponse.json(
-        { error: 'Project not found' },
-        { status: 404 }
-      );
-    }
+    // Verify project exists and the user can add packages to it
+    const { user, response } = await requireProjectAccess(request, bcProjectId, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
 
     // Create bid package
     const bidPackage = await prisma.bidPackage.create({
@@ -92,9 +91,10 @@ export async function POST(request: Request) {
         bcProjectId,
         name,
         bidDueDate: bidDueDate ? new Date(bidDueDate) : null,
-        status: status || 'draft',
+        status: INITIAL_BID_PACKAGE_STATUS,
         progress: progress || 0,
-        diagramIds: diagramIds ? JSON.stringify(diagramIds) : null
+        diagramIds: diagramIds ? JSON.stringify(diagramIds) : null,
+        sheetIds: sheetIds ? JSON.stringify(sheetIds) : null
       },
       include: {
         bidForms: true
@@ -112,7 +112,7 @@ export async function POST(request: Request) {
           extractionConfidence: 'high',
           status: 'draft',
           lineItems: {
-            create: lineItems
+            create: (lineItems as LineItemInput[]).map((item, index) => toLineItemData(item, index))
           }
         },
         include: {
@@ -123,6 +123,9 @@ export async function POST(request: Request) {
           }
         }
       });
+
+      // Pre-approved items put the package straight into progress
+      await applyAutomaticStatusTransition(bidPackage.id, user);
     }
 
     // Fetch the complete bid package with forms and line items
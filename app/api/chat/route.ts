@@ -1,36 +1,91 @@
-import { NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
+import { NextRequest, NextResponse } from 'next/server';
 import { readFile } from 'fs/promises';
 import path from 'path';
-import { ChatRequest, ChatResponse, ProposedChange } from '@/types/chat';
-
-export async function POST(request: Request) {
+import { requireBidPackageAccess, requirePermission } from '@/lib/route-guard';
+import { completeExtraction, getExtractionProviderError } from '@/lib/extraction-provider';
+import { getBidPackageSpecSections } from '@/lib/spec-books';
+import { runChatWithTools } from '@/lib/chat-tools';
+import {
+  DEFAULT_THREAD_TITLE,
+  addChatMessage,
+  createChatThread,
+  getChatHistoryWindow,
+  getThreadTitle,
+} from '@/lib/chat-threads';
+import { prisma } from '@/lib/prisma';
+import { formatSpecSectionsForPrompt } from '@/lib/spec-parser';
+import { Permission } from '@/types/permissions';
+import { ChatMessage, ChatRequest, ChatResponse, ChatToolCall, ProposedChange } from '@/types/chat';
+import { ExtractionContent, ExtractionMessage, ImageMediaType } from '@/types/extractionProvider';
+
+export async function POST(request: NextRequest) {
   try {
+    const access = await requirePermission(request, [Permission.EDIT_LINE_ITEMS]);
+    if (access.response) return access.response;
+
+    const body: ChatRequest = await request.json();
     const {
       message,
       imageUrl,
       currentLineItems,
       projectName,
-      conversationHistory,
-    }: ChatRequest = await request.json();
+      bidPackageId,
+    } = body;
 
     if (!message) {
       return NextResponse.json({ error: 'No message provided' }, { status: 400 });
     }
 
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
+    const providerError = getExtractionProviderError();
+    if (providerError) {
       return NextResponse.json(
-        { error: 'ANTHROPIC_API_KEY not configured' },
+        { error: providerError },
         { status: 500 }
       );
     }
 
-    const client = new Anthropic({ apiKey });
+    // Package chat writes to its threads and proposes changes to the package
+    if (bidPackageId) {
+      const packageAccess = await requireBidPackageAccess(request, bidPackageId, 'edit');
+      if (packageAccess.response) return packageAccess.response;
+    }
+
+    // Package chat continues (or starts) a stored thread, whose history and
+    // summary come from the server; without a package the client sends it
+    let threadId: string | null = null;
+    let conversationHistory: ChatMessage[] = body.conversationHistory || [];
+    let historySummary: string | null = null;
+    let userMessage: ChatMessage | undefined;
+
+    if (bidPackageId) {
+      if (body.threadId) {
+        const thread = await prisma.chatThread.findFirst({
+          where: { id: body.threadId, bidPackageId },
+          include: { _count: { select: { messages: true } } },
+        });
+        if (!thread) {
+          return NextResponse.json({ error: 'Chat thread not found' }, { status: 404 });
+        }
+        threadId = thread.id;
+        // Threads started from the panel are named after their first message
+        if (thread._count.messages === 0 && thread.title === DEFAULT_THREAD_TITLE) {
+          await prisma.chatThread.update({ where: { id: thread.id }, data: { title: getThreadTitle(message) } });
+        }
+      } else {
+        threadId = (await createChatThread(bidPackageId, getThreadTitle(message), access.user)).id;
+      }
+
+      const history = await getChatHistoryWindow(threadId);
+      conversationHistory = history.messages;
+      historySummary = history.summary;
+
+      // Kept even when the assistant fails to answer
+      userMessage = await addChatMessage(threadId, { role: 'user', content: message }, access.user);
+    }
 
     // Load image if available
     let imageBuffer: ArrayBuffer | null = null;
-    let mediaType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' = 'image/jpeg';
+    let mediaType: ImageMediaType = 'image/jpeg';
 
     if (imageUrl) {
       try {
@@ -62,6 +117,18 @@ export async function POST(request: Request) {
       }
     }
 
+    // Spec sections covering the package's CSI codes, so answers can cite them
+    let specContext = '';
+    if (bidPackageId) {
+      try {
+        const specSections = await getBidPackageSpecSections(bidPackageId, { includeContent: true });
+        specContext = formatSpecSectionsForPrompt(specSections);
+      } catch (error) {
+        console.error('Error loading spec sections:', error);
+        // Continue without specifications
+      }
+    }
+
     // Analyze conversation history to determine context
     const lastAssistantMessage = conversationHistory?.slice().reverse().find(m => m.role === 'assistant');
     const isConfirmingPreviousUpdate = lastAssistantMessage?.content.includes('Would you like me to proceed') ||
@@ -79,13 +146,39 @@ export async function POST(request: Request) {
 Project: ${projectName}
 Current bid items count: ${currentLineItems.length}
 
-IMPORTANT: This bid form is for quantity takeoff only. Pricing information (unit_price and total_price) is NOT displayed or used.
+PRICING: A line item's extended total is quantity × unit_price, and these totals feed the package and project cost rollups. Items without a unit_price (lump sums) keep a fixed total_price. Change pricing only through quantity and unit_price; total_price is never edited here.
 
 Current line items in the bid form:
 ${JSON.stringify(currentLineItems, null, 2)}
 
 `;
 
+    if (historySummary) {
+      contextPrompt += `Summary of the earlier part of this conversation:
+${historySummary}
+
+`;
+    }
+
+    if (specContext) {
+      contextPrompt += `Project specification sections covering this bid form's CSI codes:
+${specContext}
+
+When a specification section bears on the question or on a line item, cite it by section number and article (e.g. "Spec 09 29 00, 2.2.A") next to the drawing note it relates to. Drawings show quantities and locations; specifications govern products and execution.
+
+`;
+    }
+
+    if (bidPackageId) {
+      contextPrompt += `TOOLS: You can call tools to look things up before answering:
+- search_csi_codes / get_csi_breadcrumb to find or check CSI MasterFormat codes instead of guessing them
+- list_package_drawings / read_drawing_page to read the other drawings and pages of this bid package
+- find_duplicate_scope to check the project's other bid packages for the same scope
+- propose_reallocation to propose moving a line item that belongs to another package; the user accepts or rejects each move, so do not list moves in "proposedChanges"
+
+`;
+    }
+
     if (isUserConfirming) {
       // User is confirming a previous update request - generate the actual proposed changes
       contextPrompt += `CONTEXT: The user has confirmed they want to proceed with the update you previously described.
@@ -132,11 +225,11 @@ Return your response in this JSON format:
 }
 
 CRITICAL REQUIREMENTS:
-- For type "add": MUST include "newItem" with fields (id, item_number, description, quantity, unit, notes). Do NOT include unit_price or total_price. Generate unique ID using 6 random alphanumeric characters (e.g., "a3X9k2")
+- For type "add": MUST include "newItem" with fields (id, item_number, description, quantity, unit, notes), plus unit_price when the user gives a price. Do NOT include total_price. Generate unique ID using 6 random alphanumeric characters (e.g., "a3X9k2")
 - For type "update": MUST include "itemId" (existing item ID), "newItem" (complete updated item), AND "changes" array
 - The "changes" array MUST list every field that changed with oldValue and newValue
 - For type "delete": include only "itemId"
-- Do NOT include unit_price or total_price in any changes - these fields are not used
+- To change an item's price, change quantity and/or unit_price; the total is computed from them. Do NOT include total_price in "newItem" or "changes"
 - Return ONLY valid JSON, no markdown code blocks or additional text`;
     } else {
       // Analyze the user's message to determine intent
@@ -168,18 +261,15 @@ Respond appropriately based on your analysis.`;
     }
 
     // Prepare message content
-    const messageContent: any[] = [];
+    const messageContent: ExtractionContent[] = [];
 
     // Add image if available (only on first message with image)
-    if (imageBuffer && (!conversationHistory || conversationHistory.length === 0)) {
+    if (imageBuffer && conversationHistory.length === 0 && !historySummary) {
       const base64Image = Buffer.from(imageBuffer).toString('base64');
       messageContent.push({
         type: 'image',
-        source: {
-          type: 'base64',
-          media_type: mediaType,
-          data: base64Image,
-        },
+        mediaType,
+        data: base64Image,
       });
     }
 
@@ -190,10 +280,10 @@ Respond appropriately based on your analysis.`;
     });
 
     // Build messages array with conversation history
-    const messages: any[] = [];
+    const messages: ExtractionMessage[] = [];
 
     // Add conversation history (exclude system acknowledgments)
-    if (conversationHistory && conversationHistory.length > 0) {
+    if (conversationHistory.length > 0) {
       conversationHistory
         .filter(msg => !msg.content.startsWith('✅') && !msg.content.startsWith('❌'))
         .forEach(msg => {
@@ -210,13 +300,21 @@ Respond appropriately based on your analysis.`;
       content: messageContent,
     });
 
-    const response = await client.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4096,
-      messages: messages,
-    });
-
-    const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
+    // Package chat can call tools; their calls are kept for the panel to show
+    let responseText: string;
+    let toolCalls: ChatToolCall[] = [];
+    let reallocations: ProposedChange[] = [];
+    if (bidPackageId) {
+      const run = await runChatWithTools(messages, { bidPackageId, user: access.user });
+      responseText = run.text;
+      toolCalls = run.toolCalls;
+      reallocations = run.proposedChanges;
+    } else {
+      ({ text: responseText } = await completeExtraction({
+        task: 'chat',
+        messages,
+      }));
+    }
 
     // Parse response - try JSON first, fall back to plain text
     let result: ChatResponse;
@@ -264,6 +362,24 @@ Respond appropriately based on your analysis.`;
       };
     }
 
+    if (reallocations.length > 0) {
+      result.proposedChanges = [...(result.proposedChanges || []), ...reallocations];
+    }
+    if (toolCalls.length > 0) {
+      result.toolCalls = toolCalls;
+    }
+
+    if (threadId) {
+      result.threadId = threadId;
+      result.userMessage = userMessage;
+      result.assistantMessage = await addChatMessage(threadId, {
+        role: 'assistant',
+        content: result.response,
+        proposedChanges: result.proposedChanges,
+        toolCalls,
+      });
+    }
+
     return NextResponse.json(result);
   } catch (error) {
     console.error('Chat error:', error);
@@ -275,4 +391,4 @@ Respond appropriately based on your analysis.`;
 }
 
 export const runtime = 'nodejs';
-export const maxDuration = 60;
+export const maxDuration = 120;
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
+
+/**
+ * DELETE /api/cost-library/[id]
+ * Remove a bad data point from the cost library
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requirePermission(request, [Permission.MANAGE_COST_LIBRARY]);
+    if (response) return response;
+
+    await prisma.costRecord.delete({
+      where: { id }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting cost record:', error);
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { error: 'Cost record not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete cost record' },
+      { status: 500 }
+    );
+  }
+}
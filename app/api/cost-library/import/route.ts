@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import { parseCostImport } from '@/lib/cost-library';
+import { Permission } from '@/types/permissions';
+import { CostImportResult } from '@/types/costLibrary';
+
+/**
+ * POST /api/cost-library/import
+ * Import legacy cost data from a CSV (or Excel) file
+ * Body: multipart form data with a "file" field. Columns are matched by
+ * header: CSI Code, Unit and Unit Price are required; Description, Quantity,
+ * Project, Region/State, Market Sector and Date are optional.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePermission(request, [Permission.MANAGE_COST_LIBRARY]);
+    if (response) return response;
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'file is required' },
+        { status: 400 }
+      );
+    }
+
+    let parsed: ReturnType<typeof parseCostImport>;
+    try {
+      parsed = parseCostImport(await file.arrayBuffer(), user.id);
+    } catch (error) {
+      console.error('Error parsing cost import:', error);
+      return NextResponse.json(
+        { error: 'Could not read the file - upload a CSV or Excel spreadsheet' },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.records.length > 0) {
+      await prisma.costRecord.createMany({ data: parsed.records });
+    }
+
+    const result: CostImportResult = {
+      imported: parsed.records.length,
+      skipped: parsed.skipped
+    };
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error importing cost data:', error);
+    return NextResponse.json(
+      { error: 'Failed to import cost data' },
+      { status: 500 }
+    );
+  }
+}
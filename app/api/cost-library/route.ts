@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import { fromCostRecordRow, normalizeUnit } from '@/lib/cost-library';
+
+// Most records returned by one request
+const MAX_RECORDS = 500;
+
+/**
+ * GET /api/cost-library
+ * List historical unit prices, newest first
+ * Query params: csiCode, unit, source, search
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request);
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const csiCode = searchParams.get('csiCode');
+    const unit = normalizeUnit(searchParams.get('unit'));
+    const source = searchParams.get('source');
+    const search = searchParams.get('search');
+
+    // A division ("03") or partial code ("03 30") matches every code under it
+    const codePrefix = csiCode?.replace(/\D/g, '').slice(0, 6).match(/\d{1,2}/g)?.join(' ');
+
+    const where: Prisma.CostRecordWhereInput = {
+      ...(codePrefix && { csiCode: { startsWith: codePrefix } }),
+      ...(unit && { unit }),
+      ...(source && { source }),
+      ...(search && {
+        OR: [
+          { description: { contains: search, mode: 'insensitive' } },
+          { projectName: { contains: search, mode: 'insensitive' } },
+          { region: { contains: search, mode: 'insensitive' } },
+          { marketSector: { contains: search, mode: 'insensitive' } }
+        ]
+      })
+    };
+
+    const [records, total] = await Promise.all([
+      prisma.costRecord.findMany({
+        where,
+        orderBy: [{ observedAt: 'desc' }, { csiCode: 'asc' }],
+        take: MAX_RECORDS
+      }),
+      prisma.costRecord.count({ where })
+    ]);
+
+    return NextResponse.json({ records: records.map(fromCostRecordRow), total });
+  } catch (error) {
+    console.error('Error fetching cost records:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cost records' },
+      { status: 500 }
+    );
+  }
+}
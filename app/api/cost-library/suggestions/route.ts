@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission, requireProjectAccess } from '@/lib/route-guard';
+import { getPriceSuggestions } from '@/lib/cost-library';
+import { PriceSuggestionRequest } from '@/types/costLibrary';
+
+// Most items priced by one request
+const MAX_ITEMS = 1000;
+
+/**
+ * POST /api/cost-library/suggestions
+ * Suggested unit price ranges for line items, from the cost library
+ * Body: { projectId?, items: [{ csiCode, unit }] }
+ * Returns suggestions in item order (null where there is no data)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: PriceSuggestionRequest = await request.json();
+
+    if (!Array.isArray(body.items) || body.items.length > MAX_ITEMS) {
+      return NextResponse.json(
+        { error: `items must be an array of at most ${MAX_ITEMS} entries` },
+        { status: 400 }
+      );
+    }
+
+    // Prefer data points from projects in the same region and market sector
+    let project: { state: string | null; marketSector: string | null } | null = null;
+    if (body.projectId) {
+      const { response } = await requireProjectAccess(request, body.projectId, 'view');
+      if (response) return response;
+
+      project = await prisma.buildingConnectedProject.findUnique({
+        where: { id: body.projectId },
+        select: { state: true, marketSector: true }
+      });
+    } else {
+      const { response } = await requirePermission(request);
+      if (response) return response;
+    }
+
+    const suggestions = await getPriceSuggestions(body.items, project);
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    console.error('Error suggesting unit prices:', error);
+    return NextResponse.json(
+      { error: 'Failed to suggest unit prices' },
+      { status: 500 }
+    );
+  }
+}
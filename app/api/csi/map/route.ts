@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { mapItemToCSI } from '@/lib/csi/csiMapper';
+import { getExtractionProviderError } from '@/lib/extraction-provider';
 import { CSIMappingRequest, CSIMappingResponse } from '@/types/csi';
 
 /**
@@ -54,8 +55,8 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check API key
-    if (!process.env.ANTHROPIC_API_KEY) {
+    // Check the AI provider
+    if (getExtractionProviderError()) {
       return NextResponse.json(
         { error: 'AI mapping service is not configured' },
         { status: 500 }
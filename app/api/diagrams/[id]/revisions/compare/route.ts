@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { renderRevisionOverlay } from '@/lib/diagram-revisions';
+
+/**
+ * GET /api/diagrams/[id]/revisions/compare?from=1&to=2
+ * PNG overlay of two revisions: removed linework in red, added in cyan
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'view');
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const from = parseInt(searchParams.get('from') || '', 10);
+    const to = parseInt(searchParams.get('to') || '', 10);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from === to) {
+      return NextResponse.json(
+        { error: 'from and to must be two different revision numbers' },
+        { status: 400 }
+      );
+    }
+
+    const revisions = await prisma.diagramRevision.findMany({
+      where: { diagramId: id, revisionNumber: { in: [from, to] } }
+    });
+    const before = revisions.find(r => r.revisionNumber === from);
+    const after = revisions.find(r => r.revisionNumber === to);
+
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    const overlay = await renderRevisionOverlay(before, after);
+
+    return new NextResponse(new Uint8Array(overlay), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Error comparing diagram revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare diagram revisions' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { calculateBufferHash, checkDuplicateFile, saveUploadedFile } from '@/lib/file-utils';
+import { compareDiagramFiles, flagChangedLineItems, fromDiagramRevisionRow } from '@/lib/diagram-revisions';
+import { indexDiagramSheets } from '@/lib/diagram-sheets';
+import { Permission } from '@/types/permissions';
+import { DiagramRegion, DiagramRevision } from '@/types/diagram';
+
+/**
+ * GET /api/diagrams/[id]/revisions
+ * Revision history of a diagram, newest first. A diagram that was never
+ * re-issued reports its current file as revision 1.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'view');
+    if (response) return response;
+
+    const diagram = await prisma.diagram.findUnique({
+      where: { id },
+      include: { revisions: { orderBy: { revisionNumber: 'desc' } } }
+    });
+
+    if (!diagram) {
+      return NextResponse.json(
+        { error: 'Diagram not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions: DiagramRevision[] = diagram.revisions.length > 0
+      ? diagram.revisions.map(fromDiagramRevisionRow)
+      : [{
+          id: diagram.id,
+          diagramId: diagram.id,
+          revisionNumber: diagram.currentRevision,
+          fileName: diagram.fileName,
+          fileUrl: diagram.fileUrl,
+          fileType: diagram.fileType,
+          fileSize: diagram.fileSize,
+          uploadedBy: diagram.uploadedBy,
+          changedRegions: null,
+          flaggedItemCount: 0,
+          uploadedAt: diagram.uploadedAt
+        }];
+
+    return NextResponse.json({ currentRevision: diagram.currentRevision, revisions });
+  } catch (error) {
+    console.error('Error fetching diagram revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch diagram revisions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/diagrams/[id]/revisions
+ * Upload a re-issued sheet as the diagram's next revision (multipart form
+ * with 'file' and optional 'label' and 'notes'). The sheet is compared with
+ * the current revision and line items whose boundingBox falls in a changed
+ * region are flagged for re-review.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { user, response } = await requireDiagramAccess(request, id, 'edit', [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const label = (formData.get('label') as string | null)?.trim() || null;
+    const notes = (formData.get('notes') as string | null)?.trim() || null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const diagram = await prisma.diagram.findUnique({
+      where: { id },
+      include: { _count: { select: { revisions: true } } }
+    });
+
+    if (!diagram) {
+      return NextResponse.json(
+        { error: 'Diagram not found' },
+        { status: 404 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const fileHash = calculateBufferHash(buffer);
+
+    const duplicate = await checkDuplicateFile(fileHash);
+    if (duplicate) {
+      return NextResponse.json(
+        {
+          error: duplicate.id === id
+            ? 'This file is already a revision of this diagram'
+            : `This file was already uploaded as ${duplicate.fileName}`
+        },
+        { status: 409 }
+      );
+    }
+
+    const fileUrl = await saveUploadedFile(file, buffer);
+
+    // Compare against the revision being superseded
+    let changedRegions: DiagramRegion[] | null = null;
+    try {
+      changedRegions = await compareDiagramFiles(diagram, { fileName: file.name, fileUrl });
+    } catch (compareError) {
+      console.error('Error comparing diagram revisions:', compareError);
+    }
+
+    const revisionNumber = diagram.currentRevision + 1;
+
+    const revision = await prisma.$transaction(async (tx) => {
+      // Keep the original upload in the history the first time a sheet is re-issued
+      if (diagram._count.revisions === 0) {
+        await tx.diagramRevision.create({
+          data: {
+            diagramId: id,
+            revisionNumber: diagram.currentRevision,
+            fileName: diagram.fileName,
+            fileUrl: diagram.fileUrl,
+            fileType: diagram.fileType,
+            fileSize: diagram.fileSize,
+            fileHash: diagram.fileHash,
+            uploadedBy: diagram.uploadedBy,
+            uploadedAt: diagram.uploadedAt
+          }
+        });
+      }
+
+      const flaggedItemCount = await flagChangedLineItems(id, changedRegions, tx);
+
+      const created = await tx.diagramRevision.create({
+        data: {
+          diagramId: id,
+          revisionNumber,
+          label,
+          notes,
+          fileName: file.name,
+          fileUrl,
+          fileType: file.type,
+          fileSize: file.size,
+          fileHash,
+          uploadedBy: user.id,
+          changedRegions: changedRegions ? JSON.stringify(changedRegions) : null,
+          flaggedItemCount
+        }
+      });
+
+      await tx.diagram.update({
+        where: { id },
+        data: {
+          fileName: file.name,
+          fileUrl,
+          fileType: file.type,
+          fileSize: file.size,
+          fileHash,
+          currentRevision: revisionNumber
+        }
+      });
+
+      return created;
+    });
+
+    // Re-read the sheets of the new file; manual edits are kept
+    try {
+      await indexDiagramSheets(id);
+    } catch (error) {
+      console.error('Error indexing diagram sheets:', error);
+    }
+
+    return NextResponse.json({ revision: fromDiagramRevisionRow(revision) }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading diagram revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload diagram revision' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
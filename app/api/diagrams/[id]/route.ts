@@ -1,5 +1,7 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
 import { unlink } from 'fs/promises';
 import path from 'path';
 
@@ -8,12 +10,15 @@ import path from 'path';
  * Fetch a single diagram by ID
  */
 export async function GET(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
+    const { response } = await requireDiagramAccess(request, id, 'view');
+    if (response) return response;
+
     const diagram = await prisma.diagram.findUnique({
       where: { id },
       include: {
@@ -51,11 +56,15 @@ export async function GET(
  * Update diagram metadata
  */
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'edit', [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
     const body = await request.json();
 
     const { category, description, tags } = body;
@@ -92,15 +101,19 @@ export async function PUT(
  * Delete a diagram and its associated file
  */
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
-    // Get diagram to access file path
+    const { response } = await requireDiagramAccess(request, id, 'edit', [Permission.DELETE_DIAGRAMS]);
+    if (response) return response;
+
+    // Get diagram to access file paths (current and earlier revisions)
     const diagram = await prisma.diagram.findUnique({
-      where: { id }
+      where: { id },
+      include: { revisions: { select: { fileUrl: true } } }
     });
 
     if (!diagram) {
@@ -115,10 +128,12 @@ export async function DELETE(
       where: { id }
     });
 
-    // Try to delete physical file if it's a local upload
-    if (diagram.fileUrl.startsWith('/uploads/')) {
+    // Try to delete physical files if they're local uploads
+    const fileUrls = new Set([diagram.fileUrl, ...diagram.revisions.map(r => r.fileUrl)]);
+    for (const fileUrl of fileUrls) {
+      if (!fileUrl.startsWith('/uploads/')) continue;
       try {
-        const filePath = path.join(process.cwd(), 'public', diagram.fileUrl);
+        const filePath = path.join(process.cwd(), 'public', fileUrl);
         await unlink(filePath);
       } catch (fileError) {
         // Log but don't fail the request if file deletion fails
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { getDiagramSchedules } from '@/lib/diagram-schedules';
+
+/**
+ * GET /api/diagrams/[id]/schedules
+ * Schedules (doors, windows, finishes, equipment) read from the diagram's
+ * pages by its latest extraction
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'view');
+    if (response) return response;
+
+    const schedules = await getDiagramSchedules(id);
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    console.error('Error fetching diagram schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch diagram schedules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { fromDiagramSheetRow } from '@/lib/diagram-sheets';
+import { getSheetDiscipline, normalizeSheetNumber } from '@/lib/sheet-index';
+import { Permission } from '@/types/permissions';
+import { DiagramSheetUpdateInput } from '@/types/sheet';
+
+/**
+ * PUT /api/diagrams/[id]/sheets/[sheetId]
+ * Correct a sheet's number, title or revision by hand.
+ * Edited sheets keep their metadata when the diagram is re-indexed.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sheetId: string }> }
+) {
+  try {
+    const { id, sheetId } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'edit', [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
+    const body: DiagramSheetUpdateInput = await request.json();
+    const clean = (value: string | null | undefined) =>
+      value === undefined ? undefined : value?.trim() || null;
+
+    const sheetNumber = clean(body.sheetNumber);
+    const normalizedNumber = sheetNumber ? normalizeSheetNumber(sheetNumber) ?? sheetNumber.toUpperCase() : sheetNumber;
+
+    const existing = await prisma.diagramSheet.findFirst({
+      where: { id: sheetId, diagramId: id },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Sheet not found' },
+        { status: 404 }
+      );
+    }
+
+    const sheet = await prisma.diagramSheet.update({
+      where: { id: sheetId },
+      data: {
+        ...(normalizedNumber !== undefined && {
+          sheetNumber: normalizedNumber,
+          discipline: getSheetDiscipline(normalizedNumber)
+        }),
+        ...(body.title !== undefined && { title: clean(body.title) }),
+        ...(body.revision !== undefined && { revision: clean(body.revision) }),
+        source: 'manual'
+      }
+    });
+
+    return NextResponse.json({ sheet: fromDiagramSheetRow(sheet) });
+  } catch (error) {
+    console.error('Error updating diagram sheet:', error);
+    return NextResponse.json(
+      { error: 'Failed to update diagram sheet' },
+      { status: 500 }
+    );
+  }
+}
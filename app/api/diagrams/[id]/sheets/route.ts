@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { getDiagramSheets, indexDiagramSheets } from '@/lib/diagram-sheets';
+import { Permission } from '@/types/permissions';
+
+/**
+ * GET /api/diagrams/[id]/sheets
+ * Sheets of a diagram, one per page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'view');
+    if (response) return response;
+
+    const sheets = await getDiagramSheets(id);
+
+    return NextResponse.json({ sheets });
+  } catch (error) {
+    console.error('Error fetching diagram sheets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch diagram sheets' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/diagrams/[id]/sheets
+ * Re-read the sheet numbers, titles and revisions from the diagram's file
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'edit', [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
+    const sheets = await indexDiagramSheets(id);
+
+    return NextResponse.json({ sheets });
+  } catch (error) {
+    console.error('Error indexing diagram sheets:', error);
+    return NextResponse.json(
+      { error: 'Failed to index diagram sheets' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { getTakeoffItemTotal } from '@/lib/takeoff-measurements';
+import { Permission } from '@/types/permissions';
+
+/**
+ * DELETE /api/diagrams/[id]/takeoff/measurements/[measurementId]
+ * Remove a measurement; returns the line item's new measured total
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; measurementId: string }> }
+) {
+  try {
+    const { id, measurementId } = await params;
+
+    const measurement = await prisma.takeoffMeasurement.findFirst({
+      where: { id: measurementId, diagramId: id },
+      select: {
+        lineItemId: true,
+        lineItem: { select: { bidForm: { select: { bidPackageId: true } } } }
+      }
+    });
+
+    const bidPackageId = measurement?.lineItem.bidForm.bidPackageId;
+    if (!measurement || !bidPackageId) {
+      return NextResponse.json(
+        { error: 'Measurement not found' },
+        { status: 404 }
+      );
+    }
+
+    const { response } = await requireBidPackageAccess(
+      request,
+      bidPackageId,
+      'edit',
+      [Permission.EDIT_LINE_ITEMS]
+    );
+    if (response) return response;
+
+    const itemTotal = await prisma.$transaction(async (tx) => {
+      await tx.takeoffMeasurement.delete({ where: { id: measurementId } });
+      return getTakeoffItemTotal(measurement.lineItemId, tx);
+    });
+
+    return NextResponse.json({ itemTotal });
+  } catch (error) {
+    console.error('Error deleting takeoff measurement:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete takeoff measurement' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireBidPackageAccess } from '@/lib/route-guard';
+import { MIN_TAKEOFF_POINTS, isTakeoffPointList, isTakeoffType, measureTakeoff } from '@/lib/takeoff';
+import { fromTakeoffMeasurementRow, getTakeoffItemTotal } from '@/lib/takeoff-measurements';
+import { Permission } from '@/types/permissions';
+import { TakeoffMeasurementInput, TakeoffUnits } from '@/types/takeoff';
+import { getUserDisplayName } from '@/types/user';
+
+/**
+ * POST /api/diagrams/[id]/takeoff/measurements
+ * Measure a takeoff on a diagram page and link it to a line item
+ * Body: { pageNumber, lineItemId, type: linear|area|count, points }
+ * Returns the measurement and the line item's new measured total
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: TakeoffMeasurementInput = await request.json();
+    const pageNumber = Number.isInteger(body.pageNumber) && body.pageNumber > 0 ? body.pageNumber : 1;
+
+    if (!body.lineItemId) {
+      return NextResponse.json(
+        { error: 'lineItemId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTakeoffType(body.type)) {
+      return NextResponse.json(
+        { error: 'type must be linear, area or count' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTakeoffPointList(body.points) || body.points.length < MIN_TAKEOFF_POINTS[body.type]) {
+      return NextResponse.json(
+        { error: `A ${body.type} measurement needs at least ${MIN_TAKEOFF_POINTS[body.type]} point(s) on the page` },
+        { status: 400 }
+      );
+    }
+
+    const [diagram, lineItem] = await Promise.all([
+      prisma.diagram.findUnique({
+        where: { id },
+        select: { bcProjectId: true }
+      }),
+      prisma.lineItem.findUnique({
+        where: { id: body.lineItemId },
+        select: { bidForm: { select: { bidPackage: { select: { id: true, bcProjectId: true } } } } }
+      })
+    ]);
+
+    const bidPackage = lineItem?.bidForm.bidPackage;
+    if (!diagram || !bidPackage) {
+      return NextResponse.json(
+        { error: diagram ? 'Line item not found' : 'Diagram not found' },
+        { status: 404 }
+      );
+    }
+
+    const { user, response } = await requireBidPackageAccess(request, bidPackage.id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    if (diagram.bcProjectId !== bidPackage.bcProjectId) {
+      return NextResponse.json(
+        { error: 'The line item belongs to a different project than the diagram' },
+        { status: 400 }
+      );
+    }
+
+    // A line item's quantity is in one unit, so all its measurements share a type
+    const unit = TakeoffUnits[body.type];
+    const otherUnit = await prisma.takeoffMeasurement.findFirst({
+      where: { lineItemId: body.lineItemId, unit: { not: unit } },
+      select: { unit: true }
+    });
+    if (otherUnit) {
+      return NextResponse.json(
+        { error: `This line item is already measured in ${otherUnit.unit}` },
+        { status: 409 }
+      );
+    }
+
+    const scale = await prisma.takeoffScale.findUnique({
+      where: { diagramId_pageNumber: { diagramId: id, pageNumber } }
+    });
+    const quantity = measureTakeoff(body.type, body.points, scale);
+    if (quantity === null) {
+      return NextResponse.json(
+        { error: 'Set the scale for this page before measuring lengths or areas' },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const measurement = await tx.takeoffMeasurement.create({
+        data: {
+          diagramId: id,
+          pageNumber,
+          lineItemId: body.lineItemId,
+          type: body.type,
+          points: JSON.stringify(body.points),
+          quantity,
+          unit,
+          createdById: user.id,
+          createdByName: getUserDisplayName(user)
+        }
+      });
+      const itemTotal = await getTakeoffItemTotal(body.lineItemId, tx);
+      return { measurement: fromTakeoffMeasurementRow(measurement), itemTotal };
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error creating takeoff measurement:', error);
+    return NextResponse.json(
+      { error: 'Failed to create takeoff measurement' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { fromTakeoffMeasurementRow, fromTakeoffScaleRow } from '@/lib/takeoff-measurements';
+
+/**
+ * GET /api/diagrams/[id]/takeoff
+ * Scales and measurements drawn on a diagram, for every page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireDiagramAccess(request, id, 'view');
+    if (response) return response;
+
+    const [scales, measurements] = await Promise.all([
+      prisma.takeoffScale.findMany({
+        where: { diagramId: id },
+        orderBy: { pageNumber: 'asc' }
+      }),
+      prisma.takeoffMeasurement.findMany({
+        where: { diagramId: id },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+
+    return NextResponse.json({
+      scales: scales.map(fromTakeoffScaleRow),
+      measurements: measurements.map(fromTakeoffMeasurementRow)
+    });
+  } catch (error) {
+    console.error('Error fetching takeoff:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch takeoff' },
+      { status: 500 }
+    );
+  }
+}
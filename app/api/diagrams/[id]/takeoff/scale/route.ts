@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireDiagramAccess } from '@/lib/route-guard';
+import { calibrateScale, isTakeoffPointList } from '@/lib/takeoff';
+import { fromTakeoffScaleRow, remeasurePage } from '@/lib/takeoff-measurements';
+import { Permission } from '@/types/permissions';
+import { TakeoffScaleInput } from '@/types/takeoff';
+
+/**
+ * PUT /api/diagrams/[id]/takeoff/scale
+ * Calibrate a page's scale against a known dimension drawn on it.
+ * Existing length and area measurements on the page are re-measured;
+ * returns the scale and the new totals of the affected line items.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { user, response } = await requireDiagramAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+    if (response) return response;
+
+    const body: TakeoffScaleInput = await request.json();
+    const pageNumber = Number.isInteger(body.pageNumber) && body.pageNumber > 0 ? body.pageNumber : 1;
+
+    if (!(body.pageWidth > 0) || !(body.pageHeight > 0) || !isTakeoffPointList([body.start, body.end])) {
+      return NextResponse.json(
+        { error: 'pageWidth, pageHeight, start and end are required' },
+        { status: 400 }
+      );
+    }
+
+    const page = { width: body.pageWidth, height: body.pageHeight };
+    const feetPerUnit = calibrateScale(body.start, body.end, body.lengthFeet, page);
+    if (feetPerUnit === null) {
+      return NextResponse.json(
+        { error: 'Draw a line and give its length in feet to set the scale' },
+        { status: 400 }
+      );
+    }
+
+    const data = {
+      pageWidth: body.pageWidth,
+      pageHeight: body.pageHeight,
+      feetPerUnit,
+      calibration: JSON.stringify({ start: body.start, end: body.end, lengthFeet: body.lengthFeet }),
+      createdById: user.id
+    };
+
+    const result = await prisma.$transaction(async (tx) => {
+      const row = await tx.takeoffScale.upsert({
+        where: { diagramId_pageNumber: { diagramId: id, pageNumber } },
+        create: { diagramId: id, pageNumber, ...data },
+        update: data
+      });
+      const scale = fromTakeoffScaleRow(row);
+      const itemTotals = await remeasurePage(scale, tx);
+      return { scale, itemTotals };
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error setting takeoff scale:', error);
+    return NextResponse.json(
+      { error: 'Failed to set takeoff scale' },
+      { status: 500 }
+    );
+  }
+}
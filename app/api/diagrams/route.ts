@@ -1,11 +1,13 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireProjectAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
 
 /**
  * POST /api/diagrams
  * Create a new diagram record after file upload
  */
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
@@ -29,17 +31,9 @@ export async function POST(request: Request) {
       );
     }
 
-    // Verify project exists
-    const project = await prisma.buildingConnectedProject.findUnique({
-      where: { id: bcProjectId }
-    });
-
-    if (!project) {
-      return NextResponse.json(
-        { error: 'Project not found' },
-        { status: 404 }
-      );
-    }
+    // Verify project exists and the user can add drawings to it
+    const { response } = await requireProjectAccess(request, bcProjectId, 'edit', [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
 
     // Create diagram
     const diagram = await prisma.diagram.create({
@@ -70,7 +64,7 @@ export async function POST(request: Request) {
  * GET /api/diagrams
  * Get all diagrams for a project
  */
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const bcProjectId = searchParams.get('bcProjectId');
@@ -82,6 +76,9 @@ export async function GET(request: Request) {
       );
     }
 
+    const { response } = await requireProjectAccess(request, bcProjectId, 'view');
+    if (response) return response;
+
     const diagrams = await prisma.diagram.findMany({
       where: { bcProjectId },
       include: {
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireExtractionJobAccess } from '@/lib/route-guard';
+import { cancelExtractionJob } from '@/lib/extraction-jobs';
+
+/**
+ * POST /api/extraction-jobs/[id]/cancel
+ * Cancel an extraction job. A running job stops after its current page.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireExtractionJobAccess(request, id, 'edit');
+    if (response) return response;
+
+    const job = await cancelExtractionJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Extraction job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error cancelling extraction job:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel extraction job' },
+      { status: 500 }
+    );
+  }
+}
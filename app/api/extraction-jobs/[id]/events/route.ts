@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireExtractionJobAccess } from '@/lib/route-guard';
+import { fromExtractionJobRow, getExtractionJobEvents } from '@/lib/extraction-jobs';
+import { ACTIVE_EXTRACTION_JOB_STATUSES, ExtractionJobStatus } from '@/types/extractionJob';
+
+// How often the job's progress is checked for new events
+const POLL_INTERVAL_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * GET /api/extraction-jobs/[id]/events
+ * Server-Sent Events stream of an extraction job's progress:
+ * - page_rendered, page_sent, page_parsed, page_matched, merged: page
+ *   progress, with the combined result so far on merged (event ID set)
+ * - job: the job itself, whenever its status or page count changes
+ * The stream ends once the job has finished. Reconnecting with
+ * Last-Event-ID resumes after that event; without it every event is replayed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireExtractionJobAccess(request, id, 'view');
+    if (response) return response;
+
+    let lastEventId = parseInt(request.headers.get('last-event-id') || '0', 10) || 0;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: string, data: unknown, eventId?: number) => {
+          const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+          controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        let lastJobState = '';
+
+        try {
+          while (!request.signal.aborted) {
+            // Read the job first, so events recorded before it finished are not missed
+            const job = await prisma.extractionJob.findUnique({ where: { id } });
+            if (!job) break;
+
+            for (const event of await getExtractionJobEvents(id, lastEventId)) {
+              send(event.type, event, event.id);
+              lastEventId = event.id;
+            }
+
+            const jobState = `${job.status}:${job.completedPages}:${job.totalPages}:${job.cancelRequested}:${job.attempts}`;
+            if (jobState !== lastJobState) {
+              send('job', fromExtractionJobRow(job));
+              lastJobState = jobState;
+            }
+
+            if (!ACTIVE_EXTRACTION_JOB_STATUSES.includes(job.status as ExtractionJobStatus)) break;
+
+            await sleep(POLL_INTERVAL_MS);
+          }
+        } catch (error) {
+          // The client reconnects and resumes from the last event it received
+          console.error('Error streaming extraction job events:', error);
+        } finally {
+          if (!request.signal.aborted) controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening extraction job events:', error);
+    return NextResponse.json(
+      { error: 'Failed to open extraction job events' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // Clients reconnect with Last-Event-ID when the stream is cut off
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireExtractionJobAccess } from '@/lib/route-guard';
+import { retryExtractionJob } from '@/lib/extraction-jobs';
+import { scheduleExtractionWorker } from '@/lib/extraction-runner';
+
+/**
+ * POST /api/extraction-jobs/[id]/retry
+ * Queue a failed or cancelled extraction job again, keeping the pages
+ * it already extracted
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireExtractionJobAccess(request, id, 'edit');
+    if (response) return response;
+
+    const job = await retryExtractionJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Only failed or cancelled jobs can be retried' },
+        { status: 409 }
+      );
+    }
+
+    scheduleExtractionWorker();
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error retrying extraction job:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry extraction job' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Time a queued job gets to run in the background when no separate worker is used
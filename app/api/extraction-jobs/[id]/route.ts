@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireExtractionJobAccess } from '@/lib/route-guard';
+import { fromExtractionJobRow } from '@/lib/extraction-jobs';
+import { resumeStaleExtractionJobs } from '@/lib/extraction-runner';
+
+/**
+ * GET /api/extraction-jobs/[id]
+ * Status, page progress and (once complete) the result of an extraction job
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireExtractionJobAccess(request, id, 'view');
+    if (response) return response;
+
+    // Jobs whose worker went away are requeued when anyone looks at them
+    await resumeStaleExtractionJobs();
+
+    const job = await prisma.extractionJob.findUnique({ where: { id } });
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Extraction job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job: fromExtractionJobRow(job) });
+  } catch (error) {
+    console.error('Error fetching extraction job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch extraction job' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Time a requeued stale job gets to run in the background when no separate worker is used
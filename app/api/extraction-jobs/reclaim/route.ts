@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasSharedSecret } from '@/lib/route-guard';
+import { resumeStaleExtractionJobs } from '@/lib/extraction-runner';
+
+/**
+ * GET /api/extraction-jobs/reclaim
+ * Requeue running jobs whose worker stopped checking in and start a worker
+ * for them. For a cron job; authorized by `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!hasSharedSecret(request, process.env.CRON_SECRET, 'authorization')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const requeued = await resumeStaleExtractionJobs();
+
+    return NextResponse.json({ requeued });
+  } catch (error) {
+    console.error('Error reclaiming extraction jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to reclaim extraction jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Time a queued job gets to run in the background when no separate worker is used
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import { fromExtractionJobRow } from '@/lib/extraction-jobs';
+import { resumeStaleExtractionJobs } from '@/lib/extraction-runner';
+import { ACTIVE_EXTRACTION_JOB_STATUSES } from '@/types/extractionJob';
+
+/**
+ * GET /api/extraction-jobs?active=true&kind=batch&bcProjectId=...
+ * The current user's extraction jobs, newest first. Lets a page pick up
+ * the jobs it started before a reload.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await requirePermission(request);
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind');
+    const bcProjectId = searchParams.get('bcProjectId');
+
+    const where: Prisma.ExtractionJobWhereInput = {
+      createdBy: user.id,
+      ...(searchParams.get('active') === 'true' && { status: { in: ACTIVE_EXTRACTION_JOB_STATUSES } }),
+      ...(kind && { kind }),
+      ...(bcProjectId && { bcProjectId })
+    };
+
+    // Jobs whose worker went away are requeued when anyone looks at them
+    await resumeStaleExtractionJobs();
+
+    const jobs = await prisma.extractionJob.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+
+    return NextResponse.json({ jobs: jobs.map(fromExtractionJobRow) });
+  } catch (error) {
+    console.error('Error fetching extraction jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch extraction jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Time a requeued stale job gets to run in the background when no separate worker is used
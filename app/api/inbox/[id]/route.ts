@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission, requireProjectAccess } from '@/lib/route-guard';
+import { inboxItemInclude, fromInboxItemRow, linkInboxItemToProject } from '@/lib/inbox-intake';
+import { getInboxRuleLog } from '@/lib/inbox-rules';
+import { Permission } from '@/types/permissions';
+import { InboxStatus } from '@/types/inbox';
+
+const STATUSES: InboxStatus[] = ['pending', 'in_progress', 'completed', 'archived'];
+
+/**
+ * GET /api/inbox/[id]
+ * One inbound email with its body, attachments and the triage rules that fired on it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requirePermission(request, [Permission.CREATE_PROJECT]);
+    if (response) return response;
+
+    const row = await prisma.inboxItem.findUnique({ where: { id }, include: inboxItemInclude });
+    if (!row) {
+      return NextResponse.json(
+        { error: 'Inbox item not found' },
+        { status: 404 }
+      );
+    }
+
+    const ruleLog = await getInboxRuleLog({ inboxItemId: id });
+
+    return NextResponse.json({ item: fromInboxItemRow(row), ruleLog });
+  } catch (error) {
+    console.error('Error fetching inbox item:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inbox item' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/inbox/[id]
+ * Update an inbox item's status and/or link it to an existing project
+ * ({ projectId }), which moves its drawings to the project
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requirePermission(request, [Permission.CREATE_PROJECT]);
+    if (response) return response;
+
+    const { status, projectId } = await request.json();
+
+    if (status !== undefined && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.inboxItem.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Inbox item not found' },
+        { status: 404 }
+      );
+    }
+
+    if (projectId) {
+      const projectAccess = await requireProjectAccess(request, projectId, 'edit');
+      if (projectAccess.response) return projectAccess.response;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (projectId) await linkInboxItemToProject(id, projectId, tx);
+      if (status) await tx.inboxItem.update({ where: { id }, data: { status } });
+    });
+
+    const row = await prisma.inboxItem.findUniqueOrThrow({ where: { id }, include: inboxItemInclude });
+
+    return NextResponse.json({ item: fromInboxItemRow(row) });
+  } catch (error) {
+    console.error('Error updating inbox item:', error);
+    return NextResponse.json(
+      { error: 'Failed to update inbox item' },
+      { status: 500 }
+    );
+  }
+}
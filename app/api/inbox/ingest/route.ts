@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireInboxIngestAccess } from '@/lib/route-guard';
+import { ingestDropFolder } from '@/lib/inbox-intake';
+
+/**
+ * POST /api/inbox/ingest
+ * Ingest the .eml files waiting in the drop folder (EMAIL_INBOX_DIR).
+ * Scheduled callers authenticate with the X-Inbox-Token header (INBOX_INGEST_TOKEN).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requireInboxIngestAccess(request);
+    if (response) return response;
+
+    const result = await ingestDropFolder();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error ingesting inbox drop folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest inbox drop folder' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireInboxIngestAccess, requirePermission } from '@/lib/route-guard';
+import { getInboxItems, ingestEmail } from '@/lib/inbox-intake';
+import { Permission } from '@/types/permissions';
+import { InboxStatus } from '@/types/inbox';
+
+const STATUSES: InboxStatus[] = ['pending', 'in_progress', 'completed', 'archived'];
+
+/**
+ * GET /api/inbox
+ * Inbound bid invitations, newest first (optionally ?status=pending)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request, [Permission.CREATE_PROJECT]);
+    if (response) return response;
+
+    const status = request.nextUrl.searchParams.get('status') as InboxStatus | null;
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const items = await getInboxItems({ status: status ?? undefined });
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Error fetching inbox items:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inbox items' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inbox
+ * Receive an email: a raw RFC 822 message as the request body
+ * (Content-Type: message/rfc822), or an .eml file in a multipart form
+ * field 'file'. A message already received is returned with 200.
+ * Mail relays authenticate with the X-Inbox-Token header (INBOX_INGEST_TOKEN).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requireInboxIngestAccess(request);
+    if (response) return response;
+
+    let raw: Buffer;
+    let sourceFile: string | undefined;
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file') as File | null;
+      if (!file) {
+        return NextResponse.json(
+          { error: 'No file provided' },
+          { status: 400 }
+        );
+      }
+      raw = Buffer.from(await file.arrayBuffer());
+      sourceFile = file.name;
+    } else {
+      raw = Buffer.from(await request.arrayBuffer());
+    }
+
+    if (raw.length === 0) {
+      return NextResponse.json(
+        { error: 'Empty message' },
+        { status: 400 }
+      );
+    }
+
+    const { item, created } = await ingestEmail(raw, { source: 'api', sourceFile });
+
+    return NextResponse.json({ item, created }, { status: created ? 201 : 200 });
+  } catch (error) {
+    console.error('Error receiving inbox email:', error);
+    return NextResponse.json(
+      { error: 'Failed to receive email' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
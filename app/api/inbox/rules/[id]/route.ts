@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import {
+  fromInboxRuleRow,
+  normalizeRuleActions,
+  normalizeRuleConditions,
+  validateRule,
+  validateRuleAssignee,
+} from '@/lib/inbox-rules';
+import { Permission } from '@/types/permissions';
+
+/**
+ * PATCH /api/inbox/rules/[id]
+ * Update a triage rule: name, conditions, actions, enabled, position or
+ * stopProcessing. Past items are not re-triaged.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requirePermission(request, [Permission.MANAGE_ASSIGNMENTS]);
+    if (response) return response;
+
+    const existing = await prisma.inboxRule.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Inbox rule not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const current = fromInboxRuleRow(existing);
+    const rule = {
+      name: typeof body.name === 'string' ? body.name.trim() : current.name,
+      conditions: body.conditions !== undefined ? normalizeRuleConditions(body.conditions) : current.conditions,
+      actions: body.actions !== undefined ? normalizeRuleActions(body.actions) : current.actions,
+    };
+
+    const validationError = validateRule(rule)
+      ?? (body.actions !== undefined ? await validateRuleAssignee(rule.actions.assignToUserId) : null);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (body.position !== undefined && (!Number.isInteger(body.position) || body.position < 0)) {
+      return NextResponse.json(
+        { error: 'position must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const row = await prisma.inboxRule.update({
+      where: { id },
+      data: {
+        name: rule.name,
+        conditions: JSON.stringify(rule.conditions),
+        actions: JSON.stringify(rule.actions),
+        ...(typeof body.enabled === 'boolean' ? { enabled: body.enabled } : {}),
+        ...(typeof body.stopProcessing === 'boolean' ? { stopProcessing: body.stopProcessing } : {}),
+        ...(body.position !== undefined ? { position: body.position } : {}),
+      },
+    });
+
+    return NextResponse.json({ rule: fromInboxRuleRow(row) });
+  } catch (error) {
+    console.error('Error updating inbox rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update inbox rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/inbox/rules/[id]
+ * Remove a triage rule; its log entries keep the rule name
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requirePermission(request, [Permission.MANAGE_ASSIGNMENTS]);
+    if (response) return response;
+
+    const existing = await prisma.inboxRule.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Inbox rule not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.inboxRule.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting inbox rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete inbox rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/route-guard';
+import { getInboxRuleLog } from '@/lib/inbox-rules';
+import { Permission } from '@/types/permissions';
+
+/**
+ * GET /api/inbox/rules/log
+ * Which triage rules fired on which inbox items, newest first
+ * (optionally ?ruleId= for one rule)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request, [Permission.CREATE_PROJECT]);
+    if (response) return response;
+
+    const ruleId = request.nextUrl.searchParams.get('ruleId') ?? undefined;
+    const entries = await getInboxRuleLog({ ruleId });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching inbox rule log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inbox rule log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/route-guard';
+import { previewInboxRule } from '@/lib/inbox-intake';
+import { normalizeRuleActions, normalizeRuleConditions, validateRule } from '@/lib/inbox-rules';
+import { Permission } from '@/types/permissions';
+
+// Past items a draft rule is tried against
+const PREVIEW_LIMIT = 200;
+
+/**
+ * POST /api/inbox/rules/preview
+ * Dry run a draft rule ({ conditions, actions }) against recent inbox items
+ * without changing them
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request, [Permission.MANAGE_ASSIGNMENTS]);
+    if (response) return response;
+
+    const body = await request.json();
+    const rule = {
+      name: 'Preview',
+      conditions: normalizeRuleConditions(body.conditions),
+      actions: normalizeRuleActions(body.actions),
+    };
+
+    const validationError = validateRule(rule);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewInboxRule(rule, PREVIEW_LIMIT);
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('Error previewing inbox rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview inbox rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import {
+  fromInboxRuleRow,
+  getInboxRules,
+  normalizeRuleActions,
+  normalizeRuleConditions,
+  validateRule,
+  validateRuleAssignee,
+} from '@/lib/inbox-rules';
+import { Permission } from '@/types/permissions';
+
+/**
+ * GET /api/inbox/rules
+ * Inbox triage rules in the order they run
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request, [Permission.CREATE_PROJECT]);
+    if (response) return response;
+
+    const rules = await getInboxRules();
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error fetching inbox rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inbox rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inbox/rules
+ * Add a triage rule; it runs after the existing ones
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await requirePermission(request, [Permission.MANAGE_ASSIGNMENTS]);
+    if (response) return response;
+
+    const body = await request.json();
+    const rule = {
+      name: typeof body.name === 'string' ? body.name.trim() : '',
+      conditions: normalizeRuleConditions(body.conditions),
+      actions: normalizeRuleActions(body.actions),
+    };
+
+    const validationError = validateRule(rule) ?? await validateRuleAssignee(rule.actions.assignToUserId);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const last = await prisma.inboxRule.findFirst({ orderBy: { position: 'desc' }, select: { position: true } });
+
+    const row = await prisma.inboxRule.create({
+      data: {
+        name: rule.name,
+        enabled: body.enabled !== false,
+        position: (last?.position ?? -1) + 1,
+        conditions: JSON.stringify(rule.conditions),
+        actions: JSON.stringify(rule.actions),
+        stopProcessing: body.stopProcessing === true,
+        createdBy: user.id,
+      },
+    });
+
+    return NextResponse.json(
+      { rule: fromInboxRuleRow(row) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating inbox rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create inbox rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  fromBidInvitationRow,
+  getInvitationPacket,
+  recordInvitationResponse,
+  recordInvitationView
+} from '@/lib/bid-invitations';
+import { BidInvitationResponseInput } from '@/types/bidInvitation';
+
+/**
+ * GET /api/invitations/[token]
+ * Public packet link for an invitee; records the first view
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const existing = await prisma.bidInvitation.findUnique({
+      where: { token },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordInvitationView(existing.id);
+
+    const invitation = await prisma.bidInvitation.findUniqueOrThrow({ where: { id: existing.id } });
+    const packet = await getInvitationPacket(invitation.bidPackageId, {
+      dueDate: invitation.dueDate,
+      instructions: invitation.instructions
+    });
+
+    if (!packet) {
+      return NextResponse.json(
+        { error: 'Bid package not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ invitation: fromBidInvitationRow(invitation), packet });
+  } catch (error) {
+    console.error('Error fetching invitation packet:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invitations/[token]
+ * Invitee confirms they intend to bid, or declines
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const body: BidInvitationResponseInput = await request.json();
+
+    if (body.response !== 'intending' && body.response !== 'declined') {
+      return NextResponse.json(
+        { error: 'response must be "intending" or "declined"' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.bidInvitation.findUnique({
+      where: { token },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await recordInvitationResponse(existing.id, body.response, body.reason || null);
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Your bid has already been received' },
+        { status: 409 }
+      );
+    }
+
+    const invitation = await prisma.bidInvitation.findUniqueOrThrow({ where: { id: existing.id } });
+
+    return NextResponse.json({ invitation: fromBidInvitationRow(invitation) });
+  } catch (error) {
+    console.error('Error recording invitation response:', error);
+    return NextResponse.json(
+      { error: 'Failed to record response' },
+      { status: 500 }
+    );
+  }
+}
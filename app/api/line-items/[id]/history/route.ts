@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getLineItemHistory } from '@/lib/line-item-history';
+import { requireBidPackageAccess, requirePermission } from '@/lib/route-guard';
+
+/**
+ * GET /api/line-items/[id]/history
+ * Fetch the change history of a line item, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const history = await getLineItemHistory(id);
+
+    // Access follows the bid package the item lives in (or last lived in, if deleted)
+    const lineItem = await prisma.lineItem.findUnique({
+      where: { id },
+      select: { bidForm: { select: { bidPackageId: true } } }
+    });
+    const bidPackageId = lineItem?.bidForm.bidPackageId
+      ?? history.find(entry => entry.bidPackageId)?.bidPackageId;
+
+    const { response } = bidPackageId
+      ? await requireBidPackageAccess(request, bidPackageId, 'view')
+      : await requirePermission(request);
+    if (response) return response;
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('Error fetching line item history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch line item history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { accessibleBidPackagesWhere, requireProjectAccess } from '@/lib/route-guard';
+import { fromLineItemRow } from '@/lib/line-item-utils';
+import { buildProjectEstimate, getProjectMarkups } from '@/lib/cost-rollup';
+
+/**
+ * GET /api/projects/[id]/estimate
+ * Project estimate rollup: subtotals per bid package and CSI division,
+ * project markups and the marked-up total
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { user, response } = await requireProjectAccess(request, id, 'view');
+    if (response) return response;
+
+    const project = await prisma.buildingConnectedProject.findUnique({
+      where: { id },
+      select: {
+        feePercentage: true,
+        generalConditionsPercentage: true,
+        contingencyPercentage: true,
+        taxPercentage: true,
+        bidPackages: {
+          where: accessibleBidPackagesWhere(user),
+          select: {
+            id: true,
+            name: true,
+            status: true,
+            bidForms: {
+              select: { lineItems: true }
+            }
+          },
+          orderBy: { name: 'asc' }
+        }
+      }
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const estimate = buildProjectEstimate(
+      id,
+      project.bidPackages.map(pkg => ({
+        id: pkg.id,
+        name: pkg.name,
+        status: pkg.status,
+        lineItems: pkg.bidForms.flatMap(form => form.lineItems.map(fromLineItemRow))
+      })),
+      getProjectMarkups(project)
+    );
+
+    return NextResponse.json({ estimate });
+  } catch (error) {
+    console.error('Error building project estimate:', error);
+    return NextResponse.json(
+      { error: 'Failed to build project estimate' },
+      { status: 500 }
+    );
+  }
+}
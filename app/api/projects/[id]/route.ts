@@ -1,29 +1,23 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-
-/**
- * Calculate approval percentage from line items
- */
-function calculateApprovalPercentage(lineItems: any[]): number {
-  if (!lineItems || lineItems.length === 0) {
-    return 0;
-  }
-
-  const approvedCount = lineItems.filter(item => item.approved === true).length;
-  return Math.round((approvedCount / lineItems.length) * 100);
-}
+import { accessibleBidPackagesWhere, requireProjectAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
+import { calculateApprovalPercentage } from '@/lib/line-item-utils';
 
 /**
  * GET /api/projects/[id]
  * Fetch a single BuildingConnected project by ID with all relations
  */
 export async function GET(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
+    const { user, response } = await requireProjectAccess(request, id, 'view');
+    if (response) return response;
+
     const project = await prisma.buildingConnectedProject.findUnique({
       where: { id },
       include: {
@@ -33,6 +27,7 @@ export async function GET(
           }
         },
         bidPackages: {
+          where: accessibleBidPackagesWhere(user),
           include: {
             bidForms: {
               include: {
@@ -79,50 +74,19 @@ export async function GET(
       project.bidPackages.forEach((bidPackage: any) => {
         // Check if progress needs to be calculated
         if (bidPackage.progress === null || bidPackage.progress === undefined) {
-          // Try from workspaceData first
-          if (bidPackage.workspaceData) {
-            try {
-              const workspaceData = JSON.parse(bidPackage.workspaceData);
-              if (workspaceData.lineItems && Array.isArray(workspaceData.lineItems)) {
-                const calculatedProgress = calculateApprovalPercentage(workspaceData.lineItems);
-                bidPackage.progress = calculatedProgress;
-
-                // Queue database update
-                updates.push(
-                  prisma.bidPackage.update({
-                    where: { id: bidPackage.id },
-                    data: { progress: calculatedProgress }
-                  })
-                );
-              }
-            } catch (error) {
-              console.error('Error parsing workspaceData for bid package:', bidPackage.id, error);
-            }
-          }
-          // Or calculate from bidForms lineItems
-          else if (bidPackage.bidForms && bidPackage.bidForms.length > 0) {
-            let totalItems = 0;
-            let approvedItems = 0;
-
-            bidPackage.bidForms.forEach((bidForm: any) => {
-              if (bidForm.lineItems && Array.isArray(bidForm.lineItems)) {
-                totalItems += bidForm.lineItems.length;
-                approvedItems += bidForm.lineItems.filter((item: any) => item.approved === true).length;
-              }
-            });
-
-            if (totalItems > 0) {
-              const calculatedProgress = Math.round((approvedItems / totalItems) * 100);
-              bidPackage.progress = calculatedProgress;
-
-              // Queue database update
-              updates.push(
-                prisma.bidPackage.update({
-                  where: { id: bidPackage.id },
-                  data: { progress: calculatedProgress }
-                })
-              );
-            }
+          const lineItems = (bidPackage.bidForms || []).flatMap((bidForm: any) => bidForm.lineItems || []);
+
+          if (lineItems.length > 0) {
+            const calculatedProgress = calculateApprovalPercentage(lineItems);
+            bidPackage.progress = calculatedProgress;
+
+            // Queue database update
+            updates.push(
+              prisma.bidPackage.update({
+                where: { id: bidPackage.id },
+                data: { progress: calculatedProgress }
+              })
+            );
           }
         }
       });
@@ -150,11 +114,16 @@ export async function GET(
  * Update a BuildingConnected project
  */
 export async function PUT(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+
+    // Project details and markups are edited by those who can create projects
+    const { user, response } = await requireProjectAccess(request, id, 'edit', [Permission.CREATE_PROJECT]);
+    if (response) return response;
+
     const body = await request.json();
 
     const {
@@ -179,7 +148,10 @@ export async function PUT(
       client,
       accountManager,
       owningOffice,
-      feePercentage
+      feePercentage,
+      generalConditionsPercentage,
+      contingencyPercentage,
+      taxPercentage
     } = body;
 
     const project = await prisma.buildingConnectedProject.update({
@@ -206,11 +178,16 @@ export async function PUT(
         ...(client !== undefined && { client }),
         ...(accountManager !== undefined && { accountManager }),
         ...(owningOffice !== undefined && { owningOffice }),
-        ...(feePercentage !== undefined && { feePercentage })
+        ...(feePercentage !== undefined && { feePercentage }),
+        ...(generalConditionsPercentage !== undefined && { generalConditionsPercentage }),
+        ...(contingencyPercentage !== undefined && { contingencyPercentage }),
+        ...(taxPercentage !== undefined && { taxPercentage })
       },
       include: {
         diagrams: true,
-        bidPackages: true
+        bidPackages: {
+          where: accessibleBidPackagesWhere(user)
+        }
       }
     });
 
@@ -237,12 +214,15 @@ export async function PUT(
  * Soft delete a BuildingConnected project (sets deletedAt timestamp)
  */
 export async function DELETE(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
 
+    const { response } = await requireProjectAccess(request, id, 'edit', [Permission.DELETE_PROJECT]);
+    if (response) return response;
+
     await prisma.buildingConnectedProject.update({
       where: { id },
       data: { deletedAt: new Date() }
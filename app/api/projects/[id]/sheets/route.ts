@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireProjectAccess } from '@/lib/route-guard';
+import { getProjectSheets } from '@/lib/diagram-sheets';
+
+/**
+ * GET /api/projects/[id]/sheets
+ * Every sheet of the project's drawing sets, for browsing by discipline
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireProjectAccess(request, id, 'view');
+    if (response) return response;
+
+    const sheets = await getProjectSheets(id);
+
+    return NextResponse.json({ sheets });
+  } catch (error) {
+    console.error('Error fetching project sheets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch project sheets' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectAccess } from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
+
+/**
+ * DELETE /api/projects/[id]/specs/[specBookId]
+ * Remove a spec book and its sections from the project
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; specBookId: string }> }
+) {
+  try {
+    const { id, specBookId } = await params;
+
+    const { response } = await requireProjectAccess(request, id, 'edit', [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
+    const { count } = await prisma.specBook.deleteMany({
+      where: { id: specBookId, bcProjectId: id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Spec book not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting spec book:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete spec book' },
+      { status: 500 }
+    );
+  }
+}
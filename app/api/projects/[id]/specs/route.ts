@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireProjectAccess } from '@/lib/route-guard';
+import { calculateBufferHash, saveUploadedFile } from '@/lib/file-utils';
+import { isPDFFile } from '@/lib/pdf-utils';
+import { getProjectSpecBooks, ingestSpecBook } from '@/lib/spec-books';
+import { Permission } from '@/types/permissions';
+
+/**
+ * GET /api/projects/[id]/specs
+ * The project's spec books with their section listing
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { response } = await requireProjectAccess(request, id, 'view');
+    if (response) return response;
+
+    const specBooks = await getProjectSpecBooks(id);
+
+    return NextResponse.json({ specBooks });
+  } catch (error) {
+    console.error('Error fetching spec books:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch spec books' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects/[id]/specs
+ * Upload a spec book PDF (multipart form with 'file'). The book is split
+ * into sections by its "SECTION 09 29 00" headings; scanned books without
+ * a text layer are stored with no sections.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { user, response } = await requireProjectAccess(request, id, 'edit', [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    if (!isPDFFile(file.name) && !isPDFFile(buffer)) {
+      return NextResponse.json(
+        { error: 'Spec books must be PDF files' },
+        { status: 400 }
+      );
+    }
+
+    const fileHash = calculateBufferHash(buffer);
+    const duplicate = await prisma.specBook.findFirst({
+      where: { bcProjectId: id, fileHash },
+      select: { fileName: true },
+    });
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `This spec book was already uploaded as ${duplicate.fileName}` },
+        { status: 409 }
+      );
+    }
+
+    const fileUrl = await saveUploadedFile(file, buffer);
+
+    const specBook = await ingestSpecBook(
+      {
+        bcProjectId: id,
+        fileName: file.name,
+        fileUrl,
+        fileSize: file.size,
+        fileHash,
+        uploadedBy: user.id,
+      },
+      buffer
+    );
+
+    return NextResponse.json({ specBook }, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading spec book:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload spec book' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
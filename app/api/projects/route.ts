@@ -1,15 +1,27 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import {
+  accessibleBidPackagesWhere,
+  accessibleProjectsWhere,
+  requirePermission
+} from '@/lib/route-guard';
+import { Permission } from '@/types/permissions';
+import { getInitialBidPackageStatus } from '@/lib/bid-package-status';
+import { linkInboxItemToProject } from '@/lib/inbox-intake';
 
 /**
  * GET /api/projects
  * Fetch all BuildingConnected projects with their relations
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const { user, response } = await requirePermission(request);
+    if (response) return response;
+
     const projects = await prisma.buildingConnectedProject.findMany({
       where: {
-        deletedAt: null // Only fetch non-deleted projects
+        deletedAt: null, // Only fetch non-deleted projects
+        ...accessibleProjectsWhere(user)
       },
       include: {
         diagrams: {
@@ -18,6 +30,7 @@ export async function GET() {
           }
         },
         bidPackages: {
+          where: accessibleBidPackagesWhere(user),
           include: {
             captain: true,
             bidForms: {
@@ -50,8 +63,11 @@ export async function GET() {
  * POST /api/projects
  * Create a new BuildingConnected project with diagrams and bid packages
  */
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
+    const { response } = await requirePermission(request, [Permission.CREATE_PROJECT]);
+    if (response) return response;
+
     const body = await request.json();
 
     const {
@@ -100,6 +116,7 @@ export async function POST(request: Request) {
       minorityBusinessGoal,
       womenBusinessGoal,
       uploadedDocuments,
+      inboxItemId,
       bidPackages
     } = body;
 
@@ -154,24 +171,38 @@ export async function POST(request: Request) {
         }
       });
 
-      // Create diagrams if provided
+      // Create diagrams if provided; documents that are already diagrams (inbox
+      // attachments) are moved to the project instead
       if (uploadedDocuments && uploadedDocuments.length > 0) {
         await Promise.all(
-          uploadedDocuments.map((doc: any) =>
-            tx.diagram.create({
-              data: {
-                bcProjectId: newProject.id,
-                fileName: doc.fileName,
-                fileUrl: doc.url,
-                fileType: doc.fileType,
-                fileSize: doc.fileSize,
-                uploadedBy: doc.uploadedBy || null
-              }
-            })
+          uploadedDocuments.map((doc: any) => doc.diagramId
+            ? tx.diagram.updateMany({
+                where: { id: doc.diagramId, bcProjectId: null, projectId: null },
+                data: { bcProjectId: newProject.id }
+              })
+            : tx.diagram.create({
+                data: {
+                  bcProjectId: newProject.id,
+                  fileName: doc.fileName,
+                  fileUrl: doc.url,
+                  fileType: doc.fileType,
+                  fileSize: doc.fileSize,
+                  uploadedBy: doc.uploadedBy || null
+                }
+              })
           )
         );
       }
 
+      // Project created from an inbound bid invitation; the invitation is then done
+      if (inboxItemId) {
+        await linkInboxItemToProject(inboxItemId, newProject.id, tx);
+        await tx.inboxItem.update({
+          where: { id: inboxItemId },
+          data: { status: 'completed' },
+        });
+      }
+
       // Create bid packages if provided
       if (bidPackages && bidPackages.length > 0) {
         await Promise.all(
@@ -181,7 +212,7 @@ export async function POST(request: Request) {
                 bcBidPackageId: pkg.bcBidPackageId || `${bcProjectId}-${pkg.name.toLowerCase().replace(/\s+/g, '-')}`,
                 bcProjectId: newProject.id,
                 name: pkg.name,
-                status: pkg.status || 'draft',
+                status: getInitialBidPackageStatus(pkg.captainId),
                 progress: pkg.progress || 0,
                 bidDueDate: pkg.bidDueDate ? new Date(pkg.bidDueDate) : null,
                 diagramIds: pkg.diagramIds ? JSON.stringify(pkg.diagramIds) : null,
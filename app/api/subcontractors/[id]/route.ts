@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import {
+  fromSubcontractorRow,
+  subcontractorInclude,
+  toContactData,
+  toSubcontractorData,
+  validateSubcontractorInput
+} from '@/lib/subcontractor-utils';
+import { Permission } from '@/types/permissions';
+import { SubcontractorInput } from '@/types/subcontractor';
+
+/**
+ * GET /api/subcontractors/[id]
+ * Fetch a single subcontractor with contacts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { response } = await requirePermission(request);
+    if (response) return response;
+
+    const { id } = await params;
+
+    const subcontractor = await prisma.subcontractor.findUnique({
+      where: { id },
+      include: subcontractorInclude
+    });
+
+    if (!subcontractor) {
+      return NextResponse.json(
+        { error: 'Subcontractor not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ subcontractor: fromSubcontractorRow(subcontractor) });
+  } catch (error) {
+    console.error('Error fetching subcontractor:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subcontractor' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/subcontractors/[id]
+ * Update a subcontractor; `contacts` replaces all contacts
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { response } = await requirePermission(request, [Permission.MANAGE_SUBCONTRACTORS]);
+    if (response) return response;
+
+    const { id } = await params;
+    const body: SubcontractorInput = await request.json();
+
+    const validationError = validateSubcontractorInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const subcontractor = await prisma.$transaction(async (tx) => {
+      if (body.contacts !== undefined) {
+        await tx.subcontractorContact.deleteMany({ where: { subcontractorId: id } });
+      }
+
+      return tx.subcontractor.update({
+        where: { id },
+        data: {
+          ...toSubcontractorData(body),
+          ...(body.contacts !== undefined && {
+            contacts: { create: toContactData(body.contacts) }
+          })
+        },
+        include: subcontractorInclude
+      });
+    });
+
+    return NextResponse.json({ subcontractor: fromSubcontractorRow(subcontractor) });
+  } catch (error) {
+    console.error('Error updating subcontractor:', error);
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { error: 'Subcontractor not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update subcontractor' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/subcontractors/[id]
+ * Remove a subcontractor from the directory (cascades to contacts)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { response } = await requirePermission(request, [Permission.MANAGE_SUBCONTRACTORS]);
+    if (response) return response;
+
+    const { id } = await params;
+
+    await prisma.subcontractor.delete({
+      where: { id }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting subcontractor:', error);
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return NextResponse.json(
+        { error: 'Subcontractor not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete subcontractor' },
+      { status: 500 }
+    );
+  }
+}
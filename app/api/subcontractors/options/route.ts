@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/route-guard';
+import { getSubcontractorOptions } from '@/lib/subcontractor-utils';
+
+/**
+ * GET /api/subcontractors/options
+ * Trades (from TRADE_CATEGORIES) and CSI divisions a subcontractor can be tagged with
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request);
+    if (response) return response;
+
+    return NextResponse.json(getSubcontractorOptions());
+  } catch (error) {
+    console.error('Error fetching subcontractor options:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subcontractor options' },
+      { status: 500 }
+    );
+  }
+}
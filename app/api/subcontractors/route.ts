@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/route-guard';
+import {
+  fromSubcontractorRow,
+  subcontractorInclude,
+  toContactData,
+  toSubcontractorData,
+  validateSubcontractorInput
+} from '@/lib/subcontractor-utils';
+import { Permission } from '@/types/permissions';
+import { SubcontractorInput } from '@/types/subcontractor';
+
+/**
+ * GET /api/subcontractors
+ * List the subcontractor directory
+ * Query params: search, trade, division, prequalStatus, includeInactive=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request);
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get('search');
+    const trade = searchParams.get('trade');
+    const division = searchParams.get('division');
+    const prequalStatus = searchParams.get('prequalStatus');
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    // Trades and divisions are JSON arrays of strings, so match on the quoted value
+    const where: Prisma.SubcontractorWhereInput = {
+      ...(!includeInactive && { isActive: true }),
+      ...(prequalStatus && { prequalStatus }),
+      ...(trade && { trades: { contains: JSON.stringify(trade) } }),
+      ...(division && { csiDivisions: { contains: JSON.stringify(division) } }),
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { notes: { contains: search, mode: 'insensitive' } },
+          { contacts: { some: { name: { contains: search, mode: 'insensitive' } } } }
+        ]
+      })
+    };
+
+    const subcontractors = await prisma.subcontractor.findMany({
+      where,
+      include: subcontractorInclude,
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json({ subcontractors: subcontractors.map(fromSubcontractorRow) });
+  } catch (error) {
+    console.error('Error fetching subcontractors:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch subcontractors' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/subcontractors
+ * Add a subcontractor to the directory
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await requirePermission(request, [Permission.MANAGE_SUBCONTRACTORS]);
+    if (response) return response;
+
+    const body: SubcontractorInput = await request.json();
+
+    if (!body.name?.trim()) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateSubcontractorInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const subcontractor = await prisma.subcontractor.create({
+      data: {
+        name: body.name.trim(),
+        ...toSubcontractorData(body),
+        contacts: {
+          create: toContactData(body.contacts || [])
+        }
+      },
+      include: subcontractorInclude
+    });
+
+    return NextResponse.json(
+      { subcontractor: fromSubcontractorRow(subcontractor) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating subcontractor:', error);
+    return NextResponse.json(
+      { error: 'Failed to create subcontractor' },
+      { status: 500 }
+    );
+  }
+}
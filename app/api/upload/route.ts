@@ -1,14 +1,14 @@
-import { put } from '@vercel/blob';
-import { NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import {
-  calculateFileHash,
   calculateBufferHash,
   checkDuplicateFile,
-  generateCopyName
+  generateCopyName,
+  saveUploadedFile
 } from '@/lib/file-utils';
+import { requirePermission, requireProjectAccess } from '@/lib/route-guard';
+import { indexDiagramSheets } from '@/lib/diagram-sheets';
+import { Permission } from '@/types/permissions';
 
 interface UploadResult {
   diagram?: any;
@@ -23,8 +23,11 @@ interface UploadResult {
   suggestedProjectName?: string;
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
+    const { response } = await requirePermission(request, [Permission.UPLOAD_DIAGRAMS]);
+    if (response) return response;
+
     const formData = await request.formData();
     const files = formData.getAll('file') as File[];
     const bcProjectId = formData.get('bcProjectId') as string;
@@ -37,22 +40,13 @@ export async function POST(request: Request) {
       );
     }
 
-    // If bcProjectId provided, verify project exists
+    // If bcProjectId provided, verify project exists and the user can add drawings to it
     if (bcProjectId) {
-      const project = await prisma.buildingConnectedProject.findUnique({
-        where: { id: bcProjectId }
-      });
-
-      if (!project) {
-        return NextResponse.json(
-          { error: 'Project not found' },
-          { status: 404 }
-        );
-      }
+      const projectAccess = await requireProjectAccess(request, bcProjectId, 'edit');
+      if (projectAccess.response) return projectAccess.response;
     }
 
     const results: UploadResult[] = [];
-    const blobToken = process.env.BLOB_READ_WRITE_TOKEN;
 
     // Get all existing project names for copy numbering
     const existingProjects = await prisma.buildingConnectedProject.findMany({
@@ -96,30 +90,7 @@ export async function POST(request: Request) {
       }
 
       // Not a duplicate, proceed with upload
-      let fileUrl: string;
-
-      if (blobToken) {
-        // Use Vercel Blob Storage in production
-        const blob = await put(file.name, file, {
-          access: 'public',
-        });
-        fileUrl = blob.url;
-      } else {
-        // Use local file system for development
-        const uploadDir = path.join(process.cwd(), 'public', 'uploads');
-        await mkdir(uploadDir, { recursive: true });
-
-        // Generate unique filename
-        const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
-        const filename = `${uniqueSuffix}-${file.name}`;
-        const filepath = path.join(uploadDir, filename);
-
-        // Write file to disk
-        await writeFile(filepath, buffer);
-
-        // Return local URL
-        fileUrl = `/uploads/${filename}`;
-      }
+      const fileUrl = await saveUploadedFile(file, buffer);
 
       // Create diagram record in database if bcProjectId provided
       let diagram = null;
@@ -135,6 +106,13 @@ export async function POST(request: Request) {
             uploadedBy: uploadedBy || undefined
           }
         });
+
+        // Sheet metadata is a convenience; an unreadable text layer never fails the upload
+        try {
+          await indexDiagramSheets(diagram.id);
+        } catch (error) {
+          console.error('Error indexing diagram sheets:', error);
+        }
       }
 
       results.push({
@@ -29,6 +29,7 @@ export async function GET(request: NextRequest) {
         firstName: true,
         lastName: true,
         avatarUrl: true,
+        role: true,
         isActive: true,
         createdAt: true,
         lastLoginAt: true,
@@ -0,0 +1,215 @@
+'use client';
+
+/**
+ * Bid Invitation Packet Page
+ * /invitations/:token route - public link emailed to invitees. Shows the
+ * packet and lets the invitee confirm they intend to bid or decline.
+ */
+
+import { useState, useEffect, use } from 'react';
+import { BidInvitation, BidInvitationStatusLabels, InvitationPacket } from '@/types/bidInvitation';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function BidInvitationPage({ params }: PageProps) {
+  const { token } = use(params);
+
+  const [invitation, setInvitation] = useState<BidInvitation | null>(null);
+  const [packet, setPacket] = useState<InvitationPacket | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [showDecline, setShowDecline] = useState(false);
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${token}`);
+        if (!response.ok) {
+          setError('This invitation link is invalid or has been withdrawn.');
+          return;
+        }
+        const data = await response.json();
+        setInvitation(data.invitation);
+        setPacket(data.packet);
+      } catch (err) {
+        console.error('Failed to load invitation:', err);
+        setError('Failed to load invitation');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const respond = async (response: 'intending' | 'declined') => {
+    setIsResponding(true);
+    try {
+      const res = await fetch(`/api/invitations/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response, reason: response === 'declined' ? declineReason || null : null }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to record response');
+      setInvitation(data.invitation);
+      setShowDecline(false);
+    } catch (err) {
+      console.error('Failed to respond to invitation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to record response');
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-zinc-900"></div>
+      </div>
+    );
+  }
+
+  if (error || !invitation || !packet) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="text-sm text-gray-600">{error || 'Invitation not found'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="max-w-3xl mx-auto bg-white border border-gray-200 rounded-lg shadow-sm">
+        <div className="px-6 py-5 border-b border-gray-200">
+          <p className="text-xs text-gray-500 uppercase tracking-wide">Invitation to Bid</p>
+          <h1 className="text-xl font-semibold text-zinc-900 mt-1">{packet.bidPackageName}</h1>
+          <p className="text-sm text-gray-600">{packet.projectName}</p>
+          <div className="flex items-center gap-4 mt-3 text-sm">
+            <span>
+              <span className="text-gray-500">Invited:</span> {invitation.companyName}
+            </span>
+            <span>
+              <span className="text-gray-500">Due:</span>{' '}
+              {packet.dueDate ? new Date(packet.dueDate).toLocaleDateString() : 'TBD'}
+            </span>
+            <span>
+              <span className="text-gray-500">Status:</span> {BidInvitationStatusLabels[invitation.status]}
+            </span>
+          </div>
+        </div>
+
+        {packet.instructions && (
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-sm font-semibold text-zinc-900 mb-1">Instructions</h2>
+            <p className="text-sm text-zinc-700 whitespace-pre-wrap">{packet.instructions}</p>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-zinc-900 mb-2">Scope ({packet.scope.length} items)</h2>
+          {packet.scope.length === 0 ? (
+            <p className="text-sm text-gray-500">See drawings.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500 border-b border-gray-200">
+                  <th className="py-1.5 pr-2">#</th>
+                  <th className="py-1.5 pr-2">Description</th>
+                  <th className="py-1.5 pr-2">CSI</th>
+                  <th className="py-1.5 text-right">Qty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {packet.scope.map((item, index) => (
+                  <tr key={index} className="border-b border-gray-100 align-top">
+                    <td className="py-1.5 pr-2 text-zinc-500">{item.itemNumber}</td>
+                    <td className="py-1.5 pr-2">
+                      {item.description}
+                      {item.notes && <div className="text-xs text-gray-500">{item.notes}</div>}
+                    </td>
+                    <td className="py-1.5 pr-2 text-xs text-zinc-600">{item.csiCode}</td>
+                    <td className="py-1.5 text-right whitespace-nowrap">
+                      {item.quantity ?? '—'} {item.unit}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {packet.diagrams.length > 0 && (
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-sm font-semibold text-zinc-900 mb-2">Drawings</h2>
+            <ul className="space-y-1">
+              {packet.diagrams.map(diagram => (
+                <li key={diagram.id}>
+                  <a href={diagram.fileUrl} target="_blank" rel="noopener noreferrer" className="text-sm text-sky-700 hover:underline">
+                    {diagram.fileName}
+                  </a>
+                  {diagram.category && <span className="text-xs text-gray-500 ml-2">{diagram.category}</span>}
+                  {diagram.sheets.length > 0 && (
+                    <p className="text-xs text-gray-600">Sheets: {diagram.sheets.join(', ')}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="px-6 py-4">
+          {invitation.status === 'submitted' ? (
+            <p className="text-sm text-emerald-700">Your bid has been received. Thank you.</p>
+          ) : showDecline ? (
+            <div className="space-y-2">
+              <textarea
+                value={declineReason}
+                onChange={e => setDeclineReason(e.target.value)}
+                rows={2}
+                placeholder="Reason (optional)"
+                className="w-full px-2 py-1.5 text-sm border border-zinc-300 rounded focus:outline-none focus:ring-1 focus:ring-zinc-900"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setShowDecline(false)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => respond('declined')}
+                  disabled={isResponding}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  Decline to Bid
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setShowDecline(true)}
+                disabled={isResponding}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => respond('intending')}
+                disabled={isResponding || invitation.status === 'intending'}
+                className="px-4 py-2 text-sm font-medium text-white bg-zinc-900 rounded-lg hover:bg-zinc-800 transition-colors disabled:opacity-50"
+              >
+                {invitation.status === 'intending' ? 'Intent to Bid Confirmed' : 'We Intend to Bid'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
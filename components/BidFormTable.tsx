@@ -3,6 +3,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import CSIInlineSearch from './CSIInlineSearch';
+import { formatCurrency, getDivisionSubtotals, getLineItemTotal, summarizeLineItems } from '@/lib/cost-rollup';
+import { PriceSuggestion, PriceSuggestionScopeLabels } from '@/types/costLibrary';
 
 // Summary of other bid packages for reallocation
 interface BidPackageSummary {
@@ -86,6 +88,16 @@ const getConfidenceBadgeClass = (confidence: number | null | undefined): string
   return 'bg-red-100 border-red-300';
 };
 
+// Parse a numeric input value (empty clears the field)
+const parseNumberInput = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Key for the historical price suggestion of a CSI code / unit pair
+const getSuggestionKey = (csiCode: string, unit: string): string => JSON.stringify([csiCode, unit]);
+
 export interface LineItem {
   id?: string;
   item_number?: string | null;
@@ -106,6 +118,8 @@ export interface LineItem {
   } | null;
   csiCode?: string | null; // CSI MasterFormat code (e.g., "03 30 00")
   csiTitle?: string | null; // CSI MasterFormat title (e.g., "Cast-in-Place Concrete")
+  sourceRevision?: number | null; // Diagram revision the item was taken from
+  needsRevisionReview?: boolean; // A later diagram revision changed the drawing under the item
 }
 
 interface BidFormTableProps {
@@ -117,6 +131,7 @@ interface BidFormTableProps {
   onChatOpen?: () => void;
   otherBidPackages?: BidPackageSummary[];
   onReallocateItem?: (itemId: string, targetPackageId: string) => void;
+  projectId?: string; // Enables historical unit price suggestions for the project
 }
 
 export default function BidFormTable({
@@ -127,7 +142,8 @@ export default function BidFormTable({
   onHoverChange,
   onChatOpen,
   otherBidPackages = [],
-  onReallocateItem
+  onReallocateItem,
+  projectId
 }: BidFormTableProps) {
   const [lineItems, setLineItems] = useState<LineItem[]>(initialLineItems || []);
   const [editingCell, setEditingCell] = useState<{ rowIndex: number; field: string } | null>(null);
@@ -140,6 +156,7 @@ export default function BidFormTable({
   const [mounted, setMounted] = useState(false);
   const [reallocateSearch, setReallocateSearch] = useState('');
   const [reallocateHighlightIndex, setReallocateHighlightIndex] = useState(0);
+  const [priceSuggestions, setPriceSuggestions] = useState<Record<string, PriceSuggestion>>({});
   const reallocateDropdownRef = useRef<HTMLDivElement>(null);
   const buttonRefs = useRef<Map<number, HTMLButtonElement>>(new Map());
 
@@ -148,6 +165,38 @@ export default function BidFormTable({
     setMounted(true);
   }, []);
 
+  // Load historical unit price ranges for each CSI code / unit pair in the table
+  const suggestionKeys = JSON.stringify(
+    [...new Set(lineItems.filter(item => item.csiCode && item.unit).map(item => getSuggestionKey(item.csiCode!, item.unit!)))].sort()
+  );
+  useEffect(() => {
+    const keys: string[] = JSON.parse(suggestionKeys);
+    if (!projectId || keys.length === 0) return;
+
+    // Debounce so editing a code or unit doesn't fire a request per key
+    const timer = setTimeout(async () => {
+      try {
+        const pairs: [string, string][] = keys.map(key => JSON.parse(key));
+        const response = await fetch('/api/cost-library/suggestions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ projectId, items: pairs.map(([csiCode, unit]) => ({ csiCode, unit })) }),
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+
+        const next: Record<string, PriceSuggestion> = {};
+        keys.forEach((key, i) => {
+          if (data.suggestions?.[i]) next[key] = data.suggestions[i];
+        });
+        setPriceSuggestions(next);
+      } catch (error) {
+        console.error('Error loading unit price suggestions:', error);
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [projectId, suggestionKeys]);
+
   // Click outside handler for reallocate dropdown
   useEffect(() => {
     if (reallocateDropdownIndex === null) return;
@@ -217,6 +266,14 @@ export default function BidFormTable({
     const updated = [...lineItems];
     updated[index] = { ...updated[index], [field]: value };
 
+    // Keep the stored total in sync with quantity × unit price
+    if (field === 'quantity' || field === 'unit_price') {
+      const computedTotal = getLineItemTotal({ ...updated[index], total_price: null });
+      if (computedTotal !== null) {
+        updated[index].total_price = computedTotal;
+      }
+    }
+
     setLineItems(updated);
     onUpdate(updated);
   };
@@ -241,6 +298,8 @@ export default function BidFormTable({
       description: field === 'description' ? value : '',
       quantity: field === 'quantity' ? value : null,
       unit: field === 'unit' ? value : '',
+      unit_price: field === 'unit_price' ? value : null,
+      total_price: null,
       notes: field === 'notes' ? value : '',
       confidence: field === 'confidence' ? parseFloat(value) : 50, // Default to 50% confidence
       verified: false,
@@ -367,6 +426,74 @@ export default function BidFormTable({
     return sortItems(result);
   })();
 
+  // Package and per-division subtotals (over all items, not just the search results)
+  const pricedSummary = summarizeLineItems(lineItems);
+  const divisionSubtotals = getDivisionSubtotals(lineItems);
+
+  // Inline-editable numeric cell (quantity, unit price, lump sum total)
+  const renderNumberCell = (
+    item: LineItem,
+    index: number,
+    field: 'quantity' | 'unit_price' | 'total_price',
+    placeholder: string
+  ) => {
+    const value = item[field];
+    const isCurrency = field !== 'quantity';
+
+    if (isEditing(index, field) && !readOnly) {
+      return (
+        <input
+          type="number"
+          step="any"
+          value={value ?? ''}
+          onChange={(e) => handleChange(index, field, parseNumberInput(e.target.value))}
+          onBlur={stopEditing}
+          autoFocus
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400 bg-white text-zinc-900 text-right font-mono placeholder:text-gray-400"
+          placeholder={placeholder}
+        />
+      );
+    }
+
+    return (
+      <div
+        onClick={() => !readOnly && startEditing(index, field)}
+        className={`w-full px-3 py-2 text-sm text-zinc-900 font-mono rounded-lg min-h-[2.5rem] flex items-center justify-end ${
+          readOnly ? '' : 'cursor-pointer hover:bg-gray-50'
+        }`}
+      >
+        {value != null
+          ? (isCurrency ? formatCurrency(value) : value)
+          : <span className="text-gray-400">{placeholder}</span>}
+      </div>
+    );
+  };
+
+  // Historical unit price range from the cost library; click to use the median
+  const renderPriceSuggestion = (item: LineItem, index: number) => {
+    const suggestion = item.csiCode && item.unit
+      ? priceSuggestions[getSuggestionKey(item.csiCode, item.unit)]
+      : undefined;
+    if (!suggestion) return null;
+
+    const canApply = !readOnly && item.unit_price == null;
+    const isOutside = item.unit_price != null && (item.unit_price < suggestion.low || item.unit_price > suggestion.high);
+
+    return (
+      <button
+        type="button"
+        onClick={() => canApply && handleChange(index, 'unit_price', suggestion.median)}
+        disabled={!canApply}
+        title={`Median ${formatCurrency(suggestion.median)}/${suggestion.unit} from ${suggestion.count} data point${suggestion.count === 1 ? '' : 's'} (${PriceSuggestionScopeLabels[suggestion.scope]}), observed ${formatCurrency(suggestion.min)}-${formatCurrency(suggestion.max)}${canApply ? ' - click to use the median' : ''}`}
+        className={`block w-full px-3 text-right text-[11px] font-mono ${
+          isOutside ? 'text-amber-600' : 'text-gray-500'
+        } ${canApply ? 'hover:text-zinc-900 hover:underline' : 'cursor-default'}`}
+      >
+        {formatCurrency(suggestion.low)}-{formatCurrency(suggestion.high)} · {suggestion.count} pt{suggestion.count === 1 ? '' : 's'}
+      </button>
+    );
+  };
+
   // Sort indicator component
   const SortIndicator = ({ column }: { column: typeof sortColumn }) => {
     if (sortColumn !== column) {
@@ -517,6 +644,10 @@ export default function BidFormTable({
                   <SortIndicator column="csiCode" />
                 </div>
               </th>
+              <th className="px-3 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider w-24">Qty</th>
+              <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider w-20">Unit</th>
+              <th className="px-3 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider w-28">Unit Price</th>
+              <th className="px-3 py-3 text-right text-xs font-semibold text-gray-500 uppercase tracking-wider w-32">Total</th>
               <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider min-w-32">Notes</th>
               {!readOnly && <th className="px-3 py-3 text-left text-xs font-semibold text-gray-500 uppercase tracking-wider w-20">Actions</th>}
             </tr>
@@ -603,6 +734,21 @@ export default function BidFormTable({
                         }`}
                       >
                         {item.description || <span className="text-gray-400">Description</span>}
+                        {item.needsRevisionReview && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (!readOnly) handleChange(index, 'needsRevisionReview', false);
+                            }}
+                            className="ml-2 flex-shrink-0 px-1.5 py-0.5 text-[10px] font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded hover:bg-amber-100"
+                            title={`The drawing changed under this item in a later revision${
+                              item.sourceRevision ? ` (taken from revision ${item.sourceRevision})` : ''
+                            }${readOnly ? '' : ' - click once reviewed'}`}
+                          >
+                            Revised
+                          </button>
+                        )}
                       </div>
                     )}
                   </td>
@@ -648,6 +794,45 @@ export default function BidFormTable({
                       </div>
                     )}
                   </td>
+                  <td className="px-3 py-3">
+                    {renderNumberCell(item, index, 'quantity', 'Qty')}
+                  </td>
+                  <td className="px-3 py-3">
+                    {isEditing(index, 'unit') && !readOnly ? (
+                      <input
+                        type="text"
+                        value={item.unit || ''}
+                        onChange={(e) => handleChange(index, 'unit', e.target.value)}
+                        onBlur={stopEditing}
+                        autoFocus
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400 bg-white text-zinc-900 placeholder:text-gray-400"
+                        placeholder="Unit"
+                      />
+                    ) : (
+                      <div
+                        onClick={() => !readOnly && startEditing(index, 'unit')}
+                        className={`w-full px-3 py-2 text-sm text-zinc-900 rounded-lg min-h-[2.5rem] flex items-center ${
+                          readOnly ? '' : 'cursor-pointer hover:bg-gray-50'
+                        }`}
+                      >
+                        {item.unit || <span className="text-gray-400">Unit</span>}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-3 py-3">
+                    {renderNumberCell(item, index, 'unit_price', '$')}
+                    {renderPriceSuggestion(item, index)}
+                  </td>
+                  <td className="px-3 py-3">
+                    {/* Computed from quantity × unit price; editable as a lump sum otherwise */}
+                    {item.quantity != null && item.unit_price != null
+                      ? (
+                        <div className="w-full px-3 py-2 text-sm text-zinc-900 font-mono font-semibold min-h-[2.5rem] flex items-center justify-end">
+                          {formatCurrency(getLineItemTotal(item))}
+                        </div>
+                      )
+                      : renderNumberCell(item, index, 'total_price', 'Lump sum')}
+                  </td>
                   <td className="px-3 py-3">
                     {isEditing(index, 'notes') && !readOnly ? (
                       <input
@@ -830,6 +1015,36 @@ export default function BidFormTable({
                 <td className="px-3 py-3">
                   <span className="text-xs text-gray-400 italic">Auto-matched on extraction</span>
                 </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    value=""
+                    onChange={(e) => handlePlaceholderChange('quantity', parseNumberInput(e.target.value))}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400 bg-white text-zinc-900 text-right font-mono placeholder:text-gray-400"
+                    placeholder="Qty"
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="text"
+                    value=""
+                    onChange={(e) => handlePlaceholderChange('unit', e.target.value)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400 bg-white text-zinc-900 placeholder:text-gray-400"
+                    placeholder="Unit"
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <input
+                    type="number"
+                    value=""
+                    onChange={(e) => handlePlaceholderChange('unit_price', parseNumberInput(e.target.value))}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400 bg-white text-zinc-900 text-right font-mono placeholder:text-gray-400"
+                    placeholder="$"
+                  />
+                </td>
+                <td className="px-3 py-3">
+                  <span className="text-xs text-gray-400">-</span>
+                </td>
                 <td className="px-3 py-3">
                   <input
                     type="text"
@@ -845,6 +1060,30 @@ export default function BidFormTable({
               </tr>
             )}
           </tbody>
+          {pricedSummary.pricedCount > 0 && (
+            <tfoot className="bg-gray-50 border-t border-gray-200 text-sm">
+              {divisionSubtotals.map(division => (
+                <tr key={division.division ?? 'unclassified'}>
+                  <td colSpan={7} className="px-3 py-1.5 text-right text-xs text-gray-600">
+                    {division.division ? `Div ${division.division} - ${division.title}` : division.title}
+                    <span className="text-gray-400 ml-2">({division.pricedCount}/{division.itemCount} priced)</span>
+                  </td>
+                  <td className="px-3 py-1.5 text-right font-mono text-zinc-900">{formatCurrency(division.subtotal)}</td>
+                  <td colSpan={readOnly ? 1 : 2}></td>
+                </tr>
+              ))}
+              <tr className="border-t border-gray-200">
+                <td colSpan={7} className="px-3 py-2 text-right text-xs font-semibold text-zinc-900 uppercase tracking-wider">
+                  Package Subtotal
+                  <span className="text-gray-500 font-normal normal-case tracking-normal ml-2">
+                    ({pricedSummary.pricedCount}/{pricedSummary.itemCount} priced)
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-right font-mono font-semibold text-zinc-900">{formatCurrency(pricedSummary.subtotal)}</td>
+                <td colSpan={readOnly ? 1 : 2}></td>
+              </tr>
+            </tfoot>
+          )}
         </table>
           </div>
         </div>
@@ -0,0 +1,222 @@
+'use client';
+
+/**
+ * Bid Invitation Form
+ * Modal for inviting suggested directory subcontractors and ad-hoc companies to bid
+ */
+
+import { useState, useEffect } from 'react';
+import { CreateBidInvitationsInput, BidInviteeInput } from '@/types/bidInvitation';
+import { SubcontractorSuggestion } from '@/types/subcontractor';
+
+interface BidInvitationFormProps {
+  bidPackageId: string;
+  defaultDueDate?: Date | string | null;
+  alreadyInvitedIds: string[]; // Directory subcontractors with an invitation already
+  isSaving?: boolean;
+  onSave: (input: CreateBidInvitationsInput) => void;
+  onCancel: () => void;
+}
+
+const toDateInput = (value: Date | string | null | undefined): string =>
+  value ? new Date(value).toISOString().slice(0, 10) : '';
+
+export default function BidInvitationForm({
+  bidPackageId,
+  defaultDueDate,
+  alreadyInvitedIds,
+  isSaving = false,
+  onSave,
+  onCancel,
+}: BidInvitationFormProps) {
+  const [suggestions, setSuggestions] = useState<SubcontractorSuggestion[]>([]);
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [adHocInvitees, setAdHocInvitees] = useState<{ companyName: string; contactName: string; contactEmail: string }[]>([]);
+  const [dueDate, setDueDate] = useState(toDateInput(defaultDueDate));
+  const [instructions, setInstructions] = useState('');
+  const [send, setSend] = useState(true);
+
+  useEffect(() => {
+    fetch(`/api/bid-packages/${bidPackageId}/suggested-subcontractors`)
+      .then(response => response.ok ? response.json() : { suggestions: [] })
+      .then(data => setSuggestions(data.suggestions || []))
+      .catch(err => console.error('Error loading suggested subcontractors:', err))
+      .finally(() => setIsLoadingSuggestions(false));
+  }, [bidPackageId]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id]);
+  };
+
+  const invitees: BidInviteeInput[] = [
+    ...selectedIds.map(subcontractorId => ({ subcontractorId })),
+    ...adHocInvitees
+      .filter(invitee => invitee.companyName.trim())
+      .map(invitee => ({
+        companyName: invitee.companyName.trim(),
+        contactName: invitee.contactName || null,
+        contactEmail: invitee.contactEmail || null,
+      })),
+  ];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invitees.length === 0) return;
+
+    onSave({
+      invitees,
+      dueDate: dueDate || null,
+      instructions: instructions || null,
+      send,
+    });
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-zinc-300 rounded focus:outline-none focus:ring-1 focus:ring-zinc-900';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col"
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-zinc-900">Invite Subcontractors to Bid</h2>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Invitees receive the approved scope, referenced drawings, due date and instructions.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* Suggested directory subs */}
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-900 mb-2">Suggested from Directory</h3>
+            {isLoadingSuggestions ? (
+              <p className="text-xs text-gray-500">Loading suggestions...</p>
+            ) : suggestions.length === 0 ? (
+              <p className="text-xs text-gray-500">No directory subcontractors cover this package&apos;s scope.</p>
+            ) : (
+              <div className="space-y-1">
+                {suggestions.map(({ subcontractor, matchedDivisions, matchedTrades }) => {
+                  const invited = alreadyInvitedIds.includes(subcontractor.id);
+                  return (
+                    <label
+                      key={subcontractor.id}
+                      className={`flex items-center gap-2 px-2 py-1.5 rounded hover:bg-gray-50 ${invited ? 'opacity-50' : ''}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(subcontractor.id)}
+                        onChange={() => toggleSelected(subcontractor.id)}
+                        disabled={invited}
+                        className="h-4 w-4"
+                      />
+                      <span className="text-sm text-zinc-900">{subcontractor.name}</span>
+                      <span className="text-[11px] text-gray-500">
+                        {[...matchedDivisions.map(d => `Div ${d}`), ...matchedTrades].join(', ')}
+                        {invited && ' · already invited'}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Ad-hoc invitees */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-zinc-900">Other Companies</h3>
+              <button
+                type="button"
+                onClick={() => setAdHocInvitees(prev => [...prev, { companyName: '', contactName: '', contactEmail: '' }])}
+                className="text-xs font-medium text-zinc-700 hover:text-zinc-900"
+              >
+                + Add company
+              </button>
+            </div>
+            {adHocInvitees.length === 0 ? (
+              <p className="text-xs text-gray-500">None</p>
+            ) : (
+              <div className="space-y-2">
+                {adHocInvitees.map((invitee, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      value={invitee.companyName}
+                      onChange={e => setAdHocInvitees(prev => prev.map((v, i) => i === index ? { ...v, companyName: e.target.value } : v))}
+                      placeholder="Company"
+                      className={inputClass}
+                    />
+                    <input
+                      value={invitee.contactName}
+                      onChange={e => setAdHocInvitees(prev => prev.map((v, i) => i === index ? { ...v, contactName: e.target.value } : v))}
+                      placeholder="Contact"
+                      className={inputClass}
+                    />
+                    <input
+                      type="email"
+                      value={invitee.contactEmail}
+                      onChange={e => setAdHocInvitees(prev => prev.map((v, i) => i === index ? { ...v, contactEmail: e.target.value } : v))}
+                      placeholder="Email"
+                      className={inputClass}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setAdHocInvitees(prev => prev.filter((_, i) => i !== index))}
+                      className="p-1.5 text-gray-500 hover:text-red-600"
+                      title="Remove company"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Packet details */}
+          <div className="grid grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Bid Due Date</span>
+              <input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block col-span-2">
+              <span className="text-xs font-medium text-zinc-700">Instructions</span>
+              <textarea
+                value={instructions}
+                onChange={e => setInstructions(e.target.value)}
+                rows={3}
+                placeholder="Site walk, submission format, bonding requirements..."
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={send} onChange={e => setSend(e.target.checked)} className="h-4 w-4" />
+            <span className="text-sm text-zinc-700">Email invitations now</span>
+          </label>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || invitees.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-zinc-900 rounded-lg hover:bg-zinc-800 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : `Invite ${invitees.length || ''}`.trim()}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
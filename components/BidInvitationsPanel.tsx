@@ -0,0 +1,240 @@
+'use client';
+
+/**
+ * Bid Invitations Panel
+ * Tracks who was invited to bid a package and where each invitee stands
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import BidInvitationForm from './BidInvitationForm';
+import {
+  BID_INVITATION_STATUSES,
+  BidInvitation,
+  BidInvitationStatus,
+  BidInvitationStatusLabels,
+  CreateBidInvitationsInput,
+} from '@/types/bidInvitation';
+
+interface BidInvitationsPanelProps {
+  bidPackageId: string;
+  defaultDueDate?: Date | string | null;
+  canManage: boolean; // User may send and update invitations for this package
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<BidInvitationStatus, string> = {
+  invited: 'bg-gray-100 text-gray-700',
+  viewed: 'bg-sky-100 text-sky-800',
+  declined: 'bg-red-100 text-red-700',
+  intending: 'bg-amber-100 text-amber-800',
+  submitted: 'bg-emerald-100 text-emerald-800',
+};
+
+export default function BidInvitationsPanel({
+  bidPackageId,
+  defaultDueDate,
+  canManage,
+  onClose,
+}: BidInvitationsPanelProps) {
+  const [invitations, setInvitations] = useState<BidInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const baseUrl = `/api/bid-packages/${bidPackageId}/invitations`;
+
+  const loadInvitations = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(baseUrl);
+      if (!response.ok) throw new Error('Failed to load invitations');
+      const data = await response.json();
+      setInvitations(data.invitations || []);
+    } catch (err) {
+      console.error('Error loading bid invitations:', err);
+      setError('Failed to load invitations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const handleCreate = async (input: CreateBidInvitationsInput) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to send invitations');
+
+      if (data.failures?.length > 0) {
+        alert(
+          'Some invitations were saved but not emailed:\n' +
+          data.failures.map((f: { companyName: string; error: string }) => `${f.companyName}: ${f.error}`).join('\n')
+        );
+      }
+      setShowForm(false);
+      await loadInvitations();
+    } catch (err) {
+      console.error('Error creating bid invitations:', err);
+      alert(err instanceof Error ? err.message : 'Failed to send invitations');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (invitation: BidInvitation, status: BidInvitationStatus) => {
+    try {
+      const response = await fetch(`${baseUrl}/${invitation.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) throw new Error('Failed to update invitation');
+      await loadInvitations();
+    } catch (err) {
+      console.error('Error updating bid invitation:', err);
+      alert('Failed to update invitation');
+    }
+  };
+
+  const handleSend = async (invitation: BidInvitation) => {
+    try {
+      const response = await fetch(`${baseUrl}/${invitation.id}/send`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to send invitation');
+      }
+      await loadInvitations();
+    } catch (err) {
+      console.error('Error sending bid invitation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to send invitation');
+    }
+  };
+
+  const handleDelete = async (invitation: BidInvitation) => {
+    if (!confirm(`Withdraw the invitation to ${invitation.companyName}?`)) return;
+    try {
+      const response = await fetch(`${baseUrl}/${invitation.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete invitation');
+      await loadInvitations();
+    } catch (err) {
+      console.error('Error deleting bid invitation:', err);
+      alert('Failed to withdraw invitation');
+    }
+  };
+
+  const counts = BID_INVITATION_STATUSES
+    .map(status => ({ status, count: invitations.filter(inv => inv.status === status).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <div className="w-96 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-900">Invitations</h2>
+          <p className="text-[11px] text-gray-500">
+            {counts.length === 0
+              ? 'No invitations sent'
+              : counts.map(({ status, count }) => `${count} ${BidInvitationStatusLabels[status].toLowerCase()}`).join(' · ')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {canManage && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-3 py-1 bg-zinc-900 hover:bg-zinc-800 text-white text-xs font-medium rounded-lg transition-colors"
+            >
+              + Invite
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-zinc-900" title="Close">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : invitations.length === 0 ? (
+          <p className="text-sm text-gray-500">No subcontractors have been invited yet.</p>
+        ) : (
+          invitations.map(invitation => (
+            <div key={invitation.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="text-sm font-medium text-zinc-900">{invitation.companyName}</div>
+                  <div className="text-[11px] text-gray-500">
+                    {[invitation.contactName, invitation.contactEmail].filter(Boolean).join(' · ') || 'No contact'}
+                  </div>
+                </div>
+                {canManage ? (
+                  <select
+                    value={invitation.status}
+                    onChange={e => handleStatusChange(invitation, e.target.value as BidInvitationStatus)}
+                    className={`text-[11px] font-medium rounded-full px-2 py-0.5 border-0 ${STATUS_COLORS[invitation.status]}`}
+                  >
+                    {BID_INVITATION_STATUSES.map(status => (
+                      <option key={status} value={status}>{BidInvitationStatusLabels[status]}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className={`text-[11px] font-medium rounded-full px-2 py-0.5 ${STATUS_COLORS[invitation.status]}`}>
+                    {BidInvitationStatusLabels[invitation.status]}
+                  </span>
+                )}
+              </div>
+
+              <div className="text-[11px] text-gray-500 mt-1.5">
+                {invitation.sentAt ? `Sent ${new Date(invitation.sentAt).toLocaleDateString()}` : 'Not emailed'}
+                {invitation.viewedAt && ` · viewed ${new Date(invitation.viewedAt).toLocaleDateString()}`}
+                {invitation.dueDate && ` · due ${new Date(invitation.dueDate).toLocaleDateString()}`}
+              </div>
+              {invitation.status === 'declined' && invitation.declineReason && (
+                <p className="text-[11px] text-red-700 mt-1">&ldquo;{invitation.declineReason}&rdquo;</p>
+              )}
+
+              {canManage && (
+                <div className="flex items-center gap-3 mt-2">
+                  {invitation.contactEmail && (
+                    <button onClick={() => handleSend(invitation)} className="text-[11px] text-zinc-700 hover:underline">
+                      {invitation.sentAt ? 'Resend' : 'Send'}
+                    </button>
+                  )}
+                  <button onClick={() => handleDelete(invitation)} className="text-[11px] text-red-600 hover:underline">
+                    Withdraw
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {showForm && (
+        <BidInvitationForm
+          bidPackageId={bidPackageId}
+          defaultDueDate={defaultDueDate}
+          alreadyInvitedIds={invitations.map(inv => inv.subcontractorId).filter((id): id is string => !!id)}
+          isSaving={isSaving}
+          onSave={handleCreate}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+    </div>
+  );
+}
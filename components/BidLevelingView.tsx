@@ -0,0 +1,371 @@
+'use client';
+
+/**
+ * Bid Leveling View
+ * Side-by-side comparison of subcontractor bids for a bid package.
+ * Flags missing scope and prices far from the median, and lets a lead
+ * pick the recommended bidder.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { LineItem } from './BidFormTable';
+import SubcontractorBidForm from './SubcontractorBidForm';
+import SuggestedSubcontractorsPanel from './SuggestedSubcontractorsPanel';
+import BidInvitationsPanel from './BidInvitationsPanel';
+import {
+  LevelingCell,
+  LevelingComparison,
+  SubcontractorBid,
+  SubcontractorBidInput,
+} from '@/types/bidLeveling';
+import { BidInvitation } from '@/types/bidInvitation';
+
+interface BidLevelingViewProps {
+  bidPackage: { id: string; name: string; status: string; bidDueDate?: Date | string | null };
+  lineItems: LineItem[];
+  canEdit: boolean; // Package is bidding / being leveled and the user can edit it
+  canRecommend: boolean; // User may pick the recommended bidder
+  canInvite: boolean; // Package is out to bid and the user can send invitations
+  onBack: () => void;
+}
+
+const formatCurrency = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return '—';
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const getCellClass = (cell: LevelingCell, isLow: boolean) => {
+  if (cell.flags.includes('missing')) return 'bg-red-50 text-red-700';
+  if (cell.flags.includes('excluded')) return 'bg-gray-50 text-gray-500';
+  if (cell.flags.includes('high')) return 'bg-amber-50 text-amber-800';
+  if (cell.flags.includes('low')) return 'bg-sky-50 text-sky-800';
+  if (isLow) return 'text-emerald-700 font-semibold';
+  return 'text-zinc-900';
+};
+
+export default function BidLevelingView({
+  bidPackage,
+  lineItems,
+  canEdit,
+  canRecommend,
+  canInvite,
+  onBack,
+}: BidLevelingViewProps) {
+  const [bids, setBids] = useState<SubcontractorBid[]>([]);
+  const [invitations, setInvitations] = useState<BidInvitation[]>([]);
+  const [comparison, setComparison] = useState<LevelingComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingBid, setEditingBid] = useState<SubcontractorBid | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [sidePanel, setSidePanel] = useState<'suggestions' | 'invitations' | null>(null);
+
+  const loadBids = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/bid-packages/${bidPackage.id}/bids`);
+      if (!response.ok) throw new Error('Failed to load bids');
+      const data = await response.json();
+      setBids(data.bids || []);
+      setComparison(data.comparison || null);
+
+      // Bids are recorded against the invitation they answer
+      const invitationsResponse = await fetch(`/api/bid-packages/${bidPackage.id}/invitations`);
+      if (invitationsResponse.ok) {
+        const invitationsData = await invitationsResponse.json();
+        setInvitations(invitationsData.invitations || []);
+      }
+    } catch (err) {
+      console.error('Error loading bids:', err);
+      setError('Failed to load bids');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bidPackage.id]);
+
+  useEffect(() => {
+    loadBids();
+  }, [loadBids]);
+
+  const saveBid = async (bidId: string | null, input: SubcontractorBidInput) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        bidId ? `/api/bid-packages/${bidPackage.id}/bids/${bidId}` : `/api/bid-packages/${bidPackage.id}/bids`,
+        {
+          method: bidId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save bid');
+      }
+      setShowForm(false);
+      setEditingBid(null);
+      await loadBids();
+    } catch (err) {
+      console.error('Error saving bid:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save bid');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (bid: SubcontractorBid) => {
+    if (!confirm(`Delete the bid from ${bid.bidderName}?`)) return;
+    try {
+      const response = await fetch(`/api/bid-packages/${bidPackage.id}/bids/${bid.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete bid');
+      await loadBids();
+    } catch (err) {
+      console.error('Error deleting bid:', err);
+      alert('Failed to delete bid');
+    }
+  };
+
+  const handleRecommend = (bid: SubcontractorBid) => {
+    saveBid(bid.id, { isRecommended: !bid.isRecommended });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-zinc-900"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-3 flex items-center justify-between flex-shrink-0">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onBack}
+            className="p-1.5 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+            title="Back to workspace"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h1 className="text-base font-semibold text-zinc-900">Bid Leveling - {bidPackage.name}</h1>
+            <p className="text-xs text-gray-500">
+              {bids.length} bid{bids.length === 1 ? '' : 's'}
+              {comparison && ` · outliers are more than ${Math.round(comparison.outlierThreshold * 100)}% from the median`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {(['suggestions', 'invitations'] as const).map(panel => (
+            <button
+              key={panel}
+              onClick={() => setSidePanel(prev => prev === panel ? null : panel)}
+              className={`px-4 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+                sidePanel === panel
+                  ? 'bg-zinc-100 border-zinc-300 text-zinc-900'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {panel === 'suggestions' ? 'Suggested Subs' : 'Invitations'}
+            </button>
+          ))}
+          {canEdit && (
+            <button
+              onClick={() => {
+                setEditingBid(null);
+                setShowForm(true);
+              }}
+              className="px-4 py-1.5 bg-zinc-900 hover:bg-zinc-800 text-white text-sm font-medium rounded-lg shadow-sm transition-colors"
+            >
+              + Add Bid
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="px-6 py-3 text-sm text-red-600">{error}</div>}
+
+      <div className="flex-1 flex min-h-0">
+        {/* Comparison grid */}
+        <div className="flex-1 overflow-auto p-6">
+          {!comparison || bids.length === 0 ? (
+            <div className="text-center py-16 text-sm text-gray-500">
+              No bids recorded yet.{canEdit ? ' Add the first subcontractor bid to start leveling.' : ''}
+            </div>
+          ) : (
+            <table className="min-w-full bg-white border border-gray-200 rounded-lg text-sm">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-zinc-700 border-b border-gray-200">Item</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-zinc-700 border-b border-gray-200">Qty</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-zinc-700 border-b border-gray-200">Median</th>
+                  {bids.map(bid => (
+                    <th
+                      key={bid.id}
+                      className={`px-3 py-2 text-right text-xs font-semibold border-b border-l border-gray-200 min-w-[160px] ${
+                        bid.isRecommended ? 'bg-emerald-50 text-emerald-800' : 'text-zinc-700'
+                      }`}
+                    >
+                      <div className="flex items-center justify-end gap-1.5">
+                        {bid.isRecommended && <span title="Recommended bidder">★</span>}
+                        <span>{bid.bidderName}</span>
+                      </div>
+                      <div className="flex items-center justify-end gap-2 mt-1 font-normal">
+                        {canRecommend && canEdit && (
+                          <button onClick={() => handleRecommend(bid)} className="text-[11px] text-emerald-700 hover:underline">
+                            {bid.isRecommended ? 'Unrecommend' : 'Recommend'}
+                          </button>
+                        )}
+                        {canEdit && (
+                          <>
+                            <button
+                              onClick={() => {
+                                setEditingBid(bid);
+                                setShowForm(true);
+                              }}
+                              className="text-[11px] text-zinc-600 hover:underline"
+                            >
+                              Edit
+                            </button>
+                            <button onClick={() => handleDelete(bid)} className="text-[11px] text-red-600 hover:underline">
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.rows.map(row => (
+                  <tr key={row.lineItemId} className="border-b border-gray-100">
+                    <td className="px-3 py-2 text-zinc-900">
+                      <span className="text-zinc-500 mr-1">{row.itemNumber}</span>
+                      {row.description}
+                    </td>
+                    <td className="px-3 py-2 text-right text-zinc-600 whitespace-nowrap">
+                      {row.quantity ?? '—'} {row.unit}
+                    </td>
+                    <td className="px-3 py-2 text-right text-zinc-600">{formatCurrency(row.medianTotal)}</td>
+                    {row.cells.map(cell => (
+                      <td
+                        key={cell.bidId}
+                        className={`px-3 py-2 text-right border-l border-gray-100 ${getCellClass(cell, cell.bidId === row.lowBidId)}`}
+                      >
+                        {cell.flags.includes('missing') ? (
+                          <span className="text-xs font-medium">Missing</span>
+                        ) : cell.flags.includes('excluded') ? (
+                          <span className="text-xs font-medium">Excluded</span>
+                        ) : (
+                          <>
+                            <div>{formatCurrency(cell.totalPrice)}</div>
+                            <div className="text-[11px] opacity-75">
+                              {cell.unitPrice !== null && `${formatCurrency(cell.unitPrice)}/${row.unit || 'ea'}`}
+                              {cell.deviation !== null && (cell.flags.includes('high') || cell.flags.includes('low')) && (
+                                <span className="ml-1">
+                                  {cell.deviation > 0 ? '▲' : '▼'} {Math.abs(Math.round(cell.deviation * 100))}%
+                                </span>
+                              )}
+                            </div>
+                          </>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 text-xs">
+                <tr className="border-t border-gray-200">
+                  <td colSpan={3} className="px-3 py-2 font-semibold text-zinc-900">Items Total</td>
+                  {comparison.bids.map(summary => (
+                    <td
+                      key={summary.bidId}
+                      className={`px-3 py-2 text-right border-l border-gray-200 font-semibold ${
+                        summary.bidId === comparison.lowBidId ? 'text-emerald-700' : 'text-zinc-900'
+                      }`}
+                    >
+                      {formatCurrency(summary.itemsTotal)}
+                      {summary.bidId === comparison.lowBidId && <div className="text-[10px] font-medium">Low complete bid</div>}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td colSpan={3} className="px-3 py-2 text-zinc-700">Base Bid</td>
+                  {comparison.bids.map(summary => (
+                    <td key={summary.bidId} className="px-3 py-2 text-right border-l border-gray-200 text-zinc-700">
+                      {formatCurrency(summary.baseBidAmount)}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td colSpan={3} className="px-3 py-2 text-zinc-700">Scope Gaps</td>
+                  {comparison.bids.map(summary => (
+                    <td
+                      key={summary.bidId}
+                      className={`px-3 py-2 text-right border-l border-gray-200 ${
+                        summary.missingCount + summary.excludedCount > 0 ? 'text-red-700' : 'text-zinc-500'
+                      }`}
+                    >
+                      {summary.missingCount} missing · {summary.excludedCount} excluded
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td colSpan={3} className="px-3 py-2 text-zinc-700 align-top">Exclusions / Alternates</td>
+                  {bids.map(bid => (
+                    <td key={bid.id} className="px-3 py-2 border-l border-gray-200 text-zinc-600 align-top">
+                      {bid.exclusions && <p className="whitespace-pre-wrap mb-1">{bid.exclusions}</p>}
+                      {bid.alternates.map((alt, index) => (
+                        <p key={index}>
+                          Alt: {alt.description} ({formatCurrency(alt.amount)})
+                        </p>
+                      ))}
+                      {!bid.exclusions && bid.alternates.length === 0 && '—'}
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+
+        {sidePanel === 'suggestions' && (
+          <SuggestedSubcontractorsPanel bidPackageId={bidPackage.id} onClose={() => setSidePanel(null)} />
+        )}
+        {sidePanel === 'invitations' && (
+          <BidInvitationsPanel
+            bidPackageId={bidPackage.id}
+            defaultDueDate={bidPackage.bidDueDate}
+            canManage={canInvite}
+            onClose={() => setSidePanel(null)}
+          />
+        )}
+      </div>
+
+      {showForm && (
+        <SubcontractorBidForm
+          lineItems={lineItems}
+          bid={editingBid}
+          invitations={invitations}
+          isSaving={isSaving}
+          onSave={input => saveBid(editingBid?.id ?? null, input)}
+          onCancel={() => {
+            setShowForm(false);
+            setEditingBid(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ import dynamic from 'next/dynamic';
 import { BidPackage } from '@/types/bidPackage';
 import { BuildingConnectedProject } from '@/types/buildingconnected';
 import { useEditMode } from '@/contexts/EditModeContext';
+import ProjectEstimatePanel from './ProjectEstimatePanel';
+import ProjectSpecBooksPanel from './ProjectSpecBooksPanel';
+import { formatCurrency, getProjectMarkups, summarizeLineItems } from '@/lib/cost-rollup';
 
 // Dynamically import PDFViewer to avoid SSR issues with pdf.js
 const PDFViewer = dynamic(() => import('./PDFViewer'), {
@@ -257,6 +260,10 @@ export default function BidPackageListView({
         return 'bg-amber-50 text-amber-700 border-amber-200';
       case 'in review':
         return 'bg-purple-50 text-purple-700 border-purple-200';
+      case 'bidding':
+        return 'bg-indigo-50 text-indigo-700 border-indigo-200';
+      case 'bidding leveling':
+        return 'bg-blue-50 text-blue-700 border-blue-200';
       case 'completed':
         return 'bg-emerald-50 text-emerald-700 border-emerald-200';
       default:
@@ -361,70 +368,43 @@ export default function BidPackageListView({
 
   // Get line items from a bid package for discrete progress bar
   const getLineItems = (bidPackage: BidPackage): Array<{ id?: string; item_number?: string | null; description?: string; approved?: boolean }> => {
-    try {
-      // First, try to get from workspaceData (for packages that have been worked on)
-      if (bidPackage.workspaceData && bidPackage.workspaceData.trim() !== '') {
-        const workspaceData = JSON.parse(bidPackage.workspaceData);
-        if (workspaceData?.lineItems && Array.isArray(workspaceData.lineItems)) {
-          return workspaceData.lineItems;
-        }
-      }
+    if (!bidPackage.bidForms || !Array.isArray(bidPackage.bidForms)) {
+      return [];
+    }
 
-      // Fall back to bidForms lineItems (for packages not yet opened/edited)
-      if (bidPackage.bidForms && Array.isArray(bidPackage.bidForms)) {
-        const allItems: Array<{ id?: string; item_number?: string | null; description?: string; approved?: boolean }> = [];
-        bidPackage.bidForms.forEach((form: any) => {
-          if (form.lineItems && Array.isArray(form.lineItems)) {
-            allItems.push(...form.lineItems);
-          }
-        });
-        return allItems;
+    const allItems: Array<{ id?: string; item_number?: string | null; description?: string; approved?: boolean }> = [];
+    bidPackage.bidForms.forEach((form: any) => {
+      if (form.lineItems && Array.isArray(form.lineItems)) {
+        allItems.push(...form.lineItems.map((item: any) => ({
+          id: item.id,
+          item_number: item.itemNumber,
+          description: item.description,
+          approved: item.approved,
+        })));
       }
+    });
+    return allItems;
+  };
 
-      return [];
-    } catch (error) {
-      console.error('Error getting line items for bid package:', bidPackage.id, error);
-      return [];
-    }
+  // Priced subtotal for a bid package (line item rows use camelCase price fields)
+  const getPackageSubtotal = (bidPackage: BidPackage) => {
+    const items = (bidPackage.bidForms || []).flatMap(form =>
+      (form.lineItems || []).map((item: { quantity?: number | null; unitPrice?: number | null; totalPrice?: number | null }) => ({
+        quantity: item.quantity,
+        unit_price: item.unitPrice,
+        total_price: item.totalPrice,
+      }))
+    );
+    return summarizeLineItems(items);
   };
 
   // Get approval counts for display
   const getApprovalCounts = (bidPackage: BidPackage): { approved: number; total: number } => {
-    try {
-      // First, try to get counts from workspaceData (for packages that have been worked on)
-      if (bidPackage.workspaceData && bidPackage.workspaceData.trim() !== '') {
-        const workspaceData = JSON.parse(bidPackage.workspaceData);
-
-        // Check if workspaceData has lineItems array
-        if (workspaceData?.lineItems && Array.isArray(workspaceData.lineItems)) {
-          const totalItems = workspaceData.lineItems.length;
-          const approvedItems = workspaceData.lineItems.filter((item: any) => item.approved === true).length;
-          return { approved: approvedItems, total: totalItems };
-        }
-      }
-
-      // Fall back to bidForms lineItems (for packages not yet opened/edited)
-      if (bidPackage.bidForms && Array.isArray(bidPackage.bidForms)) {
-        let totalItems = 0;
-        let approvedItems = 0;
-
-        bidPackage.bidForms.forEach((form: any) => {
-          if (form.lineItems && Array.isArray(form.lineItems)) {
-            totalItems += form.lineItems.length;
-            approvedItems += form.lineItems.filter((item: any) => item.approved === true).length;
-          }
-        });
-
-        return { approved: approvedItems, total: totalItems };
-      }
-
-      // No line items found
-      return { approved: 0, total: 0 };
-    } catch (error) {
-      console.error('Error getting approval counts for bid package:', bidPackage.id, error);
-      console.error('workspaceData:', bidPackage.workspaceData);
-      return { approved: 0, total: 0 };
-    }
+    const lineItems = getLineItems(bidPackage);
+    return {
+      approved: lineItems.filter(item => item.approved === true).length,
+      total: lineItems.length,
+    };
   };
 
   // Direct file upload handler
@@ -592,6 +572,18 @@ export default function BidPackageListView({
             <Panel defaultSize={50} minSize={30} className="bg-gray-50">
               <div className="h-full overflow-auto p-6">
                 <div className="max-w-4xl mx-auto space-y-4">
+                  {/* Estimate Rollup */}
+                  <ProjectEstimatePanel
+                    projectId={project.id}
+                    isEditMode={isEditMode}
+                    editedMarkups={getProjectMarkups(editedProject)}
+                    onMarkupChange={(key, value) => updateProjectField(key, value)}
+                    reloadKey={bidPackages}
+                  />
+
+                  {/* Spec Books */}
+                  <ProjectSpecBooksPanel projectId={project.id} />
+
                   {/* Bid Packages Card */}
                   <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
                     <h3 className="text-sm font-semibold text-zinc-900 mb-3">
@@ -764,6 +756,12 @@ export default function BidPackageListView({
                                         ))}
                                       </div>
                                       <span className="text-xs font-semibold text-zinc-900">{counts.approved}/{counts.total}</span>
+                                      {(() => {
+                                        const cost = getPackageSubtotal(bidPackage);
+                                        return cost.pricedCount > 0 && (
+                                          <span className="text-xs font-mono text-zinc-700 ml-2">{formatCurrency(cost.subtotal)}</span>
+                                        );
+                                      })()}
                                     </div>
                                   );
                                 })()}
@@ -834,6 +832,22 @@ export default function BidPackageListView({
                 </label>
               </div>
 
+              {/* Estimate Rollup */}
+              <div className="mb-6">
+                <ProjectEstimatePanel
+                  projectId={project.id}
+                  isEditMode={isEditMode}
+                  editedMarkups={getProjectMarkups(editedProject)}
+                  onMarkupChange={(key, value) => updateProjectField(key, value)}
+                  reloadKey={bidPackages}
+                />
+              </div>
+
+              {/* Spec Books */}
+              <div className="mb-6">
+                <ProjectSpecBooksPanel projectId={project.id} />
+              </div>
+
               {/* Bid Packages in simple view */}
               <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-6">
                 <h3 className="text-lg font-semibold text-zinc-900 mb-4">
@@ -942,6 +956,12 @@ export default function BidPackageListView({
                                   ))}
                                 </div>
                                 <span className="text-xs font-semibold text-zinc-900">{counts.approved}/{counts.total}</span>
+                                {(() => {
+                                  const cost = getPackageSubtotal(bidPackage);
+                                  return cost.pricedCount > 0 && (
+                                    <span className="text-xs font-mono text-zinc-700 ml-2">{formatCurrency(cost.subtotal)}</span>
+                                  );
+                                })()}
                               </div>
                             );
                           })()}
@@ -0,0 +1,160 @@
+'use client';
+
+/**
+ * Bid Package Specs Modal
+ * Spec sections from the project's spec books that cover the CSI codes of
+ * the package's line items, with the section text
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BidPackageSpecSection } from '@/types/spec';
+
+interface BidPackageSpecsModalProps {
+  isOpen: boolean;
+  bidPackageId: string;
+  bidPackageName: string;
+  onClose: () => void;
+}
+
+const getPages = (section: BidPackageSpecSection) =>
+  section.startPage === section.endPage ? `p. ${section.startPage}` : `pp. ${section.startPage}-${section.endPage}`;
+
+export default function BidPackageSpecsModal({
+  isOpen,
+  bidPackageId,
+  bidPackageName,
+  onClose,
+}: BidPackageSpecsModalProps) {
+  const [sections, setSections] = useState<BidPackageSpecSection[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSections = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/bid-packages/${bidPackageId}/spec-sections`);
+      if (!response.ok) throw new Error('Failed to load spec sections');
+      const data = await response.json();
+      const loaded: BidPackageSpecSection[] = data.sections || [];
+      setSections(loaded);
+      setSelectedId(loaded[0]?.id ?? null);
+    } catch (err) {
+      console.error('Error loading spec sections:', err);
+      setError('Failed to load spec sections');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bidPackageId]);
+
+  useEffect(() => {
+    if (isOpen) loadSections();
+  }, [isOpen, loadSections]);
+
+  const selected = sections.find(section => section.id === selectedId) ?? null;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/30 z-40"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.97 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.97 }}
+            transition={{ duration: 0.15 }}
+            className="fixed inset-8 bg-white rounded-lg shadow-2xl z-50 flex flex-col overflow-hidden"
+          >
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-gray-100 to-gray-200">
+              <div className="min-w-0">
+                <h2 className="text-sm font-bold text-zinc-900">Specifications</h2>
+                <p className="text-xs text-zinc-600 truncate">{bidPackageName}</p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-gray-700 hover:bg-gray-300 hover:text-gray-900 transition-colors"
+                title="Close"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex-1 min-h-0 flex">
+              {/* Section list */}
+              <div className="w-80 flex-shrink-0 border-r border-gray-200 overflow-y-auto">
+                {error && <p className="p-4 text-xs text-red-600">{error}</p>}
+                {isLoading && sections.length === 0 ? (
+                  <p className="p-4 text-xs text-gray-500">Loading spec sections...</p>
+                ) : sections.length === 0 && !error ? (
+                  <p className="p-4 text-xs text-gray-500">
+                    No spec sections cover this package&apos;s CSI codes. Upload the project manual on the project page and
+                    assign CSI codes to the line items.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {sections.map(section => (
+                      <li key={section.id}>
+                        <button
+                          onClick={() => setSelectedId(section.id)}
+                          className={`w-full text-left px-4 py-3 hover:bg-zinc-50 ${section.id === selectedId ? 'bg-zinc-50' : ''}`}
+                        >
+                          <span className="block text-sm font-medium text-zinc-900 truncate">
+                            <span className="font-mono">{section.sectionNumber}</span> {section.title}
+                          </span>
+                          <span className="block text-xs text-gray-500 truncate">
+                            {section.fileName} · {getPages(section)}
+                          </span>
+                          <span className="block text-xs text-gray-400 truncate">
+                            Covers {section.matchedCodes.join(', ')}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Section text */}
+              <div className="flex-1 min-w-0 overflow-auto bg-gray-50">
+                {selected ? (
+                  <div className="p-6">
+                    <h3 className="text-sm font-semibold text-zinc-900 mb-1">
+                      SECTION {selected.sectionNumber} - {selected.title}
+                    </h3>
+                    <p className="text-xs text-gray-500 mb-4">
+                      {selected.fileName}, {getPages(selected)}
+                      {selected.csiMatch !== 'exact' && (
+                        <span className="ml-2 text-amber-700">
+                          {selected.csiMatch === 'parent' ? `Not in MasterFormat; filed under ${selected.csiCode} ${selected.csiTitle}` : 'Not in MasterFormat'}
+                        </span>
+                      )}
+                    </p>
+                    <pre className="text-xs text-gray-800 whitespace-pre-wrap font-sans leading-relaxed">{selected.content}</pre>
+                  </div>
+                ) : (
+                  <div className="h-full flex items-center justify-center text-xs text-gray-500">
+                    Select a section to read it
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -12,15 +12,29 @@ import { PanelGroup, Panel, PanelResizeHandle } from 'react-resizable-panels';
 import dynamic from 'next/dynamic';
 import BidFormTable, { LineItem } from './BidFormTable';
 import DiagramOverlay from './DiagramOverlay';
+import TakeoffLayer, { TakeoffTool } from './TakeoffLayer';
+import TakeoffToolbar from './TakeoffToolbar';
+import DiagramRevisionsModal from './DiagramRevisionsModal';
+import DiagramSchedulesModal from './DiagramSchedulesModal';
+import BidPackageSpecsModal from './BidPackageSpecsModal';
+import SheetNavigator from './SheetNavigator';
 import ChatPanel from './ChatPanel';
+import ChatRevisionControls from './ChatRevisionControls';
 import MagnifyingGlass from './MagnifyingGlass';
 import SingleItemPanel, { SingleItemPanelRef } from './SingleItemPanel';
-import { ChatMessage } from '@/types/chat';
+import { ChatMessage, ChatRevision, ChatThread } from '@/types/chat';
+import { LineItemChangeSource } from '@/types/lineItemHistory';
 import { BidPackage } from '@/types/bidPackage';
 import { BuildingConnectedProject } from '@/types/buildingconnected';
 import { Diagram } from '@/types/diagram';
+import { DiagramSheet } from '@/types/sheet';
 import { useKeyboardNavigation } from '@/hooks/useKeyboardNavigation';
 import { useDiagramAutoFocus, getTransformStyle } from '@/hooks/useDiagramAutoFocus';
+import { useTakeoff } from '@/hooks/useTakeoff';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission, hasPermission } from '@/types/permissions';
+import { parseFeetInches } from '@/lib/takeoff';
+import { TakeoffItemTotal, TakeoffPageSize, TakeoffPoint } from '@/types/takeoff';
 
 // Dynamically import PDFViewer to avoid SSR issues with pdf.js
 const PDFViewer = dynamic(() => import('./PDFViewer'), {
@@ -63,19 +77,30 @@ interface BidPackageWorkspaceProps {
   projectDiagrams: Diagram[]; // Diagrams from parent project
   lineItems: LineItem[];
   isExtracting: boolean;
-  onLineItemsUpdate: (items: LineItem[]) => void;
+  onLineItemsUpdate: (items: LineItem[], source?: LineItemChangeSource) => void;
   onUploadNew: () => void;
   onUploadSuccess?: (file: UploadedFile) => void;
+  onDiagramRevised?: () => void; // A re-issued sheet was uploaded for a project diagram
   onBack: () => void;
   chatOpen: boolean;
   chatMessages: ChatMessage[];
   onChatToggle: () => void;
   onSendChatMessage: (message: string) => void;
-  onAcceptChatChanges: (messageId: string) => void;
-  onRejectChatChanges: (messageId: string) => void;
+  onAcceptChatChanges: (messageId: string, changeIndexes: number[]) => void;
+  onRejectChatChanges: (messageId: string, changeIndexes: number[]) => void;
   isChatLoading?: boolean;
+  chatThreads?: ChatThread[];
+  activeChatThreadId?: string | null;
+  onSelectChatThread?: (threadId: string) => void;
+  onNewChatThread?: () => void;
+  onRenameChatThread?: (threadId: string, title: string) => void;
+  onDeleteChatThread?: (threadId: string) => void;
+  chatRevisions?: ChatRevision[]; // Chat-applied revisions, newest first
+  onUndoChatRevisions?: (count: number) => void;
+  onRedoChatRevisions?: (count: number) => void;
   onSubmitToReview?: () => void;
   onRecall?: () => void;
+  onOpenLeveling?: () => void;
   onDeleteProject?: () => void;
   // URL routing props
   initialViewMode?: ViewMode;
@@ -96,6 +121,7 @@ export default function BidPackageWorkspace({
   onLineItemsUpdate,
   onUploadNew,
   onUploadSuccess,
+  onDiagramRevised,
   onBack,
   chatOpen,
   chatMessages = [],
@@ -104,8 +130,18 @@ export default function BidPackageWorkspace({
   onAcceptChatChanges,
   onRejectChatChanges,
   isChatLoading = false,
+  chatThreads = [],
+  activeChatThreadId = null,
+  onSelectChatThread,
+  onNewChatThread,
+  onRenameChatThread,
+  onDeleteChatThread,
+  chatRevisions = [],
+  onUndoChatRevisions,
+  onRedoChatRevisions,
   onSubmitToReview,
   onRecall,
+  onOpenLeveling,
   onDeleteProject,
   initialViewMode = 'single',
   initialItemId = null,
@@ -134,6 +170,16 @@ export default function BidPackageWorkspace({
     return 0;
   });
   const [diagramContainerSize, setDiagramContainerSize] = useState({ width: 0, height: 0 });
+  const [takeoffTool, setTakeoffTool] = useState<TakeoffTool | null>(null);
+  const [takeoffItemId, setTakeoffItemId] = useState<string | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const [showSpecs, setShowSpecs] = useState(false);
+  const [selectedSheet, setSelectedSheet] = useState<DiagramSheet | null>(null);
+  const [pinnedSheetIds, setPinnedSheetIds] = useState<string[]>(bidPackage.sheetIds ?? []);
+  const [sheetsRefreshKey, setSheetsRefreshKey] = useState(0);
+  const { user } = useAuth();
+  const canUploadDiagrams = !!user && hasPermission(user.role, Permission.UPLOAD_DIAGRAMS);
 
   // Wrapper functions to sync state with URL
   const setViewMode = useCallback((mode: ViewMode) => {
@@ -162,6 +208,12 @@ export default function BidPackageWorkspace({
   const diagramContainerRef = useRef<HTMLDivElement>(null);
   const singleItemPanelRef = useRef<SingleItemPanelRef>(null);
 
+  // Line items are locked once the package has been submitted for review
+  const isReadOnly = bidPackage.status === 'in review' ||
+    bidPackage.status === 'bidding' ||
+    bidPackage.status === 'bidding leveling' ||
+    bidPackage.status === 'completed';
+
   // All project diagrams are available to all bid packages
   // diagramIds can be used in the future for ordering or pinning specific diagrams
   const relevantDiagrams = projectDiagrams;
@@ -178,6 +230,8 @@ export default function BidPackageWorkspace({
     (currentDiagram.fileType === 'application/pdf' || currentDiagram.fileName.toLowerCase().endsWith('.pdf'))
     : false;
 
+  const takeoff = useTakeoff(currentDiagram?.id ?? null);
+
   // Update image dimensions and zoom level when image loads or on resize
   useEffect(() => {
     const updateImageDimensions = () => {
@@ -268,14 +322,14 @@ export default function BidPackageWorkspace({
     if (!currentItem || lineItems.length === 0) return;
     const updated = [...lineItems];
     updated[currentItemIndex] = { ...updated[currentItemIndex], approved: !updated[currentItemIndex].approved };
-    onLineItemsUpdate(updated);
+    onLineItemsUpdate(updated, 'single_item');
   }, [currentItem, currentItemIndex, lineItems, onLineItemsUpdate]);
 
   const handleApproveAndNext = useCallback(() => {
     if (!currentItem || lineItems.length === 0) return;
     const updated = [...lineItems];
     updated[currentItemIndex] = { ...updated[currentItemIndex], approved: true };
-    onLineItemsUpdate(updated);
+    onLineItemsUpdate(updated, 'single_item');
     // Move to next item if not at the end
     if (currentItemIndex < lineItems.length - 1) {
       setCurrentItemIndex((prev) => prev + 1);
@@ -285,13 +339,13 @@ export default function BidPackageWorkspace({
   const handleUpdateItem = useCallback((updatedItem: LineItem) => {
     const updated = [...lineItems];
     updated[currentItemIndex] = updatedItem;
-    onLineItemsUpdate(updated);
+    onLineItemsUpdate(updated, 'single_item');
   }, [currentItemIndex, lineItems, onLineItemsUpdate]);
 
   const handleDeleteItem = useCallback(() => {
     if (lineItems.length === 0) return;
     const updated = lineItems.filter((_, index) => index !== currentItemIndex);
-    onLineItemsUpdate(updated);
+    onLineItemsUpdate(updated, 'single_item');
     // Adjust current index if we deleted the last item
     if (currentItemIndex >= updated.length && updated.length > 0) {
       setCurrentItemIndex(updated.length - 1);
@@ -306,6 +360,118 @@ export default function BidPackageWorkspace({
     singleItemPanelRef.current?.enterFieldMode();
   }, []);
 
+  // Write measured totals back to their line items
+  const applyTakeoffTotals = useCallback((totals: TakeoffItemTotal[]) => {
+    const byItemId = new Map(totals.filter(t => t.quantity !== null).map(t => [t.lineItemId, t]));
+    if (byItemId.size === 0) return;
+
+    const updated = lineItems.map(item => {
+      const total = item.id ? byItemId.get(item.id) : undefined;
+      if (!total || total.quantity === null) return item;
+      return {
+        ...item,
+        quantity: total.quantity,
+        unit: total.unit,
+        total_price: item.unit_price != null ? Math.round(total.quantity * item.unit_price * 100) / 100 : item.total_price,
+        boundingBox: total.boundingBox ?? item.boundingBox,
+        confidence: null, // Measured, not extracted
+      };
+    });
+    onLineItemsUpdate(updated, 'takeoff');
+  }, [lineItems, onLineItemsUpdate]);
+
+  const handleTakeoffComplete = useCallback(async (
+    points: TakeoffPoint[],
+    pageNumber: number,
+    pageSize: TakeoffPageSize
+  ) => {
+    const tool = takeoffTool;
+    setTakeoffTool(null);
+
+    try {
+      if (tool === 'calibrate') {
+        const answer = window.prompt('Length of the line you drew (e.g. 12\'-6"):');
+        if (answer === null) return;
+        const lengthFeet = parseFeetInches(answer);
+        if (lengthFeet === null || lengthFeet <= 0) {
+          alert('Enter a length in feet and inches, e.g. 12\'-6"');
+          return;
+        }
+        const totals = await takeoff.saveScale({
+          pageNumber,
+          pageWidth: pageSize.width,
+          pageHeight: pageSize.height,
+          start: points[0],
+          end: points[1],
+          lengthFeet,
+        });
+        applyTakeoffTotals(totals);
+      } else if (tool && takeoffItemId) {
+        const total = await takeoff.addMeasurement({ pageNumber, lineItemId: takeoffItemId, type: tool, points });
+        applyTakeoffTotals([total]);
+      }
+    } catch (error) {
+      console.error('Error saving takeoff:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save takeoff');
+    }
+  }, [takeoffTool, takeoffItemId, takeoff, applyTakeoffTotals]);
+
+  const handleDeleteMeasurement = useCallback(async (measurementId: string) => {
+    try {
+      const total = await takeoff.deleteMeasurement(measurementId);
+      applyTakeoffTotals([total]);
+    } catch (error) {
+      console.error('Error deleting takeoff measurement:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete measurement');
+    }
+  }, [takeoff, applyTakeoffTotals]);
+
+  const handleSelectSheet = useCallback((sheet: DiagramSheet) => {
+    setSelectedSheet(sheet);
+    setSelectedDiagramId(sheet.diagramId);
+  }, []);
+
+  // Sheets pinned to the package are listed first and go out with its invitation packet
+  const handleToggleSheetPin = useCallback(async (sheetId: string) => {
+    const previous = pinnedSheetIds;
+    const updated = previous.includes(sheetId)
+      ? previous.filter(id => id !== sheetId)
+      : [...previous, sheetId];
+    setPinnedSheetIds(updated);
+
+    try {
+      const response = await fetch(`/api/bid-packages/${bidPackage.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sheetIds: updated }),
+      });
+      if (!response.ok) throw new Error('Failed to update package sheets');
+    } catch (error) {
+      console.error('Error updating package sheets:', error);
+      setPinnedSheetIds(previous);
+    }
+  }, [bidPackage.id, pinnedSheetIds]);
+
+  // Open PDFs at the selected sheet's page
+  const initialPageNumber = selectedSheet && selectedSheet.diagramId === currentDiagram?.id
+    ? selectedSheet.pageNumber
+    : 1;
+
+  const renderTakeoffLayer = (pageNumber: number, width: number, height: number, pageSize: TakeoffPageSize) => (
+    <TakeoffLayer
+      key={`${currentDiagram?.id}-${pageNumber}-${takeoffTool}`}
+      width={width}
+      height={height}
+      pageSize={pageSize}
+      scale={takeoff.scales.find(s => s.pageNumber === pageNumber) ?? null}
+      measurements={takeoff.measurements.filter(m => m.pageNumber === pageNumber)}
+      tool={isReadOnly ? null : takeoffTool}
+      highlightedItemId={hoveredItemId ?? takeoffItemId}
+      onComplete={(points) => handleTakeoffComplete(points, pageNumber, pageSize)}
+      onCancel={() => setTakeoffTool(null)}
+    />
+  );
+
   // Keyboard navigation for single view
   useKeyboardNavigation({
     enabled: viewMode === 'single',
@@ -393,11 +559,19 @@ export default function BidPackageWorkspace({
           >
             <ChatPanel
               messages={chatMessages}
+              lineItems={lineItems}
               onSendMessage={onSendChatMessage}
               onAcceptChanges={onAcceptChatChanges}
               onRejectChanges={onRejectChatChanges}
               isLoading={isChatLoading}
               onClose={onChatToggle}
+              bidPackageId={bidPackage.id}
+              threads={chatThreads}
+              activeThreadId={activeChatThreadId}
+              onSelectThread={onSelectChatThread}
+              onNewThread={onNewChatThread}
+              onRenameThread={onRenameChatThread}
+              onDeleteThread={onDeleteChatThread}
             />
           </motion.div>
         )}
@@ -460,7 +634,7 @@ export default function BidPackageWorkspace({
 
           {/* Center: Completed/Recall buttons */}
           <div className="flex items-center justify-center flex-1">
-            {bidPackage.status === 'pending-review' && onRecall ? (
+            {bidPackage.status === 'in review' && onRecall ? (
               <button
                 onClick={onRecall}
                 className="px-4 py-1.5 bg-amber-600 hover:bg-amber-700 text-white text-sm font-medium rounded-lg shadow-sm transition-colors flex items-center gap-2"
@@ -472,9 +646,7 @@ export default function BidPackageWorkspace({
                 Recall
               </button>
             ) : onSubmitToReview &&
-               bidPackage.status !== 'pending-review' &&
-               bidPackage.status !== 'bidding' &&
-               bidPackage.status !== 'awarded' &&
+               (bidPackage.status === 'assigned' || bidPackage.status === 'in progress') &&
                lineItems.length > 0 &&
                lineItems.every(item => item.approved === true) ? (
               <button
@@ -487,11 +659,41 @@ export default function BidPackageWorkspace({
                 </svg>
                 Completed
               </button>
+            ) : onOpenLeveling &&
+               (bidPackage.status === 'bidding' ||
+                bidPackage.status === 'bidding leveling' ||
+                bidPackage.status === 'completed') ? (
+              <button
+                onClick={onOpenLeveling}
+                className="px-4 py-1.5 bg-zinc-900 hover:bg-zinc-800 text-white text-sm font-medium rounded-lg shadow-sm transition-colors flex items-center gap-2"
+                title="Compare subcontractor bids"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+                </svg>
+                Bid Leveling
+              </button>
             ) : null}
           </div>
 
           {/* Right side: View toggles */}
           <div className="flex items-center gap-3 flex-1 justify-end">
+            {onUndoChatRevisions && onRedoChatRevisions && (
+              <ChatRevisionControls
+                revisions={chatRevisions}
+                onUndo={onUndoChatRevisions}
+                onRedo={onRedoChatRevisions}
+                disabled={isChatLoading}
+              />
+            )}
+            <button
+              onClick={() => setShowSpecs(true)}
+              className="px-3 py-2 text-sm font-medium text-zinc-700 border border-zinc-200 rounded-lg hover:bg-zinc-50 transition-colors"
+              title="Spec sections covering this package's CSI codes"
+            >
+              Specs
+            </button>
+
             {/* View Mode Toggle */}
             {lineItems.length > 0 && (
               <div className="flex items-center border border-zinc-200 rounded-lg overflow-hidden">
@@ -586,6 +788,59 @@ export default function BidPackageWorkspace({
             {/* Left Panel: Diagram Viewer */}
             <Panel defaultSize={35} minSize={20} className="relative bg-white border-r border-gray-200">
               <div className="h-full flex flex-col">
+                {/* Drawing Revision */}
+                {currentDiagram && (
+                  <div className="flex-shrink-0 flex items-center justify-between gap-2 px-3 py-1.5 border-b border-gray-200 bg-white">
+                    <div className="min-w-0 flex items-center gap-2">
+                      <span className="text-xs text-gray-700 truncate">{currentDiagram.fileName}</span>
+                      <span className="flex-shrink-0 text-[10px] font-medium text-zinc-700 bg-zinc-100 rounded px-1.5 py-0.5">
+                        Rev {currentDiagram.currentRevision ?? 1}
+                      </span>
+                      <SheetNavigator
+                        projectId={bidPackage.bcProjectId}
+                        currentDiagramId={currentDiagram.id}
+                        currentSheetId={selectedSheet?.id ?? null}
+                        pinnedSheetIds={pinnedSheetIds}
+                        refreshKey={sheetsRefreshKey}
+                        onSelectSheet={handleSelectSheet}
+                        onTogglePin={isReadOnly ? undefined : handleToggleSheetPin}
+                      />
+                      {lineItems.some(item => item.needsRevisionReview) && (
+                        <span className="flex-shrink-0 text-[10px] font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded px-1.5 py-0.5">
+                          {lineItems.filter(item => item.needsRevisionReview).length} to re-review
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex-shrink-0 flex items-center gap-3">
+                      <button
+                        onClick={() => setShowSchedules(true)}
+                        className="text-xs font-medium text-zinc-700 hover:text-zinc-900 underline"
+                      >
+                        Schedules
+                      </button>
+                      <button
+                        onClick={() => setShowRevisions(true)}
+                        className="text-xs font-medium text-zinc-700 hover:text-zinc-900 underline"
+                      >
+                        Revisions
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {/* Quantity Takeoff */}
+                {currentDiagram && (
+                  <TakeoffToolbar
+                    lineItems={lineItems}
+                    scale={takeoff.scales.find(s => s.pageNumber === 1) ?? null}
+                    measurements={takeoff.measurements}
+                    tool={takeoffTool}
+                    onToolChange={setTakeoffTool}
+                    selectedItemId={takeoffItemId}
+                    onSelectedItemChange={setTakeoffItemId}
+                    onDeleteMeasurement={handleDeleteMeasurement}
+                    readOnly={isReadOnly}
+                  />
+                )}
                 {/* Diagram Container */}
                 <div className={`flex-1 overflow-auto bg-gray-50 relative ${isPDF ? '' : 'p-4'}`}>
                   {diagramUrl ? (
@@ -593,32 +848,49 @@ export default function BidPackageWorkspace({
                       // PDF Viewer
                       <div className="h-full">
                         <PDFViewer
+                          key={`${diagramUrl}-${initialPageNumber}`}
+                          initialPageNumber={initialPageNumber}
                           documents={{
                             url: diagramUrl,
                             fileName: currentDiagram?.fileName || 'Document.pdf'
                           }}
                           className="h-full"
+                          renderPageOverlay={(page) => renderTakeoffLayer(
+                            page.pageNumber,
+                            page.width,
+                            page.height,
+                            { width: page.originalWidth, height: page.originalHeight }
+                          )}
                         />
                       </div>
                     ) : (
                       // Image Viewer with Overlays
                       <>
-                        <img
-                          ref={imageRef}
-                          src={diagramUrl}
-                          alt="Construction diagram"
-                          className="max-w-full h-auto mx-auto object-contain"
-                        />
-                        {/* Bounding Box Overlay */}
-                        {lineItems.some(item => item.boundingBox) && imageDimensions.width > 0 && (
-                          <DiagramOverlay
-                            lineItems={lineItems}
-                            hoveredItemId={hoveredItemId}
-                            onHoverChange={(id) => setHoveredItemId(id)}
-                            imageWidth={imageDimensions.width}
-                            imageHeight={imageDimensions.height}
+                        <div className="relative mx-auto w-fit max-w-full">
+                          <img
+                            ref={imageRef}
+                            src={diagramUrl}
+                            alt="Construction diagram"
+                            className="max-w-full h-auto mx-auto object-contain"
                           />
-                        )}
+                          {/* Bounding Box Overlay */}
+                          {lineItems.some(item => item.boundingBox) && imageDimensions.width > 0 && (
+                            <DiagramOverlay
+                              lineItems={lineItems}
+                              hoveredItemId={hoveredItemId}
+                              onHoverChange={(id) => setHoveredItemId(id)}
+                              imageWidth={imageDimensions.width}
+                              imageHeight={imageDimensions.height}
+                            />
+                          )}
+                          {/* Takeoff Measurements */}
+                          {imageNaturalSize.width > 0 && renderTakeoffLayer(
+                            1,
+                            imageDimensions.width,
+                            imageDimensions.height,
+                            imageNaturalSize
+                          )}
+                        </div>
                         {/* Magnifying Glass */}
                         {magnifyingGlassEnabled && diagramUrl && (
                           <MagnifyingGlass imageRef={imageRef as React.RefObject<HTMLImageElement>} imageSrc={diagramUrl} enabled={magnifyingGlassEnabled} />
@@ -641,15 +913,16 @@ export default function BidPackageWorkspace({
             <Panel defaultSize={65} minSize={30}>
               <BidFormTable
                 initialLineItems={lineItems}
-                onUpdate={onLineItemsUpdate}
+                onUpdate={(items) => onLineItemsUpdate(items, 'table')}
                 hoveredItemId={hoveredItemId}
                 onHoverChange={(itemId, rowElement) => {
                   setHoveredItemId(itemId);
                   setHoveredRowElement(rowElement ?? null);
                 }}
-                readOnly={bidPackage.status === 'pending-review' || bidPackage.status === 'bidding' || bidPackage.status === 'bidding-leveling' || bidPackage.status === 'awarded'}
+                readOnly={isReadOnly}
                 otherBidPackages={otherBidPackages}
                 onReallocateItem={onReallocateItem}
+                projectId={bidPackage.bcProjectId}
               />
             </Panel>
           </PanelGroup>
@@ -722,7 +995,7 @@ export default function BidPackageWorkspace({
                 onPrevious={handlePreviousItem}
                 onNext={handleNextItem}
                 onDelete={handleDeleteItem}
-                readOnly={bidPackage.status === 'pending-review' || bidPackage.status === 'bidding' || bidPackage.status === 'bidding-leveling' || bidPackage.status === 'awarded'}
+                readOnly={isReadOnly}
                 otherBidPackages={otherBidPackages}
                 onReallocateItem={onReallocateItem}
               />
@@ -733,6 +1006,37 @@ export default function BidPackageWorkspace({
       </div>
 
 
+      {/* Drawing Revisions */}
+      {currentDiagram && (
+        <DiagramRevisionsModal
+          isOpen={showRevisions}
+          diagram={currentDiagram}
+          canUpload={canUploadDiagrams}
+          onClose={() => setShowRevisions(false)}
+          onRevisionUploaded={() => {
+            setSheetsRefreshKey(prev => prev + 1);
+            onDiagramRevised?.();
+          }}
+        />
+      )}
+
+      {/* Spec Sections */}
+      <BidPackageSpecsModal
+        isOpen={showSpecs}
+        bidPackageId={bidPackage.id}
+        bidPackageName={bidPackage.name}
+        onClose={() => setShowSpecs(false)}
+      />
+
+      {/* Drawing Schedules */}
+      {currentDiagram && (
+        <DiagramSchedulesModal
+          isOpen={showSchedules}
+          diagram={currentDiagram}
+          onClose={() => setShowSchedules(false)}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
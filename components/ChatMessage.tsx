@@ -1,14 +1,33 @@
 'use client';
 
-import { ChatMessage as ChatMessageType } from '@/types/chat';
+import { useState } from 'react';
+import { ChatMessage as ChatMessageType, ProposedChangeStatus } from '@/types/chat';
+import { LineItem } from './BidFormTable';
+import { validateProposedChange } from '@/lib/chat-changes';
 import { motion } from 'framer-motion';
 
 interface ChatMessageProps {
   message: ChatMessageType;
-  onAcceptChanges?: (messageId: string) => void;
-  onRejectChanges?: (messageId: string) => void;
+  lineItems?: LineItem[]; // Current line items, to flag changes that can no longer apply
+  onAcceptChanges?: (messageId: string, changeIndexes: number[]) => void;
+  onRejectChanges?: (messageId: string, changeIndexes: number[]) => void;
 }
 
+const STATUS_BADGES: Record<Exclude<ProposedChangeStatus, 'pending'>, { label: string; className: string }> = {
+  applied: { label: 'Applied', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  rejected: { label: 'Rejected', className: 'bg-gray-100 text-gray-600 border-gray-200' },
+  undone: { label: 'Undone', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+};
+
+const TOOL_LABELS: Record<string, string> = {
+  search_csi_codes: 'Searched CSI codes',
+  get_csi_breadcrumb: 'Looked up CSI code',
+  list_package_drawings: 'Listed package drawings',
+  read_drawing_page: 'Read drawing page',
+  find_duplicate_scope: 'Checked other packages for duplicate scope',
+  propose_reallocation: 'Proposed moving an item',
+};
+
 // Helper function to parse markdown bold syntax (**text**)
 function parseMarkdownBold(text: string) {
   const parts: (string | JSX.Element)[] = [];
@@ -40,10 +59,25 @@ function parseMarkdownBold(text: string) {
   return parts.length > 0 ? parts : [text];
 }
 
-export default function ChatMessage({ message, onAcceptChanges, onRejectChanges }: ChatMessageProps) {
+export default function ChatMessage({ message, lineItems = [], onAcceptChanges, onRejectChanges }: ChatMessageProps) {
+  // Changes the user unticked; everything else pending and valid is selected
+  const [unselected, setUnselected] = useState<number[]>([]);
+  const [showToolCalls, setShowToolCalls] = useState(false);
   const isUser = message.role === 'user';
   const hasProposedChanges = message.proposedChanges && message.proposedChanges.length > 0;
 
+  const changes = (message.proposedChanges || []).map((change, idx) => {
+    const status: ProposedChangeStatus = message.changeStatuses?.[idx] ?? 'pending';
+    return { change, idx, status, error: status === 'pending' ? validateProposedChange(change, lineItems) : null };
+  });
+  const pending = changes.filter(entry => entry.status === 'pending');
+  const selected = pending.filter(entry => !entry.error && !unselected.includes(entry.idx)).map(entry => entry.idx);
+  const pendingIndexes = pending.map(entry => entry.idx);
+
+  const toggleSelected = (idx: number) => {
+    setUnselected(prev => (prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]));
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 10 }}
@@ -63,6 +97,45 @@ export default function ChatMessage({ message, onAcceptChanges, onRejectChanges
           <p className="text-sm leading-relaxed whitespace-pre-wrap">{parseMarkdownBold(message.content)}</p>
         </div>
 
+        {/* Tools the assistant called, for auditing its answer */}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="mt-2">
+            <button
+              type="button"
+              onClick={() => setShowToolCalls(prev => !prev)}
+              className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-zinc-900 transition-colors"
+            >
+              <svg className={`w-3 h-3 transition-transform ${showToolCalls ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              {message.toolCalls.length} tool call{message.toolCalls.length === 1 ? '' : 's'}
+            </button>
+            {showToolCalls && (
+              <div className="mt-1.5 space-y-1.5">
+                {message.toolCalls.map(call => (
+                  <div
+                    key={call.id}
+                    className={`text-xs bg-white border rounded-lg px-3 py-2 ${call.isError ? 'border-red-200' : 'border-gray-200'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-zinc-900">{TOOL_LABELS[call.name] || call.name}</span>
+                      {call.isError && <span className="text-red-600 flex-shrink-0">Failed</span>}
+                    </div>
+                    {Object.keys(call.input).length > 0 && (
+                      <div className="mt-1 font-mono text-gray-600 break-all">{JSON.stringify(call.input)}</div>
+                    )}
+                    <pre className={`mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-all font-mono bg-gray-50 rounded px-2 py-1 ${
+                      call.isError ? 'text-red-600' : 'text-gray-600'
+                    }`}>
+                      {call.result}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Proposed changes card */}
         {hasProposedChanges && (
           <motion.div
@@ -83,25 +156,53 @@ export default function ChatMessage({ message, onAcceptChanges, onRejectChanges
             </div>
 
             <div className="space-y-2 mb-4">
-              {message.proposedChanges?.map((change, idx) => (
-                <div key={idx} className="text-sm text-zinc-900 bg-white border border-gray-200 rounded-lg px-3 py-2.5">
+              {changes.map(({ change, idx, status, error }) => (
+                <div
+                  key={idx}
+                  className={`text-sm text-zinc-900 bg-white border rounded-lg px-3 py-2.5 ${
+                    error ? 'border-red-200' : 'border-gray-200'
+                  } ${status === 'rejected' || status === 'undone' ? 'opacity-60' : ''}`}
+                >
                   <div className="flex items-start gap-2.5 mb-1.5">
+                    {status === 'pending' && (
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(idx)}
+                        disabled={!!error}
+                        onChange={() => toggleSelected(idx)}
+                        className="mt-0.5 rounded border-gray-300 text-zinc-900 focus:ring-zinc-500 disabled:opacity-40"
+                        title={error || 'Include this change'}
+                      />
+                    )}
                     <span className={`font-bold text-xs px-2 py-0.5 rounded-md flex-shrink-0 ${
                       change.type === 'add' ? 'bg-emerald-50 text-emerald-700 border border-emerald-200' :
                       change.type === 'delete' ? 'bg-red-50 text-red-700 border border-red-200' :
+                      change.type === 'reallocate' ? 'bg-sky-50 text-sky-700 border border-sky-200' :
                       'bg-zinc-50 text-zinc-800 border border-zinc-200'
                     }`}>
                       {change.type === 'add' ? '+ ADD' :
                        change.type === 'delete' ? '- DEL' :
+                       change.type === 'reallocate' ? '→ MOVE' :
                        '✏ EDIT'}
                     </span>
                     <span className="flex-1 font-medium text-zinc-900">
                       {change.type === 'add' && change.newItem?.description}
                       {change.type === 'delete' && `Delete: ${change.itemId}`}
                       {change.type === 'update' && (change.newItem?.description || `Item ${change.itemId}`)}
+                      {change.type === 'reallocate' &&
+                        `${lineItems.find(item => item.id === change.itemId)?.description || `Item ${change.itemId}`} → ${change.targetPackageName || change.targetPackageId}`}
                     </span>
+                    {status !== 'pending' && (
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-md border flex-shrink-0 ${STATUS_BADGES[status].className}`}>
+                        {STATUS_BADGES[status].label}
+                      </span>
+                    )}
                   </div>
 
+                  {error && (
+                    <div className="ml-7 mb-1 text-xs text-red-600">{error}</div>
+                  )}
+
                   {/* Show details for ADD operations */}
                   {change.type === 'add' && change.newItem && (
                     <div className="ml-7 space-y-1">
@@ -144,6 +245,10 @@ export default function ChatMessage({ message, onAcceptChanges, onRejectChanges
                     </div>
                   )}
 
+                  {change.type === 'reallocate' && change.reason && (
+                    <div className="ml-7 text-xs text-gray-600">{change.reason}</div>
+                  )}
+
                   {/* Show details for UPDATE operations */}
                   {change.type === 'update' && change.changes && change.changes.length > 0 && (
                     <div className="ml-7 space-y-1">
@@ -161,41 +266,45 @@ export default function ChatMessage({ message, onAcceptChanges, onRejectChanges
               ))}
             </div>
 
-            <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={(e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  console.log('Accept clicked for message:', message.id);
-                  if (onAcceptChanges) {
-                    onAcceptChanges(message.id);
-                  }
-                }}
-                className="flex-1 px-4 py-2.5 bg-zinc-900 text-white rounded-xl hover:bg-zinc-800 transition-all font-semibold text-sm shadow-md shadow-zinc-900/10"
-              >
-                Accept Changes
-              </button>
-              <button
-                type="button"
-                onClick={(e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  console.log('Reject clicked for message:', message.id);
-                  if (onRejectChanges) {
-                    onRejectChanges(message.id);
-                  }
-                }}
-                className="flex-1 px-4 py-2.5 bg-white hover:bg-gray-50 text-zinc-900 border border-gray-200 rounded-xl transition-all font-semibold text-sm shadow-sm"
-              >
-                Reject
-              </button>
-            </div>
+            {pending.length > 0 && (
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  disabled={selected.length === 0}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    if (onAcceptChanges) {
+                      onAcceptChanges(message.id, selected);
+                    }
+                  }}
+                  className="flex-1 px-4 py-2.5 bg-zinc-900 text-white rounded-xl hover:bg-zinc-800 disabled:opacity-40 disabled:cursor-not-allowed transition-all font-semibold text-sm shadow-md shadow-zinc-900/10"
+                >
+                  {selected.length === pending.length ? 'Accept Changes' : `Accept Selected (${selected.length})`}
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    if (onRejectChanges) {
+                      // Reject the unticked changes when some are ticked, else all that are left
+                      const rejected = pendingIndexes.filter(idx => !selected.includes(idx));
+                      onRejectChanges(message.id, selected.length > 0 && rejected.length > 0 ? rejected : pendingIndexes);
+                    }
+                  }}
+                  className="flex-1 px-4 py-2.5 bg-white hover:bg-gray-50 text-zinc-900 border border-gray-200 rounded-xl transition-all font-semibold text-sm shadow-sm"
+                >
+                  {selected.length > 0 && selected.length < pending.length ? 'Reject Unselected' : 'Reject'}
+                </button>
+              </div>
+            )}
           </motion.div>
         )}
 
         {/* Timestamp */}
         <p className={`text-xs text-gray-500 mt-1.5 ${isUser ? 'text-right' : 'text-left'}`}>
+          {isUser && message.userName ? `${message.userName} · ` : ''}
           {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
         </p>
       </div>
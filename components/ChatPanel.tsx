@@ -2,27 +2,46 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { ChatMessage as ChatMessageType } from '@/types/chat';
+import { ChatMessage as ChatMessageType, ChatThread } from '@/types/chat';
 import { LineItem } from './BidFormTable';
 import ChatMessage from './ChatMessage';
+import ChatThreadBar from './ChatThreadBar';
 
 interface ChatPanelProps {
   messages: ChatMessageType[];
+  lineItems?: LineItem[];
   onSendMessage: (message: string) => void;
-  onAcceptChanges: (messageId: string) => void;
-  onRejectChanges: (messageId: string) => void;
+  onAcceptChanges: (messageId: string, changeIndexes: number[]) => void;
+  onRejectChanges: (messageId: string, changeIndexes: number[]) => void;
   isLoading?: boolean;
   onClose?: () => void;
+  // Conversation threads (bid package chat)
+  bidPackageId?: string;
+  threads?: ChatThread[];
+  activeThreadId?: string | null;
+  onSelectThread?: (threadId: string) => void;
+  onNewThread?: () => void;
+  onRenameThread?: (threadId: string, title: string) => void;
+  onDeleteThread?: (threadId: string) => void;
 }
 
 export default function ChatPanel({
   messages,
+  lineItems = [],
   onSendMessage,
   onAcceptChanges,
   onRejectChanges,
   isLoading = false,
   onClose,
+  bidPackageId,
+  threads = [],
+  activeThreadId = null,
+  onSelectThread,
+  onNewThread,
+  onRenameThread,
+  onDeleteThread,
 }: ChatPanelProps) {
+  const showThreads = !!(bidPackageId && onSelectThread && onNewThread && onRenameThread && onDeleteThread);
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -113,7 +132,7 @@ export default function ChatPanel({
   };
 
   return (
-    <div className="h-full w-full bg-white border-l border-gray-200 overflow-hidden" style={{ display: 'grid', gridTemplateRows: 'auto 1fr auto' }}>
+    <div className="h-full w-full bg-white border-l border-gray-200 overflow-hidden" style={{ display: 'grid', gridTemplateRows: showThreads ? 'auto auto 1fr auto' : 'auto 1fr auto' }}>
       {/* Header */}
       <div className="border-b border-gray-200 bg-gray-50 px-5 py-4">
         <div className="flex items-center justify-between">
@@ -139,6 +158,19 @@ export default function ChatPanel({
         </div>
       </div>
 
+      {showThreads && (
+        <ChatThreadBar
+          bidPackageId={bidPackageId!}
+          threads={threads}
+          activeThreadId={activeThreadId}
+          onSelectThread={onSelectThread!}
+          onNewThread={onNewThread!}
+          onRenameThread={onRenameThread!}
+          onDeleteThread={onDeleteThread!}
+          disabled={isLoading}
+        />
+      )}
+
       {/* Messages area */}
       <div
         className="overflow-y-auto px-5 py-4"
@@ -169,6 +201,7 @@ export default function ChatPanel({
               <ChatMessage
                 key={message.id}
                 message={message}
+                lineItems={lineItems}
                 onAcceptChanges={onAcceptChanges}
                 onRejectChanges={onRejectChanges}
               />
@@ -0,0 +1,122 @@
+'use client';
+
+/**
+ * Chat Revision Controls
+ * Undo/redo buttons for line item changes applied from the chat, with a
+ * list of revisions to step back (or forward) several at once
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ChatRevision } from '@/types/chat';
+
+interface ChatRevisionControlsProps {
+  revisions: ChatRevision[]; // Newest first
+  onUndo: (count: number) => void;
+  onRedo: (count: number) => void;
+  disabled?: boolean;
+}
+
+export default function ChatRevisionControls({
+  revisions,
+  onUndo,
+  onRedo,
+  disabled = false,
+}: ChatRevisionControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Undo walks back from the newest applied revision; redo forward from the oldest undone one
+  const applied = revisions.filter(revision => revision.status === 'applied');
+  const undone = revisions.filter(revision => revision.status === 'undone').reverse();
+
+  if (revisions.length === 0) return null;
+
+  const stepTo = (revision: ChatRevision) => {
+    setIsOpen(false);
+    if (revision.status === 'applied') {
+      onUndo(applied.findIndex(candidate => candidate.id === revision.id) + 1);
+    } else {
+      onRedo(undone.findIndex(candidate => candidate.id === revision.id) + 1);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex items-center border border-zinc-200 rounded-lg">
+      <button
+        onClick={() => onUndo(1)}
+        disabled={disabled || applied.length === 0}
+        className="px-2.5 py-2 text-zinc-700 hover:bg-zinc-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors rounded-l-lg"
+        title={applied[0] ? `Undo chat change: ${applied[0].summary}` : 'Nothing to undo'}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      </button>
+      <button
+        onClick={() => onRedo(1)}
+        disabled={disabled || undone.length === 0}
+        className="px-2.5 py-2 text-zinc-700 hover:bg-zinc-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors border-l border-zinc-200"
+        title={undone[0] ? `Redo chat change: ${undone[0].summary}` : 'Nothing to redo'}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="px-1.5 py-2 text-zinc-500 hover:bg-zinc-50 disabled:opacity-40 transition-colors border-l border-zinc-200 rounded-r-lg"
+        title="Chat change history"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-white border border-zinc-200 rounded-xl shadow-lg z-30 overflow-hidden">
+          <div className="px-3 py-2 border-b border-zinc-100 text-xs font-semibold text-zinc-500 uppercase tracking-wide">
+            Chat Changes
+          </div>
+          <div className="max-h-80 overflow-y-auto py-1">
+            {revisions.map(revision => (
+              <button
+                key={revision.id}
+                onClick={() => stepTo(revision)}
+                className="w-full text-left px-3 py-2 hover:bg-zinc-50 transition-colors"
+                title={revision.status === 'applied' ? 'Undo back to and including this change' : 'Redo up to and including this change'}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-sm ${revision.status === 'undone' ? 'text-gray-400 line-through' : 'text-zinc-900'}`}>
+                    {revision.summary}
+                  </span>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {revision.status === 'applied' ? 'Undo' : 'Redo'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {revision.userName ? `${revision.userName} · ` : ''}
+                  {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+/**
+ * Chat Thread Bar
+ * Thread picker for the chat panel: switch, start, rename and delete a bid
+ * package's conversations, and search older ones
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ChatThread, ChatThreadSearchResult } from '@/types/chat';
+
+interface ChatThreadBarProps {
+  bidPackageId: string;
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string) => void;
+  onNewThread: () => void;
+  onRenameThread: (threadId: string, title: string) => void;
+  onDeleteThread: (threadId: string) => void;
+  disabled?: boolean;
+}
+
+export default function ChatThreadBar({
+  bidPackageId,
+  threads,
+  activeThreadId,
+  onSelectThread,
+  onNewThread,
+  onRenameThread,
+  onDeleteThread,
+  disabled = false,
+}: ChatThreadBarProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatThreadSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSearch = async () => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const response = await fetch(`/api/bid-packages/${bidPackageId}/chat-threads?q=${encodeURIComponent(query.trim())}`);
+      if (!response.ok) throw new Error('Failed to search chat history');
+      const data = await response.json();
+      setResults(data.threads || []);
+    } catch (error) {
+      console.error('Error searching chat history:', error);
+      setResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const selectThread = (threadId: string) => {
+    setIsOpen(false);
+    onSelectThread(threadId);
+  };
+
+  const handleRename = () => {
+    if (!activeThread) return;
+    const title = prompt('Rename conversation', activeThread.title);
+    if (title?.trim() && title.trim() !== activeThread.title) {
+      onRenameThread(activeThread.id, title.trim());
+    }
+  };
+
+  const handleDelete = () => {
+    if (!activeThread) return;
+    if (confirm(`Delete "${activeThread.title}" and all its messages?`)) {
+      onDeleteThread(activeThread.id);
+    }
+  };
+
+  const listed: (ChatThread | ChatThreadSearchResult)[] = results ?? threads;
+
+  return (
+    <div ref={containerRef} className="relative border-b border-gray-200 bg-white px-5 py-2">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsOpen(prev => !prev)}
+          disabled={disabled}
+          className="flex-1 min-w-0 flex items-center justify-between gap-2 px-3 py-1.5 text-sm text-zinc-900 border border-zinc-200 rounded-lg hover:bg-zinc-50 disabled:opacity-50 transition-colors"
+          title="Conversations"
+        >
+          <span className="truncate">{activeThread?.title || 'New conversation'}</span>
+          <svg className="w-3.5 h-3.5 text-zinc-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {activeThread && (
+          <>
+            <button
+              onClick={handleRename}
+              disabled={disabled}
+              className="w-8 h-8 rounded-lg flex items-center justify-center text-gray-500 hover:text-zinc-900 hover:bg-gray-100 disabled:opacity-50 transition-all"
+              title="Rename conversation"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+              </svg>
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={disabled}
+              className="w-8 h-8 rounded-lg flex items-center justify-center text-gray-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-50 transition-all"
+              title="Delete conversation"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => {
+            setIsOpen(false);
+            onNewThread();
+          }}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-zinc-900 rounded-lg hover:bg-zinc-800 disabled:opacity-50 transition-colors flex-shrink-0"
+          title="Start a new conversation"
+        >
+          New
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="absolute left-5 right-5 top-full mt-1 bg-white border border-zinc-200 rounded-xl shadow-lg z-30 overflow-hidden">
+          <div className="p-2 border-b border-zinc-100">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                if (!e.target.value.trim()) setResults(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSearch();
+                }
+              }}
+              placeholder="Search conversations and press Enter"
+              className="w-full px-3 py-1.5 text-sm border border-zinc-200 rounded-lg focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400 focus:outline-none"
+              autoFocus
+            />
+          </div>
+          <div className="max-h-80 overflow-y-auto py-1">
+            {isSearching ? (
+              <div className="px-3 py-4 text-sm text-gray-500 text-center">Searching...</div>
+            ) : listed.length === 0 ? (
+              <div className="px-3 py-4 text-sm text-gray-500 text-center">
+                {results ? 'No conversations match' : 'No conversations yet'}
+              </div>
+            ) : (
+              listed.map(thread => (
+                <button
+                  key={thread.id}
+                  onClick={() => selectThread(thread.id)}
+                  className={`w-full text-left px-3 py-2 hover:bg-zinc-50 transition-colors ${
+                    thread.id === activeThreadId ? 'bg-zinc-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-zinc-900 truncate">{thread.title}</span>
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {formatDistanceToNow(new Date(thread.updatedAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {'matches' in thread && thread.matches.length > 0 ? (
+                    thread.matches.map(match => (
+                      <div key={match.messageId} className="text-xs text-gray-600 mt-0.5 line-clamp-2">
+                        <span className="font-medium">{match.role === 'user' ? match.userName || 'User' : 'Assistant'}:</span>{' '}
+                        {match.snippet}
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-xs text-gray-500 truncate">
+                      {thread.messageCount} message{thread.messageCount === 1 ? '' : 's'}
+                      {thread.createdByName ? ` · started by ${thread.createdByName}` : ''}
+                    </div>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+/**
+ * Cost Library View
+ * Historical unit prices per CSI code and unit, captured from completed bid
+ * packages or imported from legacy cost data
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { formatCurrency } from '@/lib/cost-rollup';
+import { Permission, hasPermission } from '@/types/permissions';
+import {
+  CostImportResult,
+  CostRecord,
+  CostRecordSource,
+  CostRecordSourceLabels,
+} from '@/types/costLibrary';
+
+export default function CostLibraryView() {
+  const { user } = useAuth();
+  const canManage = !!user && hasPermission(user.role, Permission.MANAGE_COST_LIBRARY);
+
+  const [records, setRecords] = useState<CostRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<CostImportResult | null>(null);
+  const [search, setSearch] = useState('');
+  const [csiCodeFilter, setCsiCodeFilter] = useState('');
+  const [unitFilter, setUnitFilter] = useState('');
+  const [sourceFilter, setSourceFilter] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      setError(null);
+      const params = new URLSearchParams();
+      if (search.trim()) params.set('search', search.trim());
+      if (csiCodeFilter.trim()) params.set('csiCode', csiCodeFilter.trim());
+      if (unitFilter.trim()) params.set('unit', unitFilter.trim());
+      if (sourceFilter) params.set('source', sourceFilter);
+
+      const response = await fetch(`/api/cost-library?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to load cost records');
+      const data = await response.json();
+      setRecords(data.records || []);
+      setTotal(data.total ?? 0);
+    } catch (err) {
+      console.error('Error loading cost records:', err);
+      setError('Failed to load cost library');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, csiCodeFilter, unitFilter, sourceFilter]);
+
+  useEffect(() => {
+    // Debounce so typing in the filters doesn't fire a request per key
+    const timer = setTimeout(loadRecords, 250);
+    return () => clearTimeout(timer);
+  }, [loadRecords]);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setImportResult(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/cost-library/import', { method: 'POST', body: formData });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Failed to import cost data');
+
+      setImportResult(data);
+      await loadRecords();
+    } catch (err) {
+      console.error('Error importing cost data:', err);
+      alert(err instanceof Error ? err.message : 'Failed to import cost data');
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async (record: CostRecord) => {
+    if (!confirm(`Remove this ${record.csiCode} price (${formatCurrency(record.unitPrice)}/${record.unit}) from the library?`)) return;
+    try {
+      const response = await fetch(`/api/cost-library/${record.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete cost record');
+      await loadRecords();
+    } catch (err) {
+      console.error('Error deleting cost record:', err);
+      alert('Failed to delete cost record');
+    }
+  };
+
+  const inputClass = 'px-2 py-1.5 text-sm border border-zinc-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-zinc-900';
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-3 flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-base font-semibold text-zinc-900">Cost Library</h1>
+            <p className="text-xs text-gray-500">
+              {total} unit price{total === 1 ? '' : 's'}
+              {total > records.length && ` (showing newest ${records.length})`}
+            </p>
+          </div>
+          {canManage && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={e => e.target.files?.[0] && handleImport(e.target.files[0])}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isImporting}
+                title="Columns: CSI Code, Unit, Unit Price (required); Description, Quantity, Project, Region, Market Sector, Date"
+                className="px-4 py-1.5 bg-zinc-900 hover:bg-zinc-800 text-white text-sm font-medium rounded-lg shadow-sm transition-colors disabled:opacity-50"
+              >
+                {isImporting ? 'Importing...' : 'Import CSV'}
+              </button>
+            </>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search description, project, region..."
+            className={`${inputClass} w-64`}
+          />
+          <input
+            value={csiCodeFilter}
+            onChange={e => setCsiCodeFilter(e.target.value)}
+            placeholder="CSI code or division"
+            className={`${inputClass} w-40`}
+          />
+          <input
+            value={unitFilter}
+            onChange={e => setUnitFilter(e.target.value)}
+            placeholder="Unit"
+            className={`${inputClass} w-20`}
+          />
+          <select value={sourceFilter} onChange={e => setSourceFilter(e.target.value)} className={inputClass}>
+            <option value="">All sources</option>
+            {(Object.keys(CostRecordSourceLabels) as CostRecordSource[]).map(source => (
+              <option key={source} value={source}>{CostRecordSourceLabels[source]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {importResult && (
+        <div className="mx-6 mt-4 px-4 py-3 bg-white border border-gray-200 rounded-lg text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-zinc-900">
+              Imported {importResult.imported} price{importResult.imported === 1 ? '' : 's'}
+              {importResult.skipped.length > 0 && `, skipped ${importResult.skipped.length} row${importResult.skipped.length === 1 ? '' : 's'}`}
+            </span>
+            <button onClick={() => setImportResult(null)} className="text-xs text-gray-500 hover:text-zinc-900">
+              Dismiss
+            </button>
+          </div>
+          {importResult.skipped.length > 0 && (
+            <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-red-700 space-y-0.5">
+              {importResult.skipped.map(({ row, error: rowError }) => (
+                <li key={row}>Row {row}: {rowError}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {error && <div className="px-6 py-3 text-sm text-red-600">{error}</div>}
+
+      {/* List */}
+      <div className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-zinc-900"></div>
+          </div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-16 text-sm text-gray-500">
+            No unit prices yet. Prices are captured when bid packages are completed, or can be imported from a CSV.
+          </div>
+        ) : (
+          <table className="min-w-full bg-white border border-gray-200 rounded-lg text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-semibold text-zinc-700">
+                <th className="px-3 py-2 border-b border-gray-200">CSI Code</th>
+                <th className="px-3 py-2 border-b border-gray-200">Description</th>
+                <th className="px-3 py-2 border-b border-gray-200 text-right">Unit Price</th>
+                <th className="px-3 py-2 border-b border-gray-200 text-right">Qty</th>
+                <th className="px-3 py-2 border-b border-gray-200">Project</th>
+                <th className="px-3 py-2 border-b border-gray-200">Region</th>
+                <th className="px-3 py-2 border-b border-gray-200">Market Sector</th>
+                <th className="px-3 py-2 border-b border-gray-200">Date</th>
+                <th className="px-3 py-2 border-b border-gray-200">Source</th>
+                {canManage && <th className="px-3 py-2 border-b border-gray-200"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {records.map(record => (
+                <tr key={record.id} className="border-b border-gray-100">
+                  <td className="px-3 py-2 font-mono text-xs text-zinc-900 whitespace-nowrap">{record.csiCode}</td>
+                  <td className="px-3 py-2 text-zinc-700">{record.description || '—'}</td>
+                  <td className="px-3 py-2 text-right font-mono whitespace-nowrap">
+                    {formatCurrency(record.unitPrice)}<span className="text-xs text-gray-500">/{record.unit}</span>
+                  </td>
+                  <td className="px-3 py-2 text-right text-xs text-zinc-700">{record.quantity ?? '—'}</td>
+                  <td className="px-3 py-2 text-xs text-zinc-700">{record.projectName || '—'}</td>
+                  <td className="px-3 py-2 text-xs text-zinc-700">{record.region || '—'}</td>
+                  <td className="px-3 py-2 text-xs text-zinc-700">{record.marketSector || '—'}</td>
+                  <td className="px-3 py-2 text-xs text-zinc-700 whitespace-nowrap">
+                    {new Date(record.observedAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-500 whitespace-nowrap">{CostRecordSourceLabels[record.source]}</td>
+                  {canManage && (
+                    <td className="px-3 py-2 text-right">
+                      <button onClick={() => handleDelete(record)} className="text-xs text-red-600 hover:underline">
+                        Delete
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
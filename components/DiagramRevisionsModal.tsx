@@ -0,0 +1,292 @@
+'use client';
+
+/**
+ * Diagram Revisions Modal
+ * Revision history of a drawing sheet, re-issue upload, and an overlay
+ * diff between two revisions
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { Diagram, DiagramRevision } from '@/types/diagram';
+
+interface DiagramRevisionsModalProps {
+  isOpen: boolean;
+  diagram: Diagram;
+  canUpload?: boolean;
+  onClose: () => void;
+  onRevisionUploaded?: (revision: DiagramRevision) => void;
+}
+
+const getRevisionName = (revision: DiagramRevision) =>
+  `Rev ${revision.revisionNumber}${revision.label ? ` - ${revision.label}` : ''}`;
+
+export default function DiagramRevisionsModal({
+  isOpen,
+  diagram,
+  canUpload = false,
+  onClose,
+  onRevisionUploaded,
+}: DiagramRevisionsModalProps) {
+  const [revisions, setRevisions] = useState<DiagramRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [label, setLabel] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/diagrams/${diagram.id}/revisions`);
+      if (!response.ok) throw new Error('Failed to load revisions');
+      const data = await response.json();
+      const loaded: DiagramRevision[] = data.revisions || [];
+      setRevisions(loaded);
+      // Default to comparing the latest revision with the one before it
+      setCompare(loaded.length > 1 ? { from: loaded[1].revisionNumber, to: loaded[0].revisionNumber } : null);
+    } catch (err) {
+      console.error('Error loading diagram revisions:', err);
+      setError('Failed to load revisions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [diagram.id]);
+
+  useEffect(() => {
+    if (isOpen) loadRevisions();
+  }, [isOpen, loadRevisions]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    setUploadMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (label.trim()) formData.append('label', label.trim());
+
+      const response = await fetch(`/api/diagrams/${diagram.id}/revisions`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to upload revision');
+
+      const revision: DiagramRevision = data.revision;
+      setFile(null);
+      setFileInputKey(prev => prev + 1);
+      setLabel('');
+      setUploadMessage(
+        revision.changedRegions === null
+          ? `${getRevisionName(revision)} uploaded. The sheets could not be compared, so all ${revision.flaggedItemCount} line item(s) were flagged for re-review.`
+          : `${getRevisionName(revision)} uploaded with ${revision.changedRegions.length} changed region(s); ${revision.flaggedItemCount} line item(s) flagged for re-review.`
+      );
+      await loadRevisions();
+      onRevisionUploaded?.(revision);
+    } catch (err) {
+      console.error('Error uploading diagram revision:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload revision');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Stored regions describe changes since the previous revision only
+  const compareTarget = compare ? revisions.find(r => r.revisionNumber === compare.to) : undefined;
+  const highlightRegions = compare && compare.to === compare.from + 1 ? compareTarget?.changedRegions ?? [] : [];
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/30 z-40"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.97 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.97 }}
+            transition={{ duration: 0.15 }}
+            className="fixed inset-8 bg-white rounded-lg shadow-2xl z-50 flex flex-col overflow-hidden"
+          >
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-gray-100 to-gray-200">
+              <div className="min-w-0">
+                <h2 className="text-sm font-bold text-zinc-900">Drawing Revisions</h2>
+                <p className="text-xs text-zinc-600 truncate">{diagram.fileName}</p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-gray-700 hover:bg-gray-300 hover:text-gray-900 transition-colors"
+                title="Close"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex-1 min-h-0 flex">
+              {/* Revision list and upload */}
+              <div className="w-80 flex-shrink-0 border-r border-gray-200 flex flex-col">
+                {canUpload && (
+                  <div className="p-4 border-b border-gray-200 space-y-2">
+                    <h3 className="text-xs font-semibold text-zinc-900 uppercase tracking-wide">Upload Re-issued Sheet</h3>
+                    <input
+                      key={fileInputKey}
+                      type="file"
+                      accept="image/*,.pdf"
+                      onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                      className="block w-full text-xs text-gray-600 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:text-xs file:bg-zinc-100 file:text-zinc-900"
+                    />
+                    <input
+                      type="text"
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                      placeholder="Label, e.g. Addendum 2"
+                      className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400"
+                    />
+                    <button
+                      onClick={handleUpload}
+                      disabled={!file || isUploading}
+                      className="w-full px-3 py-1.5 text-xs font-medium text-white bg-zinc-900 hover:bg-zinc-800 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isUploading ? 'Comparing with current revision...' : `Upload as Rev ${(revisions[0]?.revisionNumber ?? diagram.currentRevision ?? 1) + 1}`}
+                    </button>
+                    {uploadMessage && <p className="text-xs text-emerald-700">{uploadMessage}</p>}
+                  </div>
+                )}
+
+                <div className="flex-1 overflow-y-auto">
+                  {error && <p className="p-4 text-xs text-red-600">{error}</p>}
+                  {isLoading && revisions.length === 0 ? (
+                    <p className="p-4 text-xs text-gray-500">Loading revisions...</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {revisions.map((revision, index) => {
+                        const previous = revisions[index + 1];
+                        const isCompared = compare?.to === revision.revisionNumber;
+                        return (
+                          <li key={revision.id} className={`px-4 py-3 ${isCompared ? 'bg-zinc-50' : ''}`}>
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-sm font-medium text-zinc-900 truncate">{getRevisionName(revision)}</span>
+                              {index === 0 && (
+                                <span className="text-[10px] font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 rounded px-1.5 py-0.5">Current</span>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500 truncate">{revision.fileName}</p>
+                            <p className="text-xs text-gray-400">{format(new Date(revision.uploadedAt), 'MMM d, yyyy h:mm a')}</p>
+                            {previous && (
+                              <div className="mt-1 flex items-center justify-between gap-2">
+                                <span className="text-xs text-gray-600">
+                                  {revision.changedRegions
+                                    ? `${revision.changedRegions.length} change(s), ${revision.flaggedItemCount} item(s) flagged`
+                                    : `Not compared, ${revision.flaggedItemCount} item(s) flagged`}
+                                </span>
+                                <button
+                                  onClick={() => setCompare({ from: previous.revisionNumber, to: revision.revisionNumber })}
+                                  className="text-xs font-medium text-zinc-700 hover:text-zinc-900 underline"
+                                >
+                                  Compare
+                                </button>
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              {/* Overlay diff */}
+              <div className="flex-1 min-w-0 flex flex-col bg-gray-50">
+                {compare ? (
+                  <>
+                    <div className="px-4 py-2 border-b border-gray-200 bg-white flex items-center gap-3 text-xs">
+                      <label className="flex items-center gap-1 text-gray-600">
+                        From
+                        <select
+                          value={compare.from}
+                          onChange={(e) => setCompare({ ...compare, from: parseInt(e.target.value) })}
+                          className="px-2 py-1 border border-gray-300 rounded-md"
+                        >
+                          {revisions.filter(r => r.revisionNumber !== compare.to).map(r => (
+                            <option key={r.id} value={r.revisionNumber}>{getRevisionName(r)}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-1 text-gray-600">
+                        To
+                        <select
+                          value={compare.to}
+                          onChange={(e) => setCompare({ ...compare, to: parseInt(e.target.value) })}
+                          className="px-2 py-1 border border-gray-300 rounded-md"
+                        >
+                          {revisions.filter(r => r.revisionNumber !== compare.from).map(r => (
+                            <option key={r.id} value={r.revisionNumber}>{getRevisionName(r)}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <span className="ml-auto flex items-center gap-3 text-gray-500">
+                        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-red-500 inline-block" /> Removed</span>
+                        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-cyan-400 inline-block" /> Added</span>
+                        {highlightRegions.length > 0 && (
+                          <span className="flex items-center gap-1"><span className="w-3 h-3 border-2 border-amber-500 inline-block" /> Changed region</span>
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex-1 overflow-auto p-4">
+                      <div className="relative mx-auto w-fit max-w-full bg-white shadow">
+                        <img
+                          key={`${compare.from}-${compare.to}`}
+                          src={`/api/diagrams/${diagram.id}/revisions/compare?from=${compare.from}&to=${compare.to}`}
+                          alt={`Revision ${compare.from} compared with revision ${compare.to}`}
+                          className="max-w-full h-auto"
+                        />
+                        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                          {highlightRegions.map((region, i) => (
+                            <rect
+                              key={i}
+                              x={region.x}
+                              y={region.y}
+                              width={region.width}
+                              height={region.height}
+                              fill="none"
+                              stroke="#f59e0b"
+                              strokeWidth={2}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          ))}
+                        </svg>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                    {isLoading ? '' : 'Upload a re-issued sheet to compare it with this revision'}
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
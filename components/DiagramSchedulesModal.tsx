@@ -0,0 +1,159 @@
+'use client';
+
+/**
+ * Diagram Schedules Modal
+ * Door, window, finish and equipment schedules read from the drawing,
+ * shown as tables by page
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Diagram } from '@/types/diagram';
+import { DrawingSchedule, ScheduleKindLabels } from '@/types/schedule';
+
+interface DiagramSchedulesModalProps {
+  isOpen: boolean;
+  diagram: Diagram;
+  onClose: () => void;
+}
+
+export default function DiagramSchedulesModal({
+  isOpen,
+  diagram,
+  onClose,
+}: DiagramSchedulesModalProps) {
+  const [schedules, setSchedules] = useState<DrawingSchedule[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/diagrams/${diagram.id}/schedules`);
+      if (!response.ok) throw new Error('Failed to load schedules');
+      const data = await response.json();
+      const loaded: DrawingSchedule[] = data.schedules || [];
+      setSchedules(loaded);
+      setSelectedId(loaded[0]?.id ?? null);
+    } catch (err) {
+      console.error('Error loading diagram schedules:', err);
+      setError('Failed to load schedules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [diagram.id]);
+
+  useEffect(() => {
+    if (isOpen) loadSchedules();
+  }, [isOpen, loadSchedules]);
+
+  const selected = schedules.find(schedule => schedule.id === selectedId) ?? null;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/30 z-40"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.97 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.97 }}
+            transition={{ duration: 0.15 }}
+            className="fixed inset-8 bg-white rounded-lg shadow-2xl z-50 flex flex-col overflow-hidden"
+          >
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-gray-100 to-gray-200">
+              <div className="min-w-0">
+                <h2 className="text-sm font-bold text-zinc-900">Drawing Schedules</h2>
+                <p className="text-xs text-zinc-600 truncate">{diagram.fileName}</p>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-gray-700 hover:bg-gray-300 hover:text-gray-900 transition-colors"
+                title="Close"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="flex-1 min-h-0 flex">
+              {/* Schedule list */}
+              <div className="w-72 flex-shrink-0 border-r border-gray-200 overflow-y-auto">
+                {error && <p className="p-4 text-xs text-red-600">{error}</p>}
+                {isLoading && schedules.length === 0 ? (
+                  <p className="p-4 text-xs text-gray-500">Loading schedules...</p>
+                ) : schedules.length === 0 && !error ? (
+                  <p className="p-4 text-xs text-gray-500">No schedules were found on this drawing. Schedules are read when the drawing is extracted.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {schedules.map(schedule => (
+                      <li key={schedule.id}>
+                        <button
+                          onClick={() => setSelectedId(schedule.id)}
+                          className={`w-full text-left px-4 py-3 hover:bg-zinc-50 ${schedule.id === selectedId ? 'bg-zinc-50' : ''}`}
+                        >
+                          <span className="block text-sm font-medium text-zinc-900 truncate">{schedule.title || ScheduleKindLabels[schedule.kind]}</span>
+                          <span className="block text-xs text-gray-500">
+                            {ScheduleKindLabels[schedule.kind]} · Page {schedule.pageNumber} · {schedule.rows.length} row(s)
+                          </span>
+                          <span className="block text-xs text-gray-400">
+                            {schedule.source === 'text_layer' ? 'Read from PDF text' : 'Read from page image'}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Schedule table */}
+              <div className="flex-1 min-w-0 overflow-auto bg-gray-50">
+                {selected ? (
+                  <table className="min-w-full text-xs bg-white">
+                    <thead className="sticky top-0 bg-zinc-100">
+                      <tr>
+                        {selected.columns.map((column, index) => (
+                          <th key={index} className="px-3 py-2 text-left font-semibold text-zinc-900 border-b border-gray-200 whitespace-nowrap">
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {selected.rows.map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                          {selected.columns.map((_, index) => (
+                            <td key={index} className="px-3 py-1.5 text-gray-700 whitespace-nowrap">
+                              {row[index] || ''}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div className="h-full flex items-center justify-center text-xs text-gray-500">
+                    Select a schedule to view its rows
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+/**
+ * Extraction Job Progress Component
+ * Status and page progress of a queued extraction, with cancel and retry
+ */
+
+import { ExtractionJob, ExtractionJobStatusLabels } from '@/types/extractionJob';
+
+interface ExtractionJobProgressProps {
+  job: ExtractionJob;
+  label?: string; // What is being extracted, e.g. the file name
+  onCancel?: () => void;
+  onRetry?: () => void;
+}
+
+export default function ExtractionJobProgress({ job, label, onCancel, onRetry }: ExtractionJobProgressProps) {
+  const percent = job.totalPages
+    ? Math.round((job.completedPages / job.totalPages) * 100)
+    : 0;
+
+  const isActive = job.status === 'queued' || job.status === 'running';
+  const isRetrying = job.status === 'queued' && job.attempts > 0;
+
+  let detail: string;
+  if (job.status === 'running' && job.totalPages) {
+    detail = `Page ${Math.min(job.completedPages + 1, job.totalPages)} of ${job.totalPages}`;
+  } else if (isRetrying) {
+    detail = `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`;
+  } else if (job.status === 'running') {
+    detail = 'Reading drawings...';
+  } else {
+    detail = ExtractionJobStatusLabels[job.status];
+  }
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-xs font-medium text-gray-700 truncate">
+          {label ?? ExtractionJobStatusLabels[job.status]}
+        </span>
+        <span className="text-xs text-gray-500 font-mono flex-shrink-0">
+          {job.cancelRequested && isActive ? 'Cancelling...' : detail}
+        </span>
+      </div>
+
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all ${
+            job.status === 'failed' ? 'bg-red-500' : job.status === 'cancelled' ? 'bg-gray-400' : 'bg-zinc-900'
+          }`}
+          style={{ width: `${job.status === 'succeeded' ? 100 : percent}%` }}
+        />
+      </div>
+
+      {job.error && !isActive && (
+        <p className="mt-1 text-xs text-red-600">{job.error}</p>
+      )}
+
+      <div className="flex justify-end gap-2 mt-1">
+        {onCancel && isActive && !job.cancelRequested && (
+          <button
+            onClick={onCancel}
+            className="text-xs text-gray-600 hover:text-zinc-900 underline"
+          >
+            Cancel
+          </button>
+        )}
+        {onRetry && (job.status === 'failed' || job.status === 'cancelled') && (
+          <button
+            onClick={onRetry}
+            className="text-xs text-gray-600 hover:text-zinc-900 underline"
+          >
+            Retry
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -28,9 +28,18 @@ export default function InboxCard({ item, onClick }: InboxCardProps) {
       textColor: 'text-emerald-700',
       dotColor: 'bg-emerald-500',
     },
+    archived: {
+      label: 'Archived',
+      bgColor: 'bg-gray-100',
+      textColor: 'text-gray-500',
+      dotColor: 'bg-gray-400',
+    },
   };
 
   const config = statusConfig[item.status];
+  const drawings = (item.attachments || []).filter(attachment => attachment.fileUrl);
+  const duplicateCount = drawings.filter(attachment => attachment.duplicate).length;
+  const hasImageThumbnail = !!(item.thumbnailUrl || (item.diagramUrl && !/\.pdf$/i.test(item.diagramUrl)));
 
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -59,11 +68,20 @@ export default function InboxCard({ item, onClick }: InboxCardProps) {
       <div className="flex gap-4">
         {/* Thumbnail */}
         <div className="flex-shrink-0 w-24 h-24 bg-gray-100 rounded-lg overflow-hidden border border-gray-200">
-          <img
-            src={item.diagramUrl}
-            alt={item.subject}
-            className="w-full h-full object-cover"
-          />
+          {hasImageThumbnail ? (
+            <img
+              src={item.thumbnailUrl || item.diagramUrl}
+              alt={item.subject}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center gap-1 text-gray-400">
+              <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              <span className="text-[11px] font-medium">{drawings.length > 0 ? 'PDF' : 'No drawings'}</span>
+            </div>
+          )}
         </div>
 
         {/* Content */}
@@ -98,7 +116,25 @@ export default function InboxCard({ item, onClick }: InboxCardProps) {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <span>Received {formatDate(item.receivedAt)}</span>
+            {item.assignedToName && <span>· {item.assignedToName}</span>}
+            {item.attachments && (
+              <span>
+                · {drawings.length} drawing{drawings.length === 1 ? '' : 's'}
+                {duplicateCount > 0 && <span className="text-amber-700"> ({duplicateCount} already uploaded)</span>}
+              </span>
+            )}
           </div>
+
+          {/* Tags set by triage rules */}
+          {item.tags && item.tags.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {item.tags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 rounded-full bg-zinc-100 text-zinc-700 text-[11px] font-medium">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -8,9 +8,25 @@ interface InboxListViewProps {
   items: InboxItem[];
   onItemSelect: (item: InboxItem) => void;
   onNewDiagram: () => void;
+  onCheckMail?: () => void;
+  isCheckingMail?: boolean;
+  onManageRules?: () => void;
+  archivedCount?: number;
+  showArchived?: boolean;
+  onToggleArchived?: () => void;
 }
 
-export default function InboxListView({ items, onItemSelect, onNewDiagram }: InboxListViewProps) {
+export default function InboxListView({
+  items,
+  onItemSelect,
+  onNewDiagram,
+  onCheckMail,
+  isCheckingMail = false,
+  onManageRules,
+  archivedCount = 0,
+  showArchived = false,
+  onToggleArchived,
+}: InboxListViewProps) {
   const pendingCount = items.filter(item => item.status === 'pending').length;
   const inProgressCount = items.filter(item => item.status === 'in_progress').length;
   const completedCount = items.filter(item => item.status === 'completed').length;
@@ -34,22 +50,39 @@ export default function InboxListView({ items, onItemSelect, onNewDiagram }: Inb
                   </svg>
                 </div>
                 <div>
-                  <h1 className="text-3xl font-bold text-gray-900">Projects</h1>
-                  <p className="text-sm text-gray-600">
-                    <span className="font-mono">projects@cosmo.com</span>
-                  </p>
+                  <h1 className="text-3xl font-bold text-gray-900">Inbox</h1>
+                  <p className="text-sm text-gray-600">Bid invitations received by email</p>
                 </div>
               </div>
             </div>
-            <button
-              onClick={onNewDiagram}
-              className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg transition-all duration-200 font-semibold flex items-center gap-2 shadow-md shadow-zinc-900/10 hover:shadow-lg"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-              </svg>
-              New Project
-            </button>
+            <div className="flex items-center gap-3">
+              {onManageRules && (
+                <button
+                  onClick={onManageRules}
+                  className="px-4 py-3 bg-white border-2 border-gray-200 hover:border-zinc-300 text-zinc-900 rounded-lg transition-all duration-200 font-semibold"
+                >
+                  Rules
+                </button>
+              )}
+              {onCheckMail && (
+                <button
+                  onClick={onCheckMail}
+                  disabled={isCheckingMail}
+                  className="px-4 py-3 bg-white border-2 border-gray-200 hover:border-zinc-300 text-zinc-900 rounded-lg transition-all duration-200 font-semibold disabled:opacity-50 disabled:cursor-wait"
+                >
+                  {isCheckingMail ? 'Checking...' : 'Check Mail'}
+                </button>
+              )}
+              <button
+                onClick={onNewDiagram}
+                className="px-6 py-3 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg transition-all duration-200 font-semibold flex items-center gap-2 shadow-md shadow-zinc-900/10 hover:shadow-lg"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                </svg>
+                New Project
+              </button>
+            </div>
           </div>
 
           {/* Stats */}
@@ -98,6 +131,14 @@ export default function InboxListView({ items, onItemSelect, onNewDiagram }: Inb
           </div>
         </motion.div>
 
+        {onToggleArchived && archivedCount > 0 && (
+          <div className="mb-4 flex justify-end">
+            <button onClick={onToggleArchived} className="text-sm text-gray-600 hover:text-zinc-900">
+              {showArchived ? 'Hide archived' : `Show ${archivedCount} archived`}
+            </button>
+          </div>
+        )}
+
         {/* Items Grid */}
         {items.length === 0 ? (
           <motion.div
@@ -111,9 +152,9 @@ export default function InboxListView({ items, onItemSelect, onNewDiagram }: Inb
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
               </svg>
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">No diagrams in inbox</h3>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No bid invitations in inbox</h3>
             <p className="text-gray-600 text-sm">
-              Diagrams sent to diagrams-todo@abramas.com will appear here
+              Emails delivered to the intake mailbox will appear here with their drawings
             </p>
           </motion.div>
         ) : (
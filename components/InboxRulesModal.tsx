@@ -0,0 +1,505 @@
+'use client';
+
+/**
+ * Inbox Rules Modal
+ * Editor for the inbox triage rules, with a dry run of the rule being
+ * edited against past inbox items and the log of rules that fired
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission, hasPermission } from '@/types/permissions';
+import { UserPublic, UserRole, getUserDisplayName } from '@/types/user';
+import { InboxRule, InboxRuleLogEntry, InboxRulePreviewMatch } from '@/types/inbox';
+
+interface InboxRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Form state: lists are edited as comma-separated text
+interface RuleDraft {
+  name: string;
+  enabled: boolean;
+  stopProcessing: boolean;
+  senderDomains: string;
+  subjectKeywords: string;
+  partyNames: string;
+  attachmentTypes: string;
+  tags: string;
+  assignToUserId: string;
+  linkByProjectNumber: boolean;
+  archive: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  enabled: true,
+  stopProcessing: false,
+  senderDomains: '',
+  subjectKeywords: '',
+  partyNames: '',
+  attachmentTypes: '',
+  tags: '',
+  assignToUserId: '',
+  linkByProjectNumber: false,
+  archive: false,
+};
+
+const toDraft = (rule: InboxRule): RuleDraft => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  stopProcessing: rule.stopProcessing,
+  senderDomains: rule.conditions.senderDomains.join(', '),
+  subjectKeywords: rule.conditions.subjectKeywords.join(', '),
+  partyNames: rule.conditions.partyNames.join(', '),
+  attachmentTypes: rule.conditions.attachmentTypes.join(', '),
+  tags: rule.actions.tags.join(', '),
+  assignToUserId: rule.actions.assignToUserId ?? '',
+  linkByProjectNumber: rule.actions.linkByProjectNumber,
+  archive: rule.actions.archive,
+});
+
+const splitList = (text: string) => text.split(',').map(entry => entry.trim()).filter(Boolean);
+
+const toRequestBody = (draft: RuleDraft) => ({
+  name: draft.name,
+  enabled: draft.enabled,
+  stopProcessing: draft.stopProcessing,
+  conditions: {
+    senderDomains: splitList(draft.senderDomains),
+    subjectKeywords: splitList(draft.subjectKeywords),
+    partyNames: splitList(draft.partyNames),
+    attachmentTypes: splitList(draft.attachmentTypes),
+  },
+  actions: {
+    tags: splitList(draft.tags),
+    assignToUserId: draft.assignToUserId || null,
+    linkByProjectNumber: draft.linkByProjectNumber,
+    archive: draft.archive,
+  },
+});
+
+const describeRule = (rule: InboxRule) => {
+  const actions = [
+    rule.actions.tags.length > 0 ? `tag ${rule.actions.tags.join(', ')}` : null,
+    rule.actions.assignToUserId ? 'assign' : null,
+    rule.actions.linkByProjectNumber ? 'link by project #' : null,
+    rule.actions.archive ? 'archive' : null,
+  ].filter(Boolean);
+  return actions.join(' · ');
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function InboxRulesModal({ isOpen, onClose }: InboxRulesModalProps) {
+  const { user } = useAuth();
+  const canEdit = !!user && hasPermission(user.role, Permission.MANAGE_ASSIGNMENTS);
+  const [tab, setTab] = useState<'rules' | 'log'>('rules');
+  const [rules, setRules] = useState<InboxRule[]>([]);
+  const [leads, setLeads] = useState<UserPublic[]>([]);
+  const [logEntries, setLogEntries] = useState<InboxRuleLogEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null); // 'new' while adding a rule
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [preview, setPreview] = useState<{ checked: number; matches: InboxRulePreviewMatch[] } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inbox/rules');
+      if (!response.ok) throw new Error('Failed to load rules');
+      const data = await response.json();
+      setRules(data.rules || []);
+    } catch (err) {
+      console.error('Error loading inbox rules:', err);
+      setError('Failed to load rules');
+    }
+  }, []);
+
+  const loadLog = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inbox/rules/log');
+      if (!response.ok) throw new Error('Failed to load rule log');
+      const data = await response.json();
+      setLogEntries(data.entries || []);
+    } catch (err) {
+      console.error('Error loading inbox rule log:', err);
+      setError('Failed to load rule log');
+    }
+  }, []);
+
+  const loadLeads = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users');
+      if (!response.ok) throw new Error('Failed to load users');
+      const data = await response.json();
+      setLeads((data.users || []).filter((candidate: UserPublic) => candidate.role === UserRole.PRECON_LEAD));
+    } catch (err) {
+      console.error('Error loading precon leads:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadRules();
+    loadLeads();
+  }, [isOpen, loadRules, loadLeads]);
+
+  useEffect(() => {
+    if (isOpen && tab === 'log') loadLog();
+  }, [isOpen, tab, loadLog]);
+
+  const selectRule = (rule: InboxRule | null) => {
+    setSelectedId(rule ? rule.id : 'new');
+    setDraft(rule ? toDraft(rule) : EMPTY_DRAFT);
+    setPreview(null);
+    setError(null);
+  };
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const isNew = selectedId === 'new';
+      const response = await fetch(isNew ? '/api/inbox/rules' : `/api/inbox/rules/${selectedId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRequestBody(draft)),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save rule');
+
+      setRules(prev => isNew ? [...prev, data.rule] : prev.map(rule => (rule.id === data.rule.id ? data.rule : rule)));
+      setSelectedId(data.rule.id);
+    } catch (err) {
+      console.error('Error saving inbox rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const rule = rules.find(candidate => candidate.id === selectedId);
+    if (!rule || !confirm(`Delete the rule "${rule.name}"?`)) return;
+    try {
+      const response = await fetch(`/api/inbox/rules/${rule.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete rule');
+      setRules(prev => prev.filter(candidate => candidate.id !== rule.id));
+      setSelectedId(null);
+    } catch (err) {
+      console.error('Error deleting inbox rule:', err);
+      setError('Failed to delete rule');
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      const { conditions, actions } = toRequestBody(draft);
+      const response = await fetch('/api/inbox/rules/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conditions, actions }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to preview rule');
+      setPreview(data);
+    } catch (err) {
+      console.error('Error previewing inbox rule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to preview rule');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  // Swap positions with the neighbouring rule
+  const handleMove = async (rule: InboxRule, direction: -1 | 1) => {
+    const index = rules.findIndex(candidate => candidate.id === rule.id);
+    const neighbour = rules[index + direction];
+    if (!neighbour) return;
+
+    const reordered = [...rules];
+    reordered[index] = { ...neighbour, position: index };
+    reordered[index + direction] = { ...rule, position: index + direction };
+    setRules(reordered);
+
+    try {
+      await Promise.all(reordered.map((candidate, position) =>
+        fetch(`/api/inbox/rules/${candidate.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ position }),
+        })
+      ));
+    } catch (err) {
+      console.error('Error reordering inbox rules:', err);
+      setError('Failed to reorder rules');
+      loadRules();
+    }
+  };
+
+  const handleToggleEnabled = async (rule: InboxRule) => {
+    try {
+      const response = await fetch(`/api/inbox/rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update rule');
+      setRules(prev => prev.map(candidate => (candidate.id === rule.id ? data.rule : candidate)));
+      if (selectedId === rule.id) setDraft(prev => ({ ...prev, enabled: data.rule.enabled }));
+    } catch (err) {
+      console.error('Error updating inbox rule:', err);
+      setError('Failed to update rule');
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-zinc-500 disabled:bg-gray-50';
+  const labelClass = 'block text-xs font-medium text-gray-700 mb-1';
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/30 z-40"
+          />
+
+          {/* Modal */}
+          <motion.div
+            initial={{ opacity: 0, scale: 0.97 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.97 }}
+            transition={{ duration: 0.15 }}
+            className="fixed inset-8 bg-white rounded-lg shadow-2xl z-50 flex flex-col overflow-hidden"
+          >
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-gray-100 to-gray-200">
+              <div className="flex items-center gap-4">
+                <div>
+                  <h2 className="text-sm font-bold text-zinc-900">Inbox Rules</h2>
+                  <p className="text-xs text-zinc-600">Run on every new email, top to bottom</p>
+                </div>
+                <div className="flex rounded border border-gray-300 overflow-hidden text-xs">
+                  {(['rules', 'log'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setTab(option)}
+                      className={`px-3 py-1 ${tab === option ? 'bg-zinc-900 text-white' : 'bg-white text-zinc-700 hover:bg-zinc-50'}`}
+                    >
+                      {option === 'rules' ? 'Rules' : 'Log'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-gray-700 hover:bg-gray-300 hover:text-gray-900 transition-colors"
+                title="Close"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {error && <p className="px-4 py-2 text-xs text-red-600 border-b border-gray-100">{error}</p>}
+
+            {tab === 'log' ? (
+              <div className="flex-1 min-h-0 overflow-y-auto">
+                {logEntries.length === 0 ? (
+                  <p className="p-4 text-xs text-gray-500">No rules have fired yet.</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium">When</th>
+                        <th className="px-4 py-2 text-left font-medium">Rule</th>
+                        <th className="px-4 py-2 text-left font-medium">Email</th>
+                        <th className="px-4 py-2 text-left font-medium">Matched</th>
+                        <th className="px-4 py-2 text-left font-medium">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {logEntries.map(entry => (
+                        <tr key={entry.id} className="align-top">
+                          <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatDateTime(entry.createdAt)}</td>
+                          <td className="px-4 py-2 text-zinc-900">
+                            {entry.ruleName}
+                            {!entry.ruleId && <span className="ml-1 text-gray-400">(deleted)</span>}
+                          </td>
+                          <td className="px-4 py-2 text-zinc-700">{entry.inboxItemSubject}</td>
+                          <td className="px-4 py-2 text-gray-600">{entry.reasons.join('; ')}</td>
+                          <td className="px-4 py-2 text-gray-600">{entry.actions.join('; ') || 'No change'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ) : (
+              <div className="flex-1 min-h-0 flex">
+                {/* Rule list */}
+                <div className="w-80 flex-shrink-0 border-r border-gray-200 flex flex-col">
+                  {canEdit && (
+                    <div className="p-3 border-b border-gray-100">
+                      <button
+                        onClick={() => selectRule(null)}
+                        className="w-full px-3 py-1.5 text-xs font-medium rounded bg-zinc-900 text-white hover:bg-zinc-800"
+                      >
+                        New Rule
+                      </button>
+                    </div>
+                  )}
+                  <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+                    {rules.length === 0 && (
+                      <li className="p-4 text-xs text-gray-500">No rules yet. Every email waits in the inbox for a lead to sort it.</li>
+                    )}
+                    {rules.map((rule, index) => (
+                      <li key={rule.id} className={`flex items-start gap-2 px-3 py-2 hover:bg-zinc-50 ${rule.id === selectedId ? 'bg-zinc-50' : ''}`}>
+                        <button onClick={() => selectRule(rule)} className="flex-1 min-w-0 text-left">
+                          <span className={`block text-sm font-medium truncate ${rule.enabled ? 'text-zinc-900' : 'text-gray-400'}`}>
+                            {index + 1}. {rule.name}
+                          </span>
+                          <span className="block text-xs text-gray-500 truncate">
+                            {rule.enabled ? describeRule(rule) : 'Disabled'}
+                            {rule.stopProcessing && ' · stops'}
+                          </span>
+                        </button>
+                        {canEdit && (
+                          <div className="flex-shrink-0 flex items-center gap-1 text-gray-400">
+                            <button onClick={() => handleMove(rule, -1)} disabled={index === 0} className="hover:text-zinc-900 disabled:opacity-30" title="Run earlier">↑</button>
+                            <button onClick={() => handleMove(rule, 1)} disabled={index === rules.length - 1} className="hover:text-zinc-900 disabled:opacity-30" title="Run later">↓</button>
+                            <input
+                              type="checkbox"
+                              checked={rule.enabled}
+                              onChange={() => handleToggleEnabled(rule)}
+                              title={rule.enabled ? 'Disable' : 'Enable'}
+                            />
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {/* Rule editor and dry run */}
+                <div className="flex-1 min-w-0 overflow-y-auto p-4">
+                  {!selectedId ? (
+                    <p className="text-xs text-gray-500">Select a rule to view it{canEdit ? ', or add a new one' : ''}.</p>
+                  ) : (
+                    <div className="max-w-2xl space-y-4">
+                      <div>
+                        <label className={labelClass}>Name</label>
+                        <input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} disabled={!canEdit} className={inputClass} placeholder="Healthcare ITBs from Smith Architects" />
+                      </div>
+
+                      <fieldset className="border border-gray-200 rounded p-3 space-y-3">
+                        <legend className="px-1 text-xs font-semibold text-zinc-900">When an email matches all of (comma-separated, any entry)</legend>
+                        <div>
+                          <label className={labelClass}>Sender domains</label>
+                          <input value={draft.senderDomains} onChange={(e) => updateDraft({ senderDomains: e.target.value })} disabled={!canEdit} className={inputClass} placeholder="smitharchitects.com, buildingconnected.com" />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Subject keywords</label>
+                          <input value={draft.subjectKeywords} onChange={(e) => updateDraft({ subjectKeywords: e.target.value })} disabled={!canEdit} className={inputClass} placeholder="ITB, Invitation to Bid, Addendum" />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Owner or architect names (subject or body)</label>
+                          <input value={draft.partyNames} onChange={(e) => updateDraft({ partyNames: e.target.value })} disabled={!canEdit} className={inputClass} placeholder="County Health District, Smith Architects" />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Attachment types</label>
+                          <input value={draft.attachmentTypes} onChange={(e) => updateDraft({ attachmentTypes: e.target.value })} disabled={!canEdit} className={inputClass} placeholder="pdf, dwg, zip" />
+                        </div>
+                      </fieldset>
+
+                      <fieldset className="border border-gray-200 rounded p-3 space-y-3">
+                        <legend className="px-1 text-xs font-semibold text-zinc-900">Then</legend>
+                        <div>
+                          <label className={labelClass}>Add tags</label>
+                          <input value={draft.tags} onChange={(e) => updateDraft({ tags: e.target.value })} disabled={!canEdit} className={inputClass} placeholder="Healthcare, Public" />
+                        </div>
+                        <div>
+                          <label className={labelClass}>Assign to precon lead</label>
+                          <select value={draft.assignToUserId} onChange={(e) => updateDraft({ assignToUserId: e.target.value })} disabled={!canEdit} className={inputClass}>
+                            <option value="">No assignment</option>
+                            {leads.map(lead => (
+                              <option key={lead.id} value={lead.id}>{getUserDisplayName(lead)}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-zinc-700">
+                          <input type="checkbox" checked={draft.linkByProjectNumber} onChange={(e) => updateDraft({ linkByProjectNumber: e.target.checked })} disabled={!canEdit} />
+                          Link to the existing project whose number appears in the email
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-zinc-700">
+                          <input type="checkbox" checked={draft.archive} onChange={(e) => updateDraft({ archive: e.target.checked })} disabled={!canEdit} />
+                          Archive as noise
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-zinc-700">
+                          <input type="checkbox" checked={draft.stopProcessing} onChange={(e) => updateDraft({ stopProcessing: e.target.checked })} disabled={!canEdit} />
+                          Skip the rules below when this one fires
+                        </label>
+                      </fieldset>
+
+                      {canEdit && (
+                        <div className="flex items-center gap-2">
+                          <button onClick={handleSave} disabled={isSaving} className="px-3 py-1.5 text-xs font-medium rounded bg-zinc-900 text-white hover:bg-zinc-800 disabled:opacity-50">
+                            {isSaving ? 'Saving...' : selectedId === 'new' ? 'Add Rule' : 'Save Rule'}
+                          </button>
+                          <button onClick={handlePreview} disabled={isPreviewing} className="px-3 py-1.5 text-xs font-medium rounded border border-zinc-200 text-zinc-700 hover:bg-zinc-50 disabled:opacity-50">
+                            {isPreviewing ? 'Checking past emails...' : 'Preview on Past Emails'}
+                          </button>
+                          {selectedId !== 'new' && (
+                            <button onClick={handleDelete} className="ml-auto px-3 py-1.5 text-xs text-gray-500 hover:text-red-600">
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {preview && (
+                        <div className="border border-gray-200 rounded">
+                          <p className="px-3 py-2 text-xs text-gray-600 border-b border-gray-100">
+                            Would fire on {preview.matches.length} of the last {preview.checked} emails. Nothing was changed.
+                          </p>
+                          <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                            {preview.matches.map(match => (
+                              <li key={match.inboxItemId} className="px-3 py-2 text-xs">
+                                <span className="block text-sm text-zinc-900 truncate">{match.subject}</span>
+                                <span className="block text-gray-500">{match.sender} · {formatDateTime(match.receivedAt)}</span>
+                                <span className="block text-gray-600">{match.reasons.join('; ')} → {match.actions.join('; ') || 'No change'}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { UserRole } from '@/types/user';
+import { Permission, hasPermission } from '@/types/permissions';
 
 interface MenuItemProps {
   icon: React.ReactNode;
@@ -57,6 +58,8 @@ export default function LeftMenuPanel({ activeItem = 'projects', onItemClick, co
 
   // Check if user can manage users (Admin or Precon Lead only)
   const canManageUsers = userRole === UserRole.ADMIN || userRole === UserRole.PRECON_LEAD;
+  const isAdmin = userRole === UserRole.ADMIN;
+  const canCreateProjects = !!userRole && hasPermission(userRole, Permission.CREATE_PROJECT);
 
   const handleClick = (item: string) => {
     setCurrentActive(item);
@@ -109,6 +112,19 @@ export default function LeftMenuPanel({ activeItem = 'projects', onItemClick, co
             onClick={() => handleClick('projects')}
             collapsed={!isExpanded}
           />
+          {canCreateProjects && (
+            <MenuItem
+              icon={
+                <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
+                </svg>
+              }
+              label="Inbox"
+              isActive={currentActive === 'inbox'}
+              onClick={() => handleClick('inbox')}
+              collapsed={!isExpanded}
+            />
+          )}
           {canManageUsers && (
             <MenuItem
               icon={
@@ -122,6 +138,28 @@ export default function LeftMenuPanel({ activeItem = 'projects', onItemClick, co
               collapsed={!isExpanded}
             />
           )}
+          <MenuItem
+            icon={
+              <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 13.255A23.931 23.931 0 0112 15c-3.183 0-6.22-.62-9-1.745M16 6V4a2 2 0 00-2-2h-4a2 2 0 00-2 2v2m4 6h.01M5 20h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+            }
+            label="Subcontractors"
+            isActive={currentActive === 'subcontractors'}
+            onClick={() => handleClick('subcontractors')}
+            collapsed={!isExpanded}
+          />
+          <MenuItem
+            icon={
+              <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            }
+            label="Cost Library"
+            isActive={currentActive === 'cost-library'}
+            onClick={() => handleClick('cost-library')}
+            collapsed={!isExpanded}
+          />
           <MenuItem
             icon={
               <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -133,6 +171,19 @@ export default function LeftMenuPanel({ activeItem = 'projects', onItemClick, co
             onClick={() => handleClick('csi')}
             collapsed={!isExpanded}
           />
+          {isAdmin && (
+            <MenuItem
+              icon={
+                <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+                </svg>
+              }
+              label="Extraction Cache"
+              isActive={currentActive === 'extraction-cache'}
+              onClick={() => handleClick('extraction-cache')}
+              collapsed={!isExpanded}
+            />
+          )}
           <MenuItem
             icon={
               <svg className="w-[18px] h-[18px]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
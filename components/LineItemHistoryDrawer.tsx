@@ -0,0 +1,204 @@
+'use client';
+
+/**
+ * Line Item History Drawer
+ * Slide-over panel listing who changed a line item, when, and from where
+ */
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { FieldChange } from '@/types/chat';
+import {
+  LineItemChangeSourceLabels,
+  LineItemHistoryAction,
+  LineItemHistoryEntry,
+} from '@/types/lineItemHistory';
+
+// Display labels for tracked fields
+const FIELD_LABELS: Record<string, string> = {
+  item_number: 'Item #',
+  description: 'Description',
+  quantity: 'Quantity',
+  unit: 'Unit',
+  unit_price: 'Unit Price',
+  notes: 'Notes',
+  csiCode: 'CSI Code',
+  csiTitle: 'CSI Title',
+  approved: 'Approved',
+  bidPackageId: 'Bid Package',
+};
+
+const ACTION_LABELS: Record<LineItemHistoryAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+  reallocate: 'Reallocated',
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'approved') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+interface LineItemHistoryDrawerProps {
+  isOpen: boolean;
+  lineItemId?: string;
+  itemLabel?: string;
+  onClose: () => void;
+  otherBidPackages?: { id: string; name: string }[];
+}
+
+export default function LineItemHistoryDrawer({
+  isOpen,
+  lineItemId,
+  itemLabel,
+  onClose,
+  otherBidPackages = [],
+}: LineItemHistoryDrawerProps) {
+  const [history, setHistory] = useState<LineItemHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !lineItemId) return;
+
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/line-items/${lineItemId}/history`);
+        if (!response.ok) throw new Error('Failed to load history');
+        const data = await response.json();
+        if (!cancelled) setHistory(data.history || []);
+      } catch (err) {
+        console.error('Error loading line item history:', err);
+        if (!cancelled) setError('Failed to load history');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, lineItemId]);
+
+  const formatChange = (change: FieldChange): { oldValue: string; newValue: string } => {
+    if (change.field === 'bidPackageId') {
+      const packageName = (id: unknown) =>
+        otherBidPackages.find(pkg => pkg.id === id)?.name || 'This package';
+      return { oldValue: packageName(change.oldValue), newValue: packageName(change.newValue) };
+    }
+    return {
+      oldValue: formatValue(change.field, change.oldValue),
+      newValue: formatValue(change.field, change.newValue),
+    };
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/30 z-40"
+          />
+
+          {/* Drawer */}
+          <motion.div
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ duration: 0.2, ease: 'easeInOut' }}
+            className="fixed inset-y-0 right-0 w-full max-w-md bg-white shadow-2xl z-50 flex flex-col"
+          >
+            {/* Header */}
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-gray-100 to-gray-200">
+              <div className="min-w-0">
+                <h2 className="text-sm font-bold text-zinc-900">Change History</h2>
+                {itemLabel && (
+                  <p className="text-xs text-zinc-600 truncate">{itemLabel}</p>
+                )}
+              </div>
+              <button
+                onClick={onClose}
+                className="p-1.5 rounded-lg text-gray-700 hover:bg-gray-300 hover:text-gray-900 transition-colors"
+                title="Close"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Entries */}
+            <div className="flex-1 overflow-y-auto">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900"></div>
+                </div>
+              ) : error ? (
+                <div className="px-4 py-6 text-sm text-red-600 text-center">{error}</div>
+              ) : history.length === 0 ? (
+                <div className="px-4 py-6 text-sm text-gray-500 text-center">
+                  No changes recorded for this item yet.
+                </div>
+              ) : (
+                <ol className="divide-y divide-gray-100">
+                  {history.map(entry => (
+                    <li key={entry.id} className="px-4 py-3">
+                      <div className="flex items-center justify-between gap-2 mb-1.5">
+                        <span className="text-xs font-semibold text-zinc-900">
+                          {ACTION_LABELS[entry.action] || entry.action}
+                          <span className="font-normal text-zinc-600"> by {entry.userName || 'Unknown user'}</span>
+                        </span>
+                        <span
+                          className="text-[11px] text-gray-500 whitespace-nowrap"
+                          title={new Date(entry.createdAt).toLocaleString()}
+                        >
+                          {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                      <span className="inline-block mb-2 px-1.5 py-0.5 text-[10px] font-medium rounded bg-zinc-100 border border-zinc-200 text-zinc-600">
+                        {LineItemChangeSourceLabels[entry.source] || entry.source}
+                      </span>
+                      <ul className="space-y-1">
+                        {entry.changes.map((change, index) => {
+                          const { oldValue, newValue } = formatChange(change);
+                          return (
+                            <li key={`${entry.id}-${index}`} className="text-xs text-zinc-700">
+                              <span className="font-medium">{FIELD_LABELS[change.field] || change.field}:</span>{' '}
+                              {(entry.action === 'update' || entry.action === 'reallocate') && (
+                                <>
+                                  <span className="line-through text-gray-400">{oldValue}</span>
+                                  <span className="mx-1 text-gray-400">→</span>
+                                </>
+                              )}
+                              <span className={entry.action === 'delete' ? 'text-gray-400' : 'text-zinc-900'}>
+                                {entry.action === 'delete' ? oldValue : newValue}
+                              </span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
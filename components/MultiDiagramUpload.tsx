@@ -1,9 +1,12 @@
 'use client';
 
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { motion, AnimatePresence } from 'framer-motion';
 import { CheckCircle, XCircle, AlertCircle, FileText, Copy } from 'lucide-react';
+import ExtractionJobProgress from '@/components/ExtractionJobProgress';
+import { useExtractionJob } from '@/hooks/useExtractionJob';
+import { ExtractionJob } from '@/types/extractionJob';
 
 interface UploadedFile {
   url: string;
@@ -65,6 +68,35 @@ export default function MultiDiagramUpload({
   const [projectName, setProjectName] = useState('');
   const [duplicateHandling, setDuplicateHandling] = useState<'reuse' | 'copy'>('copy');
   const [useMockData, setUseMockData] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { job, cancel, retry } = useExtractionJob(jobId);
+  const completedJobId = useRef<string | null>(null);
+
+  // Pick up a batch extraction that was still running when the page was left
+  useEffect(() => {
+    const resumeActiveJob = async () => {
+      try {
+        const params = new URLSearchParams({ active: 'true', kind: 'batch' });
+        if (bcProjectId) params.set('bcProjectId', bcProjectId);
+
+        const response = await fetch(`/api/extraction-jobs?${params}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        const activeJob = (data.jobs as ExtractionJob[] || []).find(j => bcProjectId || !j.bcProjectId);
+        if (activeJob) setJobId(activeJob.id);
+      } catch (error) {
+        console.error('Error loading active extraction jobs:', error);
+      }
+    };
+    resumeActiveJob();
+  }, [bcProjectId]);
+
+  useEffect(() => {
+    if (job?.status === 'succeeded' && completedJobId.current !== job.id) {
+      completedJobId.current = job.id;
+      onExtractionComplete(job.result as BatchExtractionResult);
+    }
+  }, [job, onExtractionComplete]);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
@@ -151,8 +183,9 @@ export default function MultiDiagramUpload({
         throw new Error('Extraction failed');
       }
 
-      const result = await extractResponse.json();
-      onExtractionComplete(result);
+      // Extraction runs as a background job; follow it until it finishes
+      const data = await extractResponse.json();
+      setJobId(data.job.id);
     } catch (error) {
       console.error('Extraction error:', error);
       alert('Failed to extract bid data');
@@ -171,6 +204,36 @@ export default function MultiDiagramUpload({
     disabled: uploadedFiles.length > 0 || uploading,
   });
 
+  // Show extraction progress, including a job resumed after a reload
+  if (job && job.status !== 'succeeded') {
+    const isFinished = job.status === 'failed' || job.status === 'cancelled';
+
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-50">
+        <div className="w-full max-w-2xl p-8 bg-white rounded-xl shadow-lg">
+          <h3 className="text-lg font-semibold text-zinc-900 mb-6">
+            {isFinished ? 'Extraction Stopped' : 'Extracting Bid Data...'}
+          </h3>
+          <ExtractionJobProgress
+            job={job}
+            onCancel={() => cancel().catch(error => alert(error.message))}
+            onRetry={() => retry().catch(error => alert(error.message))}
+          />
+          {isFinished && (
+            <div className="mt-6 flex justify-end">
+              <button
+                onClick={() => setJobId(null)}
+                className="px-6 py-3 bg-white hover:bg-gray-50 text-zinc-900 border border-gray-200 rounded-lg transition-colors font-medium"
+              >
+                Start Over
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   // Show upload progress
   if (uploading) {
     return (
@@ -5,7 +5,7 @@
 
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, ReactNode } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
 import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Maximize2, Grid, Grid3x3 } from 'lucide-react';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
@@ -21,11 +21,21 @@ interface PDFDocument {
   fileName: string;
 }
 
+export interface PDFPageOverlayInfo {
+  pageNumber: number;
+  width: number; // Rendered size in px
+  height: number;
+  originalWidth: number; // Unscaled size in PDF points
+  originalHeight: number;
+}
+
 interface PDFViewerProps {
   documents: PDFDocument | PDFDocument[];
   className?: string;
   onDocumentLoadSuccess?: (documentIndex: number, numPages: number) => void;
   onDocumentLoadError?: (error: Error) => void;
+  renderPageOverlay?: (page: PDFPageOverlayInfo) => ReactNode; // Drawn over the current page
+  initialPageNumber?: number; // Page to open the first document at
 }
 
 export default function PDFViewer({
@@ -33,19 +43,22 @@ export default function PDFViewer({
   className = '',
   onDocumentLoadSuccess,
   onDocumentLoadError,
+  renderPageOverlay,
+  initialPageNumber = 1,
 }: PDFViewerProps) {
   const docs = Array.isArray(documents) ? documents : [documents];
   const hasMultipleDocs = docs.length > 1;
 
   const [currentDocIndex, setCurrentDocIndex] = useState(0);
   const [numPages, setNumPages] = useState<number>(0);
-  const [pageNumber, setPageNumber] = useState(1);
+  const [pageNumber, setPageNumber] = useState(initialPageNumber);
   const [scale, setScale] = useState(1.0);
   const [baseScale, setBaseScale] = useState(1.0); // Scale that makes PDF fit container height
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showThumbnails, setShowThumbnails] = useState(false);
   const [containerHeight, setContainerHeight] = useState(0);
   const [pdfPageHeight, setPdfPageHeight] = useState(0);
+  const [pdfPageWidth, setPdfPageWidth] = useState(0);
 
   const containerRef = useRef<HTMLDivElement>(null);
   const currentDoc = docs[currentDocIndex];
@@ -83,10 +96,10 @@ export default function PDFViewer({
   const onDocumentLoad = useCallback(
     ({ numPages }: { numPages: number }) => {
       setNumPages(numPages);
-      setPageNumber(1);
+      setPageNumber(currentDocIndex === 0 ? Math.min(Math.max(1, initialPageNumber), numPages) : 1);
       onDocumentLoadSuccess?.(currentDocIndex, numPages);
     },
-    [currentDocIndex, onDocumentLoadSuccess]
+    [currentDocIndex, initialPageNumber, onDocumentLoadSuccess]
   );
 
   const onDocumentError = useCallback(
@@ -108,6 +121,7 @@ export default function PDFViewer({
     setCurrentDocIndex(newIndex);
     setPageNumber(1);
     setPdfPageHeight(0); // Reset to trigger recalculation
+    setPdfPageWidth(0);
   };
 
   // Handle page load to get PDF dimensions
@@ -117,8 +131,11 @@ export default function PDFViewer({
       if (page.originalHeight && page.originalHeight !== pdfPageHeight) {
         setPdfPageHeight(page.originalHeight);
       }
+      if (page.originalWidth && page.originalWidth !== pdfPageWidth) {
+        setPdfPageWidth(page.originalWidth);
+      }
     },
-    [pdfPageHeight]
+    [pdfPageHeight, pdfPageWidth]
   );
 
   // Zoom steps relative to base scale (fit-to-height = 100%)
@@ -322,14 +339,23 @@ export default function PDFViewer({
               </div>
             }
           >
-            <Page
-              pageNumber={pageNumber}
-              scale={scale}
-              renderTextLayer={true}
-              renderAnnotationLayer={true}
-              className="shadow-md"
-              onLoadSuccess={onPageLoad}
-            />
+            <div className="relative">
+              <Page
+                pageNumber={pageNumber}
+                scale={scale}
+                renderTextLayer={true}
+                renderAnnotationLayer={true}
+                className="shadow-md"
+                onLoadSuccess={onPageLoad}
+              />
+              {renderPageOverlay && pdfPageWidth > 0 && pdfPageHeight > 0 && renderPageOverlay({
+                pageNumber,
+                width: pdfPageWidth * scale,
+                height: pdfPageHeight * scale,
+                originalWidth: pdfPageWidth,
+                originalHeight: pdfPageHeight,
+              })}
+            </div>
           </Document>
         </div>
       </div>
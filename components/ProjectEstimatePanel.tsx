@@ -0,0 +1,170 @@
+'use client';
+
+/**
+ * Project Estimate Panel
+ * Project-level rollup of priced line items per bid package and CSI division,
+ * with markups (general conditions, contingency, fee, tax). Markups are
+ * editable in edit mode and saved with the project.
+ */
+
+import { useState, useEffect } from 'react';
+import { applyMarkups, formatCurrency } from '@/lib/cost-rollup';
+import { EstimateMarkups, MARKUP_ORDER, MarkupKey, MarkupLabels, ProjectEstimate } from '@/types/estimate';
+
+interface ProjectEstimatePanelProps {
+  projectId: string;
+  isEditMode: boolean;
+  editedMarkups?: EstimateMarkups; // Unsaved markups while in edit mode
+  onMarkupChange?: (key: MarkupKey, value: number | null) => void;
+  reloadKey?: unknown; // Reload the rollup when this changes (e.g. after saving)
+}
+
+export default function ProjectEstimatePanel({
+  projectId,
+  isEditMode,
+  editedMarkups,
+  onMarkupChange,
+  reloadKey,
+}: ProjectEstimatePanelProps) {
+  const [estimate, setEstimate] = useState<ProjectEstimate | null>(null);
+  const [groupBy, setGroupBy] = useState<'package' | 'division'>('package');
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    const loadEstimate = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/estimate`);
+        if (!response.ok) throw new Error('Failed to load estimate');
+        const data = await response.json();
+        setEstimate(data.estimate);
+      } catch (error) {
+        console.error('Error loading project estimate:', error);
+      }
+    };
+
+    loadEstimate();
+  }, [projectId, reloadKey]);
+
+  if (!estimate) return null;
+
+  // Preview unsaved markups against the saved subtotal
+  const markups = isEditMode && editedMarkups ? editedMarkups : estimate.markups;
+  const { lines, total } = applyMarkups(estimate.subtotal, markups);
+
+  const breakdown = groupBy === 'package'
+    ? estimate.packages.map(pkg => ({ key: pkg.bidPackageId, label: pkg.name, ...pkg }))
+    : estimate.divisions.map(div => ({
+        key: div.division ?? 'unclassified',
+        label: div.division ? `${div.division} - ${div.title}` : div.title,
+        ...div,
+      }));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="flex items-center gap-2 text-sm font-semibold text-zinc-900"
+        >
+          <svg
+            className={`w-4 h-4 text-gray-500 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          Estimate
+        </button>
+        <div className="text-right">
+          <div className="text-base font-semibold font-mono text-zinc-900">{formatCurrency(total)}</div>
+          <div className="text-[11px] text-gray-500">
+            {estimate.pricedCount}/{estimate.itemCount} items priced
+          </div>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {/* Breakdown */}
+          <div>
+            <div className="flex items-center gap-1 mb-2">
+              {(['package', 'division'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setGroupBy(option)}
+                  className={`px-2 py-1 text-xs rounded ${
+                    groupBy === option ? 'bg-zinc-900 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  By {option === 'package' ? 'Bid Package' : 'CSI Division'}
+                </button>
+              ))}
+            </div>
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {breakdown.map(row => (
+                  <tr key={row.key}>
+                    <td className="py-1.5 text-zinc-900">{row.label}</td>
+                    <td className="py-1.5 text-right text-[11px] text-gray-500 w-24">
+                      {row.pricedCount}/{row.itemCount} priced
+                    </td>
+                    <td className="py-1.5 text-right font-mono w-32">{formatCurrency(row.subtotal)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Markups */}
+          <table className="w-full text-sm border-t border-gray-200">
+            <tbody>
+              <tr>
+                <td className="py-1.5 font-medium text-zinc-900">Direct Cost Subtotal</td>
+                <td></td>
+                <td className="py-1.5 text-right font-mono w-32">{formatCurrency(estimate.subtotal)}</td>
+              </tr>
+              {isEditMode && onMarkupChange
+                ? MARKUP_ORDER.map(key => {
+                    const line = lines.find(l => l.key === key);
+                    return (
+                      <tr key={key}>
+                        <td className="py-1 text-zinc-700">{MarkupLabels[key]}</td>
+                        <td className="py-1 text-right w-24">
+                          <input
+                            type="number"
+                            step="any"
+                            min={0}
+                            value={markups[key] || ''}
+                            onChange={e => onMarkupChange(key, e.target.value === '' ? null : parseFloat(e.target.value))}
+                            className="w-16 px-2 py-0.5 text-xs text-right border border-gray-300 rounded focus:ring-1 focus:ring-zinc-900"
+                            placeholder="0"
+                          />
+                          <span className="text-xs text-gray-500 ml-1">%</span>
+                        </td>
+                        <td className="py-1 text-right font-mono w-32">{formatCurrency(line?.amount ?? 0)}</td>
+                      </tr>
+                    );
+                  })
+                : lines.map(line => (
+                    <tr key={line.key}>
+                      <td className="py-1 text-zinc-700">{line.label}</td>
+                      <td className="py-1 text-right text-xs text-gray-500 w-24">{line.percentage}%</td>
+                      <td className="py-1 text-right font-mono w-32">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))}
+              <tr className="border-t border-gray-200">
+                <td className="py-2 font-semibold text-zinc-900">Total</td>
+                <td></td>
+                <td className="py-2 text-right font-mono font-semibold text-zinc-900 w-32">{formatCurrency(total)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {!isEditMode && lines.length === 0 && (
+            <p className="text-[11px] text-gray-500">No markups set. Use edit mode to add general conditions, contingency, fee and tax.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,9 @@ import { useState, useEffect } from 'react';
 import { X, ChevronLeft, ChevronRight } from 'lucide-react';
 import dynamic from 'next/dynamic';
 import CSIInlineSearch from './CSIInlineSearch';
+import ExtractionJobProgress from './ExtractionJobProgress';
+import { streamExtractionJob } from '@/hooks/useExtractionJob';
+import { ExtractionJob, ExtractionResult } from '@/types/extractionJob';
 
 // Dynamically import PDFViewer to avoid SSR issues with pdf.js
 const PDFViewer = dynamic(() => import('./PDFViewer'), {
@@ -23,11 +26,24 @@ const PDFViewer = dynamic(() => import('./PDFViewer'), {
 
 type Platform = 'buildingconnected' | 'planhub' | 'constructconnect';
 
+// Document URL -> extraction job ID, so a reload follows the same jobs
+// instead of extracting the documents again
+export const EXTRACTION_JOBS_STORAGE_KEY = 'projectExtractionJobs';
+
+const loadStoredExtractionJobs = (): Record<string, string> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(EXTRACTION_JOBS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
 interface UploadedDocument {
   fileName: string;
   url: string;
   fileSize: number;
   fileType: string;
+  diagramId?: string; // Drawings that arrived as inbox attachments are already diagrams
 }
 
 interface ExtractedProjectInfo {
@@ -71,16 +87,42 @@ interface BidPackageInfo {
   captainId: string | null;
 }
 
+interface ExternalBidPackage {
+  name: string;
+  csiCode?: string | null;
+  csiTitle?: string | null;
+  captainId?: string | null;
+}
+
 interface ExternalProject {
   id: string; // Generic ID - will be bcProjectId, phProjectId, or ccProjectId
   name: string;
   projectNumber?: string;
   description?: string;
   status: string;
-  location?: any;
+  location?: Partial<ExtractedProjectInfo['location']>;
   projectValue?: number;
   marketSector?: string;
-  bidPackages?: any[];
+  bidPackages?: ExternalBidPackage[];
+}
+
+// A document's extraction result, kept until the project is approved
+interface DocumentExtraction {
+  documentUrl: string;
+  diagramId?: string;
+  extractionData: ExtractionResult;
+}
+
+// What onApprove receives: the project to create and its documents' extraction results
+interface ApprovedProjectData {
+  [idField: string]: unknown; // bcProjectId, phProjectId or ccProjectId
+  name: string;
+  description: string | null;
+  status?: string;
+  uploadedDocuments: UploadedDocument[];
+  bidPackages: (BidPackageInfo & { status: string; progress: number })[];
+  platform?: Platform;
+  extractedBidPackagesData: DocumentExtraction[] | null;
 }
 
 interface ProjectReviewViewProps {
@@ -90,7 +132,7 @@ interface ProjectReviewViewProps {
   selectedExternalProject?: ExternalProject;
   initialProjectName?: string;
   useMockData?: boolean;
-  onApprove: (projectData: any) => void;
+  onApprove: (projectData: ApprovedProjectData) => void;
   onCancel: () => void;
 }
 
@@ -135,11 +177,12 @@ export default function ProjectReviewView({
     womenBusinessGoal: null
   });
   const [bidPackages, setBidPackages] = useState<BidPackageInfo[]>([]);
-  const [confidence, setConfidence] = useState<any>(null);
   const [users, setUsers] = useState<Array<{ id: string; firstName?: string; lastName?: string; userName: string }>>([]);
-  const [extractedBidPackagesData, setExtractedBidPackagesData] = useState<any>(null);
+  const [extractedBidPackagesData, setExtractedBidPackagesData] = useState<DocumentExtraction[] | null>(null);
   const [isBidPackageExtractionComplete, setIsBidPackageExtractionComplete] = useState(false);
   const [editingCSIIndex, setEditingCSIIndex] = useState<number | null>(null);
+  const [extractionJobs, setExtractionJobs] = useState<Record<string, ExtractionJob>>({});
+  const [liveExtractions, setLiveExtractions] = useState<Record<string, ExtractionResult>>({}); // Document URL -> result so far
 
   // Get API endpoint for the platform
   const getPlatformEndpoint = (plat: Platform) => {
@@ -165,6 +208,12 @@ export default function ProjectReviewView({
     }
   };
 
+  // Bid packages with line items merged so far, across every document being extracted
+  const liveBidPackages = Object.values(liveExtractions)
+    .flatMap(result => result?.bid_packages || [])
+    .map(pkg => ({ ...pkg, line_items: pkg.line_items || [] }))
+    .filter(pkg => pkg.line_items.length > 0);
+
   useEffect(() => {
     loadUsers();
     if (mode === 'manual') {
@@ -216,12 +265,14 @@ export default function ProjectReviewView({
     try {
       setIsBidPackageExtractionComplete(false);
       console.log('Pre-extracting bid packages and line items from documents...');
-      const extractionResults = [];
+      const extractionResults: DocumentExtraction[] = [];
       let extractedProjectName: string | null = null;
       let extractedProjectDescription: string | null = null;
 
-      // Extract from each document
+      // Queue an extraction job per document, reusing jobs queued before a reload
+      const jobIds = loadStoredExtractionJobs();
       for (const doc of uploadedDocuments) {
+        if (jobIds[doc.url]) continue;
         try {
           const extractResponse = await fetch('/api/extract-v2', {
             method: 'POST',
@@ -234,7 +285,30 @@ export default function ProjectReviewView({
           });
 
           if (extractResponse.ok) {
-            const extractData = await extractResponse.json();
+            const { job } = await extractResponse.json();
+            jobIds[doc.url] = job.id;
+            sessionStorage.setItem(EXTRACTION_JOBS_STORAGE_KEY, JSON.stringify(jobIds));
+          }
+        } catch (error) {
+          console.error('Failed to queue extraction for document:', doc.fileName, error);
+        }
+      }
+
+      // Wait for each document's job
+      for (const doc of uploadedDocuments) {
+        if (!jobIds[doc.url]) continue;
+        try {
+          const job = await streamExtractionJob(jobIds[doc.url], {
+            onProgress: (progress) => setExtractionJobs(prev => ({ ...prev, [doc.url]: progress })),
+            onEvent: (event) => {
+              if (event.type === 'merged') {
+                setLiveExtractions(prev => ({ ...prev, [doc.url]: event.data as ExtractionResult }));
+              }
+            }
+          });
+
+          if (job.status === 'succeeded') {
+            const extractData = job.result as ExtractionResult;
             extractionResults.push({
               documentUrl: doc.url,
               diagramId: doc.diagramId,
@@ -269,9 +343,9 @@ export default function ProjectReviewView({
 
       // Extract bid package summaries from extractedBidPackagesData for display
       const allBidPackages: BidPackageInfo[] = [];
-      extractionResults.forEach((result: any) => {
+      extractionResults.forEach(result => {
         if (result.extractionData?.bid_packages) {
-          result.extractionData.bid_packages.forEach((pkg: any) => {
+          result.extractionData.bid_packages.forEach(pkg => {
             if (pkg.line_items && pkg.line_items.length > 0) {
               allBidPackages.push({
                 name: pkg.name,
@@ -340,7 +414,7 @@ export default function ProjectReviewView({
           womenBusinessGoal: proj.womenBusinessGoal || null
         });
         if (proj.bidPackages && proj.bidPackages.length > 0) {
-          setBidPackages(proj.bidPackages.map((pkg: any) => ({
+          setBidPackages(proj.bidPackages.map((pkg: ExternalBidPackage) => ({
             name: pkg.name,
             csiCode: pkg.csiCode || null,
             csiTitle: pkg.csiTitle || null,
@@ -386,7 +460,7 @@ export default function ProjectReviewView({
     onApprove(projectData);
   };
 
-  const updateField = (field: string, value: any) => {
+  const updateField = (field: string, value: string | number | boolean | null) => {
     if (field.startsWith('location.')) {
       const locationField = field.split('.')[1];
       setProjectInfo(prev => ({ ...prev, location: { ...prev.location, [locationField]: value } }));
@@ -439,8 +513,8 @@ export default function ProjectReviewView({
 
         <div className="w-2/5 overflow-y-auto bg-gray-50">
           {extracting ? (
-            <div className="h-full flex items-center justify-center">
-              <div className="text-center">
+            <div className={`min-h-full flex justify-center py-8 ${liveBidPackages.length > 0 ? 'items-start' : 'items-center'}`}>
+              <div className="w-full text-center">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-zinc-900 mx-auto mb-4"></div>
                 <p className="text-zinc-900 text-base font-medium">
                   {mode === 'manual'
@@ -448,6 +522,46 @@ export default function ProjectReviewView({
                     : `Loading ${platform === 'buildingconnected' ? 'BuildingConnected' : platform === 'planhub' ? 'PlanHub' : 'ConstructConnect'} project data...`}
                 </p>
                 <p className="text-gray-500 text-sm mt-2">This may take a few moments</p>
+                {mode === 'manual' && Object.keys(extractionJobs).length > 0 && (
+                  <div className="mt-6 w-80 mx-auto space-y-4 text-left">
+                    {uploadedDocuments
+                      .filter(doc => extractionJobs[doc.url])
+                      .map(doc => (
+                        <ExtractionJobProgress
+                          key={doc.url}
+                          job={extractionJobs[doc.url]}
+                          label={doc.fileName}
+                          onCancel={() => fetch(`/api/extraction-jobs/${extractionJobs[doc.url].id}/cancel`, { method: 'POST' })}
+                        />
+                      ))}
+                  </div>
+                )}
+                {/* Bid packages found so far, filled in as each page is merged */}
+                {mode === 'manual' && liveBidPackages.length > 0 && (
+                  <div className="mt-6 px-5 space-y-3 text-left">
+                    <h2 className="text-sm font-semibold text-zinc-900">
+                      Found so far: {liveBidPackages.length} packages, {liveBidPackages.reduce((sum, pkg) => sum + pkg.line_items.length, 0)} line items
+                    </h2>
+                    {liveBidPackages.map((pkg, index) => (
+                      <div key={`${pkg.csi_division}-${pkg.name}-${index}`} className="border border-gray-200 rounded-lg p-3 bg-white">
+                        <p className="text-sm font-medium text-zinc-900">
+                          {pkg.name} <span className="text-xs text-gray-500 font-mono">Div {pkg.csi_division}</span>
+                        </p>
+                        <ul className="mt-2 space-y-1">
+                          {pkg.line_items.map((item, itemIndex) => (
+                            <li key={itemIndex} className="flex justify-between gap-2 text-xs text-gray-600">
+                              <span className="truncate">{item.description}</span>
+                              <span className="flex-shrink-0 font-mono text-gray-500">
+                                {[item.quantity, item.unit].filter(Boolean).join(' ')}
+                                {item.csiCode && item.csiCode !== 'N/A' && ` · ${item.csiCode}`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           ) : (
@@ -0,0 +1,189 @@
+'use client';
+
+/**
+ * Project Spec Books Panel
+ * Spec books (project manuals) uploaded for a project, with the MasterFormat
+ * sections each was split into. Sections not listed in MasterFormat are
+ * flagged for review.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission, hasPermission } from '@/types/permissions';
+import { SpecBook } from '@/types/spec';
+
+interface ProjectSpecBooksPanelProps {
+  projectId: string;
+}
+
+export default function ProjectSpecBooksPanel({ projectId }: ProjectSpecBooksPanelProps) {
+  const { user } = useAuth();
+  const canUpload = !!user && hasPermission(user.role, Permission.UPLOAD_DIAGRAMS);
+  const [specBooks, setSpecBooks] = useState<SpecBook[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [expandedBookId, setExpandedBookId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const loadSpecBooks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/specs`);
+      if (!response.ok) throw new Error('Failed to load spec books');
+      const data = await response.json();
+      setSpecBooks(data.specBooks || []);
+    } catch (err) {
+      console.error('Error loading spec books:', err);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSpecBooks();
+  }, [loadSpecBooks]);
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`/api/projects/${projectId}/specs`, { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to upload spec book');
+
+      setSpecBooks(prev => [...prev, data.specBook]);
+      setExpandedBookId(data.specBook.id);
+      setIsExpanded(true);
+      if (data.specBook.sections.length === 0) {
+        setError(`No "SECTION 00 00 00" headings found in ${data.specBook.fileName}. Scanned books without a text layer cannot be split.`);
+      }
+    } catch (err) {
+      console.error('Error uploading spec book:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload spec book');
+    } finally {
+      setIsUploading(false);
+      setFileInputKey(prev => prev + 1);
+    }
+  };
+
+  const handleDelete = async (specBook: SpecBook) => {
+    if (!confirm(`Remove ${specBook.fileName} and its ${specBook.sections.length} sections?`)) return;
+    try {
+      const response = await fetch(`/api/projects/${projectId}/specs/${specBook.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete spec book');
+      setSpecBooks(prev => prev.filter(book => book.id !== specBook.id));
+    } catch (err) {
+      console.error('Error deleting spec book:', err);
+      setError('Failed to delete spec book');
+    }
+  };
+
+  if (specBooks.length === 0 && !canUpload) return null;
+
+  const sectionCount = specBooks.reduce((sum, book) => sum + book.sections.length, 0);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="flex items-center gap-2 text-sm font-semibold text-zinc-900"
+        >
+          <svg
+            className={`w-4 h-4 text-gray-500 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          Specifications
+        </button>
+        <div className="flex items-center gap-3">
+          <span className="text-[11px] text-gray-500">
+            {specBooks.length} book{specBooks.length === 1 ? '' : 's'}, {sectionCount} section{sectionCount === 1 ? '' : 's'}
+          </span>
+          {canUpload && (
+            <label className={`px-2 py-1 text-xs font-medium rounded border border-zinc-200 text-zinc-700 hover:bg-zinc-50 ${isUploading ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}>
+              {isUploading ? 'Splitting sections...' : 'Upload Spec Book'}
+              <input
+                key={fileInputKey}
+                type="file"
+                accept=".pdf,application/pdf"
+                disabled={isUploading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleUpload(file);
+                }}
+                className="hidden"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {isExpanded && (
+        <div className="mt-4 space-y-3">
+          {specBooks.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Upload the project manual to attach its spec sections to bid packages by CSI code.
+            </p>
+          ) : (
+            specBooks.map(book => {
+              const unlisted = book.sections.filter(section => section.csiMatch !== 'exact').length;
+              return (
+                <div key={book.id} className="border border-gray-200 rounded-md">
+                  <div className="flex items-center justify-between gap-2 px-3 py-2">
+                    <button
+                      onClick={() => setExpandedBookId(prev => (prev === book.id ? null : book.id))}
+                      className="min-w-0 text-left"
+                    >
+                      <span className="block text-sm text-zinc-900 truncate">{book.fileName}</span>
+                      <span className="block text-[11px] text-gray-500">
+                        {book.sections.length} sections{book.pageCount ? `, ${book.pageCount} pages` : ''}
+                        {unlisted > 0 && <span className="text-amber-700"> · {unlisted} not in MasterFormat</span>}
+                      </span>
+                    </button>
+                    {canUpload && (
+                      <button
+                        onClick={() => handleDelete(book)}
+                        className="flex-shrink-0 text-xs text-gray-500 hover:text-red-600"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  {expandedBookId === book.id && book.sections.length > 0 && (
+                    <table className="w-full text-xs border-t border-gray-100">
+                      <tbody className="divide-y divide-gray-100">
+                        {book.sections.map(section => (
+                          <tr key={section.id}>
+                            <td className="px-3 py-1 font-mono text-zinc-900 w-24">{section.sectionNumber}</td>
+                            <td className="py-1 text-zinc-700">
+                              {section.title}
+                              {section.csiMatch === 'parent' && (
+                                <span className="ml-2 text-amber-700" title={`Filed under ${section.csiCode} ${section.csiTitle}`}>
+                                  under {section.csiCode}
+                                </span>
+                              )}
+                              {section.csiMatch === 'none' && <span className="ml-2 text-red-600">not in MasterFormat</span>}
+                            </td>
+                            <td className="px-3 py-1 text-right text-gray-500 whitespace-nowrap">
+                              {section.startPage === section.endPage ? `p. ${section.startPage}` : `pp. ${section.startPage}-${section.endPage}`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,16 +22,18 @@ const nameCache: Record<string, string> = {};
 // Helper to get status badge color
 const getStatusColor = (status: string) => {
   switch (status) {
+    case 'assigned':
+      return 'bg-sky-50 text-sky-700 border border-sky-200';
+    case 'in progress':
+      return 'bg-amber-50 text-amber-700 border border-amber-200';
+    case 'in review':
+      return 'bg-purple-50 text-purple-700 border border-purple-200';
     case 'bidding':
-      return 'bg-zinc-50 text-zinc-800 border border-zinc-200';
-    case 'active':
+      return 'bg-indigo-50 text-indigo-700 border border-indigo-200';
+    case 'bidding leveling':
+      return 'bg-blue-50 text-blue-700 border border-blue-200';
+    case 'completed':
       return 'bg-emerald-50 text-emerald-700 border border-emerald-200';
-    case 'awarded':
-      return 'bg-zinc-50 text-zinc-800 border border-zinc-200';
-    case 'draft':
-      return 'bg-gray-50 text-gray-600 border border-gray-200';
-    case 'pending-review':
-      return 'bg-amber-50 text-amber-700 border border-amber-200';
     default:
       return 'bg-gray-50 text-gray-600 border border-gray-200';
   }
@@ -51,10 +53,14 @@ export default function RouteBreadcrumbs() {
       // Handle different route patterns
       if (pathname === '/') {
         breadcrumbs.push({ label: 'Projects', isCurrentPage: true });
+      } else if (pathname === '/inbox') {
+        breadcrumbs.push({ label: 'Inbox', isCurrentPage: true });
       } else if (pathname === '/csi') {
         breadcrumbs.push({ label: 'CSI Codes', isCurrentPage: true });
       } else if (pathname === '/admin/users') {
         breadcrumbs.push({ label: 'Users', isCurrentPage: true });
+      } else if (pathname === '/admin/extraction-cache') {
+        breadcrumbs.push({ label: 'Extraction Cache', isCurrentPage: true });
       } else if (pathname === '/projects/new') {
         breadcrumbs.push({ label: 'Projects', href: '/' });
         breadcrumbs.push({ label: 'Create New Project', isCurrentPage: true });
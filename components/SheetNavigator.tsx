@@ -0,0 +1,114 @@
+'use client';
+
+/**
+ * Sheet Navigator Component
+ * Jump to any sheet of the project's drawing sets, grouped by discipline,
+ * with the bid package's own sheets listed first
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { DiagramSheet, SheetDisciplines } from '@/types/sheet';
+
+interface SheetNavigatorProps {
+  projectId: string;
+  currentDiagramId: string | null;
+  currentSheetId: string | null;
+  pinnedSheetIds: string[];
+  refreshKey?: number; // Change to reload the sheets, e.g. after a revision upload
+  onSelectSheet: (sheet: DiagramSheet) => void;
+  onTogglePin?: (sheetId: string) => void; // Omit when the package is read-only
+}
+
+const getSheetLabel = (sheet: DiagramSheet) =>
+  [sheet.sheetNumber ?? `Page ${sheet.pageNumber}`, sheet.title].filter(Boolean).join(' - ');
+
+export default function SheetNavigator({
+  projectId,
+  currentDiagramId,
+  currentSheetId,
+  pinnedSheetIds,
+  refreshKey = 0,
+  onSelectSheet,
+  onTogglePin,
+}: SheetNavigatorProps) {
+  const [sheets, setSheets] = useState<DiagramSheet[]>([]);
+
+  const loadSheets = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/sheets`);
+      if (!response.ok) throw new Error('Failed to load sheets');
+      const data = await response.json();
+      setSheets(data.sheets || []);
+    } catch (error) {
+      console.error('Error loading project sheets:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadSheets();
+  }, [loadSheets, refreshKey]);
+
+  // Nothing to navigate for single-sheet projects
+  if (sheets.length < 2) return null;
+
+  // The selected sheet, or the first sheet of the diagram on screen
+  const selectedSheet = sheets.find(sheet => sheet.id === currentSheetId)
+    ?? sheets.find(sheet => sheet.diagramId === currentDiagramId && sheet.pageNumber === 1);
+
+  const pinnedSheets = sheets.filter(sheet => pinnedSheetIds.includes(sheet.id));
+  const otherSheets = sheets.filter(sheet => !pinnedSheetIds.includes(sheet.id));
+  const disciplines = Array.from(new Set(otherSheets.map(sheet => sheet.discipline)))
+    .sort((a, b) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)));
+
+  const isPinned = !!selectedSheet && pinnedSheetIds.includes(selectedSheet.id);
+
+  return (
+    <div className="flex items-center gap-1 min-w-0">
+      <select
+        value={selectedSheet?.id ?? ''}
+        onChange={(e) => {
+          const sheet = sheets.find(s => s.id === e.target.value);
+          if (sheet) onSelectSheet(sheet);
+        }}
+        className="min-w-0 max-w-56 px-1.5 py-0.5 text-xs border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400"
+        title="Go to sheet"
+      >
+        {!selectedSheet && <option value="">Go to sheet...</option>}
+        {pinnedSheets.length > 0 && (
+          <optgroup label="This package">
+            {pinnedSheets.map(sheet => (
+              <option key={`pinned-${sheet.id}`} value={sheet.id}>{getSheetLabel(sheet)}</option>
+            ))}
+          </optgroup>
+        )}
+        {disciplines.map(discipline => (
+          <optgroup
+            key={discipline ?? 'none'}
+            label={discipline ? SheetDisciplines[discipline] ?? discipline : 'Unclassified'}
+          >
+            {otherSheets
+              .filter(sheet => sheet.discipline === discipline)
+              .map(sheet => (
+                <option key={sheet.id} value={sheet.id}>
+                  {getSheetLabel(sheet)}{sheet.sheetNumber ? '' : ` (${sheet.fileName})`}
+                </option>
+              ))}
+          </optgroup>
+        ))}
+      </select>
+      {onTogglePin && selectedSheet && (
+        <button
+          onClick={() => onTogglePin(selectedSheet.id)}
+          className={`flex-shrink-0 px-1.5 py-0.5 text-[10px] font-medium rounded border ${
+            isPinned
+              ? 'text-zinc-900 bg-zinc-100 border-zinc-300'
+              : 'text-gray-600 border-gray-200 hover:text-zinc-900 hover:border-zinc-300'
+          }`}
+          title={isPinned ? 'Remove this sheet from the package' : 'Add this sheet to the package'}
+        >
+          {isPinned ? 'In package' : 'Add to package'}
+        </button>
+      )}
+    </div>
+  );
+}
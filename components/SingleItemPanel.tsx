@@ -4,6 +4,7 @@ import { useState, useRef, useEffect, useCallback, useImperativeHandle, forwardR
 import { motion, AnimatePresence } from 'framer-motion';
 import { LineItem } from './BidFormTable';
 import CSIInlineSearch from './CSIInlineSearch';
+import LineItemHistoryDrawer from './LineItemHistoryDrawer';
 
 // Field names for navigation (in order)
 const EDITABLE_FIELDS = ['csiCode', 'item_number', 'description', 'notes'] as const;
@@ -104,6 +105,7 @@ const SingleItemPanel = forwardRef<SingleItemPanelRef, SingleItemPanelProps>(fun
   const [isFadingOut, setIsFadingOut] = useState(false);
   const [reallocateSearch, setReallocateSearch] = useState('');
   const [reallocateHighlightIndex, setReallocateHighlightIndex] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
   const reallocateDropdownRef = useRef<HTMLDivElement>(null);
 
   // Refs for each editable field
@@ -417,6 +419,19 @@ const SingleItemPanel = forwardRef<SingleItemPanelRef, SingleItemPanelProps>(fun
             </div>
           )}
 
+          {/* History Button */}
+          {item.id && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="px-2 py-1 text-xs font-medium rounded-lg transition-colors flex items-center bg-gray-100 text-gray-600 border border-gray-300 hover:bg-gray-200"
+              title="View change history"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+          )}
+
           {/* Delete Button */}
           {!readOnly && onDelete && (
             <button
@@ -587,6 +602,14 @@ const SingleItemPanel = forwardRef<SingleItemPanelRef, SingleItemPanelProps>(fun
         </motion.div>
       </AnimatePresence>
 
+      {/* Change History Drawer */}
+      <LineItemHistoryDrawer
+        isOpen={showHistory}
+        lineItemId={item.id}
+        itemLabel={`${item.item_number ? `${item.item_number}: ` : ''}${item.description || ''}`}
+        onClose={() => setShowHistory(false)}
+        otherBidPackages={otherBidPackages}
+      />
     </div>
   );
 });
@@ -0,0 +1,305 @@
+'use client';
+
+/**
+ * Subcontractor Bid Form
+ * Modal for entering or editing one subcontractor's bid against the package line items
+ */
+
+import { useState } from 'react';
+import { LineItem } from './BidFormTable';
+import {
+  BidAlternate,
+  SubcontractorBid,
+  SubcontractorBidInput,
+  SubcontractorBidItem,
+} from '@/types/bidLeveling';
+import { BidInvitation } from '@/types/bidInvitation';
+
+interface SubcontractorBidFormProps {
+  lineItems: LineItem[];
+  bid?: SubcontractorBid | null; // Existing bid when editing
+  invitations?: BidInvitation[]; // The package's invitations, to record which one the bid answers
+  isSaving?: boolean;
+  onSave: (input: SubcontractorBidInput) => void;
+  onCancel: () => void;
+}
+
+const parseAmount = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value.replace(/[$,]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+const amountToString = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '' : String(value);
+
+export default function SubcontractorBidForm({
+  lineItems,
+  bid,
+  invitations = [],
+  isSaving = false,
+  onSave,
+  onCancel,
+}: SubcontractorBidFormProps) {
+  const [invitationId, setInvitationId] = useState(bid?.invitationId || '');
+  const [bidderName, setBidderName] = useState(bid?.bidderName || '');
+  const [contactName, setContactName] = useState(bid?.contactName || '');
+  const [contactEmail, setContactEmail] = useState(bid?.contactEmail || '');
+  const [baseBidAmount, setBaseBidAmount] = useState(amountToString(bid?.baseBidAmount));
+  const [exclusions, setExclusions] = useState(bid?.exclusions || '');
+  const [notes, setNotes] = useState(bid?.notes || '');
+  const [alternates, setAlternates] = useState<{ description: string; amount: string }[]>(
+    (bid?.alternates || []).map(alt => ({ description: alt.description, amount: amountToString(alt.amount) }))
+  );
+
+  // Keyed by line item id
+  const [prices, setPrices] = useState<Record<string, { unitPrice: string; totalPrice: string; included: boolean }>>(() => {
+    const initial: Record<string, { unitPrice: string; totalPrice: string; included: boolean }> = {};
+    for (const item of lineItems) {
+      if (!item.id) continue;
+      const existing = bid?.items.find(i => i.lineItemId === item.id);
+      initial[item.id] = {
+        unitPrice: amountToString(existing?.unitPrice),
+        totalPrice: amountToString(existing?.totalPrice),
+        included: existing?.included ?? true,
+      };
+    }
+    return initial;
+  });
+
+  const selectInvitation = (id: string) => {
+    setInvitationId(id);
+    const invitation = invitations.find(candidate => candidate.id === id);
+    if (!invitation) return;
+    setBidderName(invitation.companyName);
+    setContactName(invitation.contactName || '');
+    setContactEmail(invitation.contactEmail || '');
+  };
+
+  const updatePrice = (lineItemId: string, field: 'unitPrice' | 'totalPrice' | 'included', value: string | boolean) => {
+    setPrices(prev => ({ ...prev, [lineItemId]: { ...prev[lineItemId], [field]: value } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bidderName.trim()) return;
+
+    // Only send items that were priced or explicitly excluded
+    const items: SubcontractorBidItem[] = Object.entries(prices)
+      .map(([lineItemId, price]) => ({
+        lineItemId,
+        unitPrice: parseAmount(price.unitPrice),
+        totalPrice: parseAmount(price.totalPrice),
+        included: price.included,
+      }))
+      .filter(item => !item.included || item.unitPrice !== null || item.totalPrice !== null);
+
+    const parsedAlternates: BidAlternate[] = alternates
+      .filter(alt => alt.description.trim())
+      .map(alt => ({ description: alt.description.trim(), amount: parseAmount(alt.amount) }));
+
+    onSave({
+      bidderName: bidderName.trim(),
+      invitationId: invitationId || null,
+      contactName: contactName || null,
+      contactEmail: contactEmail || null,
+      baseBidAmount: parseAmount(baseBidAmount),
+      exclusions: exclusions || null,
+      notes: notes || null,
+      alternates: parsedAlternates,
+      items,
+    });
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-zinc-300 rounded focus:outline-none focus:ring-1 focus:ring-zinc-900';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col"
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-zinc-900">
+            {bid ? `Edit Bid - ${bid.bidderName}` : 'Add Subcontractor Bid'}
+          </h2>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* Bidder */}
+          <div className="grid grid-cols-2 gap-4">
+            {invitations.length > 0 && (
+              <label className="block col-span-2">
+                <span className="text-xs font-medium text-zinc-700">Invitation</span>
+                <select value={invitationId} onChange={e => selectInvitation(e.target.value)} className={inputClass}>
+                  <option value="">Not invited</option>
+                  {invitations.map(invitation => (
+                    <option key={invitation.id} value={invitation.id}>
+                      {invitation.companyName}
+                      {invitation.contactName ? ` (${invitation.contactName})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Subcontractor *</span>
+              <input value={bidderName} onChange={e => setBidderName(e.target.value)} className={inputClass} required />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Base Bid Amount</span>
+              <input value={baseBidAmount} onChange={e => setBaseBidAmount(e.target.value)} className={inputClass} inputMode="decimal" />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Contact Name</span>
+              <input value={contactName} onChange={e => setContactName(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Contact Email</span>
+              <input type="email" value={contactEmail} onChange={e => setContactEmail(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+
+          {/* Item prices */}
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-900 mb-2">Line Item Pricing</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500 border-b border-gray-200">
+                  <th className="py-1.5 pr-2">Item</th>
+                  <th className="py-1.5 pr-2 w-20">Qty</th>
+                  <th className="py-1.5 pr-2 w-28">Unit Price</th>
+                  <th className="py-1.5 pr-2 w-32">Total</th>
+                  <th className="py-1.5 w-20 text-center">Included</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lineItems.filter(item => item.id).map(item => {
+                  const price = prices[item.id as string];
+                  return (
+                    <tr key={item.id} className="border-b border-gray-100">
+                      <td className="py-1.5 pr-2">
+                        <span className="text-zinc-500 mr-1">{item.item_number}</span>
+                        {item.description}
+                      </td>
+                      <td className="py-1.5 pr-2 text-zinc-600">
+                        {item.quantity ?? '—'} {item.unit}
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <input
+                          value={price.unitPrice}
+                          onChange={e => updatePrice(item.id as string, 'unitPrice', e.target.value)}
+                          disabled={!price.included}
+                          className={inputClass}
+                          inputMode="decimal"
+                        />
+                      </td>
+                      <td className="py-1.5 pr-2">
+                        <input
+                          value={price.totalPrice}
+                          onChange={e => updatePrice(item.id as string, 'totalPrice', e.target.value)}
+                          disabled={!price.included}
+                          placeholder={
+                            parseAmount(price.unitPrice) !== null && typeof item.quantity === 'number'
+                              ? String((parseAmount(price.unitPrice) as number) * item.quantity)
+                              : ''
+                          }
+                          className={inputClass}
+                          inputMode="decimal"
+                        />
+                      </td>
+                      <td className="py-1.5 text-center">
+                        <input
+                          type="checkbox"
+                          checked={price.included}
+                          onChange={e => updatePrice(item.id as string, 'included', e.target.checked)}
+                          className="h-4 w-4"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Alternates */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-zinc-900">Alternates</h3>
+              <button
+                type="button"
+                onClick={() => setAlternates(prev => [...prev, { description: '', amount: '' }])}
+                className="text-xs font-medium text-zinc-700 hover:text-zinc-900"
+              >
+                + Add alternate
+              </button>
+            </div>
+            {alternates.length === 0 ? (
+              <p className="text-xs text-gray-500">No alternates</p>
+            ) : (
+              <div className="space-y-2">
+                {alternates.map((alt, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      value={alt.description}
+                      onChange={e => setAlternates(prev => prev.map((a, i) => i === index ? { ...a, description: e.target.value } : a))}
+                      placeholder="Description"
+                      className={inputClass}
+                    />
+                    <input
+                      value={alt.amount}
+                      onChange={e => setAlternates(prev => prev.map((a, i) => i === index ? { ...a, amount: e.target.value } : a))}
+                      placeholder="Add / deduct"
+                      className={`${inputClass} w-36`}
+                      inputMode="decimal"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setAlternates(prev => prev.filter((_, i) => i !== index))}
+                      className="p-1.5 text-gray-500 hover:text-red-600"
+                      title="Remove alternate"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Exclusions & notes */}
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Exclusions / Qualifications</span>
+              <textarea value={exclusions} onChange={e => setExclusions(e.target.value)} rows={3} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Notes</span>
+              <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} className={inputClass} />
+            </label>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !bidderName.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-zinc-900 rounded-lg hover:bg-zinc-800 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Bid'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
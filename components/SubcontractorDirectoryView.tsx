@@ -0,0 +1,292 @@
+'use client';
+
+/**
+ * Subcontractor Directory View
+ * Searchable list of subcontractor companies with their trade / CSI coverage,
+ * prequalification and contacts
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import SubcontractorForm from './SubcontractorForm';
+import { useAuth } from '@/hooks/useAuth';
+import { Permission, hasPermission } from '@/types/permissions';
+import {
+  PrequalStatus,
+  PrequalStatusLabels,
+  Subcontractor,
+  SubcontractorInput,
+  SubcontractorOptions,
+} from '@/types/subcontractor';
+
+const PREQUAL_COLORS: Record<PrequalStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  approved: 'bg-emerald-100 text-emerald-800',
+  conditional: 'bg-amber-100 text-amber-800',
+  rejected: 'bg-red-100 text-red-700',
+  expired: 'bg-orange-100 text-orange-800',
+};
+
+const formatCurrency = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return '—';
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+};
+
+export default function SubcontractorDirectoryView() {
+  const { user } = useAuth();
+  const canManage = !!user && hasPermission(user.role, Permission.MANAGE_SUBCONTRACTORS);
+
+  const [subcontractors, setSubcontractors] = useState<Subcontractor[]>([]);
+  const [options, setOptions] = useState<SubcontractorOptions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [tradeFilter, setTradeFilter] = useState('');
+  const [divisionFilter, setDivisionFilter] = useState('');
+  const [prequalFilter, setPrequalFilter] = useState('');
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [editing, setEditing] = useState<Subcontractor | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const loadSubcontractors = useCallback(async () => {
+    try {
+      setError(null);
+      const params = new URLSearchParams();
+      if (search.trim()) params.set('search', search.trim());
+      if (tradeFilter) params.set('trade', tradeFilter);
+      if (divisionFilter) params.set('division', divisionFilter);
+      if (prequalFilter) params.set('prequalStatus', prequalFilter);
+      if (includeInactive) params.set('includeInactive', 'true');
+
+      const response = await fetch(`/api/subcontractors?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to load subcontractors');
+      const data = await response.json();
+      setSubcontractors(data.subcontractors || []);
+    } catch (err) {
+      console.error('Error loading subcontractors:', err);
+      setError('Failed to load subcontractors');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, tradeFilter, divisionFilter, prequalFilter, includeInactive]);
+
+  useEffect(() => {
+    // Debounce so typing in the search box doesn't fire a request per key
+    const timer = setTimeout(loadSubcontractors, 250);
+    return () => clearTimeout(timer);
+  }, [loadSubcontractors]);
+
+  useEffect(() => {
+    fetch('/api/subcontractors/options')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setOptions(data))
+      .catch(err => console.error('Error loading subcontractor options:', err));
+  }, []);
+
+  const saveSubcontractor = async (id: string | null, input: SubcontractorInput) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(id ? `/api/subcontractors/${id}` : '/api/subcontractors', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save subcontractor');
+      }
+      setShowForm(false);
+      setEditing(null);
+      await loadSubcontractors();
+    } catch (err) {
+      console.error('Error saving subcontractor:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save subcontractor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (subcontractor: Subcontractor) => {
+    if (!confirm(`Delete ${subcontractor.name} from the directory?`)) return;
+    try {
+      const response = await fetch(`/api/subcontractors/${subcontractor.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete subcontractor');
+      await loadSubcontractors();
+    } catch (err) {
+      console.error('Error deleting subcontractor:', err);
+      alert('Failed to delete subcontractor');
+    }
+  };
+
+  const selectClass = 'px-2 py-1.5 text-sm border border-zinc-300 rounded bg-white focus:outline-none focus:ring-1 focus:ring-zinc-900';
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-6 py-3 flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-base font-semibold text-zinc-900">Subcontractors</h1>
+            <p className="text-xs text-gray-500">
+              {subcontractors.length} subcontractor{subcontractors.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => {
+                setEditing(null);
+                setShowForm(true);
+              }}
+              disabled={!options}
+              className="px-4 py-1.5 bg-zinc-900 hover:bg-zinc-800 text-white text-sm font-medium rounded-lg shadow-sm transition-colors disabled:opacity-50"
+            >
+              + Add Subcontractor
+            </button>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search name, contact, notes..."
+            className={`${selectClass} w-64`}
+          />
+          <select value={tradeFilter} onChange={e => setTradeFilter(e.target.value)} className={selectClass}>
+            <option value="">All trades</option>
+            {options?.trades.map(trade => (
+              <option key={trade.name} value={trade.name}>{trade.name}</option>
+            ))}
+          </select>
+          <select value={divisionFilter} onChange={e => setDivisionFilter(e.target.value)} className={selectClass}>
+            <option value="">All divisions</option>
+            {options?.divisions.map(division => (
+              <option key={division.code} value={division.code}>{division.code} - {division.title}</option>
+            ))}
+          </select>
+          <select value={prequalFilter} onChange={e => setPrequalFilter(e.target.value)} className={selectClass}>
+            <option value="">Any prequalification</option>
+            {(Object.keys(PrequalStatusLabels) as PrequalStatus[]).map(status => (
+              <option key={status} value={status}>{PrequalStatusLabels[status]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 text-sm text-zinc-700">
+            <input type="checkbox" checked={includeInactive} onChange={e => setIncludeInactive(e.target.checked)} className="h-4 w-4" />
+            Show inactive
+          </label>
+        </div>
+      </div>
+
+      {error && <div className="px-6 py-3 text-sm text-red-600">{error}</div>}
+
+      {/* List */}
+      <div className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-zinc-900"></div>
+          </div>
+        ) : subcontractors.length === 0 ? (
+          <div className="text-center py-16 text-sm text-gray-500">No subcontractors found.</div>
+        ) : (
+          <table className="min-w-full bg-white border border-gray-200 rounded-lg text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-semibold text-zinc-700">
+                <th className="px-3 py-2 border-b border-gray-200">Company</th>
+                <th className="px-3 py-2 border-b border-gray-200">Primary Contact</th>
+                <th className="px-3 py-2 border-b border-gray-200">Trades / Divisions</th>
+                <th className="px-3 py-2 border-b border-gray-200">Regions</th>
+                <th className="px-3 py-2 border-b border-gray-200 text-right">Insurance</th>
+                <th className="px-3 py-2 border-b border-gray-200 text-right">Bonding</th>
+                <th className="px-3 py-2 border-b border-gray-200">Prequal</th>
+                {canManage && <th className="px-3 py-2 border-b border-gray-200"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {subcontractors.map(sub => {
+                const primary = sub.contacts.find(contact => contact.isPrimary) || sub.contacts[0];
+                return (
+                  <tr key={sub.id} className={`border-b border-gray-100 align-top ${sub.isActive ? '' : 'opacity-60'}`}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-zinc-900">{sub.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {[sub.phone, sub.email].filter(Boolean).join(' · ') || '—'}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-zinc-700">
+                      {primary ? (
+                        <>
+                          <div>{primary.name}{primary.title ? `, ${primary.title}` : ''}</div>
+                          <div className="text-gray-500">{primary.email || primary.phone || ''}</div>
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {sub.trades.map(trade => (
+                          <span key={trade} className="px-1.5 py-0.5 text-[11px] rounded bg-zinc-100 text-zinc-800">{trade}</span>
+                        ))}
+                        {sub.csiDivisions.map(division => (
+                          <span key={division} className="px-1.5 py-0.5 text-[11px] rounded bg-sky-50 text-sky-800">Div {division}</span>
+                        ))}
+                        {sub.trades.length === 0 && sub.csiDivisions.length === 0 && <span className="text-xs text-gray-400">—</span>}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-zinc-700">{sub.regions.join(', ') || '—'}</td>
+                    <td className="px-3 py-2 text-right text-xs">{formatCurrency(sub.insuranceLimit)}</td>
+                    <td className="px-3 py-2 text-right text-xs">{formatCurrency(sub.bondingLimit)}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 text-[11px] font-medium rounded-full ${PREQUAL_COLORS[sub.prequalStatus]}`}>
+                        {PrequalStatusLabels[sub.prequalStatus]}
+                      </span>
+                      {sub.prequalExpiresAt && (
+                        <div className="text-[11px] text-gray-500 mt-1">
+                          Expires {new Date(sub.prequalExpiresAt).toLocaleDateString()}
+                        </div>
+                      )}
+                    </td>
+                    {canManage && (
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => {
+                            setEditing(sub);
+                            setShowForm(true);
+                          }}
+                          disabled={!options}
+                          className="text-xs text-zinc-700 hover:underline mr-3"
+                        >
+                          Edit
+                        </button>
+                        <button onClick={() => handleDelete(sub)} className="text-xs text-red-600 hover:underline">
+                          Delete
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showForm && options && (
+        <SubcontractorForm
+          options={options}
+          subcontractor={editing}
+          isSaving={isSaving}
+          onSave={input => saveSubcontractor(editing?.id ?? null, input)}
+          onCancel={() => {
+            setShowForm(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+/**
+ * Subcontractor Form
+ * Modal for adding or editing a subcontractor directory entry with its contacts
+ */
+
+import { useState } from 'react';
+import {
+  PrequalStatus,
+  PrequalStatusLabels,
+  Subcontractor,
+  SubcontractorContact,
+  SubcontractorInput,
+  SubcontractorOptions,
+} from '@/types/subcontractor';
+
+interface SubcontractorFormProps {
+  options: SubcontractorOptions;
+  subcontractor?: Subcontractor | null; // Existing entry when editing
+  isSaving?: boolean;
+  onSave: (input: SubcontractorInput) => void;
+  onCancel: () => void;
+}
+
+const parseAmount = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value.replace(/[$,]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+const amountToString = (value: number | null | undefined): string =>
+  value === null || value === undefined ? '' : String(value);
+
+const toDateInput = (value: Date | string | null | undefined): string =>
+  value ? new Date(value).toISOString().slice(0, 10) : '';
+
+const toggle = (list: string[], value: string): string[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+export default function SubcontractorForm({
+  options,
+  subcontractor,
+  isSaving = false,
+  onSave,
+  onCancel,
+}: SubcontractorFormProps) {
+  const [name, setName] = useState(subcontractor?.name || '');
+  const [website, setWebsite] = useState(subcontractor?.website || '');
+  const [phone, setPhone] = useState(subcontractor?.phone || '');
+  const [email, setEmail] = useState(subcontractor?.email || '');
+  const [address, setAddress] = useState(subcontractor?.address || '');
+  const [trades, setTrades] = useState<string[]>(subcontractor?.trades || []);
+  const [csiDivisions, setCsiDivisions] = useState<string[]>(subcontractor?.csiDivisions || []);
+  const [regions, setRegions] = useState((subcontractor?.regions || []).join(', '));
+  const [insuranceLimit, setInsuranceLimit] = useState(amountToString(subcontractor?.insuranceLimit));
+  const [bondingLimit, setBondingLimit] = useState(amountToString(subcontractor?.bondingLimit));
+  const [prequalStatus, setPrequalStatus] = useState<PrequalStatus>(subcontractor?.prequalStatus || 'pending');
+  const [prequalExpiresAt, setPrequalExpiresAt] = useState(toDateInput(subcontractor?.prequalExpiresAt));
+  const [notes, setNotes] = useState(subcontractor?.notes || '');
+  const [isActive, setIsActive] = useState(subcontractor?.isActive ?? true);
+  const [contacts, setContacts] = useState<SubcontractorContact[]>(subcontractor?.contacts || []);
+
+  const updateContact = (index: number, changes: Partial<SubcontractorContact>) => {
+    setContacts(prev => prev.map((contact, i) => {
+      if (i === index) return { ...contact, ...changes };
+      // Only one primary contact
+      return changes.isPrimary ? { ...contact, isPrimary: false } : contact;
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    onSave({
+      name: name.trim(),
+      website: website || null,
+      phone: phone || null,
+      email: email || null,
+      address: address || null,
+      trades,
+      csiDivisions,
+      regions: regions.split(',').map(r => r.trim()).filter(Boolean),
+      insuranceLimit: parseAmount(insuranceLimit),
+      bondingLimit: parseAmount(bondingLimit),
+      prequalStatus,
+      prequalExpiresAt: prequalExpiresAt || null,
+      notes: notes || null,
+      isActive,
+      contacts: contacts.filter(contact => contact.name.trim()),
+    });
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-zinc-300 rounded focus:outline-none focus:ring-1 focus:ring-zinc-900';
+  const chipClass = (selected: boolean) =>
+    `px-2 py-1 text-xs rounded border transition-colors ${
+      selected
+        ? 'bg-zinc-900 text-white border-zinc-900'
+        : 'bg-white text-zinc-700 border-zinc-300 hover:border-zinc-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col"
+      >
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-zinc-900">
+            {subcontractor ? `Edit ${subcontractor.name}` : 'Add Subcontractor'}
+          </h2>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          {/* Company */}
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Company Name *</span>
+              <input value={name} onChange={e => setName(e.target.value)} className={inputClass} required />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Website</span>
+              <input value={website} onChange={e => setWebsite(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Phone</span>
+              <input value={phone} onChange={e => setPhone(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Email</span>
+              <input type="email" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block col-span-2">
+              <span className="text-xs font-medium text-zinc-700">Address</span>
+              <input value={address} onChange={e => setAddress(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+
+          {/* Coverage */}
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-900 mb-2">Trades</h3>
+            <div className="flex flex-wrap gap-1.5">
+              {options.trades.map(trade => (
+                <button
+                  key={trade.name}
+                  type="button"
+                  onClick={() => setTrades(prev => toggle(prev, trade.name))}
+                  className={chipClass(trades.includes(trade.name))}
+                  title={`CSI Divisions ${trade.csiDivisions.join(', ')}`}
+                >
+                  {trade.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-900 mb-2">CSI Divisions</h3>
+            <div className="flex flex-wrap gap-1.5">
+              {options.divisions.map(division => (
+                <button
+                  key={division.code}
+                  type="button"
+                  onClick={() => setCsiDivisions(prev => toggle(prev, division.code))}
+                  className={chipClass(csiDivisions.includes(division.code))}
+                  title={division.title}
+                >
+                  {division.code}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Regions (comma separated)</span>
+              <input value={regions} onChange={e => setRegions(e.target.value)} className={inputClass} />
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-xs font-medium text-zinc-700">Insurance Limit</span>
+                <input value={insuranceLimit} onChange={e => setInsuranceLimit(e.target.value)} className={inputClass} inputMode="decimal" />
+              </label>
+              <label className="block">
+                <span className="text-xs font-medium text-zinc-700">Bonding Limit</span>
+                <input value={bondingLimit} onChange={e => setBondingLimit(e.target.value)} className={inputClass} inputMode="decimal" />
+              </label>
+            </div>
+          </div>
+
+          {/* Prequalification */}
+          <div className="grid grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Prequalification</span>
+              <select
+                value={prequalStatus}
+                onChange={e => setPrequalStatus(e.target.value as PrequalStatus)}
+                className={inputClass}
+              >
+                {(Object.keys(PrequalStatusLabels) as PrequalStatus[]).map(status => (
+                  <option key={status} value={status}>{PrequalStatusLabels[status]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-zinc-700">Prequal Expires</span>
+              <input type="date" value={prequalExpiresAt} onChange={e => setPrequalExpiresAt(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-2 mt-5">
+              <input type="checkbox" checked={isActive} onChange={e => setIsActive(e.target.checked)} className="h-4 w-4" />
+              <span className="text-sm text-zinc-700">Active</span>
+            </label>
+          </div>
+
+          {/* Contacts */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-zinc-900">Contacts</h3>
+              <button
+                type="button"
+                onClick={() => setContacts(prev => [...prev, { name: '', isPrimary: prev.length === 0 }])}
+                className="text-xs font-medium text-zinc-700 hover:text-zinc-900"
+              >
+                + Add contact
+              </button>
+            </div>
+            {contacts.length === 0 ? (
+              <p className="text-xs text-gray-500">No contacts</p>
+            ) : (
+              <div className="space-y-2">
+                {contacts.map((contact, index) => (
+                  <div key={contact.id || index} className="flex items-center gap-2">
+                    <input
+                      value={contact.name}
+                      onChange={e => updateContact(index, { name: e.target.value })}
+                      placeholder="Name"
+                      className={inputClass}
+                    />
+                    <input
+                      value={contact.title || ''}
+                      onChange={e => updateContact(index, { title: e.target.value })}
+                      placeholder="Title"
+                      className={inputClass}
+                    />
+                    <input
+                      type="email"
+                      value={contact.email || ''}
+                      onChange={e => updateContact(index, { email: e.target.value })}
+                      placeholder="Email"
+                      className={inputClass}
+                    />
+                    <input
+                      value={contact.phone || ''}
+                      onChange={e => updateContact(index, { phone: e.target.value })}
+                      placeholder="Phone"
+                      className={inputClass}
+                    />
+                    <label className="flex items-center gap-1 text-xs text-zinc-600 whitespace-nowrap">
+                      <input
+                        type="radio"
+                        checked={contact.isPrimary}
+                        onChange={() => updateContact(index, { isPrimary: true })}
+                      />
+                      Primary
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setContacts(prev => prev.filter((_, i) => i !== index))}
+                      className="p-1.5 text-gray-500 hover:text-red-600"
+                      title="Remove contact"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="block">
+            <span className="text-xs font-medium text-zinc-700">Notes</span>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} className={inputClass} />
+          </label>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-zinc-900 rounded-lg hover:bg-zinc-800 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Subcontractor'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
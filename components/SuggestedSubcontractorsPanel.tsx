@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Suggested Subcontractors Panel
+ * Directory subcontractors whose trades / CSI divisions cover a bid package's line items
+ */
+
+import { useState, useEffect } from 'react';
+import { PrequalStatusLabels, SubcontractorSuggestion } from '@/types/subcontractor';
+
+interface SuggestedSubcontractorsPanelProps {
+  bidPackageId: string;
+  onClose: () => void;
+}
+
+export default function SuggestedSubcontractorsPanel({ bidPackageId, onClose }: SuggestedSubcontractorsPanelProps) {
+  const [suggestions, setSuggestions] = useState<SubcontractorSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSuggestions = async () => {
+      try {
+        setError(null);
+        const response = await fetch(`/api/bid-packages/${bidPackageId}/suggested-subcontractors`);
+        if (!response.ok) throw new Error('Failed to load suggestions');
+        const data = await response.json();
+        setSuggestions(data.suggestions || []);
+      } catch (err) {
+        console.error('Error loading suggested subcontractors:', err);
+        setError('Failed to load suggested subcontractors');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSuggestions();
+  }, [bidPackageId]);
+
+  return (
+    <div className="w-80 flex-shrink-0 bg-white border-l border-gray-200 flex flex-col">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-zinc-900">Suggested Subcontractors</h2>
+          <p className="text-[11px] text-gray-500">Matched on the package&apos;s CSI divisions and trades</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-zinc-900" title="Close">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-gray-500">No directory subcontractors cover this package&apos;s scope.</p>
+        ) : (
+          suggestions.map(({ subcontractor, matchedDivisions, matchedTrades, score }) => {
+            const primary = subcontractor.contacts.find(contact => contact.isPrimary) || subcontractor.contacts[0];
+            return (
+              <div key={subcontractor.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-medium text-zinc-900">{subcontractor.name}</span>
+                  <span className="text-[11px] text-gray-500 whitespace-nowrap">
+                    {score} item{score === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="text-[11px] text-gray-500 mt-0.5">
+                  {PrequalStatusLabels[subcontractor.prequalStatus]}
+                  {primary && ` · ${primary.name}`}
+                </div>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {matchedDivisions.map(division => (
+                    <span key={division} className="px-1.5 py-0.5 text-[11px] rounded bg-sky-50 text-sky-800">Div {division}</span>
+                  ))}
+                  {matchedTrades.map(trade => (
+                    <span key={trade} className="px-1.5 py-0.5 text-[11px] rounded bg-zinc-100 text-zinc-800">{trade}</span>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { measureTakeoff, MIN_TAKEOFF_POINTS } from '@/lib/takeoff';
+import {
+  TakeoffMeasurement,
+  TakeoffPageSize,
+  TakeoffPoint,
+  TakeoffScale,
+  TakeoffType,
+  TakeoffUnits,
+} from '@/types/takeoff';
+
+export type TakeoffTool = 'calibrate' | TakeoffType;
+
+interface TakeoffLayerProps {
+  width: number; // Rendered size of the page in px
+  height: number;
+  pageSize: TakeoffPageSize; // Natural size of the page
+  scale: TakeoffScale | null;
+  measurements: TakeoffMeasurement[]; // Measurements on this page
+  tool: TakeoffTool | null;
+  highlightedItemId?: string | null;
+  onComplete: (points: TakeoffPoint[]) => void;
+  onCancel: () => void;
+}
+
+// Drop repeated points left behind by the clicks of a double-click
+const dedupePoints = (points: TakeoffPoint[]) =>
+  points.filter((point, i) => i === 0 || point.x !== points[i - 1].x || point.y !== points[i - 1].y);
+
+/**
+ * SVG layer over a diagram page that draws takeoff measurements and,
+ * while a tool is active, captures the points of a new one.
+ * Click to add points; double-click or Enter finishes a line, area or
+ * count, Backspace removes the last point and Escape cancels.
+ * Calibration finishes on its second point.
+ */
+export default function TakeoffLayer({
+  width,
+  height,
+  pageSize,
+  scale,
+  measurements,
+  tool,
+  highlightedItemId,
+  onComplete,
+  onCancel,
+}: TakeoffLayerProps) {
+  const [points, setPoints] = useState<TakeoffPoint[]>([]);
+  const [cursor, setCursor] = useState<TakeoffPoint | null>(null);
+
+  const finish = (finalPoints: TakeoffPoint[]) => {
+    const cleaned = dedupePoints(finalPoints);
+    const minPoints = tool === 'calibrate' ? 2 : tool ? MIN_TAKEOFF_POINTS[tool] : 0;
+    if (!tool || cleaned.length < minPoints) return;
+    setPoints([]);
+    onComplete(cleaned);
+  };
+
+  useEffect(() => {
+    if (!tool) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+      if (event.key === 'Escape') {
+        setPoints([]);
+        onCancel();
+      } else if (event.key === 'Backspace') {
+        event.preventDefault();
+        setPoints(prev => prev.slice(0, -1));
+      } else if (event.key === 'Enter') {
+        event.preventDefault();
+        finish(points);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (width === 0 || height === 0) return null;
+
+  const toPoint = (event: React.MouseEvent<SVGSVGElement>): TakeoffPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const next = [...points, toPoint(event)];
+    if (tool === 'calibrate' && next.length === 2) {
+      finish(next);
+    } else {
+      setPoints(next);
+    }
+  };
+
+  const handleDoubleClick = () => {
+    if (tool === 'linear' || tool === 'area') finish(points);
+  };
+
+  const toPixels = (list: TakeoffPoint[]) =>
+    list.map(p => `${p.x * width},${p.y * height}`).join(' ');
+
+  // Live readout of what is being drawn
+  const draft = cursor && tool !== 'count' && points.length > 0 ? [...points, cursor] : points;
+  const measureScale = scale ? { feetPerUnit: scale.feetPerUnit, pageWidth: pageSize.width, pageHeight: pageSize.height } : null;
+  const draftQuantity = tool && tool !== 'calibrate' ? measureTakeoff(tool, dedupePoints(draft), measureScale) : null;
+
+  return (
+    <svg
+      className="absolute inset-0"
+      width={width}
+      height={height}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: tool ? 'auto' : 'none',
+        cursor: tool ? 'crosshair' : undefined,
+      }}
+      onClick={tool ? handleClick : undefined}
+      onDoubleClick={tool ? handleDoubleClick : undefined}
+      onMouseMove={tool ? (event) => setCursor(toPoint(event)) : undefined}
+      onMouseLeave={() => setCursor(null)}
+    >
+      {/* Saved measurements */}
+      {measurements.map(measurement => {
+        const isHighlighted = measurement.lineItemId === highlightedItemId;
+        const stroke = isHighlighted ? '#2563eb' : '#f59e0b';
+        const strokeWidth = isHighlighted ? 3 : 2;
+
+        if (measurement.type === 'count') {
+          return (
+            <g key={measurement.id}>
+              {measurement.points.map((p, i) => (
+                <circle key={i} cx={p.x * width} cy={p.y * height} r={isHighlighted ? 6 : 5} fill={stroke} fillOpacity={0.8} stroke="white" strokeWidth={1.5} />
+              ))}
+            </g>
+          );
+        }
+
+        return measurement.type === 'area' ? (
+          <polygon
+            key={measurement.id}
+            points={toPixels(measurement.points)}
+            fill={stroke}
+            fillOpacity={isHighlighted ? 0.25 : 0.15}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+          />
+        ) : (
+          <polyline
+            key={measurement.id}
+            points={toPixels(measurement.points)}
+            fill="none"
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        );
+      })}
+
+      {/* Scale calibration line */}
+      {tool === 'calibrate' && scale && (
+        <line
+          x1={scale.calibration.start.x * width}
+          y1={scale.calibration.start.y * height}
+          x2={scale.calibration.end.x * width}
+          y2={scale.calibration.end.y * height}
+          stroke="#71717a"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+        />
+      )}
+
+      {/* Measurement being drawn */}
+      {tool && draft.length > 0 && (
+        <g>
+          {tool === 'area' ? (
+            <polygon points={toPixels(draft)} fill="#18181b" fillOpacity={0.1} stroke="#18181b" strokeWidth={2} strokeDasharray="4 3" />
+          ) : tool !== 'count' ? (
+            <polyline points={toPixels(draft)} fill="none" stroke="#18181b" strokeWidth={2} strokeDasharray="4 3" />
+          ) : null}
+          {points.map((p, i) => (
+            <circle key={i} cx={p.x * width} cy={p.y * height} r={4} fill="#18181b" stroke="white" strokeWidth={1.5} />
+          ))}
+        </g>
+      )}
+
+      {draftQuantity !== null && points.length > 0 && (
+        <text
+          x={(cursor ?? points[points.length - 1]).x * width + 12}
+          y={(cursor ?? points[points.length - 1]).y * height - 12}
+          className="text-xs font-medium"
+          fill="#18181b"
+          stroke="white"
+          strokeWidth={3}
+          paintOrder="stroke"
+        >
+          {draftQuantity.toLocaleString()} {TakeoffUnits[tool as TakeoffType]}
+        </text>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { Ruler, Spline, Square, Hash, Trash2 } from 'lucide-react';
+import { formatFeetInches } from '@/lib/takeoff';
+import { TakeoffMeasurement, TakeoffScale, TakeoffTypeLabels } from '@/types/takeoff';
+import { LineItem } from './BidFormTable';
+import { TakeoffTool } from './TakeoffLayer';
+
+interface TakeoffToolbarProps {
+  lineItems: LineItem[];
+  scale: TakeoffScale | null; // Scale of the page being viewed
+  measurements: TakeoffMeasurement[]; // Measurements on the whole diagram
+  tool: TakeoffTool | null;
+  onToolChange: (tool: TakeoffTool | null) => void;
+  selectedItemId: string | null;
+  onSelectedItemChange: (itemId: string | null) => void;
+  onDeleteMeasurement: (measurementId: string) => void;
+  readOnly?: boolean;
+}
+
+const TOOLS: { tool: TakeoffTool; label: string; icon: typeof Ruler; title: string }[] = [
+  { tool: 'calibrate', label: 'Scale', icon: Ruler, title: 'Set the scale by drawing over a known dimension' },
+  { tool: 'linear', label: TakeoffTypeLabels.linear, icon: Spline, title: 'Measure a length (double-click to finish)' },
+  { tool: 'area', label: TakeoffTypeLabels.area, icon: Square, title: 'Measure an area (double-click to finish)' },
+  { tool: 'count', label: TakeoffTypeLabels.count, icon: Hash, title: 'Count items (Enter to finish)' },
+];
+
+export default function TakeoffToolbar({
+  lineItems,
+  scale,
+  measurements,
+  tool,
+  onToolChange,
+  selectedItemId,
+  onSelectedItemChange,
+  onDeleteMeasurement,
+  readOnly = false,
+}: TakeoffToolbarProps) {
+  // Only saved line items can be linked to a measurement
+  const measurableItems = lineItems.filter(item => item.id);
+  const itemMeasurements = measurements.filter(m => m.lineItemId === selectedItemId);
+
+  return (
+    <div className="flex-shrink-0 border-b border-gray-200 bg-white px-3 py-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {!readOnly && (
+          <div className="flex items-center gap-1">
+            {TOOLS.map(({ tool: value, label, icon: Icon, title }) => (
+              <button
+                key={value}
+                onClick={() => onToolChange(tool === value ? null : value)}
+                disabled={value !== 'calibrate' && !selectedItemId}
+                className={`inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  tool === value
+                    ? 'bg-zinc-900 text-white border-zinc-900'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+                title={title}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        <span className={`text-xs ${scale ? 'text-gray-500' : 'text-amber-600'}`}>
+          {scale ? `Scale set on ${formatFeetInches(scale.calibration.lengthFeet)}` : 'Scale not set'}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedItemId ?? ''}
+          onChange={(e) => onSelectedItemChange(e.target.value || null)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-zinc-400/20 focus:border-zinc-400"
+        >
+          <option value="">Select a line item to measure...</option>
+          {measurableItems.map(item => (
+            <option key={item.id} value={item.id}>
+              {item.item_number ? `${item.item_number} - ` : ''}{item.description}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {itemMeasurements.length > 0 && (
+        <ul className="space-y-1">
+          {itemMeasurements.map(measurement => (
+            <li key={measurement.id} className="flex items-center justify-between text-xs text-gray-600">
+              <span>
+                {TakeoffTypeLabels[measurement.type]}: {measurement.quantity.toLocaleString()} {measurement.unit}
+                {measurement.pageNumber > 1 && <span className="text-gray-400"> (page {measurement.pageNumber})</span>}
+              </span>
+              {!readOnly && (
+                <button
+                  onClick={() => onDeleteMeasurement(measurement.id)}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                  title="Delete measurement"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -22,8 +22,8 @@ interface WorkspaceViewProps {
   chatMessages: ChatMessage[];
   onChatToggle: () => void;
   onSendChatMessage: (message: string) => void;
-  onAcceptChatChanges: (messageId: string) => void;
-  onRejectChatChanges: (messageId: string) => void;
+  onAcceptChatChanges: (messageId: string, changeIndexes: number[]) => void;
+  onRejectChatChanges: (messageId: string, changeIndexes: number[]) => void;
   isChatLoading?: boolean;
   onBack?: () => void;
 }
@@ -223,6 +223,7 @@ export default function WorkspaceView({
           >
             <ChatPanel
               messages={chatMessages}
+              lineItems={lineItems}
               onSendMessage={onSendChatMessage}
               onAcceptChanges={onAcceptChatChanges}
               onRejectChanges={onRejectChatChanges}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ACTIVE_EXTRACTION_JOB_STATUSES,
+  ExtractionJob,
+  ExtractionJobEvent,
+  ExtractionJobEventType,
+} from '@/types/extractionJob';
+
+const POLL_INTERVAL_MS = 2000;
+
+export const isExtractionJobActive = (job: ExtractionJob) =>
+  ACTIVE_EXTRACTION_JOB_STATUSES.includes(job.status);
+
+async function fetchExtractionJob(jobId: string, signal?: AbortSignal): Promise<ExtractionJob> {
+  const response = await fetch(`/api/extraction-jobs/${jobId}`, { signal });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || 'Failed to load extraction job');
+  return data.job;
+}
+
+/**
+ * Poll an extraction job until it succeeds, fails or is cancelled
+ * Resolves to the finished job; `onProgress` receives every poll
+ */
+export async function waitForExtractionJob(
+  jobId: string,
+  options: { onProgress?: (job: ExtractionJob) => void; signal?: AbortSignal } = {}
+): Promise<ExtractionJob> {
+  while (true) {
+    const job = await fetchExtractionJob(jobId, options.signal);
+    options.onProgress?.(job);
+    if (!isExtractionJobActive(job)) return job;
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+      options.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      }, { once: true });
+    });
+  }
+}
+
+const EVENT_TYPES: ExtractionJobEventType[] = ['page_rendered', 'page_sent', 'page_parsed', 'page_matched', 'merged'];
+
+/**
+ * Follow an extraction job over Server-Sent Events until it succeeds, fails
+ * or is cancelled. Events recorded before the stream opened are replayed,
+ * so the latest `merged` event always carries the result so far.
+ */
+export function streamExtractionJob(
+  jobId: string,
+  options: {
+    onProgress?: (job: ExtractionJob) => void;
+    onEvent?: (event: ExtractionJobEvent) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<ExtractionJob> {
+  // Polling still reports progress where SSE is unavailable
+  if (typeof EventSource === 'undefined') {
+    return waitForExtractionJob(jobId, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/extraction-jobs/${jobId}/events`);
+
+    const onAbort = () => {
+      source.close();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, (e) => {
+        options.onEvent?.(JSON.parse((e as MessageEvent).data));
+      });
+    }
+
+    source.addEventListener('job', (e) => {
+      const job: ExtractionJob = JSON.parse((e as MessageEvent).data);
+      options.onProgress?.(job);
+      if (!isExtractionJobActive(job)) {
+        source.close();
+        options.signal?.removeEventListener('abort', onAbort);
+        resolve(job);
+      }
+    });
+
+    // EventSource reconnects by itself; give up only if it stops trying
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        options.signal?.removeEventListener('abort', onAbort);
+        waitForExtractionJob(jobId, options).then(resolve, reject);
+      }
+    };
+  });
+}
+
+/**
+ * Hook to follow an extraction job's progress, and cancel or retry it
+ * Pass null to follow nothing
+ */
+export function useExtractionJob(jobId: string | null) {
+  const [job, setJob] = useState<ExtractionJob | null>(null);
+  const [pollKey, setPollKey] = useState(0);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const controller = new AbortController();
+    streamExtractionJob(jobId, { onProgress: setJob, signal: controller.signal })
+      .catch(error => {
+        if (error.name !== 'AbortError') console.error('Error following extraction job:', error);
+      });
+
+    return () => controller.abort();
+  }, [jobId, pollKey]);
+
+  const request = useCallback(async (action: 'cancel' | 'retry') => {
+    if (!jobId) return;
+
+    const response = await fetch(`/api/extraction-jobs/${jobId}/${action}`, { method: 'POST' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Failed to ${action} extraction job`);
+    setJob(data.job);
+    setPollKey(key => key + 1); // Follow the job again once it is queued
+  }, [jobId]);
+
+  const cancel = useCallback(() => request('cancel'), [request]);
+  const retry = useCallback(() => request('retry'), [request]);
+
+  return { job: jobId && job?.id === jobId ? job : null, cancel, retry };
+}
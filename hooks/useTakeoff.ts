@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  TakeoffItemTotal,
+  TakeoffMeasurement,
+  TakeoffMeasurementInput,
+  TakeoffScale,
+  TakeoffScaleInput,
+} from '@/types/takeoff';
+
+/**
+ * Hook to load and edit the takeoff (scales and measurements) of a diagram
+ * Mutations resolve to the measured totals of the line items they changed,
+ * for the caller to write back to its line items
+ */
+export function useTakeoff(diagramId: string | null) {
+  const [scales, setScales] = useState<TakeoffScale[]>([]);
+  const [measurements, setMeasurements] = useState<TakeoffMeasurement[]>([]);
+
+  const baseUrl = diagramId ? `/api/diagrams/${diagramId}/takeoff` : null;
+
+  const reload = useCallback(async () => {
+    if (!baseUrl) return;
+
+    try {
+      const response = await fetch(baseUrl);
+      if (!response.ok) throw new Error('Failed to load takeoff');
+      const data = await response.json();
+      setScales(data.scales || []);
+      setMeasurements(data.measurements || []);
+    } catch (error) {
+      console.error('Error loading takeoff:', error);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const request = async <T,>(url: string, init: RequestInit): Promise<T> => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || 'Takeoff request failed');
+    return data;
+  };
+
+  const saveScale = async (input: TakeoffScaleInput): Promise<TakeoffItemTotal[]> => {
+    if (!baseUrl) return [];
+    const data = await request<{ scale: TakeoffScale; itemTotals: TakeoffItemTotal[] }>(`${baseUrl}/scale`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    setScales(prev => [...prev.filter(s => s.pageNumber !== data.scale.pageNumber), data.scale]);
+    if (data.itemTotals.length > 0) await reload(); // Re-measured quantities
+    return data.itemTotals;
+  };
+
+  const addMeasurement = async (input: TakeoffMeasurementInput): Promise<TakeoffItemTotal> => {
+    if (!baseUrl) throw new Error('No diagram selected');
+    const data = await request<{ measurement: TakeoffMeasurement; itemTotal: TakeoffItemTotal }>(`${baseUrl}/measurements`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    setMeasurements(prev => [...prev, data.measurement]);
+    return data.itemTotal;
+  };
+
+  const deleteMeasurement = async (measurementId: string): Promise<TakeoffItemTotal> => {
+    if (!baseUrl) throw new Error('No diagram selected');
+    const data = await request<{ itemTotal: TakeoffItemTotal }>(`${baseUrl}/measurements/${measurementId}`, {
+      method: 'DELETE',
+    });
+    setMeasurements(prev => prev.filter(m => m.id !== measurementId));
+    return data.itemTotal;
+  };
+
+  return {
+    // Drop anything still loaded for a previously selected diagram
+    scales: scales.filter(s => s.diagramId === diagramId),
+    measurements: measurements.filter(m => m.diagramId === diagramId),
+    reload,
+    saveScale,
+    addMeasurement,
+    deleteMeasurement,
+  };
+}
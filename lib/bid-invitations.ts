@@ -0,0 +1,358 @@
+/**
+ * Bid Invitation Utilities
+ * Builds invitation-to-bid packets from a bid package, emails them to invitees
+ * and tracks each invitee's response
+ */
+
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { canRecordBids } from '@/lib/bid-leveling';
+import { getBidPackageLineItems } from '@/lib/line-item-utils';
+import { sendEmail } from '@/lib/email/emailTransport';
+import { EmailMessage } from '@/lib/email/emailTypes';
+import {
+  BID_INVITATION_STATUSES,
+  BidInvitation,
+  BidInvitationStatus,
+  BidInviteeInput,
+  InvitationPacket,
+} from '@/types/bidInvitation';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+type BidInvitationRow = Prisma.BidInvitationGetPayload<object>;
+
+// Statuses that automatic tracking (packet views, responses) must not overwrite
+const FINAL_STATUSES: BidInvitationStatus[] = ['submitted'];
+
+/**
+ * Check whether a value is a known invitation status
+ */
+export function isBidInvitationStatus(value: unknown): value is BidInvitationStatus {
+  return typeof value === 'string' && (BID_INVITATION_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Access token for an invitation's public packet link. Random, as it is the
+ * only credential the link carries.
+ */
+export function generateInvitationToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Invitations go out once the package has been reviewed and is out to bid
+ */
+export function canSendInvitations(status: string): boolean {
+  return canRecordBids(status);
+}
+
+/**
+ * Convert a BidInvitation row to the API shape (the access token stays server-side)
+ */
+export function fromBidInvitationRow(row: BidInvitationRow): BidInvitation {
+  return {
+    id: row.id,
+    bidPackageId: row.bidPackageId,
+    subcontractorId: row.subcontractorId,
+    companyName: row.companyName,
+    contactName: row.contactName,
+    contactEmail: row.contactEmail,
+    status: isBidInvitationStatus(row.status) ? row.status : 'invited',
+    dueDate: row.dueDate,
+    instructions: row.instructions,
+    declineReason: row.declineReason,
+    sentAt: row.sentAt,
+    viewedAt: row.viewedAt,
+    respondedAt: row.respondedAt,
+    submittedAt: row.submittedAt,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Timestamp fields to set alongside a status change
+ */
+export function getStatusTimestamps(status: BidInvitationStatus, now: Date = new Date()) {
+  switch (status) {
+    case 'viewed':
+      return { viewedAt: now };
+    case 'declined':
+    case 'intending':
+      return { respondedAt: now };
+    case 'submitted':
+      return { submittedAt: now };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Resolve invitees to company/contact details, filling directory subcontractors
+ * from their primary contact (or general email when they have no contacts)
+ */
+export async function resolveInvitees(
+  invitees: BidInviteeInput[],
+  client: DbClient = prisma
+): Promise<{ subcontractorId: string | null; companyName: string; contactName: string | null; contactEmail: string | null }[]> {
+  const subcontractorIds = invitees
+    .map(invitee => invitee.subcontractorId)
+    .filter((id): id is string => !!id);
+
+  const subcontractors = subcontractorIds.length > 0
+    ? await client.subcontractor.findMany({
+        where: { id: { in: subcontractorIds } },
+        include: { contacts: { orderBy: [{ isPrimary: 'desc' }, { name: 'asc' }] } },
+      })
+    : [];
+  const byId = new Map(subcontractors.map(sub => [sub.id, sub]));
+
+  return invitees.map(invitee => {
+    const sub = invitee.subcontractorId ? byId.get(invitee.subcontractorId) : undefined;
+    if (invitee.subcontractorId && !sub) {
+      throw new Error(`Subcontractor ${invitee.subcontractorId} not found`);
+    }
+
+    const contact = sub?.contacts.find(c => c.email) || sub?.contacts[0];
+    const companyName = invitee.companyName?.trim() || sub?.name;
+    if (!companyName) {
+      throw new Error('Each invitee needs a subcontractorId or companyName');
+    }
+
+    return {
+      subcontractorId: sub?.id ?? null,
+      companyName,
+      contactName: invitee.contactName || contact?.name || null,
+      contactEmail: invitee.contactEmail || contact?.email || sub?.email || null,
+    };
+  });
+}
+
+/**
+ * Build the packet an invitee receives: approved scope, referenced diagrams,
+ * due date and instructions
+ */
+export async function getInvitationPacket(
+  bidPackageId: string,
+  overrides: { dueDate?: Date | null; instructions?: string | null } = {},
+  client: DbClient = prisma
+): Promise<InvitationPacket | null> {
+  const bidPackage = await client.bidPackage.findUnique({
+    where: { id: bidPackageId },
+    select: {
+      name: true,
+      bidDueDate: true,
+      bcProjectId: true,
+      diagramIds: true,
+      sheetIds: true,
+      project: { select: { name: true } },
+    },
+  });
+
+  if (!bidPackage) return null;
+
+  const lineItems = await getBidPackageLineItems(bidPackageId, client);
+
+  let diagramIds: string[] = [];
+  try {
+    diagramIds = bidPackage.diagramIds ? JSON.parse(bidPackage.diagramIds) : [];
+  } catch (error) {
+    console.error('Failed to parse bid package diagramIds:', error);
+  }
+
+  let sheetIds: string[] = [];
+  try {
+    sheetIds = bidPackage.sheetIds ? JSON.parse(bidPackage.sheetIds) : [];
+  } catch (error) {
+    console.error('Failed to parse bid package sheetIds:', error);
+  }
+
+  // Sheets the package covers bring their drawing into the packet
+  const sheets = sheetIds.length > 0
+    ? await client.diagramSheet.findMany({
+        where: { id: { in: sheetIds }, diagram: { bcProjectId: bidPackage.bcProjectId } },
+        orderBy: [{ sheetNumber: 'asc' }, { pageNumber: 'asc' }],
+      })
+    : [];
+  const packetDiagramIds = Array.from(new Set([...diagramIds, ...sheets.map(sheet => sheet.diagramId)]));
+
+  const diagramRows = packetDiagramIds.length > 0
+    ? await client.diagram.findMany({
+        where: { id: { in: packetDiagramIds } },
+        select: { id: true, fileName: true, fileUrl: true, category: true },
+        orderBy: { fileName: 'asc' },
+      })
+    : [];
+
+  const diagrams = diagramRows.map(diagram => ({
+    ...diagram,
+    sheets: sheets
+      .filter(sheet => sheet.diagramId === diagram.id)
+      .map(sheet => [sheet.sheetNumber ?? `Page ${sheet.pageNumber}`, sheet.title].filter(Boolean).join(' ')),
+  }));
+
+  return {
+    projectName: bidPackage.project.name,
+    bidPackageName: bidPackage.name,
+    dueDate: overrides.dueDate !== undefined ? overrides.dueDate : bidPackage.bidDueDate,
+    instructions: overrides.instructions ?? null,
+    scope: lineItems
+      .filter(item => item.approved)
+      .map(item => ({
+        itemNumber: item.item_number ?? null,
+        description: item.description,
+        quantity: typeof item.quantity === 'number' ? item.quantity : null,
+        unit: item.unit ?? null,
+        csiCode: item.csiCode ?? null,
+        csiTitle: item.csiTitle ?? null,
+        notes: item.notes ?? null,
+      })),
+    diagrams,
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Compose the invitation email for one invitee
+ */
+export function buildInvitationEmail(
+  invitation: Pick<BidInvitation, 'companyName' | 'contactName' | 'contactEmail'>,
+  packet: InvitationPacket,
+  packetUrl: string
+): EmailMessage {
+  const dueDate = packet.dueDate ? new Date(packet.dueDate).toLocaleDateString('en-US', { dateStyle: 'long' }) : 'TBD';
+  const greeting = `Hello ${invitation.contactName || invitation.companyName},`;
+  const scopeLines = packet.scope.map(item => {
+    const quantity = item.quantity !== null ? ` - ${item.quantity} ${item.unit || ''}`.trimEnd() : '';
+    return `  ${item.itemNumber ? `${item.itemNumber}. ` : ''}${item.description}${quantity}`;
+  });
+  const diagramLines = packet.diagrams.map(diagram =>
+    `  ${diagram.fileName}${diagram.sheets.length > 0 ? ` (${diagram.sheets.join(', ')})` : ''}: ${diagram.fileUrl}`
+  );
+
+  const text = [
+    greeting,
+    '',
+    `${invitation.companyName} is invited to bid ${packet.bidPackageName} on ${packet.projectName}.`,
+    `Bids are due ${dueDate}.`,
+    ...(packet.instructions ? ['', 'Instructions:', packet.instructions] : []),
+    '',
+    `Scope (${packet.scope.length} item${packet.scope.length === 1 ? '' : 's'}):`,
+    ...(scopeLines.length > 0 ? scopeLines : ['  See drawings']),
+    ...(diagramLines.length > 0 ? ['', 'Drawings:', ...diagramLines] : []),
+    '',
+    `View the full bid packet and let us know whether you plan to bid: ${packetUrl}`,
+  ].join('\n');
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p><strong>${escapeHtml(invitation.companyName)}</strong> is invited to bid <strong>${escapeHtml(packet.bidPackageName)}</strong> on ${escapeHtml(packet.projectName)}. Bids are due <strong>${escapeHtml(dueDate)}</strong>.</p>`,
+    packet.instructions ? `<p>${escapeHtml(packet.instructions).replace(/\n/g, '<br>')}</p>` : '',
+    `<p>Scope: ${packet.scope.length} line item${packet.scope.length === 1 ? '' : 's'}${packet.diagrams.length > 0 ? `, ${packet.diagrams.length} drawing${packet.diagrams.length === 1 ? '' : 's'}` : ''}.</p>`,
+    `<p><a href="${escapeHtml(packetUrl)}">View the bid packet and respond</a></p>`,
+  ].join('\n');
+
+  return {
+    to: invitation.contactEmail as string,
+    toName: invitation.contactName || invitation.companyName,
+    subject: `Invitation to Bid: ${packet.projectName} - ${packet.bidPackageName}`,
+    text,
+    html,
+  };
+}
+
+/**
+ * Email an invitation its packet link and record when it was sent.
+ * Throws when the invitee has no email address or the transport fails.
+ */
+export async function sendBidInvitation(
+  invitationId: string,
+  baseUrl: string,
+  client: DbClient = prisma
+): Promise<BidInvitation> {
+  const invitation = await client.bidInvitation.findUniqueOrThrow({ where: { id: invitationId } });
+
+  if (!invitation.contactEmail) {
+    throw new Error(`${invitation.companyName} has no contact email`);
+  }
+
+  const packet = await getInvitationPacket(
+    invitation.bidPackageId,
+    { dueDate: invitation.dueDate, instructions: invitation.instructions },
+    client
+  );
+  if (!packet) {
+    throw new Error('Bid package not found');
+  }
+
+  const packetUrl = `${baseUrl.replace(/\/$/, '')}/invitations/${invitation.token}`;
+  await sendEmail(buildInvitationEmail(invitation, packet, packetUrl));
+
+  const updated = await client.bidInvitation.update({
+    where: { id: invitationId },
+    data: { sentAt: new Date() },
+  });
+
+  return fromBidInvitationRow(updated);
+}
+
+/**
+ * Record that an invitee opened their packet (first view only)
+ */
+export async function recordInvitationView(
+  invitationId: string,
+  client: DbClient = prisma
+): Promise<void> {
+  await client.bidInvitation.updateMany({
+    where: { id: invitationId, status: 'invited' },
+    data: { status: 'viewed', ...getStatusTimestamps('viewed') },
+  });
+}
+
+/**
+ * Record an invitee's intent to bid or decline. Returns false once their bid is in.
+ */
+export async function recordInvitationResponse(
+  invitationId: string,
+  response: 'intending' | 'declined',
+  reason: string | null,
+  client: DbClient = prisma
+): Promise<boolean> {
+  const result = await client.bidInvitation.updateMany({
+    where: { id: invitationId, status: { notIn: FINAL_STATUSES } },
+    data: {
+      status: response,
+      declineReason: response === 'declined' ? reason : null,
+      ...getStatusTimestamps(response),
+    },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Find an invitation of the bid package, for a bid that says it answers it
+ */
+export async function findPackageInvitation(
+  bidPackageId: string,
+  invitationId: string,
+  client: DbClient = prisma
+) {
+  return client.bidInvitation.findFirst({ where: { id: invitationId, bidPackageId } });
+}
+
+/**
+ * Mark the invitation a received bid answers as submitted
+ */
+export async function markInvitationSubmitted(
+  invitationId: string,
+  client: DbClient = prisma
+): Promise<void> {
+  await client.bidInvitation.updateMany({
+    where: { id: invitationId, status: { notIn: FINAL_STATUSES } },
+    data: { status: 'submitted', ...getStatusTimestamps('submitted') },
+  });
+}
@@ -0,0 +1,260 @@
+/**
+ * Bid Leveling Utilities
+ * Stores subcontractor bids and builds the side-by-side comparison that
+ * flags missing scope and prices far from the median
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LineItem } from '@/components/BidFormTable';
+import {
+  BID_LEVELING_STATUSES,
+  BidAlternate,
+  LevelingCell,
+  LevelingCellFlag,
+  LevelingComparison,
+  LevelingRow,
+  SubcontractorBid,
+  SubcontractorBidItem,
+} from '@/types/bidLeveling';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Prices more than 25% above or below the row median are flagged
+export const OUTLIER_THRESHOLD = 0.25;
+
+const bidInclude = {
+  items: true,
+} satisfies Prisma.SubcontractorBidInclude;
+
+type SubcontractorBidRow = Prisma.SubcontractorBidGetPayload<{ include: typeof bidInclude }>;
+
+/**
+ * Whether bids can be recorded for a package in this status
+ */
+export function canRecordBids(status: string): boolean {
+  return (BID_LEVELING_STATUSES as string[]).includes(status);
+}
+
+function parseAlternates(raw: string | null): BidAlternate[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to parse bid alternates:', error);
+    return [];
+  }
+}
+
+/**
+ * Convert a SubcontractorBid row (with items) to the API shape
+ */
+export function fromSubcontractorBidRow(row: SubcontractorBidRow): SubcontractorBid {
+  return {
+    id: row.id,
+    bidPackageId: row.bidPackageId,
+    bidderName: row.bidderName,
+    invitationId: row.invitationId,
+    contactName: row.contactName,
+    contactEmail: row.contactEmail,
+    baseBidAmount: row.baseBidAmount,
+    exclusions: row.exclusions,
+    alternates: parseAlternates(row.alternates),
+    notes: row.notes,
+    isRecommended: row.isRecommended,
+    receivedAt: row.receivedAt,
+    items: row.items.map(item => ({
+      id: item.id,
+      lineItemId: item.lineItemId,
+      unitPrice: item.unitPrice,
+      totalPrice: item.totalPrice,
+      included: item.included,
+      notes: item.notes,
+    })),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+const isPrice = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * Validate the `items` of a bid create/update body
+ * Returns an error message, or null when valid
+ */
+export function validateBidItems(items: unknown): string | null {
+  if (!Array.isArray(items)) return 'items must be an array';
+
+  for (const [index, item] of items.entries()) {
+    if (!item || typeof item !== 'object' || typeof item.lineItemId !== 'string') {
+      return `items[${index}] needs a lineItemId`;
+    }
+    if (!isPrice(item.unitPrice) || !isPrice(item.totalPrice)) {
+      return `items[${index}] prices must be numbers`;
+    }
+    if (item.included !== undefined && typeof item.included !== 'boolean') {
+      return `items[${index}].included must be true or false`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map bid items from a request body to SubcontractorBidItem create data.
+ * Items for line items outside the package are dropped; when a line item
+ * is priced more than once the last entry wins.
+ */
+export function toBidItemData(
+  items: SubcontractorBidItem[],
+  packageLineItemIds: Set<string>
+): Prisma.SubcontractorBidItemCreateWithoutBidInput[] {
+  const byLineItem = new Map<string, SubcontractorBidItem>();
+  for (const item of items) {
+    if (packageLineItemIds.has(item.lineItemId)) {
+      byLineItem.set(item.lineItemId, item);
+    }
+  }
+
+  return [...byLineItem.values()].map(item => ({
+    lineItem: { connect: { id: item.lineItemId } },
+    unitPrice: item.unitPrice ?? null,
+    totalPrice: item.totalPrice ?? null,
+    included: item.included ?? true,
+    notes: item.notes || null,
+  }));
+}
+
+/**
+ * Get all bids for a bid package, oldest first
+ */
+export async function getSubcontractorBids(
+  bidPackageId: string,
+  client: DbClient = prisma
+): Promise<SubcontractorBid[]> {
+  const rows = await client.subcontractorBid.findMany({
+    where: { bidPackageId },
+    include: bidInclude,
+    orderBy: { receivedAt: 'asc' },
+  });
+
+  return rows.map(fromSubcontractorBidRow);
+}
+
+/**
+ * Median of a list of numbers (null when empty)
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Extended price of a bid item: its total, or unit price × line item quantity
+ */
+function getItemTotal(item: SubcontractorBidItem | undefined, lineItem: LineItem): number | null {
+  if (!item || !item.included) return null;
+  if (typeof item.totalPrice === 'number') return item.totalPrice;
+  if (typeof item.unitPrice === 'number' && typeof lineItem.quantity === 'number') {
+    return item.unitPrice * lineItem.quantity;
+  }
+  return null;
+}
+
+/**
+ * Build the leveling grid: one row per line item, one cell per bid
+ */
+export function buildLevelingComparison(
+  lineItems: LineItem[],
+  bids: SubcontractorBid[],
+  outlierThreshold: number = OUTLIER_THRESHOLD
+): LevelingComparison {
+  // Only saved line items (with ids) can carry bid prices
+  const savedItems = lineItems.filter((item): item is LineItem & { id: string } => !!item.id);
+
+  const rows: LevelingRow[] = savedItems.map(lineItem => {
+    const totals = bids.map(bid => {
+      const item = bid.items.find(i => i.lineItemId === lineItem.id);
+      return { bid, item, total: getItemTotal(item, lineItem) };
+    });
+
+    const priced = totals.filter(t => t.total !== null).map(t => t.total as number);
+    const medianTotal = median(priced);
+
+    let lowBidId: string | null = null;
+    let lowTotal = Infinity;
+
+    const cells: LevelingCell[] = totals.map(({ bid, item, total }) => {
+      const flags: LevelingCellFlag[] = [];
+      let deviation: number | null = null;
+
+      if (item && !item.included) {
+        flags.push('excluded');
+      } else if (total === null) {
+        flags.push('missing');
+      } else {
+        if (total < lowTotal) {
+          lowTotal = total;
+          lowBidId = bid.id;
+        }
+        // Outliers only mean something with at least two prices to compare
+        if (medianTotal !== null && medianTotal > 0 && priced.length >= 2) {
+          deviation = (total - medianTotal) / medianTotal;
+          if (deviation > outlierThreshold) flags.push('high');
+          if (deviation < -outlierThreshold) flags.push('low');
+        }
+      }
+
+      return {
+        bidId: bid.id,
+        unitPrice: item?.unitPrice ?? null,
+        totalPrice: total,
+        deviation,
+        flags,
+      };
+    });
+
+    return {
+      lineItemId: lineItem.id,
+      itemNumber: lineItem.item_number ?? null,
+      description: lineItem.description,
+      quantity: lineItem.quantity ?? null,
+      unit: lineItem.unit ?? null,
+      medianTotal,
+      lowBidId,
+      cells,
+    };
+  });
+
+  const summaries = bids.map((bid, index) => {
+    const cells = rows.map(row => row.cells[index]);
+    return {
+      bidId: bid.id,
+      bidderName: bid.bidderName,
+      itemsTotal: cells.reduce((sum, cell) => sum + (cell.totalPrice ?? 0), 0),
+      baseBidAmount: bid.baseBidAmount ?? null,
+      missingCount: cells.filter(cell => cell.flags.includes('missing')).length,
+      excludedCount: cells.filter(cell => cell.flags.includes('excluded')).length,
+      outlierCount: cells.filter(cell => cell.flags.includes('high') || cell.flags.includes('low')).length,
+      isRecommended: bid.isRecommended,
+    };
+  });
+
+  // Low bidder only counts bids that priced the whole scope
+  const complete = summaries.filter(s => s.missingCount === 0 && s.excludedCount === 0);
+  const lowBid = complete.reduce<typeof complete[number] | null>(
+    (low, s) => (!low || s.itemsTotal < low.itemsTotal ? s : low),
+    null
+  );
+
+  return {
+    rows,
+    bids: summaries,
+    outlierThreshold,
+    lowBidId: lowBid?.bidId ?? null,
+  };
+}
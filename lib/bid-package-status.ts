@@ -0,0 +1,231 @@
+/**
+ * Bid Package Status State Machine
+ * Defines the allowed status transitions, who may make them, and the
+ * transitions the system makes on its own
+ *
+ * Workflow:
+ *   to do → assigned → in progress → in review → bidding ⇄ bidding leveling → completed
+ *
+ * Automatic transitions (no role check, recorded with the acting user):
+ * - Captain assigned while "to do" → "assigned"
+ * - Captain removed while "assigned" → "to do"
+ * - First line item approved while "to do" or "assigned" → "in progress"
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  BID_PACKAGE_STATUSES,
+  BidPackageStatus,
+  BidPackageStatusTransition,
+  BidPackageStatusTrigger,
+} from '@/types/bidPackage';
+import { UserPublic, UserRole, getUserDisplayName } from '@/types/user';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export const INITIAL_BID_PACKAGE_STATUS: BidPackageStatus = 'to do';
+
+const LEADS = [UserRole.ADMIN, UserRole.PRECON_LEAD];
+const EDITORS = [UserRole.ADMIN, UserRole.PRECON_LEAD, UserRole.SCOPE_CAPTAIN];
+
+interface StatusTransitionRule {
+  from: BidPackageStatus;
+  to: BidPackageStatus;
+  roles: UserRole[];
+}
+
+// Manual transitions and the roles allowed to make them
+const TRANSITIONS: StatusTransitionRule[] = [
+  { from: 'to do', to: 'assigned', roles: LEADS },
+  { from: 'assigned', to: 'to do', roles: LEADS },
+  { from: 'assigned', to: 'in progress', roles: EDITORS },
+  { from: 'in progress', to: 'in review', roles: EDITORS }, // Submit for review
+  { from: 'in review', to: 'in progress', roles: EDITORS }, // Recall / send back
+  { from: 'in review', to: 'bidding', roles: LEADS },
+  { from: 'bidding', to: 'bidding leveling', roles: LEADS },
+  { from: 'bidding leveling', to: 'bidding', roles: LEADS },
+  { from: 'bidding leveling', to: 'completed', roles: [UserRole.PRECON_LEAD] },
+  { from: 'completed', to: 'bidding leveling', roles: [UserRole.PRECON_LEAD] }, // Reopen
+];
+
+// Status values written before the current workflow existed
+const LEGACY_STATUSES: Record<string, BidPackageStatus> = {
+  'draft': 'to do',
+  'active': 'in progress',
+  'pending-review': 'in review',
+  'bidding-leveling': 'bidding leveling',
+  'awarded': 'completed',
+  'closed': 'completed',
+};
+
+export type StatusTransitionCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'invalid_status' | 'illegal_transition' | 'forbidden'; message: string };
+
+/**
+ * Check whether a value is a known bid package status
+ */
+export function isBidPackageStatus(value: unknown): value is BidPackageStatus {
+  return typeof value === 'string' && (BID_PACKAGE_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Map a stored status (including legacy values) onto the workflow
+ */
+export function normalizeBidPackageStatus(value: string | null | undefined): BidPackageStatus {
+  if (isBidPackageStatus(value)) return value;
+  return (value && LEGACY_STATUSES[value]) || INITIAL_BID_PACKAGE_STATUS;
+}
+
+/**
+ * Status a new bid package starts in
+ */
+export function getInitialBidPackageStatus(captainId?: string | null): BidPackageStatus {
+  return captainId ? 'assigned' : INITIAL_BID_PACKAGE_STATUS;
+}
+
+/**
+ * Statuses a role can manually move a package to from its current status
+ */
+export function getAllowedTransitions(from: BidPackageStatus, role: UserRole): BidPackageStatus[] {
+  return TRANSITIONS
+    .filter(rule => rule.from === from && rule.roles.includes(role))
+    .map(rule => rule.to);
+}
+
+/**
+ * Validate a manual status change
+ */
+export function checkStatusTransition(
+  from: BidPackageStatus,
+  to: unknown,
+  role: UserRole
+): StatusTransitionCheck {
+  if (!isBidPackageStatus(to)) {
+    return { allowed: false, reason: 'invalid_status', message: `Unknown status "${String(to)}"` };
+  }
+
+  const rule = TRANSITIONS.find(r => r.from === from && r.to === to);
+  if (!rule) {
+    return {
+      allowed: false,
+      reason: 'illegal_transition',
+      message: `Cannot move bid package from "${from}" to "${to}"`,
+    };
+  }
+
+  if (!rule.roles.includes(role)) {
+    return {
+      allowed: false,
+      reason: 'forbidden',
+      message: `Your role cannot move bid packages from "${from}" to "${to}"`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Work out the automatic transition (if any) for a package's current state
+ */
+export function getAutomaticTransition(
+  status: BidPackageStatus,
+  state: { captainId: string | null; hasApprovedItems: boolean }
+): { toStatus: BidPackageStatus; trigger: BidPackageStatusTrigger } | null {
+  if ((status === 'to do' || status === 'assigned') && state.hasApprovedItems) {
+    return { toStatus: 'in progress', trigger: 'item_approved' };
+  }
+  if (status === 'to do' && state.captainId) {
+    return { toStatus: 'assigned', trigger: 'captain_assigned' };
+  }
+  if (status === 'assigned' && !state.captainId) {
+    return { toStatus: 'to do', trigger: 'captain_removed' };
+  }
+  return null;
+}
+
+/**
+ * Set a package's status and record the transition
+ */
+export async function transitionBidPackageStatus(
+  bidPackageId: string,
+  fromStatus: BidPackageStatus,
+  toStatus: BidPackageStatus,
+  trigger: BidPackageStatusTrigger,
+  user: UserPublic | null,
+  client: DbClient = prisma
+): Promise<void> {
+  await client.bidPackage.update({
+    where: { id: bidPackageId },
+    data: { status: toStatus },
+  });
+
+  await client.bidPackageStatusTransition.create({
+    data: {
+      bidPackageId,
+      fromStatus,
+      toStatus,
+      trigger,
+      userId: user?.id ?? null,
+      userName: user ? getUserDisplayName(user) : null,
+    },
+  });
+}
+
+/**
+ * Apply the automatic transition for a package, if one is due
+ * Returns the new status, or null when nothing changed
+ */
+export async function applyAutomaticStatusTransition(
+  bidPackageId: string,
+  user: UserPublic | null,
+  client: DbClient = prisma
+): Promise<BidPackageStatus | null> {
+  const bidPackage = await client.bidPackage.findUnique({
+    where: { id: bidPackageId },
+    select: { status: true, captainId: true },
+  });
+  if (!bidPackage) return null;
+
+  const approvedCount = await client.lineItem.count({
+    where: { approved: true, bidForm: { bidPackageId } },
+  });
+
+  const fromStatus = normalizeBidPackageStatus(bidPackage.status);
+  const transition = getAutomaticTransition(fromStatus, {
+    captainId: bidPackage.captainId,
+    hasApprovedItems: approvedCount > 0,
+  });
+  if (!transition) return null;
+
+  await transitionBidPackageStatus(
+    bidPackageId,
+    fromStatus,
+    transition.toStatus,
+    transition.trigger,
+    user,
+    client
+  );
+  return transition.toStatus;
+}
+
+/**
+ * Get the status transitions of a bid package, newest first
+ */
+export async function getStatusTransitions(
+  bidPackageId: string,
+  client: DbClient = prisma
+): Promise<BidPackageStatusTransition[]> {
+  const rows = await client.bidPackageStatusTransition.findMany({
+    where: { bidPackageId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return rows.map(row => ({
+    ...row,
+    fromStatus: normalizeBidPackageStatus(row.fromStatus),
+    toStatus: normalizeBidPackageStatus(row.toStatus),
+    trigger: row.trigger as BidPackageStatusTrigger,
+  }));
+}
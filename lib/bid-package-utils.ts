@@ -3,59 +3,71 @@ import { PrismaClient } from '@prisma/client';
 const prisma = new PrismaClient();
 
 // Trade categories for bid package classification
+// csiDivisions are the MasterFormat divisions (lib/csi) a trade typically covers
 export const TRADE_CATEGORIES = {
   PLUMBING: {
     name: 'Plumbing',
+    csiDivisions: ['22'],
     keywords: ['plumbing', 'pipe', 'drain', 'water', 'sewer', 'faucet', 'toilet', 'sink', 'valve', 'fixture', 'copper', 'pex', 'pvc', 'waste', 'supply', 'hot water', 'cold water', 'sanitary', 'storm drain', 'water heater', 'backflow'],
     patterns: [/plumb/i, /pipe/i, /drain/i, /water/i, /sewer/i, /fixture/i]
   },
   ELECTRICAL: {
     name: 'Electrical',
+    csiDivisions: ['26'],
     keywords: ['electrical', 'wire', 'cable', 'outlet', 'switch', 'panel', 'breaker', 'circuit', 'voltage', 'amp', 'watt', 'conduit', 'junction', 'lighting', 'power', 'receptacle', 'transformer', 'generator', 'meter', 'grounding'],
     patterns: [/electric/i, /wire/i, /circuit/i, /volt/i, /amp/i, /power/i]
   },
   HVAC: {
     name: 'HVAC',
+    csiDivisions: ['23'],
     keywords: ['hvac', 'heating', 'cooling', 'air conditioning', 'ventilation', 'duct', 'furnace', 'air handler', 'compressor', 'thermostat', 'vav', 'rtu', 'chiller', 'boiler', 'fan', 'damper', 'diffuser', 'grille', 'refrigerant'],
     patterns: [/hvac/i, /heat/i, /cool/i, /ventilat/i, /duct/i, /air\s+condition/i]
   },
   FRAMING: {
     name: 'Framing',
+    csiDivisions: ['05', '06'],
     keywords: ['framing', 'stud', 'joist', 'beam', 'column', 'header', 'rafter', 'truss', 'plate', 'sill', 'sheathing', 'structural', 'wood', 'lumber', '2x4', '2x6', 'steel frame', 'metal stud'],
     patterns: [/fram/i, /stud/i, /joist/i, /beam/i, /structural/i, /lumber/i]
   },
   DRYWALL: {
     name: 'Drywall',
+    csiDivisions: ['09'],
     keywords: ['drywall', 'sheetrock', 'gypsum', 'partition', 'taping', 'mudding', 'texture', 'ceiling', 'wall board', 'corner bead', 'joint compound', 'acoustic', 'fire rated'],
     patterns: [/drywall/i, /sheetrock/i, /gypsum/i, /partition/i]
   },
   FLOORING: {
     name: 'Flooring',
+    csiDivisions: ['09'],
     keywords: ['flooring', 'carpet', 'tile', 'vinyl', 'hardwood', 'laminate', 'ceramic', 'porcelain', 'epoxy', 'concrete', 'subfloor', 'underlayment', 'base', 'transition', 'threshold', 'grout'],
     patterns: [/floor/i, /carpet/i, /tile/i, /vinyl/i, /hardwood/i]
   },
   ROOFING: {
     name: 'Roofing',
+    csiDivisions: ['07'],
     keywords: ['roofing', 'shingle', 'membrane', 'flashing', 'gutter', 'downspout', 'fascia', 'soffit', 'ridge', 'valley', 'epdm', 'tpo', 'modified bitumen', 'metal roof', 'slate', 'parapet'],
     patterns: [/roof/i, /shingle/i, /gutter/i, /flashing/i]
   },
   CONCRETE: {
     name: 'Concrete',
+    csiDivisions: ['03'],
     keywords: ['concrete', 'foundation', 'footing', 'slab', 'pour', 'rebar', 'formwork', 'cement', 'grade beam', 'caisson', 'pier', 'retaining wall', 'curb', 'sidewalk', 'paving'],
     patterns: [/concrete/i, /foundation/i, /slab/i, /cement/i, /rebar/i]
   },
   PAINTING: {
     name: 'Painting',
+    csiDivisions: ['09'],
     keywords: ['painting', 'paint', 'primer', 'coating', 'finish', 'stain', 'sealer', 'caulk', 'wallpaper', 'epoxy coating', 'texture coating'],
     patterns: [/paint/i, /coating/i, /stain/i, /primer/i]
   },
   LANDSCAPING: {
     name: 'Landscaping',
+    csiDivisions: ['32'],
     keywords: ['landscaping', 'irrigation', 'sprinkler', 'planting', 'tree', 'shrub', 'grass', 'sod', 'mulch', 'soil', 'drainage', 'hardscape', 'pavers', 'retaining wall'],
     patterns: [/landscap/i, /irrigation/i, /plant/i, /tree/i, /grass/i]
   },
   GENERAL_CONDITIONS: {
     name: 'General Conditions',
+    csiDivisions: ['01'],
     keywords: ['general conditions', 'supervision', 'temporary', 'protection', 'safety', 'cleanup', 'mobilization', 'permit', 'insurance', 'bond', 'overhead', 'profit', 'dumpster', 'portable toilet', 'fence'],
     patterns: [/general\s+condition/i, /supervision/i, /temporary/i, /permit/i]
   }
@@ -86,6 +98,21 @@ export function categorizeLineItem(description: string): string {
   return 'General'; // Default category
 }
 
+/**
+ * Names of all trade categories (used for subcontractor trades)
+ */
+export function getTradeNames(): string[] {
+  return Object.values(TRADE_CATEGORIES).map(config => config.name);
+}
+
+/**
+ * CSI divisions typically covered by a trade
+ */
+export function getTradeDivisions(tradeName: string): string[] {
+  const config = Object.values(TRADE_CATEGORIES).find(c => c.name === tradeName);
+  return config ? [...config.csiDivisions] : [];
+}
+
 /**
  * Categorize multiple line items and group them by trade
  */
@@ -211,6 +238,7 @@ export async function organizeIntoBidPackages(
             quantity: item.quantity || null,
             unit: item.unit || null,
             notes: item.notes || null,
+            boundingBox: item.boundingBox ? JSON.stringify(item.boundingBox) : null,
             order: index,
             verified: false
           }))
@@ -0,0 +1,166 @@
+/**
+ * Chat Change Application
+ * Validates the ProposedChange batches the chat assistant returns (their
+ * fields and value types, against the current line items) and applies them with before/after snapshots, so
+ * an accepted batch can be undone and redone as one revision. Pure: the
+ * chat panel uses it to flag changes that can no longer apply, and
+ * lib/chat-revisions uses it to apply them.
+ */
+
+import { LineItem } from '@/components/BidFormTable';
+import { generateId } from '@/lib/generateId';
+import { ChatRevisionEntry, ProposedChange, ProposedChangeError } from '@/types/chat';
+import { TRACKED_FIELDS, TrackedField } from '@/types/lineItemHistory';
+
+const NUMERIC_FIELDS: TrackedField[] = ['quantity', 'unit_price'];
+
+const describeItem = (itemId: string, items: LineItem[]) => {
+  const item = items.find(candidate => candidate.id === itemId);
+  return item?.description ? `"${item.description}"` : `Item ${itemId}`;
+};
+
+const isTrackedField = (field: string): field is TrackedField =>
+  (TRACKED_FIELDS as readonly string[]).includes(field);
+
+/**
+ * A proposed value converted to its field's type. Numbers may come as
+ * numeric strings ("1,200"); empty values clear the field.
+ */
+function coerceFieldValue(field: TrackedField, value: unknown): { value: string | number | boolean | null } | { error: string } {
+  if (value === null || value === undefined || value === '') {
+    if (field === 'description') return { error: 'description cannot be empty' };
+    return { value: field === 'approved' ? false : null };
+  }
+
+  if (NUMERIC_FIELDS.includes(field)) {
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.replace(/[$,\s]/g, '')) : NaN;
+    return Number.isFinite(parsed) ? { value: parsed } : { error: `${field} must be a number, not ${JSON.stringify(value)}` };
+  }
+
+  if (field === 'approved') {
+    if (typeof value === 'boolean') return { value };
+    if (value === 'true' || value === 'false') return { value: value === 'true' };
+    return { error: 'approved must be true or false' };
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') return { value: String(value) };
+  return { error: `${field} must be text` };
+}
+
+/**
+ * The line item fields an add or update sets, converted to their types.
+ * Keys of `newItem` other than the tracked fields are ignored; an unknown
+ * field in `changes` is an error.
+ */
+function getChangedFields(change: ProposedChange): { fields: Partial<LineItem>; errors: string[] } {
+  const proposed: [string, unknown][] = change.newItem
+    ? Object.entries(change.newItem).filter(([field]) => isTrackedField(field))
+    : (change.changes || []).map(fieldChange => [fieldChange.field, fieldChange.newValue]);
+
+  const fields: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const [field, value] of proposed) {
+    if (!isTrackedField(field)) {
+      errors.push(`unknown field "${field}"`);
+      continue;
+    }
+    const coerced = coerceFieldValue(field, value);
+    if ('error' in coerced) errors.push(coerced.error);
+    else fields[field] = coerced.value;
+  }
+
+  return { fields: fields as Partial<LineItem>, errors };
+}
+
+/**
+ * Why a change cannot be applied to the given line items, or null when it can
+ */
+export function validateProposedChange(change: ProposedChange, lineItems: LineItem[]): string | null {
+  switch (change.type) {
+    case 'add': {
+      if (typeof change.newItem?.description !== 'string' || !change.newItem.description.trim()) return 'The new item has no description';
+      const { errors } = getChangedFields(change);
+      return errors.length > 0 ? `The new item is invalid: ${errors.join('; ')}` : null;
+    }
+    case 'update': {
+      if (!change.itemId) return 'The update does not say which item to change';
+      if (!lineItems.some(item => item.id === change.itemId)) return `Item ${change.itemId} no longer exists`;
+      if (!change.newItem && !change.changes?.length) return `The update to ${describeItem(change.itemId, lineItems)} has no new values`;
+      const { errors } = getChangedFields(change);
+      return errors.length > 0 ? `The update to ${describeItem(change.itemId, lineItems)} is invalid: ${errors.join('; ')}` : null;
+    }
+    case 'delete':
+      if (!change.itemId) return 'The delete does not say which item to remove';
+      if (!lineItems.some(item => item.id === change.itemId)) return `Item ${change.itemId} no longer exists`;
+      return null;
+    case 'reallocate':
+      if (!change.itemId) return 'The move does not say which item to move';
+      if (!change.targetPackageId) return `The move of ${describeItem(change.itemId, lineItems)} has no target package`;
+      if (!lineItems.some(item => item.id === change.itemId)) return `Item ${change.itemId} no longer exists`;
+      return null;
+    default:
+      return `Unknown change type "${(change as ProposedChange).type}"`;
+  }
+}
+
+/**
+ * Apply changes in order. Each change is validated against the items as the
+ * earlier changes left them; when any change fails nothing is applied.
+ * Reallocations are only validated: moving an item to another package is
+ * left to the caller and is not part of the revision.
+ */
+export function applyProposedChanges(
+  lineItems: LineItem[],
+  changes: { index: number; change: ProposedChange }[]
+): { lineItems: LineItem[]; entries: ChatRevisionEntry[]; errors: ProposedChangeError[] } {
+  let items = [...lineItems];
+  const entries: ChatRevisionEntry[] = [];
+  const errors: ProposedChangeError[] = [];
+
+  for (const { index, change } of changes) {
+    const error = validateProposedChange(change, items);
+    if (error) {
+      errors.push({ index, message: error });
+      continue;
+    }
+
+    if (change.type === 'add') {
+      // The assistant makes up IDs; a clash with an existing item gets a new one
+      const id = change.newItem!.id && !items.some(item => item.id === change.newItem!.id)
+        ? change.newItem!.id
+        : generateId();
+      const added: LineItem = { description: change.newItem!.description, ...getChangedFields(change).fields, id };
+      entries.push({ type: 'add', itemId: id, index: items.length, before: null, after: added });
+      items = [...items, added];
+    } else if (change.type === 'update') {
+      const position = items.findIndex(item => item.id === change.itemId);
+      const before = items[position];
+      const after: LineItem = { ...before, ...getChangedFields(change).fields, id: before.id };
+      entries.push({ type: 'update', itemId: before.id!, index: position, before, after });
+      items = items.map((item, i) => (i === position ? after : item));
+    } else if (change.type === 'delete') {
+      const position = items.findIndex(item => item.id === change.itemId);
+      entries.push({ type: 'delete', itemId: change.itemId!, index: position, before: items[position], after: null });
+      items = items.filter((_, i) => i !== position);
+    }
+  }
+
+  return errors.length > 0
+    ? { lineItems, entries: [], errors }
+    : { lineItems: items, entries, errors };
+}
+
+/**
+ * One-line summary of a revision: "Added 2, updated 1, deleted 1"
+ */
+export function summarizeChatRevision(entries: ChatRevisionEntry[]): string {
+  const count = (type: ChatRevisionEntry['type']) => entries.filter(entry => entry.type === type).length;
+  return [
+    count('add') > 0 ? `added ${count('add')}` : null,
+    count('update') > 0 ? `updated ${count('update')}` : null,
+    count('delete') > 0 ? `deleted ${count('delete')}` : null,
+  ]
+    .filter(Boolean)
+    .join(', ')
+    .replace(/^./, letter => letter.toUpperCase());
+}
@@ -0,0 +1,361 @@
+/**
+ * Chat Revisions
+ * Accepted chat changes are applied to a bid package's line items as one
+ * revision per batch, recorded with line item snapshots. The latest
+ * revisions can be undone and redone in order; an undo or redo that would
+ * overwrite a later edit to the same item is refused. Applying a new batch
+ * discards the undone revisions (the redo history). The status of each
+ * change is kept on its chat message. Accepted reallocations move their
+ * item to a sibling package the way /api/bid-packages/reallocate does and
+ * are not part of any revision.
+ */
+
+import { Prisma, ChatRevision as ChatRevisionRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LineItem } from '@/components/BidFormTable';
+import { applyProposedChanges, summarizeChatRevision } from '@/lib/chat-changes';
+import { applyAutomaticStatusTransition } from '@/lib/bid-package-status';
+import { fromChatMessageRow, setChatMessageChangeStatuses } from '@/lib/chat-threads';
+import { diffLineItems, getChangeContext } from '@/lib/line-item-history';
+import {
+  calculateApprovalPercentage,
+  getBidPackageLineItems,
+  reallocateLineItem,
+  syncBidPackageLineItems,
+} from '@/lib/line-item-utils';
+import { canAccessBidPackage } from '@/lib/route-guard';
+import {
+  ChatMessage,
+  ChatRevision,
+  ChatRevisionEntry,
+  ChatRevisionStatus,
+  ProposedChangeError,
+} from '@/types/chat';
+import { UserPublic, getUserDisplayName } from '@/types/user';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Revisions listed in the workspace (and reachable by undo)
+const REVISION_LIST_LIMIT = 50;
+
+export type ChatRevisionResult =
+  | { ok: true; lineItems: LineItem[]; updatedMessages: ChatMessage[]; revisions: ChatRevision[] }
+  | { ok: false; errors: ProposedChangeError[] };
+
+function parseJsonArray<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to parse chat revision JSON:', error);
+    return [];
+  }
+}
+
+/**
+ * Convert a ChatRevision row into the API shape
+ */
+export function fromChatRevisionRow(row: ChatRevisionRow): ChatRevision {
+  return {
+    id: row.id,
+    bidPackageId: row.bidPackageId,
+    messageId: row.messageId,
+    changeIndexes: parseJsonArray<number>(row.changeIndexes),
+    entries: parseJsonArray<ChatRevisionEntry>(row.entries),
+    summary: row.summary,
+    status: row.status as ChatRevisionStatus,
+    userName: row.userName,
+    createdAt: row.createdAt,
+    undoneAt: row.undoneAt,
+  };
+}
+
+/**
+ * Applied and undone revisions of a package, newest first
+ */
+export async function getChatRevisions(bidPackageId: string, client: DbClient = prisma): Promise<ChatRevision[]> {
+  const rows = await client.chatRevision.findMany({
+    where: { bidPackageId, status: { in: ['applied', 'undone'] } },
+    orderBy: { createdAt: 'desc' },
+    take: REVISION_LIST_LIMIT,
+  });
+  return rows.map(fromChatRevisionRow);
+}
+
+const isUnchanged = (current: LineItem | undefined, expected: LineItem | null) =>
+  !!current && !!expected && diffLineItems(current, expected).length === 0;
+
+const describe = (item: LineItem | null, itemId: string) => (item?.description ? `"${item.description}"` : `Item ${itemId}`);
+
+/**
+ * Take a revision's changes back out of the line items, last change first
+ */
+function revertEntries(lineItems: LineItem[], entries: ChatRevisionEntry[]): { lineItems: LineItem[]; errors: string[] } {
+  let items = [...lineItems];
+  const errors: string[] = [];
+
+  for (const entry of [...entries].reverse()) {
+    const position = items.findIndex(item => item.id === entry.itemId);
+    if (entry.type === 'delete') {
+      if (position >= 0) {
+        errors.push(`${describe(entry.before, entry.itemId)} was added back after it was deleted`);
+        continue;
+      }
+      items.splice(Math.min(entry.index, items.length), 0, entry.before!);
+    } else if (!isUnchanged(items[position], entry.after)) {
+      errors.push(position < 0
+        ? `${describe(entry.after, entry.itemId)} was deleted after this change`
+        : `${describe(entry.after, entry.itemId)} was edited after this change`);
+    } else if (entry.type === 'add') {
+      items = items.filter((_, i) => i !== position);
+    } else {
+      items = items.map((item, i) => (i === position ? entry.before! : item));
+    }
+  }
+
+  return { lineItems: items, errors };
+}
+
+/**
+ * Put an undone revision's changes back, in their original order
+ */
+function reapplyEntries(lineItems: LineItem[], entries: ChatRevisionEntry[]): { lineItems: LineItem[]; errors: string[] } {
+  let items = [...lineItems];
+  const errors: string[] = [];
+
+  for (const entry of entries) {
+    const position = items.findIndex(item => item.id === entry.itemId);
+    if (entry.type === 'add') {
+      if (position >= 0) {
+        errors.push(`${describe(entry.after, entry.itemId)} already exists`);
+        continue;
+      }
+      items.splice(Math.min(entry.index, items.length), 0, entry.after!);
+    } else if (!isUnchanged(items[position], entry.before)) {
+      errors.push(position < 0
+        ? `${describe(entry.before, entry.itemId)} was deleted after this change was undone`
+        : `${describe(entry.before, entry.itemId)} was edited after this change was undone`);
+    } else if (entry.type === 'update') {
+      items = items.map((item, i) => (i === position ? entry.after! : item));
+    } else {
+      items = items.filter((_, i) => i !== position);
+    }
+  }
+
+  return { lineItems: items, errors };
+}
+
+/**
+ * Point revision entries at the IDs their items were saved under
+ */
+function remapEntries(entries: ChatRevisionEntry[], idMap: Map<string, string>): ChatRevisionEntry[] {
+  if (idMap.size === 0) return entries;
+  const remap = (item: LineItem | null) => (item?.id && idMap.has(item.id) ? { ...item, id: idMap.get(item.id) } : item);
+  return entries.map(entry => ({
+    ...entry,
+    itemId: idMap.get(entry.itemId) ?? entry.itemId,
+    before: remap(entry.before),
+    after: remap(entry.after),
+  }));
+}
+
+/**
+ * Save the line items of a revision step the way a workspace edit is saved:
+ * history attributed to chat, progress and automatic status
+ */
+async function saveRevisionStep(
+  bidPackageId: string,
+  lineItems: LineItem[],
+  user: UserPublic,
+  client: DbClient
+): Promise<{ lineItems: LineItem[]; idMap: Map<string, string> }> {
+  const saved = await syncBidPackageLineItems(bidPackageId, lineItems, client, getChangeContext(user, 'chat'));
+  await client.bidPackage.update({
+    where: { id: bidPackageId },
+    data: { progress: calculateApprovalPercentage(saved.lineItems) },
+  });
+  await applyAutomaticStatusTransition(bidPackageId, user, client);
+  return saved;
+}
+
+/**
+ * Apply the chosen changes of a chat message as one revision, then make the
+ * chosen moves. Every chosen change must still apply to the current line
+ * items (and every move have a target the user can edit), or none is applied.
+ */
+export async function applyChatChanges(
+  bidPackageId: string,
+  input: { messageId: string; changeIndexes: number[] },
+  user: UserPublic
+): Promise<ChatRevisionResult> {
+  return prisma.$transaction(async (tx): Promise<ChatRevisionResult> => {
+    const row = await tx.chatMessage.findFirst({
+      where: { id: input.messageId, thread: { bidPackageId } },
+    });
+    const message = row ? fromChatMessageRow(row) : null;
+    const proposedChanges = message?.proposedChanges ?? [];
+    const indexes = [...new Set(input.changeIndexes)].sort((a, b) => a - b);
+
+    const errors: ProposedChangeError[] = indexes
+      .filter(index => !proposedChanges[index])
+      .map(index => ({ index, message: 'The change was not found in the chat message' }));
+    for (const index of indexes) {
+      const status = message?.changeStatuses?.[index] ?? 'pending';
+      if (proposedChanges[index] && status !== 'pending') {
+        errors.push({ index, message: `The change was already ${status}` });
+      }
+    }
+    if (!message || indexes.length === 0) {
+      errors.push({ index: -1, message: 'No changes selected' });
+    }
+    if (errors.length > 0) return { ok: false, errors };
+
+    const current = await getBidPackageLineItems(bidPackageId, tx);
+    const applied = applyProposedChanges(current, indexes.map(index => ({ index, change: proposedChanges[index] })));
+    if (applied.errors.length > 0) return { ok: false, errors: applied.errors };
+
+    const moves = indexes.filter(index => proposedChanges[index].type === 'reallocate');
+    const revisionIndexes = indexes.filter(index => proposedChanges[index].type !== 'reallocate');
+
+    if (moves.length > 0) {
+      const source = await tx.bidPackage.findUniqueOrThrow({ where: { id: bidPackageId } });
+      for (const index of moves) {
+        const target = await tx.bidPackage.findFirst({
+          where: { id: proposedChanges[index].targetPackageId, bcProjectId: source.bcProjectId, NOT: { id: bidPackageId } },
+        });
+        if (!target) {
+          errors.push({ index, message: 'The target bid package is not another package of this project' });
+        } else if (!(await canAccessBidPackage(user, target, 'edit'))) {
+          errors.push({ index, message: `You cannot edit ${target.name}` });
+        }
+      }
+      if (errors.length > 0) return { ok: false, errors };
+    }
+
+    let lineItems = current;
+    if (revisionIndexes.length > 0) {
+      const saved = await saveRevisionStep(bidPackageId, applied.lineItems, user, tx);
+      lineItems = saved.lineItems;
+      const entries = remapEntries(applied.entries, saved.idMap);
+
+      // A new revision ends the redo history
+      await tx.chatRevision.updateMany({
+        where: { bidPackageId, status: 'undone' },
+        data: { status: 'discarded' },
+      });
+      await tx.chatRevision.create({
+        data: {
+          bidPackageId,
+          messageId: input.messageId,
+          changeIndexes: JSON.stringify(revisionIndexes),
+          entries: JSON.stringify(entries),
+          summary: summarizeChatRevision(entries),
+          userId: user.id,
+          userName: getUserDisplayName(user),
+        },
+      });
+    }
+
+    if (moves.length > 0) {
+      const changeContext = getChangeContext(user, 'chat');
+      for (const index of moves) {
+        const { itemId, targetPackageId } = proposedChanges[index];
+        await reallocateLineItem(
+          {
+            itemId: itemId!,
+            sourcePackageId: bidPackageId,
+            targetPackageId: targetPackageId!,
+            item: lineItems.find(item => item.id === itemId)!,
+          },
+          changeContext,
+          tx
+        );
+      }
+      lineItems = await getBidPackageLineItems(bidPackageId, tx);
+    }
+
+    const updatedMessage = await setChatMessageChangeStatuses(input.messageId, indexes, 'applied', tx);
+
+    return {
+      ok: true,
+      lineItems,
+      updatedMessages: updatedMessage ? [updatedMessage] : [],
+      revisions: await getChatRevisions(bidPackageId, tx),
+    };
+  });
+}
+
+/**
+ * Undo the latest `count` applied revisions, newest first, or redo the
+ * `count` most recently undone ones. Refused as a whole when any change
+ * would overwrite a later edit.
+ */
+export async function stepChatRevisions(
+  bidPackageId: string,
+  direction: 'undo' | 'redo',
+  count: number,
+  user: UserPublic
+): Promise<ChatRevisionResult> {
+  return prisma.$transaction(async (tx): Promise<ChatRevisionResult> => {
+    const rows = await tx.chatRevision.findMany({
+      where: { bidPackageId, status: direction === 'undo' ? 'applied' : 'undone' },
+      // Undo walks back from the newest revision; redo forward from the oldest undone one
+      orderBy: { createdAt: direction === 'undo' ? 'desc' : 'asc' },
+      take: count,
+    });
+    if (rows.length === 0) {
+      return { ok: false, errors: [{ index: -1, message: direction === 'undo' ? 'Nothing to undo' : 'Nothing to redo' }] };
+    }
+
+    let items = await getBidPackageLineItems(bidPackageId, tx);
+    const errors: ProposedChangeError[] = [];
+
+    for (const row of rows) {
+      const revision = fromChatRevisionRow(row);
+      const result = direction === 'undo'
+        ? revertEntries(items, revision.entries)
+        : reapplyEntries(items, revision.entries);
+      errors.push(...result.errors.map(message => ({ index: -1, message: `${revision.summary}: ${message}` })));
+      items = result.lineItems;
+    }
+    if (errors.length > 0) return { ok: false, errors };
+
+    const { lineItems, idMap } = await saveRevisionStep(bidPackageId, items, user, tx);
+
+    // Items put back under a new ID keep being found by later undo and redo
+    if (idMap.size > 0) {
+      for (const row of rows) {
+        await tx.chatRevision.update({
+          where: { id: row.id },
+          data: { entries: JSON.stringify(remapEntries(fromChatRevisionRow(row).entries, idMap)) },
+        });
+      }
+    }
+
+    // Messages from deleted threads are skipped; the last update of a message wins
+    const updatedMessages = new Map<string, ChatMessage>();
+    for (const row of rows) {
+      const revision = fromChatRevisionRow(row);
+      const message = await setChatMessageChangeStatuses(
+        revision.messageId,
+        revision.changeIndexes,
+        direction === 'undo' ? 'undone' : 'applied',
+        tx
+      );
+      if (message) updatedMessages.set(message.id, message);
+    }
+    await tx.chatRevision.updateMany({
+      where: { id: { in: rows.map(row => row.id) } },
+      data: direction === 'undo'
+        ? { status: 'undone', undoneAt: new Date() }
+        : { status: 'applied', undoneAt: null },
+    });
+
+    return {
+      ok: true,
+      lineItems,
+      updatedMessages: [...updatedMessages.values()],
+      revisions: await getChatRevisions(bidPackageId, tx),
+    };
+  });
+}
@@ -0,0 +1,361 @@
+/**
+ * Chat Threads
+ * Bid package chat conversations stored as ChatThread/ChatMessage rows.
+ * The assistant gets the latest messages of a thread verbatim; older ones
+ * are folded into a running summary on the thread so long conversations do
+ * not resend their whole history. Chat kept in BidPackage.workspaceData by
+ * earlier versions is moved into a thread the first time threads are read.
+ */
+
+import { Prisma, ChatMessage as ChatMessageRow, ChatThread as ChatThreadRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { completeExtraction } from '@/lib/extraction-provider';
+import { parseWorkspaceData } from '@/lib/line-item-utils';
+import {
+  ChatMessage,
+  ChatThread,
+  ChatThreadSearchResult,
+  ChatToolCall,
+  ProposedChange,
+  ProposedChangeStatus,
+} from '@/types/chat';
+import { UserPublic, getUserDisplayName } from '@/types/user';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Messages sent to the assistant verbatim; older ones are summarized
+const CHAT_HISTORY_WINDOW = 12;
+// Messages left outside the window before they are folded into the summary
+const SUMMARY_BATCH = 10;
+const SEARCH_MATCHES_PER_THREAD = 3;
+const SNIPPET_RADIUS = 60;
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+const LEGACY_THREAD_TITLE = 'Earlier conversation';
+
+type ChatThreadRowWithStats = ChatThreadRow & {
+  _count?: { messages: number };
+  messages?: ChatMessageRow[];
+};
+
+const chatThreadStatsInclude = {
+  _count: { select: { messages: true } },
+  messages: { orderBy: { createdAt: 'desc' }, take: 1 },
+} satisfies Prisma.ChatThreadInclude;
+
+function parseJson<T>(value: string | null): T | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('Failed to parse chat message JSON:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Convert a ChatMessage row into the shape the chat panel uses
+ */
+export function fromChatMessageRow(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    threadId: row.threadId,
+    role: row.role as ChatMessage['role'],
+    content: row.content,
+    timestamp: row.createdAt.getTime(),
+    userName: row.userName,
+    proposedChanges: parseJson<ProposedChange[]>(row.proposedChanges),
+    changeStatuses: parseJson<ProposedChangeStatus[]>(row.changeStatuses),
+    toolCalls: parseJson<ChatToolCall[]>(row.toolCalls),
+  };
+}
+
+/**
+ * Convert a ChatThread row (with message count and latest message) into the API shape
+ */
+export function fromChatThreadRow(row: ChatThreadRowWithStats): ChatThread {
+  return {
+    id: row.id,
+    bidPackageId: row.bidPackageId,
+    title: row.title,
+    createdByName: row.createdByName,
+    messageCount: row._count?.messages ?? 0,
+    lastMessage: row.messages?.[0]?.content.slice(0, 120) ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Thread title from the first message: its first line, shortened
+ */
+export function getThreadTitle(message: string): string {
+  const firstLine = message.trim().split('\n')[0].trim();
+  if (!firstLine) return DEFAULT_THREAD_TITLE;
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57).trimEnd()}...` : firstLine;
+}
+
+/**
+ * Move chat history kept in workspaceData into a thread, once. Message IDs
+ * are kept so chat revisions still point at their messages. Only the chat
+ * is taken out of the JSON: line items not yet moved by
+ * scripts/migrate-workspace-line-items.ts stay where the script finds them.
+ */
+async function importLegacyChatMessages(bidPackageId: string): Promise<void> {
+  const bidPackage = await prisma.bidPackage.findUnique({
+    where: { id: bidPackageId },
+    select: { workspaceData: true },
+  });
+  if (!bidPackage?.workspaceData) return;
+
+  // Unreadable JSON is left for someone to look at rather than dropped
+  const { chatMessages, data } = parseWorkspaceData(bidPackage.workspaceData);
+  if (!data || !('chatMessages' in data)) return;
+
+  const rest = { ...data };
+  delete rest.chatMessages;
+
+  await prisma.$transaction(async (tx) => {
+    // Claim the import: a request reading threads at the same time changes
+    // workspaceData first (or waits for this one) and then finds nothing to do
+    const { count } = await tx.bidPackage.updateMany({
+      where: { id: bidPackageId, workspaceData: bidPackage.workspaceData },
+      data: { workspaceData: Object.keys(rest).length > 0 ? JSON.stringify(rest) : null },
+    });
+    if (count === 0 || chatMessages.length === 0) return;
+
+    const thread = await tx.chatThread.create({
+      data: {
+        bidPackageId,
+        title: LEGACY_THREAD_TITLE,
+        createdAt: new Date(chatMessages[0].timestamp || Date.now()),
+      },
+    });
+    await tx.chatMessage.createMany({
+      data: chatMessages.map(message => ({
+        id: message.id,
+        threadId: thread.id,
+        role: message.role,
+        content: message.content,
+        proposedChanges: message.proposedChanges ? JSON.stringify(message.proposedChanges) : null,
+        changeStatuses: message.changeStatuses ? JSON.stringify(message.changeStatuses) : null,
+        createdAt: new Date(message.timestamp || Date.now()),
+      })),
+      skipDuplicates: true,
+    });
+  });
+}
+
+/**
+ * Threads of a bid package, most recently active first
+ */
+export async function getChatThreads(bidPackageId: string): Promise<ChatThread[]> {
+  await importLegacyChatMessages(bidPackageId);
+
+  const rows = await prisma.chatThread.findMany({
+    where: { bidPackageId },
+    include: chatThreadStatsInclude,
+    orderBy: { updatedAt: 'desc' },
+  });
+  return rows.map(fromChatThreadRow);
+}
+
+const getSnippet = (content: string, query: string) => {
+  const position = content.toLowerCase().indexOf(query.toLowerCase());
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(content.length, Math.max(position, 0) + query.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${content.slice(start, end).replace(/\s+/g, ' ').trim()}${end < content.length ? '...' : ''}`;
+};
+
+/**
+ * Threads whose title or messages contain the query, with the matching messages
+ */
+export async function searchChatThreads(bidPackageId: string, query: string): Promise<ChatThreadSearchResult[]> {
+  await importLegacyChatMessages(bidPackageId);
+
+  const contains = { contains: query, mode: 'insensitive' as const };
+  const rows = await prisma.chatThread.findMany({
+    where: {
+      bidPackageId,
+      OR: [{ title: contains }, { messages: { some: { content: contains } } }],
+    },
+    include: chatThreadStatsInclude,
+    orderBy: { updatedAt: 'desc' },
+  });
+  if (rows.length === 0) return [];
+
+  const matches = await prisma.chatMessage.findMany({
+    where: { threadId: { in: rows.map(row => row.id) }, content: contains },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return rows.map(row => ({
+    ...fromChatThreadRow(row),
+    matches: matches
+      .filter(message => message.threadId === row.id)
+      .slice(0, SEARCH_MATCHES_PER_THREAD)
+      .map(message => ({
+        messageId: message.id,
+        role: message.role as ChatMessage['role'],
+        userName: message.userName,
+        snippet: getSnippet(message.content, query),
+        timestamp: message.createdAt.getTime(),
+      })),
+  }));
+}
+
+/**
+ * A thread of the bid package with all its messages, or null
+ */
+export async function getChatThread(
+  bidPackageId: string,
+  threadId: string
+): Promise<{ thread: ChatThread; messages: ChatMessage[] } | null> {
+  const row = await prisma.chatThread.findFirst({
+    where: { id: threadId, bidPackageId },
+    include: { _count: { select: { messages: true } } },
+  });
+  if (!row) return null;
+
+  const messages = await prisma.chatMessage.findMany({
+    where: { threadId },
+    orderBy: { createdAt: 'asc' },
+  });
+  const lastMessage = messages[messages.length - 1];
+
+  return {
+    thread: fromChatThreadRow({ ...row, messages: lastMessage ? [lastMessage] : [] }),
+    messages: messages.map(fromChatMessageRow),
+  };
+}
+
+export async function createChatThread(bidPackageId: string, title: string, user: UserPublic | null): Promise<ChatThread> {
+  const row = await prisma.chatThread.create({
+    data: {
+      bidPackageId,
+      title: title.trim() || DEFAULT_THREAD_TITLE,
+      createdById: user?.id ?? null,
+      createdByName: user ? getUserDisplayName(user) : null,
+    },
+    include: chatThreadStatsInclude,
+  });
+  return fromChatThreadRow(row);
+}
+
+/**
+ * Append a message to a thread. User messages record their author;
+ * assistant messages the tools called to answer.
+ */
+export async function addChatMessage(
+  threadId: string,
+  message: { role: ChatMessage['role']; content: string; proposedChanges?: ProposedChange[]; toolCalls?: ChatToolCall[] },
+  user: UserPublic | null = null
+): Promise<ChatMessage> {
+  const [row] = await prisma.$transaction([
+    prisma.chatMessage.create({
+      data: {
+        threadId,
+        role: message.role,
+        content: message.content,
+        proposedChanges: message.proposedChanges?.length ? JSON.stringify(message.proposedChanges) : null,
+        toolCalls: message.toolCalls?.length ? JSON.stringify(message.toolCalls) : null,
+        userId: message.role === 'user' ? user?.id ?? null : null,
+        userName: message.role === 'user' && user ? getUserDisplayName(user) : null,
+      },
+    }),
+    // Keeps the thread list ordered by activity
+    prisma.chatThread.update({ where: { id: threadId }, data: { updatedAt: new Date() } }),
+  ]);
+  return fromChatMessageRow(row);
+}
+
+/**
+ * Set the status of some proposed changes of a message. Returns the updated
+ * message, or null when it no longer exists.
+ */
+export async function setChatMessageChangeStatuses(
+  messageId: string,
+  indexes: number[],
+  status: ProposedChangeStatus,
+  client: DbClient = prisma
+): Promise<ChatMessage | null> {
+  const row = await client.chatMessage.findUnique({ where: { id: messageId } });
+  if (!row) return null;
+
+  const message = fromChatMessageRow(row);
+  const statuses = (message.proposedChanges || []).map((_, i) => message.changeStatuses?.[i] ?? 'pending');
+  for (const index of indexes) {
+    if (index >= 0 && index < statuses.length) statuses[index] = status;
+  }
+
+  const updated = await client.chatMessage.update({
+    where: { id: messageId },
+    data: { changeStatuses: JSON.stringify(statuses) },
+  });
+  return fromChatMessageRow(updated);
+}
+
+const formatForSummary = (messages: ChatMessageRow[]) =>
+  messages
+    .map(message => `${message.role === 'user' ? message.userName || 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+/**
+ * Fold messages that left the history window into the thread summary
+ */
+async function summarizeChatMessages(previousSummary: string | null, messages: ChatMessageRow[]): Promise<string> {
+  const prompt = `Summarize this conversation between a preconstruction estimator and an AI assistant about a bid form's line items, for the assistant to use as context later.
+
+Keep: decisions made, changes confirmed or rejected, line item IDs, descriptions and quantities discussed, and questions still open. Leave out pleasantries. Write at most 200 words of plain text.
+
+${previousSummary ? `Summary of the conversation before these messages:\n${previousSummary}\n\n` : ''}Messages:
+${formatForSummary(messages)}`;
+
+  const { text } = await completeExtraction({
+    task: 'chat_summary',
+    messages: [{ role: 'user', content: prompt }],
+  });
+  return text.trim();
+}
+
+/**
+ * What the assistant is given of a thread: a summary of the older messages
+ * and the messages after it verbatim (at least the latest CHAT_HISTORY_WINDOW).
+ * Summarizing happens in batches; when it fails the messages before the
+ * window are left out rather than failing the chat.
+ */
+export async function getChatHistoryWindow(threadId: string): Promise<{ summary: string | null; messages: ChatMessage[] }> {
+  const thread = await prisma.chatThread.findUniqueOrThrow({ where: { id: threadId } });
+  const total = await prisma.chatMessage.count({ where: { threadId } });
+
+  let summary = thread.summary;
+  let verbatimStart = thread.summarizedCount;
+  const windowStart = Math.max(0, total - CHAT_HISTORY_WINDOW);
+
+  if (windowStart - thread.summarizedCount >= SUMMARY_BATCH) {
+    const older = await prisma.chatMessage.findMany({
+      where: { threadId },
+      orderBy: { createdAt: 'asc' },
+      skip: thread.summarizedCount,
+      take: windowStart - thread.summarizedCount,
+    });
+    try {
+      summary = await summarizeChatMessages(summary, older);
+      await prisma.chatThread.update({
+        where: { id: threadId },
+        data: { summary, summarizedCount: windowStart },
+      });
+    } catch (error) {
+      console.error('Error summarizing chat thread:', error);
+    }
+    verbatimStart = windowStart;
+  }
+
+  const recent = await prisma.chatMessage.findMany({
+    where: { threadId },
+    orderBy: { createdAt: 'asc' },
+    skip: verbatimStart,
+  });
+
+  return { summary, messages: recent.map(fromChatMessageRow) };
+}
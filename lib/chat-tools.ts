@@ -0,0 +1,382 @@
+/**
+ * Chat Tools
+ * Server-side tools the package chat assistant can call while answering:
+ * CSI MasterFormat lookup, the package's drawings and their pages, scope
+ * duplicated in sibling bid packages, and proposing to move a line item to
+ * a sibling package. Every call and its result is returned so the chat
+ * panel can show what the assistant looked at. Proposed moves are not
+ * applied here; they come back as 'reallocate' changes for the user to accept.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { searchCSICodes, getBreadcrumb, getCodeByCode } from '@/lib/csi/csiLookup';
+import { completeExtraction } from '@/lib/extraction-provider';
+import { getDiagramSchedules } from '@/lib/diagram-schedules';
+import { parseSheetIds } from '@/lib/diagram-sheets';
+import { readUploadedFile } from '@/lib/file-utils';
+import { getBidPackageLineItems } from '@/lib/line-item-utils';
+import { extractPDFPageTextItems, isPDFFile } from '@/lib/pdf-utils';
+import { canAccessBidPackage } from '@/lib/route-guard';
+import { groupTextLines } from '@/lib/text-layer';
+import { descriptionSimilarity } from '@/lib/text-similarity';
+import { LineItem } from '@/components/BidFormTable';
+import { ChatToolCall, ProposedChange } from '@/types/chat';
+import { ExtractionMessage, ExtractionTool } from '@/types/extractionProvider';
+import { UserPublic } from '@/types/user';
+
+// Model turns that may call tools before the assistant must answer
+const MAX_TOOL_ROUNDS = 6;
+// Longest tool result given to the assistant, in characters
+const MAX_RESULT_LENGTH = 8000;
+const MAX_CSI_RESULTS = 10;
+// Items described this alike (word overlap) count as the same scope
+const DUPLICATE_SIMILARITY = 0.6;
+// ...or less alike when they share a CSI code
+const DUPLICATE_SIMILARITY_SAME_CSI = 0.3;
+
+export interface ChatToolContext {
+  bidPackageId: string;
+  user: UserPublic;
+}
+
+export interface ChatToolRun {
+  text: string;
+  toolCalls: ChatToolCall[];
+  proposedChanges: ProposedChange[]; // Reallocations proposed through propose_reallocation
+}
+
+class ChatToolError extends Error {}
+
+export const CHAT_TOOLS: ExtractionTool[] = [
+  {
+    name: 'search_csi_codes',
+    description: 'Search CSI MasterFormat codes by number or keyword. Returns matching codes with their titles and breadcrumb.',
+    inputSchema: {
+      properties: {
+        query: { type: 'string', description: 'Code number (e.g. "09 29") or keywords (e.g. "gypsum board")' },
+        limit: { type: 'integer', description: `Maximum results, up to ${MAX_CSI_RESULTS}` },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_csi_breadcrumb',
+    description: 'Get the title and the division-to-section path of one CSI MasterFormat code.',
+    inputSchema: {
+      properties: {
+        code: { type: 'string', description: 'CSI code, e.g. "09 29 00"' },
+      },
+      required: ['code'],
+    },
+  },
+  {
+    name: 'list_package_drawings',
+    description: "List the drawings attached to this bid package, with their page count and the sheets the package covers.",
+    inputSchema: { properties: {} },
+  },
+  {
+    name: 'read_drawing_page',
+    description: "Read one page of a drawing attached to this bid package: its sheet number and title, the text on the page (PDF drawings) and the schedules found on it.",
+    inputSchema: {
+      properties: {
+        diagramId: { type: 'string', description: 'Drawing ID from list_package_drawings' },
+        pageNumber: { type: 'integer', description: 'Page number, starting at 1' },
+      },
+      required: ['diagramId', 'pageNumber'],
+    },
+  },
+  {
+    name: 'find_duplicate_scope',
+    description: "Compare this package's line items with the other bid packages of the project and list items that look like the same scope. Also lists those packages.",
+    inputSchema: {
+      properties: {
+        itemIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: "Only check these line items of this package (default: all)",
+        },
+      },
+    },
+  },
+  {
+    name: 'propose_reallocation',
+    description: 'Propose moving a line item of this package to another bid package of the same project. The user accepts or rejects the move; it is not applied by this tool.',
+    inputSchema: {
+      properties: {
+        itemId: { type: 'string', description: 'ID of the line item in this package' },
+        targetPackageId: { type: 'string', description: 'ID of the bid package to move it to' },
+        reason: { type: 'string', description: 'Why the item belongs to the other package' },
+      },
+      required: ['itemId', 'targetPackageId', 'reason'],
+    },
+  },
+];
+
+const getString = (input: Record<string, unknown>, key: string, required = true): string => {
+  const value = input[key];
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (required) throw new ChatToolError(`"${key}" is required`);
+  return '';
+};
+
+function parseDiagramIds(diagramIds: string | null): string[] {
+  if (!diagramIds) return [];
+  try {
+    const parsed = JSON.parse(diagramIds);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to parse bid package diagramIds:', error);
+    return [];
+  }
+}
+
+async function getPackage(bidPackageId: string) {
+  const bidPackage = await prisma.bidPackage.findUnique({
+    where: { id: bidPackageId },
+    select: { id: true, name: true, bcProjectId: true, captainId: true, diagramIds: true, sheetIds: true },
+  });
+  if (!bidPackage) throw new ChatToolError('The bid package no longer exists');
+  return bidPackage;
+}
+
+/**
+ * Drawings of the package: those it lists plus those of the sheets it covers
+ */
+async function getPackageDrawings(bidPackageId: string) {
+  const bidPackage = await getPackage(bidPackageId);
+  const sheets = await prisma.diagramSheet.findMany({
+    where: { id: { in: parseSheetIds(bidPackage.sheetIds) }, diagram: { bcProjectId: bidPackage.bcProjectId } },
+    orderBy: [{ sheetNumber: 'asc' }, { pageNumber: 'asc' }],
+  });
+  const diagramIds = Array.from(new Set([...parseDiagramIds(bidPackage.diagramIds), ...sheets.map(sheet => sheet.diagramId)]));
+  const diagrams = diagramIds.length > 0
+    ? await prisma.diagram.findMany({
+        where: { id: { in: diagramIds } },
+        select: { id: true, fileName: true, fileUrl: true, fileType: true, category: true, pageCount: true },
+        orderBy: { fileName: 'asc' },
+      })
+    : [];
+  return { diagrams, sheets };
+}
+
+/**
+ * Other bid packages of the project the user can see
+ */
+async function getSiblingPackages(bidPackageId: string, user: UserPublic) {
+  const bidPackage = await getPackage(bidPackageId);
+  const siblings = await prisma.bidPackage.findMany({
+    where: { bcProjectId: bidPackage.bcProjectId, id: { not: bidPackageId } },
+    select: { id: true, name: true, bcProjectId: true, captainId: true, status: true },
+    orderBy: { name: 'asc' },
+  });
+  const visible = [];
+  for (const sibling of siblings) {
+    if (await canAccessBidPackage(user, sibling, 'view')) visible.push(sibling);
+  }
+  return visible;
+}
+
+const summarizeItem = (item: LineItem) => ({
+  id: item.id,
+  item_number: item.item_number ?? null,
+  description: item.description,
+  quantity: item.quantity ?? null,
+  unit: item.unit ?? null,
+  csiCode: item.csiCode ?? null,
+});
+
+const sameCSICode = (a: LineItem, b: LineItem) =>
+  !!a.csiCode && !!b.csiCode && a.csiCode.replace(/\s+/g, '') === b.csiCode.replace(/\s+/g, '');
+
+async function searchCSI(input: Record<string, unknown>) {
+  const query = getString(input, 'query');
+  const limit = Math.min(Math.max(Number(input.limit) || MAX_CSI_RESULTS, 1), MAX_CSI_RESULTS);
+  return searchCSICodes({ query, limit }).map(result => ({
+    code: result.code.code,
+    title: result.code.title,
+    breadcrumb: result.breadcrumb,
+  }));
+}
+
+async function getCSIBreadcrumb(input: Record<string, unknown>) {
+  const code = getString(input, 'code');
+  const csiCode = getCodeByCode(code);
+  if (!csiCode) throw new ChatToolError(`No CSI code "${code}"`);
+  return { code: csiCode.code, title: csiCode.title, breadcrumb: getBreadcrumb(code) };
+}
+
+async function listPackageDrawings(context: ChatToolContext) {
+  const { diagrams, sheets } = await getPackageDrawings(context.bidPackageId);
+  return diagrams.map(diagram => ({
+    diagramId: diagram.id,
+    fileName: diagram.fileName,
+    category: diagram.category,
+    pageCount: diagram.pageCount,
+    packageSheets: sheets
+      .filter(sheet => sheet.diagramId === diagram.id)
+      .map(sheet => ({ pageNumber: sheet.pageNumber, sheetNumber: sheet.sheetNumber, title: sheet.title })),
+  }));
+}
+
+async function readDrawingPage(input: Record<string, unknown>, context: ChatToolContext) {
+  const diagramId = getString(input, 'diagramId');
+  const pageNumber = Number(input.pageNumber);
+  if (!Number.isInteger(pageNumber) || pageNumber < 1) throw new ChatToolError('"pageNumber" must be a page number starting at 1');
+
+  const { diagrams } = await getPackageDrawings(context.bidPackageId);
+  const diagram = diagrams.find(candidate => candidate.id === diagramId);
+  if (!diagram) throw new ChatToolError(`Drawing ${diagramId} is not attached to this bid package`);
+
+  const sheet = await prisma.diagramSheet.findUnique({
+    where: { diagramId_pageNumber: { diagramId, pageNumber } },
+  });
+  const schedules = (await getDiagramSchedules(diagramId)).filter(schedule => schedule.pageNumber === pageNumber);
+
+  // Raster drawings have no text to read; their schedules and sheet info still help
+  let text: string | null = null;
+  if (isPDFFile(diagram.fileName)) {
+    const page = await extractPDFPageTextItems(await readUploadedFile(diagram.fileUrl), pageNumber);
+    if (!page) throw new ChatToolError(`${diagram.fileName} has no page ${pageNumber}`);
+    text = groupTextLines(page.items).map(line => line.map(item => item.text).join(' ')).join('\n');
+  }
+
+  return {
+    fileName: diagram.fileName,
+    pageNumber,
+    sheetNumber: sheet?.sheetNumber ?? null,
+    title: sheet?.title ?? null,
+    text,
+    schedules: schedules.map(schedule => ({
+      kind: schedule.kind,
+      title: schedule.title,
+      columns: schedule.columns,
+      rows: schedule.rows,
+    })),
+  };
+}
+
+async function findDuplicateScope(input: Record<string, unknown>, context: ChatToolContext) {
+  const itemIds = Array.isArray(input.itemIds) ? input.itemIds.filter((id): id is string => typeof id === 'string') : [];
+  const packageItems = (await getBidPackageLineItems(context.bidPackageId))
+    .filter(item => itemIds.length === 0 || (item.id && itemIds.includes(item.id)));
+  const siblings = await getSiblingPackages(context.bidPackageId, context.user);
+
+  const duplicates = [];
+  for (const sibling of siblings) {
+    const siblingItems = await getBidPackageLineItems(sibling.id);
+    for (const item of packageItems) {
+      for (const other of siblingItems) {
+        const similarity = descriptionSimilarity(item.description, other.description);
+        const threshold = sameCSICode(item, other) ? DUPLICATE_SIMILARITY_SAME_CSI : DUPLICATE_SIMILARITY;
+        if (similarity < threshold) continue;
+        duplicates.push({
+          item: summarizeItem(item),
+          otherPackage: { id: sibling.id, name: sibling.name },
+          otherItem: summarizeItem(other),
+          similarity: Math.round(similarity * 100) / 100,
+        });
+      }
+    }
+  }
+
+  return {
+    siblingPackages: siblings.map(sibling => ({ id: sibling.id, name: sibling.name, status: sibling.status })),
+    duplicates,
+  };
+}
+
+async function proposeReallocation(input: Record<string, unknown>, context: ChatToolContext, proposed: ProposedChange[]) {
+  const itemId = getString(input, 'itemId');
+  const targetPackageId = getString(input, 'targetPackageId');
+  const reason = getString(input, 'reason', false);
+
+  const items = await getBidPackageLineItems(context.bidPackageId);
+  const item = items.find(candidate => candidate.id === itemId);
+  if (!item) throw new ChatToolError(`Item ${itemId} is not in this bid package`);
+
+  const target = (await getSiblingPackages(context.bidPackageId, context.user))
+    .find(sibling => sibling.id === targetPackageId);
+  if (!target) throw new ChatToolError(`Bid package ${targetPackageId} is not another package of this project`);
+  if (proposed.some(change => change.itemId === itemId)) throw new ChatToolError(`A move of item ${itemId} is already proposed`);
+
+  proposed.push({ type: 'reallocate', itemId, targetPackageId, targetPackageName: target.name, reason });
+  return { proposed: true, item: summarizeItem(item), targetPackage: { id: target.id, name: target.name } };
+}
+
+/**
+ * Run one tool call. Returns the result as given to the assistant.
+ */
+async function runChatTool(
+  name: string,
+  input: Record<string, unknown>,
+  context: ChatToolContext,
+  proposed: ProposedChange[]
+): Promise<unknown> {
+  switch (name) {
+    case 'search_csi_codes':
+      return searchCSI(input);
+    case 'get_csi_breadcrumb':
+      return getCSIBreadcrumb(input);
+    case 'list_package_drawings':
+      return listPackageDrawings(context);
+    case 'read_drawing_page':
+      return readDrawingPage(input, context);
+    case 'find_duplicate_scope':
+      return findDuplicateScope(input, context);
+    case 'propose_reallocation':
+      return proposeReallocation(input, context, proposed);
+    default:
+      throw new ChatToolError(`Unknown tool "${name}"`);
+  }
+}
+
+const truncate = (value: string) =>
+  value.length > MAX_RESULT_LENGTH ? `${value.slice(0, MAX_RESULT_LENGTH)}\n...[truncated]` : value;
+
+/**
+ * Chat with the package tools available: each round the tools the assistant
+ * asks for are run and their results sent back, until it answers or runs
+ * out of rounds (on the last round tools may not be called, so it has to
+ * answer; they are still sent, as the conversation holds their calls).
+ */
+export async function runChatWithTools(messages: ExtractionMessage[], context: ChatToolContext): Promise<ChatToolRun> {
+  const conversation = [...messages];
+  const toolCalls: ChatToolCall[] = [];
+  const proposedChanges: ProposedChange[] = [];
+
+  for (let round = 1; ; round++) {
+    const response = await completeExtraction({
+      task: 'chat',
+      messages: conversation,
+      tools: CHAT_TOOLS,
+      ...(round >= MAX_TOOL_ROUNDS && { toolChoice: { type: 'none' as const } }),
+    });
+    if (!response.toolCalls?.length || round >= MAX_TOOL_ROUNDS) {
+      return { text: response.text, toolCalls, proposedChanges };
+    }
+
+    conversation.push({
+      role: 'assistant',
+      content: [
+        ...(response.text ? [{ type: 'text' as const, text: response.text }] : []),
+        ...response.toolCalls.map(call => ({ type: 'tool_use' as const, ...call })),
+      ],
+    });
+
+    const results = [];
+    for (const call of response.toolCalls) {
+      let result: string;
+      let isError = false;
+      try {
+        result = truncate(JSON.stringify(await runChatTool(call.name, call.input, context, proposedChanges)));
+      } catch (error) {
+        if (!(error instanceof ChatToolError)) console.error(`Error running chat tool ${call.name}:`, error);
+        result = error instanceof ChatToolError ? error.message : `The ${call.name} tool failed`;
+        isError = true;
+      }
+      toolCalls.push({ id: call.id, name: call.name, input: call.input, result, ...(isError && { isError }) });
+      results.push({ type: 'tool_result' as const, toolUseId: call.id, content: result, ...(isError && { isError }) });
+    }
+    conversation.push({ role: 'user', content: results });
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Cost Library Utilities
+ * Captures observed unit prices from completed bid packages, imports legacy
+ * cost data, and suggests unit price ranges for CSI code / unit pairs
+ */
+
+import { Prisma, CostRecord as CostRecordRow } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import { prisma } from '@/lib/prisma';
+import { roundCurrency } from '@/lib/cost-rollup';
+import {
+  CostImportResult,
+  CostRecord,
+  CostRecordSource,
+  PriceSuggestion,
+  PriceSuggestionRequestItem,
+  PriceSuggestionScope,
+} from '@/types/costLibrary';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// A narrower match (same region / sector) is only used once it has this many points
+export const MIN_SCOPED_DATA_POINTS = 3;
+
+// Lump sum prices are project-specific, so they are not kept as unit prices
+const EXCLUDED_UNITS = ['LS'];
+
+// Common spellings of units, mapped to the abbreviation stored in the library
+const UNIT_ALIASES: Record<string, string> = {
+  'SQFT': 'SF', 'SQ FT': 'SF', 'FT2': 'SF', 'SQUARE FEET': 'SF',
+  'LNFT': 'LF', 'LIN FT': 'LF', 'LINEAR FEET': 'LF',
+  'SQYD': 'SY', 'SQ YD': 'SY', 'YD2': 'SY',
+  'CUYD': 'CY', 'CU YD': 'CY', 'YD3': 'CY', 'CUBIC YARDS': 'CY',
+  'EACH': 'EA', 'PC': 'EA', 'PCS': 'EA',
+  'LUMP SUM': 'LS', 'LUMP': 'LS', 'LSUM': 'LS',
+  'HOUR': 'HR', 'HOURS': 'HR', 'HRS': 'HR',
+  'TONS': 'TON', 'TN': 'TON',
+  'GALLON': 'GAL', 'GALLONS': 'GAL',
+};
+
+// Import column headers (lowercased, non-alphanumerics removed) for each field
+const IMPORT_COLUMNS = {
+  csiCode: ['csicode', 'csi', 'code', 'costcode'],
+  unit: ['unit', 'uom', 'units'],
+  unitPrice: ['unitprice', 'price', 'unitcost', 'rate'],
+  quantity: ['quantity', 'qty'],
+  description: ['description', 'item', 'desc'],
+  projectName: ['project', 'projectname'],
+  region: ['region', 'state'],
+  marketSector: ['marketsector', 'sector', 'market'],
+  observedAt: ['date', 'observedat', 'biddate', 'year'],
+} as const;
+
+type ImportField = keyof typeof IMPORT_COLUMNS;
+
+/**
+ * Normalize a CSI code to "DD SS SS" form ("033000", "03-30-00" → "03 30 00")
+ * Returns null if the value has no division
+ */
+export function normalizeCsiCode(value: string | null | undefined): string | null {
+  const digits = (value || '').replace(/\D/g, '').slice(0, 6);
+  if (digits.length < 2) return null;
+  const padded = digits.padEnd(6, '0');
+  return `${padded.slice(0, 2)} ${padded.slice(2, 4)} ${padded.slice(4, 6)}`;
+}
+
+/**
+ * Normalize a unit of measure ("sq ft", "S.F." → "SF")
+ * Returns null for empty units
+ */
+export function normalizeUnit(value: string | null | undefined): string | null {
+  const unit = (value || '').toUpperCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  if (!unit) return null;
+  return UNIT_ALIASES[unit] || unit.replace(/ /g, '');
+}
+
+function getCostKey(csiCode: string, unit: string): string {
+  return `${csiCode}|${unit}`;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Unit price of a priced item: the unit price, or the total spread over the quantity
+ */
+function getObservedUnitPrice(
+  unitPrice: number | null,
+  totalPrice: number | null,
+  quantity: number | null
+): number | null {
+  if (unitPrice !== null && unitPrice > 0) return unitPrice;
+  if (totalPrice !== null && totalPrice > 0 && quantity !== null && quantity > 0) {
+    return roundCurrency(totalPrice / quantity);
+  }
+  return null;
+}
+
+/**
+ * Value at a percentile (0-1) of a sorted list, interpolating between points
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Convert a CostRecord row to the API shape
+ */
+export function fromCostRecordRow(row: CostRecordRow): CostRecord {
+  return {
+    id: row.id,
+    csiCode: row.csiCode,
+    unit: row.unit,
+    unitPrice: row.unitPrice,
+    quantity: row.quantity,
+    description: row.description,
+    source: row.source as CostRecordSource,
+    projectId: row.projectId,
+    projectName: row.projectName,
+    bidPackageId: row.bidPackageId,
+    region: row.region,
+    marketSector: row.marketSector,
+    observedAt: row.observedAt,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Record the unit prices of a completed bid package in the cost library,
+ * replacing anything captured from it before. Prices come from the
+ * recommended bid where it priced the item, otherwise from the estimate.
+ * Returns the number of records captured.
+ */
+export async function captureCompletedPackageCosts(
+  bidPackageId: string,
+  client: DbClient = prisma
+): Promise<number> {
+  const bidPackage = await client.bidPackage.findUnique({
+    where: { id: bidPackageId },
+    include: {
+      project: { select: { id: true, name: true, state: true, marketSector: true } },
+      bidForms: { include: { lineItems: true } },
+      subcontractorBids: { where: { isRecommended: true }, include: { items: true } },
+    },
+  });
+  if (!bidPackage) return 0;
+
+  const recommendedBid = bidPackage.subcontractorBids[0];
+  const bidItems = new Map((recommendedBid?.items || []).map(item => [item.lineItemId, item]));
+  const observedAt = recommendedBid?.receivedAt ?? new Date();
+
+  const records: Prisma.CostRecordCreateManyInput[] = [];
+  for (const lineItem of bidPackage.bidForms.flatMap(form => form.lineItems)) {
+    const csiCode = normalizeCsiCode(lineItem.csiCode);
+    const unit = normalizeUnit(lineItem.unit);
+    if (!csiCode || !unit || EXCLUDED_UNITS.includes(unit)) continue;
+
+    const bidItem = bidItems.get(lineItem.id);
+    const unitPrice =
+      (bidItem?.included && getObservedUnitPrice(bidItem.unitPrice, bidItem.totalPrice, lineItem.quantity)) ||
+      getObservedUnitPrice(lineItem.unitPrice, lineItem.totalPrice, lineItem.quantity);
+    if (!unitPrice) continue;
+
+    records.push({
+      csiCode,
+      unit,
+      unitPrice,
+      quantity: lineItem.quantity,
+      description: lineItem.description,
+      source: 'package',
+      projectId: bidPackage.project.id,
+      projectName: bidPackage.project.name,
+      bidPackageId,
+      lineItemId: lineItem.id,
+      region: bidPackage.project.state,
+      marketSector: bidPackage.project.marketSector,
+      observedAt,
+    });
+  }
+
+  await client.costRecord.deleteMany({ where: { bidPackageId } });
+  if (records.length > 0) {
+    await client.costRecord.createMany({ data: records });
+  }
+  return records.length;
+}
+
+/**
+ * Remove the prices captured from a package (e.g. when it is reopened)
+ */
+export async function removePackageCosts(
+  bidPackageId: string,
+  client: DbClient = prisma
+): Promise<void> {
+  await client.costRecord.deleteMany({ where: { bidPackageId } });
+}
+
+/**
+ * Build the suggested range from a set of observed prices
+ */
+function summarizePrices(
+  csiCode: string,
+  unit: string,
+  records: CostRecordRow[],
+  scope: PriceSuggestionScope
+): PriceSuggestion {
+  const prices = records.map(record => record.unitPrice).sort((a, b) => a - b);
+  const latest = records.reduce((max, record) => (record.observedAt > max ? record.observedAt : max), records[0].observedAt);
+
+  return {
+    csiCode,
+    unit,
+    low: roundCurrency(percentile(prices, 0.25)),
+    median: roundCurrency(percentile(prices, 0.5)),
+    high: roundCurrency(percentile(prices, 0.75)),
+    min: prices[0],
+    max: prices[prices.length - 1],
+    count: prices.length,
+    scope,
+    latestObservedAt: latest,
+  };
+}
+
+/**
+ * Suggest unit price ranges for items, in request order (null where the
+ * library has no prices for the item's CSI code and unit). Data points from
+ * the same region and market sector as the project are preferred when there
+ * are enough of them.
+ */
+export async function getPriceSuggestions(
+  items: PriceSuggestionRequestItem[],
+  project: { state: string | null; marketSector: string | null } | null,
+  client: DbClient = prisma
+): Promise<(PriceSuggestion | null)[]> {
+  const keys = items.map(item => {
+    const csiCode = normalizeCsiCode(item.csiCode);
+    const unit = normalizeUnit(item.unit);
+    return csiCode && unit ? { csiCode, unit } : null;
+  });
+
+  const uniqueKeys = [...new Map(
+    keys.filter((key): key is { csiCode: string; unit: string } => key !== null)
+      .map(key => [getCostKey(key.csiCode, key.unit), key])
+  ).values()];
+  if (uniqueKeys.length === 0) return items.map(() => null);
+
+  const records = await client.costRecord.findMany({
+    where: { OR: uniqueKeys },
+  });
+
+  const byKey = new Map<string, CostRecordRow[]>();
+  for (const record of records) {
+    const key = getCostKey(record.csiCode, record.unit);
+    byKey.set(key, [...(byKey.get(key) || []), record]);
+  }
+
+  const region = project?.state?.trim().toLowerCase() || null;
+  const sector = project?.marketSector?.trim().toLowerCase() || null;
+  const sameRegion = (record: CostRecordRow) => !!region && record.region?.trim().toLowerCase() === region;
+  const sameSector = (record: CostRecordRow) => !!sector && record.marketSector?.trim().toLowerCase() === sector;
+
+  const suggestions = new Map<string, PriceSuggestion>();
+  for (const { csiCode, unit } of uniqueKeys) {
+    const matches = byKey.get(getCostKey(csiCode, unit)) || [];
+    if (matches.length === 0) continue;
+
+    // Narrowest scope with enough data points, falling back to everything
+    const scopes: [PriceSuggestionScope, CostRecordRow[]][] = [
+      ['region_sector', matches.filter(r => sameRegion(r) && sameSector(r))],
+      ['region', matches.filter(sameRegion)],
+      ['sector', matches.filter(sameSector)],
+    ];
+    const [scope, scoped] = scopes.find(([, rows]) => rows.length >= MIN_SCOPED_DATA_POINTS) || ['all', matches];
+
+    suggestions.set(getCostKey(csiCode, unit), summarizePrices(csiCode, unit, scoped, scope));
+  }
+
+  return keys.map(key => (key && suggestions.get(getCostKey(key.csiCode, key.unit))) || null);
+}
+
+function parseImportDate(value: string | null): Date | null {
+  if (!value) return null;
+  // A bare year counts from its first day
+  const parsed = /^\d{4}$/.test(value) ? new Date(Date.UTC(Number(value), 0, 1)) : new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Parse a CSV (or Excel) file of legacy cost data into cost records.
+ * Columns are matched by header name; CSI code, unit and unit price are required.
+ */
+export function parseCostImport(
+  data: ArrayBuffer,
+  importedById: string | null
+): { records: Prisma.CostRecordCreateManyInput[]; skipped: CostImportResult['skipped'] } {
+  // Cells are read as the text they show: guessing types would turn CSI
+  // codes like "03 30 00" into dates and "033000" into 33000
+  const workbook = XLSX.read(data, { type: 'array', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { records: [], skipped: [] };
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, string | null>>(sheet, { defval: null, raw: false });
+  const records: Prisma.CostRecordCreateManyInput[] = [];
+  const skipped: CostImportResult['skipped'] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2; // Header is row 1
+
+    // Map this row's headers onto import fields
+    const values: Partial<Record<ImportField, string | null>> = {};
+    for (const [header, value] of Object.entries(row)) {
+      const normalized = header.toLowerCase().replace(/[^a-z0-9]/g, '');
+      const field = (Object.keys(IMPORT_COLUMNS) as ImportField[])
+        .find(key => (IMPORT_COLUMNS[key] as readonly string[]).includes(normalized));
+      if (field && values[field] === undefined) values[field] = value;
+    }
+
+    const text = (value: string | null | undefined) => value?.trim() || null;
+
+    const csiCode = normalizeCsiCode(text(values.csiCode));
+    const unit = normalizeUnit(text(values.unit));
+    const unitPrice = toNumber(values.unitPrice);
+
+    if (!csiCode) {
+      skipped.push({ row: rowNumber, error: 'Missing or invalid CSI code' });
+      return;
+    }
+    if (!unit) {
+      skipped.push({ row: rowNumber, error: 'Missing unit' });
+      return;
+    }
+    if (unitPrice === null || unitPrice <= 0) {
+      skipped.push({ row: rowNumber, error: 'Missing or invalid unit price' });
+      return;
+    }
+
+    records.push({
+      csiCode,
+      unit,
+      unitPrice,
+      quantity: toNumber(values.quantity),
+      description: text(values.description),
+      source: 'import',
+      projectName: text(values.projectName),
+      region: text(values.region),
+      marketSector: text(values.marketSector),
+      observedAt: parseImportDate(text(values.observedAt)) ?? new Date(),
+      importedById,
+    });
+  });
+
+  return { records, skipped };
+}
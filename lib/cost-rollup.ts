@@ -0,0 +1,187 @@
+/**
+ * Cost Rollup Utilities
+ * Line item totals (quantity × unit price), subtotals per CSI division and
+ * bid package, and project markups. Pure functions - safe to use on the client.
+ */
+
+import { getDivisions } from '@/lib/csi/csiLookup';
+import {
+  BidPackageCostSummary,
+  CostSummary,
+  DivisionSubtotal,
+  EstimateMarkups,
+  MARKUP_ORDER,
+  MarkupLabels,
+  MarkupLine,
+  ProjectEstimate,
+} from '@/types/estimate';
+
+// Minimal shape needed to price a line item (workspace LineItem satisfies it)
+export interface PricedItem {
+  quantity?: number | string | null;
+  unit_price?: number | string | null;
+  total_price?: number | string | null;
+  csiCode?: string | null;
+}
+
+const toNumber = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Round to cents
+ */
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Extended total for a line item: quantity × unit price when both are set,
+ * otherwise the stored total (lump sum items), otherwise null
+ */
+export function getLineItemTotal(item: PricedItem): number | null {
+  const quantity = toNumber(item.quantity);
+  const unitPrice = toNumber(item.unit_price);
+
+  if (quantity !== null && unitPrice !== null) {
+    return roundCurrency(quantity * unitPrice);
+  }
+
+  return toNumber(item.total_price);
+}
+
+/**
+ * Division number ("03") for a CSI code ("03 30 00"), or null if it has none
+ */
+export function getCsiDivision(csiCode: string | null | undefined): string | null {
+  const match = csiCode?.trim().match(/^(\d{2})/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Subtotal and priced/total counts for a set of line items
+ */
+export function summarizeLineItems(items: PricedItem[]): CostSummary {
+  let subtotal = 0;
+  let pricedCount = 0;
+
+  for (const item of items) {
+    const total = getLineItemTotal(item);
+    if (total !== null) {
+      subtotal += total;
+      pricedCount++;
+    }
+  }
+
+  return { subtotal: roundCurrency(subtotal), itemCount: items.length, pricedCount };
+}
+
+/**
+ * Subtotals grouped by CSI division, in division order (unclassified last)
+ */
+export function getDivisionSubtotals(items: PricedItem[]): DivisionSubtotal[] {
+  const groups = new Map<string | null, PricedItem[]>();
+  for (const item of items) {
+    const division = getCsiDivision(item.csiCode);
+    groups.set(division, [...(groups.get(division) || []), item]);
+  }
+
+  const titles = new Map(getDivisions().map(division => [division.division, division.title]));
+
+  return [...groups.entries()]
+    .map(([division, groupItems]) => ({
+      division,
+      title: division ? titles.get(division) || `Division ${division}` : 'Unclassified',
+      ...summarizeLineItems(groupItems),
+    }))
+    .sort((a, b) => {
+      if (a.division === null) return 1;
+      if (b.division === null) return -1;
+      return a.division.localeCompare(b.division);
+    });
+}
+
+/**
+ * Project markups with unset percentages treated as 0
+ */
+export function getProjectMarkups(project: {
+  generalConditionsPercentage?: number | null;
+  contingencyPercentage?: number | null;
+  feePercentage?: number | null;
+  taxPercentage?: number | null;
+}): EstimateMarkups {
+  return {
+    generalConditionsPercentage: project.generalConditionsPercentage ?? 0,
+    contingencyPercentage: project.contingencyPercentage ?? 0,
+    feePercentage: project.feePercentage ?? 0,
+    taxPercentage: project.taxPercentage ?? 0,
+  };
+}
+
+/**
+ * Apply markups to a direct cost subtotal. Each markup applies to the running
+ * total before it (general conditions, then contingency, then fee, then tax).
+ */
+export function applyMarkups(
+  subtotal: number,
+  markups: EstimateMarkups
+): { lines: MarkupLine[]; total: number } {
+  let running = subtotal;
+  const lines: MarkupLine[] = [];
+
+  for (const key of MARKUP_ORDER) {
+    const percentage = markups[key];
+    if (!percentage) continue;
+
+    const amount = roundCurrency(running * (percentage / 100));
+    lines.push({ key, label: MarkupLabels[key], percentage, base: roundCurrency(running), amount });
+    running += amount;
+  }
+
+  return { lines, total: roundCurrency(running) };
+}
+
+/**
+ * Roll bid package line items up into a project estimate with markups
+ */
+export function buildProjectEstimate(
+  projectId: string,
+  packages: { id: string; name: string; status: string; lineItems: PricedItem[] }[],
+  markups: EstimateMarkups
+): ProjectEstimate {
+  const packageSummaries: BidPackageCostSummary[] = packages.map(pkg => ({
+    bidPackageId: pkg.id,
+    name: pkg.name,
+    status: pkg.status,
+    ...summarizeLineItems(pkg.lineItems),
+  }));
+
+  const allItems = packages.flatMap(pkg => pkg.lineItems);
+  const totals = summarizeLineItems(allItems);
+  const { lines, total } = applyMarkups(totals.subtotal, markups);
+
+  return {
+    projectId,
+    packages: packageSummaries,
+    divisions: getDivisionSubtotals(allItems),
+    ...totals,
+    markups,
+    markupLines: lines,
+    total,
+  };
+}
+
+/**
+ * Format a dollar amount for tables and exports
+ */
+export function formatCurrency(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
@@ -5,7 +5,7 @@
  * to appropriate CSI MasterFormat codes with confidence scores.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { completeExtraction, getExtractionProviderError } from '@/lib/extraction-provider';
 import { getAllCSICodes, getBreadcrumb } from './csiLookup';
 import { CSIMappingResult, CSIMappingMatch, CSICode } from './csiTypes';
 
@@ -21,13 +21,11 @@ export async function mapItemToCSI(
   },
   maxMatches: number = 5
 ): Promise<CSIMappingResult> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not configured');
+  const providerError = getExtractionProviderError();
+  if (providerError) {
+    throw new Error(providerError);
   }
 
-  const client = new Anthropic({ apiKey });
-
   // Get all CSI codes for reference
   const allCodes = getAllCSICodes();
 
@@ -95,9 +93,8 @@ IMPORTANT:
 `;
 
   try {
-    const message = await client.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 2048,
+    const { text: responseText } = await completeExtraction({
+      task: 'csi_mapping',
       messages: [
         {
           role: 'user',
@@ -106,8 +103,6 @@ IMPORTANT:
       ],
     });
 
-    const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-
     // Parse JSON response
     let parsed: { matches: Array<{ code: string; confidence: number; reasoning: string }> };
 
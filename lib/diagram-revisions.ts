@@ -0,0 +1,254 @@
+/**
+ * Diagram Revision Utilities
+ * Compares re-issued drawing sheets against their previous revision and
+ * flags the line items whose region of the drawing changed
+ */
+
+import sharp from 'sharp';
+import { Prisma, DiagramRevision as DiagramRevisionRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { readUploadedFile } from '@/lib/file-utils';
+import { convertPDFToImages, isPDFFile } from '@/lib/pdf-utils';
+import { DiagramRegion, DiagramRevision } from '@/types/diagram';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Width both revisions are rasterized to before comparing
+const DIFF_WIDTH = 1600;
+// Size of the square cells changes are detected in, in px of the rasterized page
+const DIFF_CELL_SIZE = 16;
+// Grey level difference at which a pixel counts as changed (filters anti-aliasing)
+const PIXEL_THRESHOLD = 64;
+// Share of a cell's pixels that must change for the cell to count as changed
+const CELL_CHANGE_RATIO = 0.01;
+
+interface DiagramFile {
+  fileName: string;
+  fileUrl: string;
+}
+
+interface GreyImage {
+  data: Buffer; // One byte per pixel, 0 = black
+  width: number;
+  height: number;
+}
+
+/**
+ * Parse a stored changedRegions JSON string
+ */
+function parseRegions(raw: string | null): DiagramRegion[] | null {
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    console.error('Failed to parse diagram revision regions:', error);
+    return null;
+  }
+}
+
+/**
+ * Convert a DiagramRevision row into the API shape
+ */
+export function fromDiagramRevisionRow(row: DiagramRevisionRow): DiagramRevision {
+  return {
+    id: row.id,
+    diagramId: row.diagramId,
+    revisionNumber: row.revisionNumber,
+    label: row.label,
+    notes: row.notes,
+    fileName: row.fileName,
+    fileUrl: row.fileUrl,
+    fileType: row.fileType,
+    fileSize: row.fileSize,
+    uploadedBy: row.uploadedBy,
+    changedRegions: parseRegions(row.changedRegions),
+    flaggedItemCount: row.flaggedItemCount,
+    uploadedAt: row.uploadedAt,
+  };
+}
+
+/**
+ * Rasterize the first page of a diagram file to greyscale, either at the
+ * comparison width or stretched to a given size
+ */
+async function rasterizeDiagram(file: DiagramFile, size?: { width: number; height: number }): Promise<GreyImage> {
+  const buffer = await readUploadedFile(file.fileUrl);
+
+  let image = buffer;
+  if (isPDFFile(file.fileName) || isPDFFile(buffer)) {
+    const [page] = await convertPDFToImages(buffer, { maxPages: 1, scale: 1.5 });
+    if (!page) {
+      throw new Error('PDF has no pages');
+    }
+    image = page.imageBuffer;
+  }
+
+  const { data, info } = await sharp(image)
+    .flatten({ background: '#ffffff' })
+    .resize(size ? { ...size, fit: 'fill' } : { width: DIFF_WIDTH })
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Rasterize two revisions of a sheet to the same size; the earlier one is
+ * stretched onto the later one's page
+ */
+async function rasterizePair(before: DiagramFile, after: DiagramFile): Promise<[GreyImage, GreyImage]> {
+  const afterImage = await rasterizeDiagram(after);
+  const beforeImage = await rasterizeDiagram(before, { width: afterImage.width, height: afterImage.height });
+  return [beforeImage, afterImage];
+}
+
+/**
+ * Find the regions that differ between two same-sized greyscale images.
+ * Changed cells are grouped into connected regions, padded by one cell.
+ */
+export function findChangedRegions(before: GreyImage, after: GreyImage): DiagramRegion[] {
+  const { width, height } = after;
+  const columns = Math.ceil(width / DIFF_CELL_SIZE);
+  const rows = Math.ceil(height / DIFF_CELL_SIZE);
+  const changedPixels = new Uint32Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (Math.abs(before.data[i] - after.data[i]) > PIXEL_THRESHOLD) {
+        changedPixels[Math.floor(y / DIFF_CELL_SIZE) * columns + Math.floor(x / DIFF_CELL_SIZE)]++;
+      }
+    }
+  }
+
+  const minChanged = Math.max(1, Math.ceil(DIFF_CELL_SIZE * DIFF_CELL_SIZE * CELL_CHANGE_RATIO));
+  const changed = changedPixels.map(count => (count >= minChanged ? 1 : 0));
+  const visited = new Uint8Array(columns * rows);
+  const regions: DiagramRegion[] = [];
+
+  for (let start = 0; start < changed.length; start++) {
+    if (!changed[start] || visited[start]) continue;
+
+    // Flood fill the connected changed cells (including diagonals)
+    let minCol = columns, maxCol = 0, minRow = rows, maxRow = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const col = cell % columns;
+      const row = Math.floor(cell / columns);
+      minCol = Math.min(minCol, col);
+      maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= columns || r >= rows) continue;
+          const next = r * columns + c;
+          if (changed[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    const left = Math.max(0, (minCol - 1) * DIFF_CELL_SIZE);
+    const top = Math.max(0, (minRow - 1) * DIFF_CELL_SIZE);
+    const right = Math.min(width, (maxCol + 2) * DIFF_CELL_SIZE);
+    const bottom = Math.min(height, (maxRow + 2) * DIFF_CELL_SIZE);
+    regions.push({
+      x: left / width,
+      y: top / height,
+      width: (right - left) / width,
+      height: (bottom - top) / height,
+    });
+  }
+
+  return regions;
+}
+
+/**
+ * Regions of the sheet that changed between two revisions
+ */
+export async function compareDiagramFiles(before: DiagramFile, after: DiagramFile): Promise<DiagramRegion[]> {
+  const [beforeImage, afterImage] = await rasterizePair(before, after);
+  return findChangedRegions(beforeImage, afterImage);
+}
+
+/**
+ * Overlay of two revisions as a PNG: unchanged linework is black, linework
+ * removed in the later revision is red and linework added is cyan
+ */
+export async function renderRevisionOverlay(before: DiagramFile, after: DiagramFile): Promise<Buffer> {
+  const [beforeImage, afterImage] = await rasterizePair(before, after);
+  const { width, height } = afterImage;
+  const pixels = Buffer.alloc(width * height * 3);
+
+  for (let i = 0; i < width * height; i++) {
+    pixels[i * 3] = afterImage.data[i];
+    pixels[i * 3 + 1] = beforeImage.data[i];
+    pixels[i * 3 + 2] = beforeImage.data[i];
+  }
+
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+/**
+ * Check whether a box overlaps any of the regions
+ */
+export function overlapsRegions(box: DiagramRegion, regions: DiagramRegion[]): boolean {
+  return regions.some(region =>
+    box.x < region.x + region.width &&
+    region.x < box.x + box.width &&
+    box.y < region.y + region.height &&
+    region.y < box.y + box.height
+  );
+}
+
+/**
+ * Flag the diagram's line items whose boundingBox overlaps a changed
+ * region for re-review; returns the number of items flagged.
+ * Without regions (the revisions could not be compared) every item is flagged.
+ */
+export async function flagChangedLineItems(
+  diagramId: string,
+  regions: DiagramRegion[] | null,
+  client: DbClient = prisma
+): Promise<number> {
+  if (regions?.length === 0) return 0;
+
+  const items = await client.lineItem.findMany({
+    where: { bidForm: { diagramId } },
+    select: { id: true, boundingBox: true },
+  });
+
+  const flaggedIds = items
+    .filter(item => {
+      if (!regions) return true;
+      if (!item.boundingBox) return false;
+      try {
+        const box = JSON.parse(item.boundingBox);
+        return typeof box?.x === 'number' && overlapsRegions(box, regions);
+      } catch {
+        return false;
+      }
+    })
+    .map(item => item.id);
+
+  if (flaggedIds.length > 0) {
+    await client.lineItem.updateMany({
+      where: { id: { in: flaggedIds } },
+      data: { needsRevisionReview: true },
+    });
+  }
+
+  return flaggedIds.length;
+}
@@ -0,0 +1,75 @@
+/**
+ * Diagram Schedule Utilities
+ * Stores the schedules read from a diagram's pages during extraction
+ */
+
+import { Prisma, DrawingSchedule as DrawingScheduleRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { DrawingSchedule, ScheduleKind, ScheduleSource, ScheduleTable } from '@/types/schedule';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+function parseJSON<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('Failed to parse drawing schedule field:', error);
+    return fallback;
+  }
+}
+
+/**
+ * Convert a DrawingSchedule row into the API shape
+ */
+export function fromDrawingScheduleRow(row: DrawingScheduleRow): DrawingSchedule {
+  return {
+    id: row.id,
+    diagramId: row.diagramId,
+    pageNumber: row.pageNumber,
+    kind: row.kind as ScheduleKind,
+    title: row.title,
+    columns: parseJSON<string[]>(row.columns, []),
+    rows: parseJSON<string[][]>(row.rows, []),
+    boundingBox: parseJSON<DrawingSchedule['boundingBox']>(row.boundingBox, null),
+    source: row.source as ScheduleSource,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Get a diagram's schedules in page order
+ */
+export async function getDiagramSchedules(diagramId: string, client: DbClient = prisma): Promise<DrawingSchedule[]> {
+  const rows = await client.drawingSchedule.findMany({
+    where: { diagramId },
+    orderBy: [{ pageNumber: 'asc' }, { createdAt: 'asc' }],
+  });
+  return rows.map(fromDrawingScheduleRow);
+}
+
+/**
+ * Replace a diagram's schedules with those read by its latest extraction
+ */
+export async function replaceDiagramSchedules(
+  diagramId: string,
+  schedules: (ScheduleTable & { pageNumber: number })[],
+  client: DbClient = prisma
+): Promise<number> {
+  await client.drawingSchedule.deleteMany({ where: { diagramId } });
+  if (schedules.length === 0) return 0;
+
+  const { count } = await client.drawingSchedule.createMany({
+    data: schedules.map(schedule => ({
+      diagramId,
+      pageNumber: schedule.pageNumber,
+      kind: schedule.kind,
+      title: schedule.title,
+      columns: JSON.stringify(schedule.columns),
+      rows: JSON.stringify(schedule.rows),
+      boundingBox: schedule.boundingBox ? JSON.stringify(schedule.boundingBox) : null,
+      source: schedule.source,
+    })),
+  });
+  return count;
+}
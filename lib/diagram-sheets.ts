@@ -0,0 +1,125 @@
+/**
+ * Diagram Sheet Utilities
+ * Records each page of a diagram as a sheet, with the sheet number, title
+ * and revision parsed from the drawing set
+ */
+
+import { Prisma, DiagramSheet as DiagramSheetRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { readUploadedFile } from '@/lib/file-utils';
+import { extractPDFTextItems, isPDFFile } from '@/lib/pdf-utils';
+import { ParsedSheet, parseSheetFileName, parseSheets, getSheetDiscipline } from '@/lib/sheet-index';
+import { DiagramSheet, SheetSource } from '@/types/sheet';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Convert a DiagramSheet row into the API shape
+ */
+export function fromDiagramSheetRow(row: DiagramSheetRow & { diagram?: { fileName: string } }): DiagramSheet {
+  return {
+    id: row.id,
+    diagramId: row.diagramId,
+    pageNumber: row.pageNumber,
+    sheetNumber: row.sheetNumber,
+    title: row.title,
+    discipline: row.discipline,
+    revision: row.revision,
+    source: row.source as SheetSource,
+    ...(row.diagram && { fileName: row.diagram.fileName }),
+  };
+}
+
+/**
+ * Parse a bid package's stored sheet references
+ */
+export function parseSheetIds(sheetIds: string | null): string[] {
+  if (!sheetIds) return [];
+  try {
+    const parsed = JSON.parse(sheetIds);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to parse bid package sheetIds:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a diagram's sheets in page order
+ */
+export async function getDiagramSheets(diagramId: string, client: DbClient = prisma): Promise<DiagramSheet[]> {
+  const rows = await client.diagramSheet.findMany({
+    where: { diagramId },
+    orderBy: { pageNumber: 'asc' },
+  });
+  return rows.map(row => fromDiagramSheetRow(row));
+}
+
+/**
+ * Get the sheets of every diagram in a project, by sheet number
+ */
+export async function getProjectSheets(bcProjectId: string, client: DbClient = prisma): Promise<DiagramSheet[]> {
+  const rows = await client.diagramSheet.findMany({
+    where: { diagram: { bcProjectId } },
+    include: { diagram: { select: { fileName: true } } },
+    orderBy: [{ sheetNumber: 'asc' }, { pageNumber: 'asc' }],
+  });
+  return rows.map(fromDiagramSheetRow);
+}
+
+/**
+ * Read the sheets of a diagram's current file and record one per page.
+ * Sheets edited by hand keep their metadata as long as their page exists.
+ */
+export async function indexDiagramSheets(diagramId: string, client: DbClient = prisma): Promise<DiagramSheet[]> {
+  const diagram = await client.diagram.findUnique({
+    where: { id: diagramId },
+    select: { fileName: true, fileUrl: true },
+  });
+  if (!diagram) return [];
+
+  const buffer = await readUploadedFile(diagram.fileUrl);
+  const parsed: ParsedSheet[] = isPDFFile(diagram.fileName) || isPDFFile(buffer)
+    ? parseSheets(await extractPDFTextItems(buffer))
+    : [{ pageNumber: 1, sheetNumber: null, title: null, discipline: null, revision: null, source: 'none' }];
+
+  // A single sheet without a title block may be named after its sheet number
+  if (parsed.length === 1 && !parsed[0].sheetNumber) {
+    const fromName = parseSheetFileName(diagram.fileName);
+    if (fromName) {
+      parsed[0] = {
+        ...parsed[0],
+        sheetNumber: fromName.sheetNumber,
+        title: parsed[0].title ?? fromName.title,
+        discipline: getSheetDiscipline(fromName.sheetNumber),
+        source: 'file_name',
+      };
+    }
+  }
+
+  const manualSheets = await client.diagramSheet.findMany({
+    where: { diagramId, source: 'manual', pageNumber: { lte: parsed.length } },
+    select: { pageNumber: true },
+  });
+  const manualPages = new Set(manualSheets.map(sheet => sheet.pageNumber));
+
+  await client.diagramSheet.deleteMany({
+    where: {
+      diagramId,
+      OR: [{ source: { not: 'manual' } }, { pageNumber: { gt: parsed.length } }],
+    },
+  });
+
+  await client.diagramSheet.createMany({
+    data: parsed
+      .filter(sheet => !manualPages.has(sheet.pageNumber))
+      .map(sheet => ({ diagramId, ...sheet })),
+  });
+
+  await client.diagram.update({
+    where: { id: diagramId },
+    data: { pageCount: parsed.length },
+  });
+
+  return getDiagramSheets(diagramId, client);
+}
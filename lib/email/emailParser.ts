@@ -0,0 +1,251 @@
+/**
+ * Inbound Email Parser
+ *
+ * Parses RFC 822 / MIME messages (.eml files, raw messages posted by a mail
+ * relay) into sender, subject, bodies and attachments. Handles nested
+ * multipart bodies, forwarded messages (message/rfc822), base64 and
+ * quoted-printable transfer encodings, RFC 2047 encoded words and RFC 2231
+ * file names.
+ */
+
+import { EmailAddress, ParsedEmail, ParsedEmailAttachment } from './emailTypes';
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: Buffer;
+}
+
+/**
+ * Split a message or part into its header block and body
+ */
+function splitPart(raw: Buffer): MimePart {
+  // latin1 maps bytes 1:1, so offsets found in the string are byte offsets
+  const text = raw.toString('latin1');
+  const match = text.match(/\r?\n\r?\n/);
+  const headerEnd = match?.index ?? text.length;
+  const bodyStart = match ? headerEnd + match[0].length : text.length;
+
+  const headers = new Map<string, string>();
+  const unfolded = text.slice(0, headerEnd).replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins (later ones are usually relay trace headers)
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+
+  return { headers, body: raw.subarray(bodyStart) };
+}
+
+/**
+ * Decode bytes in a declared charset, falling back to UTF-8
+ */
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(text: string, isHeader = false): Buffer {
+  const source = isHeader ? text.replace(/_/g, ' ') : text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.slice(i + 1, i + 3);
+    if (source[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(source.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?utf-8?B?...?=) in a header value
+ */
+export function decodeEncodedWords(value: string): string {
+  // Raw 8-bit header bytes are sent as UTF-8 by modern clients; keep them as is when they are not
+  const raw = Buffer.from(value, 'latin1').toString('utf-8');
+  return (/[\u0080-\u00ff]/.test(value) && !raw.includes('\ufffd') ? raw : value)
+    // Whitespace between adjacent encoded words is not part of the text
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+/**
+ * Split a structured header (Content-Type, Content-Disposition) into its
+ * value and parameters, joining RFC 2231 continuations and charsets
+ */
+function parseHeaderParams(header: string | undefined): { value: string; params: Record<string, string> } {
+  if (!header) return { value: '', params: {} };
+
+  const segments = header.match(/(?:[^;"]+|"(?:\\.|[^"])*")+/g) ?? [];
+  const value = (segments.shift() ?? '').trim().toLowerCase();
+  const params: Record<string, string> = {};
+  const continuations: Record<string, { index: number; text: string; encoded: boolean }[]> = {};
+
+  for (const segment of segments) {
+    const eq = segment.indexOf('=');
+    if (eq < 0) continue;
+    const rawName = segment.slice(0, eq).trim().toLowerCase();
+    let text = segment.slice(eq + 1).trim();
+    if (text.startsWith('"')) text = text.slice(1, -1).replace(/\\(.)/g, '$1');
+
+    // name*0*=utf-8''..., name*1*=..., or name*=utf-8''...
+    const rfc2231 = rawName.match(/^([^*]+)\*(?:(\d+)\*?)?$/);
+    if (rfc2231) {
+      const [, name, index] = rfc2231;
+      (continuations[name] ??= []).push({ index: Number(index ?? 0), text, encoded: rawName.endsWith('*') });
+    } else {
+      params[rawName] = text;
+    }
+  }
+
+  for (const [name, pieces] of Object.entries(continuations)) {
+    pieces.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes = pieces.map((piece, i) => {
+      let text = piece.text;
+      if (i === 0 && piece.encoded) {
+        const quote = text.match(/^([^']*)'[^']*'/);
+        if (quote) {
+          charset = quote[1] || charset;
+          text = text.slice(quote[0].length);
+        }
+      }
+      return piece.encoded
+        ? Buffer.from(text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+        : Buffer.from(text, 'latin1');
+    });
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+
+  return { value, params };
+}
+
+function decodeTransferEncoding(body: Buffer, encoding: string | undefined): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body.toString('latin1'));
+    default:
+      return body;
+  }
+}
+
+/**
+ * Parse an address header into mailboxes: "Jane Doe" <jane@example.com>, jane@example.com
+ */
+export function parseAddressList(header: string | undefined): EmailAddress[] {
+  if (!header) return [];
+
+  const decoded = decodeEncodedWords(header);
+  const entries = decoded.match(/(?:[^,"]+|"(?:\\.|[^"])*")+/g) ?? [];
+
+  return entries.flatMap(entry => {
+    const angle = entry.match(/^(.*)<([^>]+)>\s*$/);
+    const address = (angle ? angle[2] : entry).trim();
+    if (!address.includes('@')) return [];
+
+    const name = angle ? angle[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1').trim() : '';
+    return [{ name: name || null, address: address.toLowerCase() }];
+  });
+}
+
+/**
+ * Plain text of an HTML body, for messages sent without a text part
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Walk a part tree, collecting the first text and HTML bodies and every attachment
+ */
+function collectParts(part: MimePart, result: { text: string | null; html: string | null; attachments: ParsedEmailAttachment[] }) {
+  const contentType = parseHeaderParams(part.headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderParams(part.headers.get('content-disposition'));
+  const fileName = disposition.params.filename || contentType.params.name;
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const text = part.body.toString('latin1');
+    const pieces = text.split(new RegExp(`\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?[ \\t]*\\r?\\n?`));
+    // The preamble before the first delimiter and the epilogue after the closing one are not parts
+    const isClosed = text.includes(`${delimiter}--`);
+    for (const piece of pieces.slice(1, isClosed ? -1 : undefined)) {
+      collectParts(splitPart(Buffer.from(piece, 'latin1')), result);
+    }
+    return;
+  }
+
+  const content = decodeTransferEncoding(part.body, part.headers.get('content-transfer-encoding'));
+
+  // Forwarded messages carry the original drawings as their own attachments
+  if (contentType.value === 'message/rfc822' && disposition.value !== 'attachment') {
+    collectParts(splitPart(content), result);
+    return;
+  }
+
+  const isAttachment = disposition.value === 'attachment' || (!!fileName && !contentType.value.startsWith('text/'));
+  if (isAttachment) {
+    result.attachments.push({
+      fileName: decodeEncodedWords(fileName || `attachment-${result.attachments.length + 1}`),
+      contentType: contentType.value || 'application/octet-stream',
+      content,
+    });
+    return;
+  }
+
+  if (contentType.value === 'text/html' && result.html === null) {
+    result.html = decodeCharset(content, contentType.params.charset);
+  } else if (contentType.value === 'text/plain' && result.text === null) {
+    result.text = decodeCharset(content, contentType.params.charset);
+  }
+}
+
+/**
+ * Parse a raw RFC 822 message
+ */
+export function parseEmail(raw: Buffer | string): ParsedEmail {
+  const message = splitPart(typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw);
+  const result = { text: null as string | null, html: null as string | null, attachments: [] as ParsedEmailAttachment[] };
+  collectParts(message, result);
+
+  const dateHeader = message.headers.get('date');
+  const date = dateHeader ? new Date(dateHeader) : null;
+
+  return {
+    messageId: message.headers.get('message-id')?.replace(/^<|>$/g, '').trim() || null,
+    from: parseAddressList(message.headers.get('from'))[0] ?? null,
+    to: parseAddressList(message.headers.get('to')),
+    subject: decodeEncodedWords(message.headers.get('subject') || '').trim(),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: (result.text ?? (result.html ? htmlToText(result.html) : '')).trim(),
+    html: result.html,
+    attachments: result.attachments,
+  };
+}
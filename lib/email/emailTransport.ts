@@ -0,0 +1,116 @@
+/**
+ * Pluggable Email Transport
+ *
+ * Selects the transport named by EMAIL_TRANSPORT (default "console").
+ * Built-in development stand-ins:
+ * - console: logs each message to the server console
+ * - file: writes each message as an .eml file under EMAIL_OUTBOX_DIR (default ./tmp/outbox)
+ *
+ * Production transports (SMTP, SES, ...) plug in with registerEmailTransport().
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmailMessage, EmailSendResult, EmailTransport } from './emailTypes';
+
+const DEFAULT_FROM = 'precon@localhost';
+
+function getFromAddress(message: EmailMessage): string {
+  return message.from || process.env.EMAIL_FROM || DEFAULT_FROM;
+}
+
+function formatRecipient(message: EmailMessage): string {
+  return message.toName ? `"${message.toName}" <${message.to}>` : message.to;
+}
+
+/**
+ * Render a message as an RFC 822 document (multipart when it has an HTML body)
+ */
+export function renderEml(message: EmailMessage, messageId: string): string {
+  const headers = [
+    `Message-ID: <${messageId}>`,
+    `Date: ${new Date().toUTCString()}`,
+    `From: ${getFromAddress(message)}`,
+    `To: ${formatRecipient(message)}`,
+    `Subject: ${message.subject}`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', '', message.text].join('\r\n');
+  }
+
+  const boundary = `boundary-${messageId}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+function createMessageId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}@localhost`;
+}
+
+const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(message) {
+    const messageId = createMessageId();
+    console.log(`[email] To: ${formatRecipient(message)} | Subject: ${message.subject}\n${message.text}`);
+    return { messageId, transport: 'console' };
+  },
+};
+
+const fileTransport: EmailTransport = {
+  name: 'file',
+  async send(message) {
+    const messageId = createMessageId();
+    const outboxDir = path.resolve(process.env.EMAIL_OUTBOX_DIR || path.join('tmp', 'outbox'));
+    await fs.mkdir(outboxDir, { recursive: true });
+
+    const filePath = path.join(outboxDir, `${messageId.replace(/[^a-zA-Z0-9-]/g, '_')}.eml`);
+    await fs.writeFile(filePath, renderEml(message, messageId), 'utf-8');
+
+    return { messageId: filePath, transport: 'file' };
+  },
+};
+
+const transports = new Map<string, EmailTransport>([
+  [consoleTransport.name, consoleTransport],
+  [fileTransport.name, fileTransport],
+]);
+
+/**
+ * Register (or replace) a transport so EMAIL_TRANSPORT can select it
+ */
+export function registerEmailTransport(transport: EmailTransport): void {
+  transports.set(transport.name, transport);
+}
+
+/**
+ * The transport selected by EMAIL_TRANSPORT
+ */
+export function getEmailTransport(): EmailTransport {
+  const name = process.env.EMAIL_TRANSPORT || consoleTransport.name;
+  const transport = transports.get(name);
+  if (!transport) {
+    throw new Error(`Unknown email transport "${name}"`);
+  }
+  return transport;
+}
+
+/**
+ * Send a message through the configured transport
+ */
+export async function sendEmail(message: EmailMessage): Promise<EmailSendResult> {
+  return getEmailTransport().send({ ...message, from: getFromAddress(message) });
+}
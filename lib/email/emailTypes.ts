@@ -0,0 +1,90 @@
+/**
+ * Email Delivery Type Definitions
+ *
+ * Shared types for outbound email and the transports that deliver it, and
+ * for inbound messages parsed by the intake pipeline.
+ */
+
+/**
+ * A single outbound message
+ */
+export interface EmailMessage {
+  /** Recipient address */
+  to: string;
+
+  /** Recipient display name */
+  toName?: string;
+
+  /** Sender address (defaults to EMAIL_FROM) */
+  from?: string;
+
+  subject: string;
+
+  /** Plain-text body */
+  text: string;
+
+  /** Optional HTML body */
+  html?: string;
+}
+
+/**
+ * Result of handing a message to a transport
+ */
+export interface EmailSendResult {
+  /** Transport-specific message identifier (file path, provider id, ...) */
+  messageId: string;
+
+  /** Name of the transport that delivered the message */
+  transport: string;
+}
+
+/**
+ * Delivers email. Implementations must throw when a message could not be sent.
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * A mailbox as written in an address header
+ */
+export interface EmailAddress {
+  /** Display name, decoded */
+  name: string | null;
+
+  address: string;
+}
+
+/**
+ * A file attached to an inbound message
+ */
+export interface ParsedEmailAttachment {
+  fileName: string;
+
+  /** MIME type as declared by the sender */
+  contentType: string;
+
+  content: Buffer;
+}
+
+/**
+ * An inbound message parsed from its RFC 822 source
+ */
+export interface ParsedEmail {
+  /** Message-ID without angle brackets */
+  messageId: string | null;
+
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  subject: string;
+
+  /** Date header, or null when missing or unreadable */
+  date: Date | null;
+
+  /** Plain-text body (derived from the HTML body when there is no text part) */
+  text: string;
+
+  html: string | null;
+  attachments: ParsedEmailAttachment[];
+}
@@ -1,6 +1,10 @@
 import { jsPDF } from 'jspdf';
 import * as XLSX from 'xlsx';
 import { LineItem } from '@/components/BidFormTable';
+import { formatCurrency, getDivisionSubtotals, getLineItemTotal, summarizeLineItems } from '@/lib/cost-rollup';
+
+const divisionLabel = (division: { division: string | null; title: string }) =>
+  division.division ? `Div ${division.division} - ${division.title}` : division.title;
 
 export function exportToPDF(lineItems: LineItem[], projectName?: string) {
   const doc = new jsPDF();
@@ -18,8 +22,8 @@ export function exportToPDF(lineItems: LineItem[], projectName?: string) {
   doc.setFontSize(10);
   doc.setFont('helvetica', 'bold');
 
-  const headers = ['Item #', 'Description', 'Qty', 'Unit', 'Notes'];
-  const colWidths = [20, 80, 20, 20, 40];
+  const headers = ['Item #', 'Description', 'Qty', 'Unit', 'Unit Price', 'Total', 'Notes'];
+  const colWidths = [18, 66, 16, 14, 26, 30, 16];
   let x = 14;
 
   headers.forEach((header, i) => {
@@ -40,10 +44,12 @@ export function exportToPDF(lineItems: LineItem[], projectName?: string) {
     x = 14;
     const row = [
       item.item_number || '-',
-      item.description.substring(0, 40) || '-',
+      item.description.substring(0, 34) || '-',
       item.quantity?.toString() || '-',
       item.unit || '-',
-      item.notes?.substring(0, 20) || '-',
+      item.unit_price != null ? formatCurrency(item.unit_price) : '-',
+      getLineItemTotal(item) !== null ? formatCurrency(getLineItemTotal(item)) : '-',
+      item.notes?.substring(0, 8) || '-',
     ];
 
     row.forEach((cell, i) => {
@@ -54,6 +60,27 @@ export function exportToPDF(lineItems: LineItem[], projectName?: string) {
     y += 7;
   });
 
+  // Subtotals per CSI division and package total (aligned under the Total column)
+  const summary = summarizeLineItems(lineItems);
+  if (summary.pricedCount > 0) {
+    const totalX = 14 + colWidths.slice(0, 5).reduce((sum, w) => sum + w, 0);
+    y += 4;
+
+    getDivisionSubtotals(lineItems).forEach((division) => {
+      if (y > 270) {
+        doc.addPage();
+        y = 20;
+      }
+      doc.text(divisionLabel(division).substring(0, 60), 14, y);
+      doc.text(formatCurrency(division.subtotal), totalX, y);
+      y += 7;
+    });
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Subtotal', 14, y);
+    doc.text(formatCurrency(summary.subtotal), totalX, y);
+  }
+
   // Save
   doc.save(`bid-form-${Date.now()}.pdf`);
 }
@@ -64,16 +91,29 @@ export function exportToExcel(lineItems: LineItem[], projectName?: string) {
     [projectName || 'Untitled Project'],
     [`Generated: ${new Date().toLocaleDateString()}`],
     [],
-    ['Item #', 'Description', 'Quantity', 'Unit', 'Notes'],
+    ['Item #', 'Description', 'Quantity', 'Unit', 'Unit Price', 'Total', 'Notes'],
     ...lineItems.map((item) => [
       item.item_number || '',
       item.description || '',
       item.quantity || '',
       item.unit || '',
+      item.unit_price ?? '',
+      getLineItemTotal(item) ?? '',
       item.notes || '',
     ]),
   ];
 
+  const summary = summarizeLineItems(lineItems);
+  if (summary.pricedCount > 0) {
+    worksheetData.push(
+      [],
+      ...getDivisionSubtotals(lineItems).map((division) => [
+        '', divisionLabel(division), '', '', '', division.subtotal, '',
+      ]),
+      ['', 'Subtotal', '', '', '', summary.subtotal, '']
+    );
+  }
+
   const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
   const workbook = XLSX.utils.book_new();
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Bid Form');
@@ -83,16 +123,28 @@ export function exportToExcel(lineItems: LineItem[], projectName?: string) {
 }
 
 export function exportToCSV(lineItems: LineItem[]) {
-  const headers = ['Item #', 'Description', 'Quantity', 'Unit', 'Notes'];
+  const headers = ['Item #', 'Description', 'Quantity', 'Unit', 'Unit Price', 'Total', 'Notes'];
 
   const rows = lineItems.map((item) => [
     item.item_number || '',
     `"${item.description || ''}"`, // Quote description to handle commas
     item.quantity || '',
     item.unit || '',
+    item.unit_price ?? '',
+    getLineItemTotal(item) ?? '',
     `"${item.notes || ''}"`,
   ]);
 
+  const summary = summarizeLineItems(lineItems);
+  if (summary.pricedCount > 0) {
+    rows.push(
+      ...getDivisionSubtotals(lineItems).map((division) => [
+        '', `"${divisionLabel(division)}"`, '', '', '', division.subtotal, '',
+      ]),
+      ['', '"Subtotal"', '', '', '', summary.subtotal, '']
+    );
+  }
+
   const csv = [
     headers.join(','),
     ...rows.map((row) => row.join(',')),
@@ -0,0 +1,189 @@
+/**
+ * Extraction Cache
+ * Parsed page results keyed by the page image hash, prompt version, provider,
+ * model and user instructions, so extracting the same drawing again (e.g. a
+ * retry from the review screen) reuses earlier pages instead of calling the
+ * model. Replayed fixture responses are never cached. Disable with
+ * EXTRACTION_CACHE=false.
+ */
+
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { FIXTURE_PROVIDER_NAME, getExtractionModelOptions, getExtractionProvider } from '@/lib/extraction-provider';
+import { CachedExtractionTask, EXTRACTION_PROMPT_VERSIONS } from '@/lib/extraction-pipeline';
+import {
+  CachedPageResult,
+  ExtractionCacheClearScope,
+  ExtractionCacheGroup,
+  ExtractionCacheStats,
+} from '@/types/extractionCache';
+
+export interface ExtractionCacheLookup {
+  task: CachedExtractionTask;
+  imageHash: string;
+  fileHash?: string;
+  pageNumber?: number;
+  instructions?: string;
+  context?: string; // Anything else the prompt is given, e.g. the page's place in its file
+}
+
+export function isExtractionCacheEnabled(): boolean {
+  return process.env.EXTRACTION_CACHE !== 'false';
+}
+
+export function hashPageImage(imageBuffer: Buffer): string {
+  return createHash('sha256').update(imageBuffer).digest('hex');
+}
+
+function getCacheKey(lookup: ExtractionCacheLookup) {
+  const promptVersion = EXTRACTION_PROMPT_VERSIONS[lookup.task];
+  const provider = getExtractionProvider().name;
+  const model = getExtractionModelOptions({ task: lookup.task, messages: [] }).model;
+  const instructions = lookup.instructions?.trim() || null;
+
+  const key = createHash('sha256')
+    .update(JSON.stringify({
+      task: lookup.task,
+      imageHash: lookup.imageHash,
+      promptVersion,
+      provider,
+      model,
+      instructions,
+      context: lookup.context ?? null,
+    }))
+    .digest('hex');
+
+  return { key, promptVersion, provider, model, instructions };
+}
+
+/**
+ * The cached result for a page, or null on a miss. Cache errors are logged
+ * and treated as a miss so extraction carries on.
+ */
+export async function getCachedExtraction(lookup: ExtractionCacheLookup): Promise<CachedPageResult | null> {
+  if (!isExtractionCacheEnabled()) return null;
+
+  try {
+    const { key } = getCacheKey(lookup);
+    const entry = await prisma.extractionCacheEntry.findUnique({ where: { key } });
+    if (!entry) return null;
+
+    await prisma.extractionCacheEntry.update({
+      where: { key },
+      data: { hitCount: { increment: 1 }, lastUsedAt: new Date() }
+    });
+    return JSON.parse(entry.result) as CachedPageResult;
+  } catch (error) {
+    console.error('Error reading extraction cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Cache a page result. Results the pipeline flagged with an error (e.g. a
+ * truncated response) are not cached, so the page is tried again next time,
+ * and neither are fixture replays, which are not real model output.
+ */
+export async function saveCachedExtraction(lookup: ExtractionCacheLookup, result: CachedPageResult | null): Promise<void> {
+  if (!isExtractionCacheEnabled() || !result || result.error) return;
+
+  try {
+    const { key, promptVersion, provider, model, instructions } = getCacheKey(lookup);
+    if (provider === FIXTURE_PROVIDER_NAME) return;
+
+    const json = JSON.stringify(result);
+    const data = {
+      task: lookup.task,
+      imageHash: lookup.imageHash,
+      fileHash: lookup.fileHash ?? null,
+      pageNumber: lookup.pageNumber ?? null,
+      promptVersion,
+      provider,
+      model,
+      instructions,
+      result: json,
+      sizeBytes: Buffer.byteLength(json),
+    };
+
+    await prisma.extractionCacheEntry.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: { ...data, lastUsedAt: new Date() },
+    });
+  } catch (error) {
+    console.error('Error writing extraction cache:', error);
+  }
+}
+
+// Entries written for a prompt version (or task) that is no longer current
+function staleEntriesWhere(): Prisma.ExtractionCacheEntryWhereInput {
+  const tasks = Object.entries(EXTRACTION_PROMPT_VERSIONS);
+  return {
+    OR: [
+      { task: { notIn: tasks.map(([task]) => task) } },
+      ...tasks.map(([task, promptVersion]) => ({ task, promptVersion: { not: promptVersion } })),
+    ]
+  };
+}
+
+const isStale = (task: string, promptVersion: number) =>
+  EXTRACTION_PROMPT_VERSIONS[task as CachedExtractionTask] !== promptVersion;
+
+/**
+ * Size and use of the cache, per task, prompt version, provider and model
+ */
+export async function getExtractionCacheStats(): Promise<ExtractionCacheStats> {
+  const [rows, totals] = await Promise.all([
+    prisma.extractionCacheEntry.groupBy({
+      by: ['task', 'promptVersion', 'provider', 'model'],
+      _count: { _all: true },
+      _sum: { sizeBytes: true, hitCount: true },
+    }),
+    prisma.extractionCacheEntry.aggregate({
+      _min: { createdAt: true },
+      _max: { lastUsedAt: true },
+    }),
+  ]);
+
+  const groups: ExtractionCacheGroup[] = rows
+    .map(row => ({
+      task: row.task,
+      promptVersion: row.promptVersion,
+      provider: row.provider,
+      model: row.model,
+      entries: row._count._all,
+      sizeBytes: row._sum.sizeBytes ?? 0,
+      hits: row._sum.hitCount ?? 0,
+      stale: isStale(row.task, row.promptVersion),
+    }))
+    .sort((a, b) => b.sizeBytes - a.sizeBytes);
+
+  return {
+    enabled: isExtractionCacheEnabled(),
+    entries: groups.reduce((sum, group) => sum + group.entries, 0),
+    sizeBytes: groups.reduce((sum, group) => sum + group.sizeBytes, 0),
+    hits: groups.reduce((sum, group) => sum + group.hits, 0),
+    staleEntries: groups.filter(group => group.stale).reduce((sum, group) => sum + group.entries, 0),
+    oldestAt: totals._min.createdAt,
+    lastUsedAt: totals._max.lastUsedAt,
+    groups,
+  };
+}
+
+/**
+ * Remove cached pages, optionally only those of one file. Returns how many
+ * entries were removed.
+ */
+export async function clearExtractionCache(
+  scope: ExtractionCacheClearScope,
+  options: { fileHash?: string } = {}
+): Promise<number> {
+  const where: Prisma.ExtractionCacheEntryWhereInput = {
+    ...(options.fileHash && { fileHash: options.fileHash }),
+    ...(scope === 'stale' && staleEntriesWhere()),
+  };
+
+  const { count } = await prisma.extractionCacheEntry.deleteMany({ where });
+  return count;
+}
@@ -0,0 +1,353 @@
+/**
+ * Extraction Evaluation
+ * Scores an extraction result against a golden drawing's expected line
+ * items, and renders reports so prompt changes can be compared
+ */
+
+import { descriptionSimilarity } from '@/lib/text-similarity';
+import {
+  BoundingBox,
+  EvalCaseResult,
+  EvalItemMatch,
+  EvalRatio,
+  EvalReport,
+  EvalScores,
+  ExtractedLineItem,
+  GoldenCase,
+  GoldenLineItem,
+} from '@/types/extractionEval';
+
+// Items without a matching item number pair up when their descriptions are at least this similar
+const MIN_DESCRIPTION_SIMILARITY = 0.5;
+// Relative difference within which a quantity counts as correct
+const QUANTITY_TOLERANCE = 0.01;
+
+const UNIT_ALIASES: Record<string, string> = {
+  EACH: 'EA',
+  SQFT: 'SF',
+  SQUAREFEET: 'SF',
+  LINFT: 'LF',
+  LINEARFEET: 'LF',
+  CUYD: 'CY',
+  CUBICYARDS: 'CY',
+  SQYD: 'SY',
+  LUMPSUM: 'LS',
+};
+
+export function normalizeUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  const compact = unit.toUpperCase().replace(/[^A-Z]/g, '');
+  return UNIT_ALIASES[compact] ?? compact;
+}
+
+function normalizeItemNumber(itemNumber: string | number | null | undefined): string | null {
+  const normalized = itemNumber?.toString().trim().toUpperCase().replace(/\s+/g, '');
+  return normalized || null;
+}
+
+const normalizeCSICode = (code: string | null | undefined) => code?.replace(/\s+/g, '') || null;
+
+/**
+ * Intersection over union of two normalized boxes
+ */
+export function boundingBoxIoU(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// An extracted line item, with the division of the package it was placed in
+interface ExtractedItem {
+  item: ExtractedLineItem;
+  csiDivision: string | null;
+  page: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const records = (value: unknown): Record<string, unknown>[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+function flattenExtractedItems(result: unknown): ExtractedItem[] {
+  const packages = isRecord(result) ? records(result.bid_packages) : [];
+  return packages.flatMap(pkg =>
+    records(pkg.line_items).map(item => ({
+      item: item as ExtractedLineItem,
+      csiDivision: typeof pkg.csi_division === 'string' ? pkg.csi_division : null,
+      page: typeof item.source_page === 'number' ? item.source_page : 1,
+    }))
+  );
+}
+
+/**
+ * Pair each expected item with at most one extracted item: first by item
+ * number, then by the most similar description
+ */
+function matchItems(
+  expected: { item: GoldenLineItem; csiDivision: string }[],
+  extracted: ExtractedItem[]
+): Map<number, number> {
+  const matches = new Map<number, number>(); // Expected index -> extracted index
+  const taken = new Set<number>();
+
+  const pickBest = (expectedIndex: number, candidates: number[]) => {
+    let best = -1;
+    let bestSimilarity = -1;
+    for (const candidate of candidates) {
+      const similarity = descriptionSimilarity(expected[expectedIndex].item.description, extracted[candidate].item.description || '');
+      if (similarity > bestSimilarity) {
+        best = candidate;
+        bestSimilarity = similarity;
+      }
+    }
+    return { best, bestSimilarity };
+  };
+
+  expected.forEach((entry, expectedIndex) => {
+    const itemNumber = normalizeItemNumber(entry.item.item_number);
+    if (!itemNumber) return;
+
+    const candidates = extracted
+      .map((_, index) => index)
+      .filter(index => !taken.has(index) && normalizeItemNumber(extracted[index].item.item_number) === itemNumber);
+    const { best } = pickBest(expectedIndex, candidates);
+    if (best !== -1) {
+      matches.set(expectedIndex, best);
+      taken.add(best);
+    }
+  });
+
+  expected.forEach((_, expectedIndex) => {
+    if (matches.has(expectedIndex)) return;
+
+    const candidates = extracted.map((_, index) => index).filter(index => !taken.has(index));
+    const { best, bestSimilarity } = pickBest(expectedIndex, candidates);
+    if (best !== -1 && bestSimilarity >= MIN_DESCRIPTION_SIMILARITY) {
+      matches.set(expectedIndex, best);
+      taken.add(best);
+    }
+  });
+
+  return matches;
+}
+
+const ratio = (numerator: number, denominator: number): EvalRatio => ({
+  value: denominator > 0 ? numerator / denominator : null,
+  numerator,
+  denominator,
+});
+
+const sumRatios = (ratios: EvalRatio[]): EvalRatio =>
+  ratio(
+    ratios.reduce((sum, r) => sum + r.numerator, 0),
+    ratios.reduce((sum, r) => sum + r.denominator, 0)
+  );
+
+function isQuantityCorrect(expected: number, extracted: unknown): boolean {
+  const value = typeof extracted === 'number' ? extracted : parseFloat(String(extracted ?? ''));
+  if (isNaN(value)) return false;
+  return Math.abs(value - expected) <= QUANTITY_TOLERANCE * Math.max(Math.abs(expected), 1);
+}
+
+/**
+ * Score an extraction result (bid packages with line items, as extract-v2
+ * produces it) against a golden case
+ */
+export function scoreExtraction(golden: GoldenCase, result: unknown): Omit<EvalCaseResult, 'name' | 'durationMs'> {
+  const expected = golden.bid_packages.flatMap(pkg =>
+    pkg.line_items.map(item => ({ item, csiDivision: pkg.csi_division }))
+  );
+  const extracted = flattenExtractedItems(result);
+  const pairs = matchItems(expected, extracted);
+
+  let csiDivisionCorrect = 0;
+  const matches: EvalItemMatch[] = expected.map((entry, index) => {
+    const extractedIndex = pairs.get(index);
+    const match = extractedIndex !== undefined ? extracted[extractedIndex] : null;
+    const item = entry.item;
+
+    if (match && match.csiDivision === entry.csiDivision) csiDivisionCorrect++;
+
+    const expectedBox = item.boundingBox;
+    const extractedBox = match?.item.boundingBox;
+    const samePage = (item.page ?? 1) === match?.page;
+
+    return {
+      expected: item,
+      extracted: match?.item ?? null,
+      quantityCorrect: match && item.quantity !== null ? isQuantityCorrect(item.quantity, match.item.quantity) : null,
+      unitCorrect: match && item.unit ? normalizeUnit(item.unit) === normalizeUnit(match.item.unit) : null,
+      csiCodeCorrect: match && item.csiCode ? normalizeCSICode(item.csiCode) === normalizeCSICode(match.item.csiCode) : null,
+      iou: match && expectedBox && extractedBox ? (samePage ? boundingBoxIoU(expectedBox, extractedBox) : 0) : null,
+    };
+  });
+
+  const matched = matches.filter(match => match.extracted);
+  const count = (field: 'quantityCorrect' | 'unitCorrect' | 'csiCodeCorrect') =>
+    ratio(matched.filter(m => m[field] === true).length, matched.filter(m => m[field] !== null).length);
+
+  const expectedDivisions = new Set(golden.bid_packages.map(pkg => pkg.csi_division));
+  const extractedDivisions = new Set(extracted.map(entry => entry.csiDivision));
+  const ious = matched.filter(m => m.iou !== null).map(m => m.iou as number);
+
+  const matchedExtracted = new Set(pairs.values());
+
+  return {
+    scores: {
+      itemRecall: ratio(matched.length, expected.length),
+      itemPrecision: ratio(matched.length, extracted.length),
+      quantityAccuracy: count('quantityCorrect'),
+      unitAccuracy: count('unitCorrect'),
+      csiCodeAccuracy: count('csiCodeCorrect'),
+      csiDivisionAccuracy: ratio(csiDivisionCorrect, matched.length),
+      packageRecall: ratio(
+        Array.from(expectedDivisions).filter(division => extractedDivisions.has(division)).length,
+        expectedDivisions.size
+      ),
+      meanBoundingBoxIoU: ratio(ious.reduce((sum, iou) => sum + iou, 0), ious.length),
+    },
+    matches,
+    unmatchedExtracted: extracted.filter((_, index) => !matchedExtracted.has(index)).map(entry => entry.item),
+  };
+}
+
+/**
+ * Scores over the items of every case
+ */
+export function combineEvalScores(results: { scores: EvalScores }[]): EvalScores {
+  const combine = (key: keyof EvalScores) => sumRatios(results.map(result => result.scores[key]));
+  return {
+    itemRecall: combine('itemRecall'),
+    itemPrecision: combine('itemPrecision'),
+    quantityAccuracy: combine('quantityAccuracy'),
+    unitAccuracy: combine('unitAccuracy'),
+    csiCodeAccuracy: combine('csiCodeAccuracy'),
+    csiDivisionAccuracy: combine('csiDivisionAccuracy'),
+    packageRecall: combine('packageRecall'),
+    meanBoundingBoxIoU: combine('meanBoundingBoxIoU'),
+  };
+}
+
+export const EvalScoreLabels: Record<keyof EvalScores, string> = {
+  itemRecall: 'Item recall',
+  itemPrecision: 'Item precision',
+  quantityAccuracy: 'Quantity accuracy',
+  unitAccuracy: 'Unit accuracy',
+  csiCodeAccuracy: 'CSI code accuracy',
+  csiDivisionAccuracy: 'CSI division accuracy',
+  packageRecall: 'Package recall',
+  meanBoundingBoxIoU: 'Mean bounding-box IoU',
+};
+
+const formatScore = (score: EvalRatio) => (score.value === null ? '-' : `${(score.value * 100).toFixed(1)}%`);
+
+function formatDelta(score: EvalRatio, baseline?: EvalRatio): string {
+  if (!baseline || score.value === null || baseline.value === null) return '';
+  const delta = (score.value - baseline.value) * 100;
+  if (Math.abs(delta) < 0.05) return '±0.0';
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+}
+
+const escapeHtml = (text: unknown) =>
+  String(text ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Plain-text summary of a report, with changes against a baseline report
+ */
+export function formatEvalSummary(report: EvalReport, baseline?: EvalReport): string {
+  const keys = Object.keys(EvalScoreLabels) as (keyof EvalScores)[];
+  const lines = keys.map(key => {
+    const delta = formatDelta(report.scores[key], baseline?.scores[key]);
+    return `${EvalScoreLabels[key].padEnd(24)} ${formatScore(report.scores[key]).padStart(7)}${delta ? `  (${delta})` : ''}`;
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Self-contained HTML report, with changes against a baseline report
+ */
+export function renderEvalReportHtml(report: EvalReport, baseline?: EvalReport): string {
+  const keys = Object.keys(EvalScoreLabels) as (keyof EvalScores)[];
+  const baselineCase = (name: string) => baseline?.cases.find(c => c.name === name);
+
+  const scoreCells = (scores: EvalScores, baselineScores?: EvalScores) =>
+    keys.map(key => {
+      const delta = formatDelta(scores[key], baselineScores?.[key]);
+      const deltaClass = delta.startsWith('+') ? 'up' : delta.startsWith('-') ? 'down' : '';
+      return `<td>${formatScore(scores[key])}${delta ? ` <span class="${deltaClass}">${delta}</span>` : ''}</td>`;
+    }).join('');
+
+  const caseSections = report.cases.map(result => {
+    const rows = result.matches.map(match => `
+      <tr class="${match.extracted ? '' : 'missed'}">
+        <td>${escapeHtml(match.expected.item_number)}</td>
+        <td>${escapeHtml(match.expected.description)}</td>
+        <td>${match.extracted ? escapeHtml(match.extracted.description) : '<em>missed</em>'}</td>
+        <td class="${match.quantityCorrect === false ? 'wrong' : ''}">${escapeHtml(match.expected.quantity)} / ${escapeHtml(match.extracted?.quantity)}</td>
+        <td class="${match.unitCorrect === false ? 'wrong' : ''}">${escapeHtml(match.expected.unit)} / ${escapeHtml(match.extracted?.unit)}</td>
+        <td class="${match.csiCodeCorrect === false ? 'wrong' : ''}">${escapeHtml(match.expected.csiCode)} / ${escapeHtml(match.extracted?.csiCode)}</td>
+        <td>${match.iou === null ? '-' : match.iou.toFixed(2)}</td>
+      </tr>`).join('');
+
+    const extraRows = result.unmatchedExtracted.map(item => `
+      <tr class="extra">
+        <td>${escapeHtml(item.item_number)}</td>
+        <td><em>not expected</em></td>
+        <td>${escapeHtml(item.description)}</td>
+        <td>- / ${escapeHtml(item.quantity)}</td>
+        <td>- / ${escapeHtml(item.unit)}</td>
+        <td>- / ${escapeHtml(item.csiCode)}</td>
+        <td>-</td>
+      </tr>`).join('');
+
+    return `
+    <h2>${escapeHtml(result.name)}</h2>
+    ${result.error ? `<p class="wrong">Extraction failed: ${escapeHtml(result.error)}</p>` : ''}
+    <table>
+      <thead><tr><th>#</th><th>Expected</th><th>Extracted</th><th>Quantity</th><th>Unit</th><th>CSI code</th><th>IoU</th></tr></thead>
+      <tbody>${rows}${extraRows}</tbody>
+    </table>`;
+  }).join('');
+
+  const caseRows = report.cases.map(result => `
+      <tr><td>${escapeHtml(result.name)}</td>${scoreCells(result.scores, baselineCase(result.name)?.scores)}</tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Extraction evaluation ${escapeHtml(report.createdAt)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, sans-serif; margin: 2rem; color: #18181b; }
+    table { border-collapse: collapse; margin-bottom: 2rem; font-size: 13px; }
+    th, td { border: 1px solid #e4e4e7; padding: 4px 8px; text-align: left; vertical-align: top; }
+    th { background: #f4f4f5; }
+    .up { color: #15803d; }
+    .down, .wrong { color: #b91c1c; }
+    tr.missed { background: #fef2f2; }
+    tr.extra { background: #fffbeb; }
+    .meta { color: #71717a; font-size: 13px; }
+  </style>
+</head>
+<body>
+  <h1>Extraction evaluation</h1>
+  <p class="meta">
+    ${escapeHtml(report.createdAt)} &middot; ${escapeHtml(report.mode)} &middot; ${escapeHtml(report.provider)}${report.model ? ` (${escapeHtml(report.model)})` : ''}
+    ${baseline ? ` &middot; compared with ${escapeHtml(baseline.createdAt)}` : ''}
+  </p>
+  <table>
+    <thead><tr><th>Case</th>${keys.map(key => `<th>${EvalScoreLabels[key]}</th>`).join('')}</tr></thead>
+    <tbody>
+      ${caseRows}
+      <tr><th>All cases</th>${scoreCells(report.scores, baseline?.scores)}</tr>
+    </tbody>
+  </table>
+  ${caseSections}
+</body>
+</html>
+`;
+}
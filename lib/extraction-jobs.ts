@@ -0,0 +1,441 @@
+/**
+ * Extraction Job Queue
+ * Persistent queue of drawing extractions. Workers claim jobs, checkpoint
+ * each page's result, and failed attempts are retried with backoff.
+ */
+
+import {
+  Prisma,
+  ExtractionJob as ExtractionJobRow,
+  ExtractionJobEvent as ExtractionJobEventRow,
+} from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  ExtractionJob,
+  ExtractionJobEvent,
+  ExtractionJobEventType,
+  ExtractionJobInput,
+  ExtractionJobKind,
+  ExtractionJobStatus,
+  ExtractionResult,
+} from '@/types/extractionJob';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// A running job whose worker has not checked in for this long is reclaimed
+export const EXTRACTION_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+// First retry delay; doubles with each further attempt
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+// Result of one page, checkpointed as the job runs
+export interface ExtractionPageResult {
+  source: number; // Index of the file within the job (batch jobs have several)
+  pageNumber: number;
+  isPDF: boolean;
+  result: ExtractionResult;
+}
+
+// Thrown when a worker's job was reclaimed by another worker (its lock went
+// stale); the worker stops working on the job and leaves it to the new owner
+export class ExtractionJobLockLostError extends Error {
+  constructor(jobId: string) {
+    super(`Extraction job ${jobId} is no longer locked by this worker`);
+    this.name = 'ExtractionJobLockLostError';
+  }
+}
+
+// Updates made by a worker only apply while it still holds the job's lock
+function assertLockHeld(jobId: string, count: number) {
+  if (count === 0) throw new ExtractionJobLockLostError(jobId);
+}
+
+// A running job that checkpointed pages since it was claimed made progress;
+// losing it to the time limit is not counted as a failed attempt
+const madeProgress = (job: Pick<ExtractionJobRow, 'completedPages' | 'claimedPages'>) =>
+  job.completedPages > job.claimedPages;
+
+/**
+ * Convert an ExtractionJob row into the API shape
+ */
+export function fromExtractionJobRow(row: ExtractionJobRow): ExtractionJob {
+  let result: unknown = null;
+  try {
+    result = row.result ? JSON.parse(row.result) : null;
+  } catch (error) {
+    console.error('Failed to parse extraction job result:', error);
+  }
+
+  return {
+    id: row.id,
+    kind: row.kind as ExtractionJobKind,
+    status: row.status as ExtractionJobStatus,
+    bcProjectId: row.bcProjectId,
+    bidPackageId: row.bidPackageId,
+    diagramId: row.diagramId,
+    totalPages: row.totalPages,
+    completedPages: row.completedPages,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    runAfter: row.runAfter,
+    cancelRequested: row.cancelRequested,
+    error: row.error,
+    result,
+    createdAt: row.createdAt,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt,
+  };
+}
+
+/**
+ * Parse a job's checkpointed page results
+ */
+export function getJobPageResults(row: Pick<ExtractionJobRow, 'pageResults'>): ExtractionPageResult[] {
+  if (!row.pageResults) return [];
+  try {
+    return JSON.parse(row.pageResults);
+  } catch (error) {
+    console.error('Failed to parse extraction job page results:', error);
+    return [];
+  }
+}
+
+/**
+ * Queue an extraction for a worker to pick up
+ */
+export async function enqueueExtractionJob(
+  job: {
+    kind: ExtractionJobKind;
+    input: ExtractionJobInput;
+    createdBy?: string | null;
+    bcProjectId?: string | null;
+    bidPackageId?: string | null;
+    diagramId?: string | null;
+  },
+  client: DbClient = prisma
+): Promise<ExtractionJob> {
+  const row = await client.extractionJob.create({
+    data: {
+      kind: job.kind,
+      input: JSON.stringify(job.input),
+      createdBy: job.createdBy ?? null,
+      bcProjectId: job.bcProjectId ?? null,
+      bidPackageId: job.bidPackageId ?? null,
+      diagramId: job.diagramId ?? null,
+    },
+  });
+  return fromExtractionJobRow(row);
+}
+
+/**
+ * Claim the next job that is due, or a running job whose worker went away.
+ * Taking over a job that made progress does not use up an attempt.
+ * Returns null when there is nothing to do.
+ */
+export async function claimNextExtractionJob(workerId: string, client: DbClient = prisma): Promise<ExtractionJobRow | null> {
+  // Another worker may claim the same candidate first; try the next one
+  for (let i = 0; i < 5; i++) {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - EXTRACTION_LOCK_TIMEOUT_MS);
+
+    const candidate = await client.extractionJob.findFirst({
+      where: {
+        OR: [
+          { status: 'queued', runAfter: { lte: now } },
+          { status: 'running', lockedAt: { lt: staleBefore } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!candidate) return null;
+
+    // Only take the job if it is still in the state it was found in
+    const { count } = await client.extractionJob.updateMany({
+      where: { id: candidate.id, status: candidate.status, lockedAt: candidate.lockedAt },
+      data: {
+        status: 'running',
+        lockedBy: workerId,
+        lockedAt: now,
+        ...(!(candidate.status === 'running' && madeProgress(candidate)) && { attempts: { increment: 1 } }),
+        claimedPages: candidate.completedPages,
+        startedAt: candidate.startedAt ?? now,
+      },
+    });
+
+    if (count === 1) {
+      return client.extractionJob.findUnique({ where: { id: candidate.id } });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Record how many pages the job has to extract
+ */
+export async function setExtractionJobTotalPages(
+  jobId: string,
+  workerId: string,
+  totalPages: number,
+  client: DbClient = prisma
+) {
+  const { count } = await client.extractionJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: { totalPages, lockedAt: new Date() },
+  });
+  assertLockHeld(jobId, count);
+}
+
+/**
+ * Checkpoint a page's result. Also serves as the worker's heartbeat.
+ * Resolves to whether cancellation has been requested since.
+ */
+export async function recordExtractionPage(
+  jobId: string,
+  workerId: string,
+  pageResults: ExtractionPageResult[],
+  client: DbClient = prisma
+): Promise<boolean> {
+  const { count } = await client.extractionJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: {
+      pageResults: JSON.stringify(pageResults),
+      completedPages: pageResults.length,
+      lockedAt: new Date(),
+    },
+  });
+  assertLockHeld(jobId, count);
+  return isExtractionJobCancelRequested(jobId, client);
+}
+
+/**
+ * Whether cancellation of a job has been requested
+ */
+export async function isExtractionJobCancelRequested(jobId: string, client: DbClient = prisma): Promise<boolean> {
+  const row = await client.extractionJob.findUnique({
+    where: { id: jobId },
+    select: { cancelRequested: true },
+  });
+  return !row || row.cancelRequested;
+}
+
+const releaseLock = { lockedBy: null, lockedAt: null };
+
+/**
+ * Mark a job as succeeded with its final result
+ */
+export async function completeExtractionJob(jobId: string, workerId: string, result: unknown, client: DbClient = prisma) {
+  const { count } = await client.extractionJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: {
+      status: 'succeeded',
+      result: JSON.stringify(result),
+      error: null,
+      finishedAt: new Date(),
+      ...releaseLock,
+    },
+  });
+  assertLockHeld(jobId, count);
+}
+
+/**
+ * Mark a running job as cancelled once its worker has stopped
+ */
+export async function markExtractionJobCancelled(jobId: string, workerId: string, client: DbClient = prisma) {
+  const { count } = await client.extractionJob.updateMany({
+    where: { id: jobId, lockedBy: workerId },
+    data: { status: 'cancelled', finishedAt: new Date(), ...releaseLock },
+  });
+  assertLockHeld(jobId, count);
+}
+
+/**
+ * Delay before the next attempt after a failed one
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Record a failed attempt: queue a retry with backoff, or fail the job
+ * once it has used all its attempts
+ */
+export async function failExtractionJob(
+  job: Pick<ExtractionJobRow, 'id' | 'attempts' | 'maxAttempts'>,
+  workerId: string,
+  error: unknown,
+  client: DbClient = prisma
+) {
+  const message = error instanceof Error ? error.message : String(error);
+  const willRetry = job.attempts < job.maxAttempts;
+
+  const { count } = await client.extractionJob.updateMany({
+    where: { id: job.id, lockedBy: workerId },
+    data: willRetry
+      ? {
+          status: 'queued',
+          error: message,
+          runAfter: new Date(Date.now() + getRetryDelay(job.attempts)),
+          ...releaseLock,
+        }
+      : {
+          status: 'failed',
+          error: message,
+          finishedAt: new Date(),
+          ...releaseLock,
+        },
+  });
+  assertLockHeld(job.id, count);
+}
+
+/**
+ * Requeue running jobs whose worker stopped checking in (a request-bound
+ * worker killed at the function's time limit, a crashed worker process),
+ * or fail those that have used all their attempts. A job that checkpointed
+ * pages since it was claimed is always requeued and the attempt is given
+ * back. Called when jobs are read and from the reclaim cron route, so a
+ * stuck job does not wait for the next one to be queued. Resolves to the
+ * number of jobs requeued.
+ */
+export async function reclaimStaleExtractionJobs(client: DbClient = prisma): Promise<number> {
+  const staleBefore = new Date(Date.now() - EXTRACTION_LOCK_TIMEOUT_MS);
+  const stale = await client.extractionJob.findMany({
+    where: { status: 'running', lockedAt: { lt: staleBefore } },
+    select: { id: true, attempts: true, maxAttempts: true, lockedAt: true, completedPages: true, claimedPages: true },
+  });
+
+  let requeued = 0;
+  for (const job of stale) {
+    const progressed = madeProgress(job);
+    const willRetry = progressed || job.attempts < job.maxAttempts;
+    const error = 'The extraction worker stopped responding';
+
+    // Skipped when the worker checked in (or another reclaim won) since the read
+    const { count } = await client.extractionJob.updateMany({
+      where: { id: job.id, status: 'running', lockedAt: job.lockedAt },
+      data: willRetry
+        ? {
+            status: 'queued',
+            error,
+            runAfter: new Date(),
+            ...(progressed && { attempts: { decrement: 1 } }),
+            ...releaseLock,
+          }
+        : { status: 'failed', error, finishedAt: new Date(), ...releaseLock },
+    });
+    if (count === 1 && willRetry) requeued++;
+  }
+
+  return requeued;
+}
+
+/**
+ * Cancel a job. Queued jobs stop immediately; running jobs stop after
+ * the page in progress.
+ */
+export async function cancelExtractionJob(jobId: string, client: DbClient = prisma): Promise<ExtractionJob | null> {
+  // Each update only applies in the state it expects, so a worker claiming
+  // (or requeueing) the job in between is not overwritten; try again then
+  for (let i = 0; i < 3; i++) {
+    const queued = await client.extractionJob.updateMany({
+      where: { id: jobId, status: 'queued' },
+      data: { status: 'cancelled', cancelRequested: true, finishedAt: new Date(), ...releaseLock },
+    });
+    if (queued.count > 0) break;
+
+    const running = await client.extractionJob.updateMany({
+      where: { id: jobId, status: 'running' },
+      data: { cancelRequested: true },
+    });
+    if (running.count > 0) break;
+
+    const job = await client.extractionJob.findUnique({ where: { id: jobId }, select: { status: true } });
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) break;
+  }
+
+  const row = await client.extractionJob.findUnique({ where: { id: jobId } });
+  return row ? fromExtractionJobRow(row) : null;
+}
+
+/**
+ * Convert an ExtractionJobEvent row into the API shape
+ */
+export function fromExtractionJobEventRow(row: ExtractionJobEventRow): ExtractionJobEvent {
+  let data: unknown = null;
+  try {
+    data = row.data ? JSON.parse(row.data) : null;
+  } catch (error) {
+    console.error('Failed to parse extraction job event data:', error);
+  }
+
+  return {
+    id: row.id,
+    jobId: row.jobId,
+    type: row.type as ExtractionJobEventType,
+    source: row.source,
+    pageNumber: row.pageNumber,
+    data,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Record a progress event for the job's listeners.
+ * Only the latest merged result is kept, since each one contains the pages before it.
+ */
+export async function recordExtractionJobEvent(
+  jobId: string,
+  type: ExtractionJobEventType,
+  event: { source?: number; pageNumber?: number; data?: unknown } = {},
+  client: DbClient = prisma
+) {
+  if (type === 'merged') {
+    await client.extractionJobEvent.deleteMany({ where: { jobId, type } });
+  }
+
+  await client.extractionJobEvent.create({
+    data: {
+      jobId,
+      type,
+      source: event.source ?? null,
+      pageNumber: event.pageNumber ?? null,
+      data: event.data === undefined ? null : JSON.stringify(event.data),
+    },
+  });
+}
+
+/**
+ * A job's progress events after the given event ID, oldest first
+ */
+export async function getExtractionJobEvents(
+  jobId: string,
+  afterId = 0,
+  client: DbClient = prisma
+): Promise<ExtractionJobEvent[]> {
+  const rows = await client.extractionJobEvent.findMany({
+    where: { jobId, id: { gt: afterId } },
+    orderBy: { id: 'asc' },
+  });
+  return rows.map(fromExtractionJobEventRow);
+}
+
+/**
+ * Queue a failed or cancelled job again. Pages already extracted are kept.
+ */
+export async function retryExtractionJob(jobId: string, client: DbClient = prisma): Promise<ExtractionJob | null> {
+  const { count } = await client.extractionJob.updateMany({
+    where: { id: jobId, status: { in: ['failed', 'cancelled'] } },
+    data: {
+      status: 'queued',
+      attempts: 0,
+      error: null,
+      cancelRequested: false,
+      runAfter: new Date(),
+      finishedAt: null,
+    },
+  });
+  if (count === 0) return null;
+
+  const row = await client.extractionJob.findUnique({ where: { id: jobId } });
+  return row ? fromExtractionJobRow(row) : null;
+}
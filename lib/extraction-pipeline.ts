@@ -0,0 +1,1066 @@
+/**
+ * Extraction Pipeline
+ * Vision extraction of bid packages and line items from drawings, through
+ * the configured extraction provider, and saving the results. Run page by
+ * page by the extraction job worker.
+ */
+
+import { Prisma } from '@prisma/client';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { calculateBufferHash, readUploadedFile, generateCopyName } from '@/lib/file-utils';
+import { PDFPageText, convertPDFToImages, extractPDFTextItems, getPDFInfo, isPDFFile } from '@/lib/pdf-utils';
+import {
+  TextLayerItem,
+  applyTextLayer,
+  findTextLayerItems,
+  formatTextLayerForPrompt,
+  hasUsableTextLayer,
+} from '@/lib/text-layer';
+import {
+  applySchedules,
+  detectScheduleTables,
+  normalizeScheduleTables,
+  removeScheduleText,
+} from '@/lib/schedule-parser';
+import { searchCSICodes } from '@/lib/csi/csiLookup';
+import type { CSISearchOptions } from '@/lib/csi/csiTypes';
+import { categorizeLineItems } from '@/lib/bid-package-utils';
+import { INITIAL_BID_PACKAGE_STATUS } from '@/lib/bid-package-status';
+import { completeExtraction } from '@/lib/extraction-provider';
+import { ImageMediaType } from '@/types/extractionProvider';
+import {
+  BatchExtractionInput,
+  BidPackageExtractionInput,
+  ExtractionBidPackage,
+  ExtractionLineItem,
+  ExtractionResult,
+  ProjectExtractionInput,
+} from '@/types/extractionJob';
+
+// Pages of a drawing set extracted per file; the rest are ignored
+export const MAX_EXTRACTION_PAGES = 200;
+
+// Bump when a page prompt changes, so cached responses to the old prompt are not reused
+export const EXTRACTION_PROMPT_VERSIONS = {
+  drawing: 3,
+  drawing_batch: 1,
+} as const;
+
+export type CachedExtractionTask = keyof typeof EXTRACTION_PROMPT_VERSIONS;
+
+// Helper function to match a line item description to CSI codes using search
+// Uses progressive word trimming: if full description doesn't match,
+// 1. First trim words from the end until a match is found
+// 2. If still no match, trim words from the beginning until a match is found
+// Tries with division filter first, then without as fallback
+export function matchLineItemToCSI(description: string, csiDivision?: string): { code: string; title: string } | null {
+  if (!description || description.trim().length === 0) {
+    return null;
+  }
+
+  // Clean the description: remove special characters like #, numbers at end, etc.
+  const cleanDescription = description.trim();
+
+  // Split into words, filtering out empty strings
+  const words = cleanDescription.split(/[\s\-–—]+/).filter(w => w.length > 0);
+
+  // Try with division filter first, then without
+  const divisionFilters: (string[] | undefined)[] = [];
+  if (csiDivision && csiDivision !== '00') {
+    divisionFilters.push([csiDivision]); // First with division
+  }
+  divisionFilters.push(undefined); // Then without division filter
+
+  for (const divisions of divisionFilters) {
+    // Strategy 1: Trim words from the END
+    for (let wordCount = words.length; wordCount >= 1; wordCount--) {
+      const searchTermWords = words.slice(0, wordCount);
+      const searchTerm = searchTermWords.join(' ');
+
+      // Skip if search term is too short (less than 2 chars)
+      if (searchTerm.length < 2) {
+        continue;
+      }
+
+      // Search for CSI codes matching the search term
+      const searchOptions: CSISearchOptions = {
+        query: searchTerm,
+        limit: 3,
+        caseSensitive: false,
+      };
+
+      if (divisions) {
+        searchOptions.divisions = divisions;
+      }
+
+      const results = searchCSICodes(searchOptions);
+
+      // Return the best match if found
+      if (results.length > 0) {
+        const bestMatch = results[0];
+        const searchScope = divisions ? `division ${csiDivision}` : 'all divisions';
+        console.log(`CSI match found for "${searchTerm}" (from "${description}", trim-end) in ${searchScope}: ${bestMatch.code.code} - ${bestMatch.code.title}`);
+        return {
+          code: bestMatch.code.code,
+          title: bestMatch.code.title,
+        };
+      }
+    }
+
+    // Strategy 2: Trim words from the BEGINNING
+    for (let startIdx = 1; startIdx < words.length; startIdx++) {
+      const searchTermWords = words.slice(startIdx);
+      const searchTerm = searchTermWords.join(' ');
+
+      // Skip if search term is too short (less than 2 chars)
+      if (searchTerm.length < 2) {
+        continue;
+      }
+
+      // Search for CSI codes matching the search term
+      const searchOptions: CSISearchOptions = {
+        query: searchTerm,
+        limit: 3,
+        caseSensitive: false,
+      };
+
+      if (divisions) {
+        searchOptions.divisions = divisions;
+      }
+
+      const results = searchCSICodes(searchOptions);
+
+      // Return the best match if found
+      if (results.length > 0) {
+        const bestMatch = results[0];
+        const searchScope = divisions ? `division ${csiDivision}` : 'all divisions';
+        console.log(`CSI match found for "${searchTerm}" (from "${description}", trim-start) in ${searchScope}: ${bestMatch.code.code} - ${bestMatch.code.title}`);
+        return {
+          code: bestMatch.code.code,
+          title: bestMatch.code.title,
+        };
+      }
+    }
+  }
+
+  console.log(`No CSI match found for "${description}" even after all trimming strategies in all divisions`);
+  return null;
+}
+
+// Helper function to extract bid packages from a single image. With
+// `textLayer` (notes read from a vector PDF), the notes seed the items and
+// the image is used to reconcile them.
+export async function processDrawingImage(
+  base64Image: string,
+  mediaType: ImageMediaType,
+  userInstructions?: string,
+  contextNote?: string,
+  textLayer: TextLayerItem[] = []
+) {
+  const hasTextLayer = textLayer.length > 0;
+
+  const { text: responseText } = await completeExtraction({
+    task: 'drawing',
+    messages: [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image',
+            mediaType,
+            data: base64Image,
+          },
+          {
+            type: 'text',
+            text: `Analyze this construction/preconstruction diagram or work drawing and extract ALL bid packages and items.
+${contextNote ? `\nCONTEXT: ${contextNote}\n` : ''}
+${userInstructions ? `\nADDITIONAL INSTRUCTIONS FROM USER:\n${userInstructions}\n` : ''}
+${hasTextLayer ? `
+TEXT LAYER:
+This page is a vector PDF. These numbered notes were read from its text layer, with their exact positions on the page. Their item numbers and wording are authoritative:
+
+${formatTextLayerForPrompt(textLayer)}
+
+Use the image to reconcile them: group them into bid packages, read quantities and units the text does not state, and add any items that only appear graphically (schedules, callouts, tags). For every line item taken from this list, set "text_ref" to its reference (e.g. "T3") and leave its boundingBox null; the exact position is already known. List the references of notes that are not bid items (general notes, code references, drawing conventions) in "excluded_text_refs".
+` : ''}
+CRITICAL: You MUST extract EVERY SINGLE numbered item visible in this document. Do not skip any items.
+
+STEP 1: IDENTIFY ALL SECTIONS AND ITEMS
+Look for:
+- Numbered items (e.g., 2.1, 2.2, 3.1, 8.1, etc.)
+- Section headers (e.g., "2. Partitions, Door, Glazing", "3. Millwork Notes", "8. Site Notes")
+- Legend items or note callouts
+- Any text that describes work to be done
+
+Common document structures:
+- Notes sections organized by number (2.x, 3.x, 4.x, etc.)
+- CSI MasterFormat divisions (02-16)
+- General notes or specifications
+
+STEP 2: ORGANIZE INTO BID PACKAGES
+Group items by their section or trade:
+- If items are numbered (e.g., 2.1, 2.2), group them by the first number (all 2.x items together)
+- Use the section header as the package name (e.g., "Partitions, Door, Glazing, Structural")
+- If no clear sections exist, group by CSI division or create logical trade packages
+- Map to CSI divisions when possible:
+  * Division 02: Site Construction
+  * Division 03: Concrete
+  * Division 04: Masonry
+  * Division 05: Metals
+  * Division 06: Wood & Plastics
+  * Division 07: Thermal & Moisture
+  * Division 08: Doors & Windows
+  * Division 09: Finishes
+  * Division 10: Specialties
+  * Division 11: Equipment
+  * Division 12: Furnishings
+  * Division 13: Special Construction
+  * Division 14: Conveying
+  * Division 15: Mechanical
+  * Division 16: Electrical
+
+STEP 3: EXTRACT EACH ITEM
+For every item, extract:
+- item_number: The exact number shown (e.g., "2.1", "8.3", "A1")
+- description: The complete text describing the work
+- quantity: Number if specified (can be null)
+- unit: Unit of measurement if specified (LF, SF, EA, CY, etc.) (can be null)
+- notes: Any additional specifications or context
+- boundingBox: Approximate location on the image (normalized 0.0-1.0 coordinates)
+
+STEP 4: TRANSCRIBE SCHEDULES
+If the page has tabular schedules (door, window, room finish, equipment, plumbing or lighting fixture schedules), transcribe each one under "schedules": its title as printed, its column headers, and every row with one cell per column ("" where blank). Do not also list schedule rows as line items; they are counted from the schedule.
+
+Format your response as a JSON object:
+{
+  "project_name": "string or null (extracted from document header, title, or project identification)",
+  "project_description": "string or null (1-2 sentence summary of the overall project scope and type)",
+  "bid_packages": [
+    {
+      "name": "Section name or Division XX - Description",
+      "csi_division": "XX" or "00" if unknown,
+      "description": "Brief description of scope",
+      "line_items": [
+        {
+          "item_number": "string",
+          "description": "string (complete work description)",
+          "quantity": number or null,
+          "unit": "string or null",
+          "notes": "string or null",
+          "boundingBox": {
+            "x": number (0.0-1.0),
+            "y": number (0.0-1.0),
+            "width": number (0.0-1.0),
+            "height": number (0.0-1.0)
+          } or null${hasTextLayer ? `,
+          "text_ref": "T# or null"` : ''}
+        }
+      ]
+    }
+  ],
+  "schedules": [
+    {
+      "title": "string (e.g. DOOR SCHEDULE)",
+      "columns": ["string"],
+      "rows": [["string"]],
+      "boundingBox": { "x": number, "y": number, "width": number, "height": number } or null
+    }
+  ],${hasTextLayer ? `
+  "excluded_text_refs": ["T#"],` : ''}
+  "extraction_confidence": "high/medium/low"
+}
+
+IMPORTANT RULES:
+1. Extract EVERY numbered item - do not skip any
+2. Preserve the exact item numbers as they appear
+3. Include complete descriptions - do not truncate
+4. Group items logically by section or trade
+5. If an item has no quantity/unit, that's OK - extract it anyway
+6. If you see 20+ items, you should extract 20+ line items
+7. Do not extract pricing information
+8. Do not invent items that aren't there
+9. Each item should appear exactly once in exactly one bid package`,
+          },
+        ],
+      },
+    ],
+  });
+
+  // Parse JSON response
+  let result: ExtractionResult;
+  let jsonStr = '';
+  try {
+
+    if (responseText.includes('```json')) {
+      // Extract JSON from markdown code fence
+      const jsonStart = responseText.indexOf('```json') + 7; // '```json'.length = 7
+      const jsonEnd = responseText.indexOf('```', jsonStart);
+
+      if (jsonEnd === -1) {
+        // No closing fence found, try to find the last complete JSON object
+        const firstBrace = responseText.indexOf('{', jsonStart);
+        if (firstBrace !== -1) {
+          // Find the last closing brace
+          const lastBrace = responseText.lastIndexOf('}');
+          if (lastBrace > firstBrace) {
+            jsonStr = responseText.substring(firstBrace, lastBrace + 1).trim();
+          }
+        }
+      } else {
+        jsonStr = responseText.substring(jsonStart, jsonEnd).trim();
+      }
+    } else if (responseText.includes('{')) {
+      // Try to extract JSON directly
+      const jsonStart = responseText.indexOf('{');
+      const jsonEnd = responseText.lastIndexOf('}') + 1;
+      jsonStr = responseText.substring(jsonStart, jsonEnd).trim();
+    }
+
+    if (jsonStr) {
+      result = JSON.parse(jsonStr);
+      console.log('Successfully parsed JSON with', result.bid_packages?.length || 0, 'bid packages');
+    } else {
+      throw new Error('No valid JSON found in response');
+    }
+  } catch (parseError) {
+    console.error('JSON parse error:', parseError instanceof Error ? parseError.message : parseError);
+    console.error('Attempted to parse length:', jsonStr?.length, 'characters');
+
+    // Try to repair truncated JSON
+    try {
+      let repairedJson = jsonStr;
+
+      // If JSON is truncated mid-object, try to close it
+      if (repairedJson && !repairedJson.trim().endsWith('}')) {
+        console.log('Attempting to repair truncated JSON...');
+
+        // Count open braces and brackets
+        const openBraces = (repairedJson.match(/\{/g) || []).length;
+        const closeBraces = (repairedJson.match(/\}/g) || []).length;
+        const openBrackets = (repairedJson.match(/\[/g) || []).length;
+        const closeBrackets = (repairedJson.match(/\]/g) || []).length;
+
+        // Remove any incomplete string at the end
+        repairedJson = repairedJson.replace(/,?\s*"[^"]*$/, '');
+        repairedJson = repairedJson.replace(/,?\s*\{[^}]*$/, '');
+
+        // Close missing brackets and braces
+        for (let i = 0; i < (openBrackets - closeBrackets); i++) {
+          repairedJson += ']';
+        }
+        for (let i = 0; i < (openBraces - closeBraces); i++) {
+          repairedJson += '}';
+        }
+
+        result = JSON.parse(repairedJson);
+        console.log('Successfully repaired and parsed truncated JSON');
+      } else {
+        throw new Error('Could not repair JSON');
+      }
+    } catch (repairError) {
+      console.error('Failed to repair JSON:', repairError instanceof Error ? repairError.message : repairError);
+      console.error('Response was likely truncated due to max_tokens limit');
+      console.error('First 500 chars:', jsonStr?.substring(0, 500));
+      console.error('Last 500 chars:', jsonStr?.substring(jsonStr.length - 500));
+
+      result = {
+        project_name: null,
+        bid_packages: [{
+          name: 'GENERAL',
+          csi_division: '00',
+          description: 'General bid items',
+          line_items: []
+        }],
+        extraction_confidence: 'low',
+        raw_text: responseText.substring(0, 1000), // Store first 1000 chars for debugging
+        error: 'Response truncated - increase max_tokens'
+      };
+    }
+  }
+
+  // Ensure at least one bid package exists
+  if (!result.bid_packages || result.bid_packages.length === 0) {
+    result.bid_packages = [{
+      name: 'GENERAL',
+      csi_division: '00',
+      description: 'General bid items',
+      line_items: []
+    }];
+  }
+
+  return hasTextLayer ? applyTextLayer(result, textLayer) : result;
+}
+
+// Helper function to combine extraction results from multiple pages
+export function combineExtractionResults(results: (ExtractionResult & { pageNumber?: number })[]): ExtractionResult {
+  if (results.length === 0) {
+    return {
+      project_name: null,
+      bid_packages: [{
+        name: 'GENERAL',
+        csi_division: '00',
+        description: 'General bid items',
+        line_items: []
+      }],
+      extraction_confidence: 'low'
+    };
+  }
+
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  // Combine results from multiple pages
+  const combined = {
+    project_name: null as string | null,
+    project_description: null as string | null,
+    bid_packages: new Map<string, ExtractionBidPackage & { line_items: ExtractionLineItem[] }>(),
+    extraction_confidence: 'medium' as string,
+    page_count: results.length
+  };
+
+  // Use the first non-null project name and description found
+  for (const result of results) {
+    if (result.project_name && !combined.project_name) {
+      combined.project_name = result.project_name;
+    }
+    if (result.project_description && !combined.project_description) {
+      combined.project_description = result.project_description;
+    }
+    if (combined.project_name && combined.project_description) {
+      break;
+    }
+  }
+
+  // Combine bid packages from all pages
+  for (const result of results) {
+    const pageNumber = result.pageNumber || 1;
+
+    if (result.bid_packages && Array.isArray(result.bid_packages)) {
+      for (const pkg of result.bid_packages) {
+        const key = `${pkg.csi_division}-${pkg.name}`;
+
+        let existingPkg = combined.bid_packages.get(key);
+        if (!existingPkg) {
+          existingPkg = {
+            name: pkg.name,
+            csi_division: pkg.csi_division,
+            description: pkg.description,
+            line_items: []
+          };
+          combined.bid_packages.set(key, existingPkg);
+        }
+
+        if (pkg.line_items && Array.isArray(pkg.line_items)) {
+          pkg.line_items.forEach(item => {
+            existingPkg.line_items.push({
+              ...item,
+              source_page: pageNumber,
+              notes: item.notes ? `${item.notes} (Page ${pageNumber})` : `Page ${pageNumber}`
+            });
+          });
+        }
+      }
+    }
+  }
+
+  // Convert Map back to array
+  const packagesArray = Array.from(combined.bid_packages.values());
+
+  // If no packages were found, create a GENERAL package
+  if (packagesArray.length === 0) {
+    packagesArray.push({
+      name: 'GENERAL',
+      csi_division: '00',
+      description: 'General bid items',
+      line_items: []
+    });
+  }
+
+  // Determine overall confidence
+  const confidenceLevels = results.map(r => r.extraction_confidence || 'low');
+  if (confidenceLevels.every(c => c === 'high')) {
+    combined.extraction_confidence = 'high';
+  } else if (confidenceLevels.some(c => c === 'low')) {
+    combined.extraction_confidence = 'low';
+  }
+
+  return {
+    project_name: combined.project_name,
+    project_description: combined.project_description,
+    bid_packages: packagesArray,
+    extraction_confidence: combined.extraction_confidence,
+    page_count: combined.page_count
+  };
+}
+
+// Helper function to extract a flat list of line items from a single image (batch extraction)
+export async function extractSingleImage(
+  imageBuffer: Buffer,
+  mediaType: ImageMediaType
+): Promise<ExtractionResult> {
+  const base64Image = imageBuffer.toString('base64');
+
+  const { text: responseText } = await completeExtraction({
+    task: 'drawing_batch',
+    messages: [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image',
+            mediaType,
+            data: base64Image,
+          },
+          {
+            type: 'text',
+            text: `Analyze this construction/preconstruction diagram or work drawing and extract all bid items and information.
+
+Please extract the following information in a structured format:
+1. Project name or title (if visible)
+2. All line items with:
+   - Item number (if present)
+   - Description of work/material
+   - Quantity (if specified)
+   - Unit of measurement (e.g., LF, SF, EA, CY, etc.)
+   - Any relevant notes or specifications
+
+NOTE: Do not extract pricing information (unit prices or totals). This is a quantity takeoff only.
+
+IMPORTANT: Carefully identify the trade/category for each item based on its description. Common categories include:
+- Plumbing (pipes, drains, fixtures, water systems)
+- Electrical (wiring, outlets, panels, lighting)
+- HVAC (heating, cooling, ventilation, ductwork)
+- Framing (studs, joists, beams, structural)
+- Drywall (gypsum, partitions, ceilings)
+- Flooring (carpet, tile, vinyl, hardwood)
+- Roofing (shingles, membranes, gutters)
+- Concrete (foundations, slabs, footings)
+- Painting (paint, coatings, finishes)
+- Landscaping (plants, irrigation, hardscape)
+- General Conditions (supervision, temporary facilities, safety)
+
+Format your response as a JSON object with this structure:
+{
+  "project_name": "string or null",
+  "line_items": [
+    {
+      "item_number": "string or null",
+      "description": "string",
+      "quantity": number or null,
+      "unit": "string or null",
+      "notes": "string or null"
+    }
+  ],
+  "extraction_confidence": "high/medium/low"
+}
+
+If this is not a construction diagram or you cannot extract meaningful bid information, return an empty line_items array and set extraction_confidence to "low".`,
+          },
+        ],
+      },
+    ],
+  });
+
+  // Parse JSON response
+  let result: ExtractionResult;
+  try {
+    if (responseText.includes('```json')) {
+      const jsonStart = responseText.indexOf('```json') + 7;
+      const jsonEnd = responseText.indexOf('```', jsonStart);
+      const jsonStr = responseText.substring(jsonStart, jsonEnd).trim();
+      result = JSON.parse(jsonStr);
+    } else if (responseText.includes('{')) {
+      const jsonStart = responseText.indexOf('{');
+      const jsonEnd = responseText.lastIndexOf('}') + 1;
+      const jsonStr = responseText.substring(jsonStart, jsonEnd);
+      result = JSON.parse(jsonStr);
+    } else {
+      result = {
+        project_name: null,
+        line_items: [],
+        extraction_confidence: 'low',
+      };
+    }
+  } catch (parseError) {
+    console.error('JSON parse error:', parseError);
+    result = {
+      project_name: null,
+      line_items: [],
+      extraction_confidence: 'low',
+    };
+  }
+
+  return result;
+}
+export interface ExtractionSource {
+  buffer: Buffer;
+  fileHash: string; // As stored on Diagram.fileHash
+  isPDF: boolean;
+  pageCount: number; // Pages to extract, at most MAX_EXTRACTION_PAGES
+  textLayer: PDFPageText[] | null; // Positioned text of each PDF page, when it could be read
+  mediaType: ImageMediaType; // Of the file itself, when it is an image
+}
+
+/**
+ * Read an uploaded drawing and find out how many pages it has
+ */
+export async function loadExtractionSource(fileUrl: string): Promise<ExtractionSource> {
+  return createExtractionSource(await readUploadedFile(fileUrl), fileUrl);
+}
+
+/**
+ * Open a file that is already in memory; the name gives its type
+ */
+export async function createExtractionSource(buffer: Buffer, fileName: string): Promise<ExtractionSource> {
+  const isPDF = isPDFFile(fileName) || isPDFFile(buffer);
+  const fileHash = calculateBufferHash(buffer);
+
+  if (isPDF) {
+    const info = await getPDFInfo(buffer);
+    const pageCount = Math.min(info.pageCount, MAX_EXTRACTION_PAGES);
+
+    // Without a text layer, pages are extracted from their images alone
+    let textLayer: PDFPageText[] | null = null;
+    try {
+      textLayer = await extractPDFTextItems(buffer, pageCount);
+    } catch (error) {
+      console.error('Could not read PDF text layer, using vision only:', error);
+    }
+
+    return {
+      buffer,
+      fileHash,
+      isPDF,
+      pageCount,
+      textLayer,
+      mediaType: 'image/png',
+    };
+  }
+
+  // Determine media type from file extension
+  let mediaType: ImageMediaType = 'image/jpeg';
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === '.png') mediaType = 'image/png';
+  else if (ext === '.gif') mediaType = 'image/gif';
+  else if (ext === '.webp') mediaType = 'image/webp';
+
+  return { buffer, fileHash, isPDF, pageCount: 1, textLayer: null, mediaType };
+}
+
+/**
+ * Image of one page of a source, ready to send to Claude
+ */
+export async function renderExtractionPage(
+  source: ExtractionSource,
+  pageNumber: number
+): Promise<{ imageBuffer: Buffer; mediaType: ImageMediaType }> {
+  if (!source.isPDF) {
+    return { imageBuffer: source.buffer, mediaType: source.mediaType };
+  }
+
+  const [pageImage] = await convertPDFToImages(source.buffer, { firstPage: pageNumber, maxPages: 1 });
+  if (!pageImage) {
+    throw new Error(`Page ${pageNumber} could not be rendered`);
+  }
+
+  return {
+    imageBuffer: pageImage.imageBuffer,
+    mediaType: pageImage.contentType.includes('jpeg') ? 'image/jpeg' : 'image/png',
+  };
+}
+
+/**
+ * What the drawing prompt is told about where a page sits in its file
+ */
+export function getPageContextNote(source: ExtractionSource, pageNumber: number): string | undefined {
+  return source.isPDF ? `Page ${pageNumber} of PDF.` : undefined;
+}
+
+/**
+ * Extract bid packages from one rendered page of a drawing. Vector PDF
+ * pages are seeded from their text layer, so their boxes are exact. Line
+ * items are also counted from the page's schedules, read from the text
+ * layer when it has them and from the model's transcription otherwise.
+ */
+export async function extractDrawingPage(
+  source: ExtractionSource,
+  image: { imageBuffer: Buffer; mediaType: ImageMediaType },
+  pageNumber: number,
+  instructions?: string
+) {
+  const textPage = source.textLayer?.[pageNumber - 1];
+  const hasTextLayer = hasUsableTextLayer(textPage);
+  const textSchedules = hasTextLayer ? detectScheduleTables(textPage) : [];
+  const textItems = hasTextLayer ? findTextLayerItems(removeScheduleText(textPage, textSchedules)) : [];
+
+  const result = await processDrawingImage(
+    image.imageBuffer.toString('base64'),
+    image.mediaType,
+    instructions,
+    getPageContextNote(source, pageNumber),
+    textItems
+  );
+
+  const schedules = textSchedules.length > 0 ? textSchedules : normalizeScheduleTables(result.schedules);
+  return applySchedules(result, schedules);
+}
+
+/**
+ * Combine per-page drawing results in page order; PDF pages are numbered
+ * so their items note the page they came from
+ */
+export function combinePageResults(pages: { pageNumber: number; isPDF: boolean; result: ExtractionResult }[]) {
+  return combineExtractionResults(
+    pages.map(page => (page.isPDF ? { ...page.result, pageNumber: page.pageNumber } : page.result))
+  );
+}
+
+/**
+ * Match every line item of an extraction result to a CSI code
+ */
+export function applyCSIMatches<T extends ExtractionResult>(result: T): T {
+  if (result.bid_packages && Array.isArray(result.bid_packages)) {
+    result.bid_packages = result.bid_packages.map(pkg => {
+      if (pkg.line_items && Array.isArray(pkg.line_items)) {
+        pkg.line_items = pkg.line_items.map(item => {
+          // Keep codes assigned when the item was generated, e.g. counted from a schedule
+          if (item.csiCode && item.csiCode !== 'N/A') return item;
+
+          const csiMatch = matchLineItemToCSI(item.description, pkg.csi_division);
+          return {
+            ...item,
+            csiCode: csiMatch?.code || 'N/A',
+            csiTitle: csiMatch?.title || 'N/A',
+          };
+        });
+      }
+      return pkg;
+    });
+  }
+  return result;
+}
+
+/**
+ * Save an extraction result as line items of an existing bid package
+ */
+export async function saveBidPackageExtraction(
+  result: ExtractionResult,
+  input: BidPackageExtractionInput,
+  sourceRevision: number | null
+) {
+  const lineItems = (result.bid_packages || []).flatMap(pkg => pkg.line_items || []);
+  if (!input.bidPackageId || lineItems.length === 0) {
+    return result;
+  }
+
+  try {
+    const bidForm = await prisma.bidForm.create({
+      data: {
+        bidPackageId: input.bidPackageId,
+        diagramId: input.diagramId || null,
+        extractionConfidence: result.extraction_confidence || 'unknown',
+        rawExtractedText: result.raw_text || null,
+        status: 'draft',
+        lineItems: {
+          create: lineItems.map((item, index) => ({
+            itemNumber: item.item_number || null,
+            description: item.description,
+            quantity: item.quantity || null,
+            unit: item.unit || null,
+            unitPrice: item.unit_price || null,
+            totalPrice: item.total_price || null,
+            notes: item.notes || null,
+            order: index,
+            verified: false,
+            csiCode: item.csiCode || 'N/A',
+            csiTitle: item.csiTitle || 'N/A',
+            boundingBox: item.boundingBox ? JSON.stringify(item.boundingBox) : null,
+            sourceRevision
+          }))
+        }
+      },
+      include: {
+        lineItems: {
+          orderBy: {
+            order: 'asc'
+          }
+        }
+      }
+    });
+
+    console.log('Created BidForm:', bidForm.id);
+
+    return {
+      ...result,
+      bidFormId: bidForm.id,
+      bidForm: bidForm
+    };
+  } catch (dbError) {
+    console.error('Error saving to database:', dbError);
+    // Return extraction result even if DB save fails
+    return {
+      ...result,
+      warning: 'Extraction successful but failed to save to database'
+    };
+  }
+}
+
+/**
+ * Save an extraction result as new bid packages of a project, one per
+ * extracted package that has line items
+ */
+export async function saveProjectExtraction(
+  result: ExtractionResult,
+  input: ProjectExtractionInput,
+  sourceRevision: number | null,
+  isMockData = false
+) {
+  const { projectId, diagramId } = input;
+  if (!projectId || !result.bid_packages || result.bid_packages.length === 0) {
+    return isMockData ? { ...result, isMockData } : result;
+  }
+
+  try {
+    // Create bid packages and forms for each identified package
+    const createdPackages = await Promise.all(
+      result.bid_packages.map(async pkg => {
+        // Check if package has any line items
+        if (!pkg.line_items || pkg.line_items.length === 0) {
+          console.log(`Skipping empty package: ${pkg.name}`);
+          return null;
+        }
+
+        const bidPackage = await prisma.bidPackage.create({
+          data: {
+            bcBidPackageId: `${projectId}-${pkg.csi_division}-${pkg.name.toLowerCase().replace(/\s+/g, '-')}`,
+            bcProjectId: projectId,
+            name: pkg.name,
+            status: INITIAL_BID_PACKAGE_STATUS,
+            progress: 0,
+            diagramIds: diagramId ? JSON.stringify([diagramId]) : null,
+          }
+        });
+
+        // Create bid form with line items for this package
+        // CSI codes are already computed, so we just use them
+        const lineItemsForDB = pkg.line_items.map((item, index) => ({
+          itemNumber: item.item_number || null,
+          description: item.description,
+          quantity: item.quantity || null,
+          unit: item.unit || null,
+          unitPrice: item.unit_price || null,
+          totalPrice: item.total_price || null,
+          notes: item.notes || null,
+          order: index,
+          verified: false,
+          csiCode: item.csiCode || 'N/A',
+          csiTitle: item.csiTitle || 'N/A',
+          boundingBox: item.boundingBox ? JSON.stringify(item.boundingBox) : null,
+          sourceRevision,
+        }));
+
+        const bidForm = await prisma.bidForm.create({
+          data: {
+            bidPackageId: bidPackage.id,
+            diagramId: diagramId || null,
+            extractionConfidence: result.extraction_confidence || (isMockData ? 'medium' : 'unknown'),
+            rawExtractedText: isMockData ? 'MOCK DATA GENERATED' : result.raw_text || null,
+            status: 'draft',
+            lineItems: {
+              create: lineItemsForDB
+            }
+          },
+          include: {
+            lineItems: {
+              orderBy: {
+                order: 'asc'
+              }
+            }
+          }
+        });
+
+        console.log(`Created BidPackage: ${bidPackage.id} (${pkg.name}) with BidForm: ${bidForm.id}`);
+
+        return {
+          bidPackage,
+          bidForm
+        };
+      })
+    );
+
+    // Filter out null values (empty packages)
+    const validPackages = createdPackages.filter(p => p !== null);
+
+    return {
+      ...result,
+      createdPackages: validPackages,
+      message: `Successfully created ${validPackages.length} ${isMockData ? 'mock ' : ''}bid packages with forms`,
+      ...(isMockData && { isMockData })
+    };
+  } catch (dbError) {
+    console.error('Error saving to database:', dbError);
+    // Return extraction result even if DB save fails
+    return {
+      ...result,
+      warning: `${isMockData ? 'Mock extraction' : 'Extraction'} successful but failed to save to database`,
+      ...(isMockData && { isMockData })
+    };
+  }
+}
+
+export interface BatchDiagramResult {
+  diagramId: string;
+  success: boolean;
+  project_name?: string | null;
+  line_items: ExtractionLineItem[];
+  extraction_confidence?: string;
+  error?: string;
+}
+
+/**
+ * Group a batch's line items into one bid package per trade
+ */
+function groupLineItemsByTrade(lineItems: ExtractionLineItem[]) {
+  return Object.entries(categorizeLineItems(lineItems)).map(([category, items]) => ({
+    category,
+    name: `${category} Package`,
+    description: `${category} scope extracted from drawings`,
+    itemCount: items.length,
+    items,
+  }));
+}
+
+/**
+ * Create the project of a batch extraction (or find the existing one) and
+ * summarize what was extracted from each diagram
+ */
+export async function saveBatchExtraction(
+  input: BatchExtractionInput,
+  extractionResults: BatchDiagramResult[],
+  allLineItems: ExtractionLineItem[],
+  extractedProjectName: string | null
+) {
+  const { diagrams, bcProjectId, createNewProject = false, isDuplicate = false, originalProjectId } = input;
+
+  // Determine the final project name
+  let finalProjectName = input.projectName || extractedProjectName || 'Untitled Project';
+
+  // If this is a duplicate, generate a copy name
+  if (isDuplicate) {
+    // Get existing project names to avoid conflicts
+    const existingProjects = await prisma.buildingConnectedProject.findMany({
+      select: { name: true }
+    });
+    const existingNames = existingProjects.map(p => p.name);
+    finalProjectName = generateCopyName(finalProjectName, existingNames);
+  }
+
+  // Categorize all line items and organize into bid packages
+  const bidPackages = groupLineItemsByTrade(allLineItems);
+
+  let projectId: string;
+
+  if (bcProjectId && !createNewProject) {
+    // Existing project
+    const project = await prisma.buildingConnectedProject.findUnique({
+      where: { id: bcProjectId },
+      select: { id: true }
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    projectId = bcProjectId;
+  } else {
+    // Create new project
+    const newProjectData: Prisma.BuildingConnectedProjectCreateInput = {
+      bcProjectId: `bc-${Date.now()}`,
+      name: finalProjectName,
+      status: 'active',
+      description: `Extracted from ${diagrams.length} diagram(s)`,
+      diagrams: {
+        create: diagrams.map(d => ({
+          fileName: d.fileName,
+          fileUrl: d.imageUrl,
+          fileType: 'image/png',
+          fileSize: 0, // We don't have this info in batch extraction
+          fileHash: d.fileHash
+        }))
+      },
+      bidPackages: {
+        create: bidPackages.map(pkg => ({
+          bcBidPackageId: `bp-${pkg.category.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}`,
+          name: pkg.name,
+          description: pkg.description,
+          status: INITIAL_BID_PACKAGE_STATUS,
+          progress: 0,
+          scope: `${pkg.itemCount} items`
+        }))
+      }
+    };
+
+    // If this is a copy, link it to the original project somehow
+    if (isDuplicate && originalProjectId) {
+      newProjectData.description = `Copy of project - ${newProjectData.description}`;
+    }
+
+    const project = await prisma.buildingConnectedProject.create({
+      data: newProjectData,
+      include: {
+        bidPackages: true
+      }
+    });
+
+    projectId = project.id;
+
+    // Create BidForms and LineItems for each bid package
+    for (let i = 0; i < bidPackages.length; i++) {
+      const pkg = bidPackages[i];
+      const dbPackage = project.bidPackages[i];
+
+      if (dbPackage && pkg.items.length > 0) {
+        await prisma.bidForm.create({
+          data: {
+            bidPackageId: dbPackage.id,
+            extractionConfidence: 'medium',
+            status: 'draft',
+            lineItems: {
+              create: pkg.items.map((item, index) => ({
+                itemNumber: item.item_number || null,
+                description: item.description,
+                quantity: item.quantity || null,
+                unit: item.unit || null,
+                notes: item.notes || null,
+                order: index,
+                verified: false
+              }))
+            }
+          }
+        });
+      }
+    }
+  }
+
+  return {
+    success: true,
+    projectId: projectId,
+    projectName: finalProjectName,
+    message: `Successfully processed ${diagrams.length} diagram(s)`,
+    bidPackages: bidPackages.map(pkg => ({
+      id: `temp-${pkg.category}`,
+      name: pkg.name,
+      category: pkg.category,
+      itemCount: pkg.itemCount,
+    })),
+    extractionResults: extractionResults.map(r => ({
+      diagramId: r.diagramId,
+      success: r.success,
+      itemCount: r.line_items?.length || 0,
+      confidence: r.extraction_confidence,
+      error: r.error
+    }))
+  };
+}
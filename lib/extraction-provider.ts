@@ -0,0 +1,246 @@
+/**
+ * Pluggable Extraction Provider
+ *
+ * Selects the provider named by EXTRACTION_PROVIDER (default "anthropic"):
+ * - anthropic: calls the Claude API (needs ANTHROPIC_API_KEY)
+ * - fixture: replays responses recorded under EXTRACTION_FIXTURES_DIR
+ *   (default ./fixtures/extraction), so the app runs offline without an API key
+ *
+ * Model settings default per task and can be overridden with EXTRACTION_MODEL,
+ * EXTRACTION_MAX_TOKENS and EXTRACTION_TEMPERATURE. With
+ * EXTRACTION_RECORD_FIXTURES=true, live responses are saved as fixtures.
+ *
+ * Other providers plug in with registerExtractionProvider().
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  ExtractionModelOptions,
+  ExtractionProvider,
+  ExtractionRequest,
+  ExtractionResponse,
+  ExtractionTask,
+  ExtractionToolCall,
+} from '@/types/extractionProvider';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
+
+// Name of the provider that replays recorded responses
+export const FIXTURE_PROVIDER_NAME = 'fixture';
+
+const TASK_DEFAULTS: Record<ExtractionTask, ExtractionModelOptions> = {
+  drawing: { model: DEFAULT_MODEL, maxTokens: 8000 },
+  drawing_batch: { model: DEFAULT_MODEL, maxTokens: 4096 },
+  categorize_document: { model: DEFAULT_MODEL, maxTokens: 1024 },
+  project_info: { model: 'claude-sonnet-4-20250514', maxTokens: 4096 },
+  chat: { model: DEFAULT_MODEL, maxTokens: 4096 },
+  chat_summary: { model: DEFAULT_MODEL, maxTokens: 1024 },
+  csi_mapping: { model: DEFAULT_MODEL, maxTokens: 2048 },
+};
+
+/**
+ * Model settings for a request: the task's defaults, then the environment,
+ * then the request's own overrides
+ */
+export function getExtractionModelOptions(request: ExtractionRequest): ExtractionModelOptions {
+  const env: Partial<ExtractionModelOptions> = {};
+  if (process.env.EXTRACTION_MODEL) env.model = process.env.EXTRACTION_MODEL;
+  if (process.env.EXTRACTION_MAX_TOKENS) env.maxTokens = parseInt(process.env.EXTRACTION_MAX_TOKENS, 10);
+  if (process.env.EXTRACTION_TEMPERATURE) env.temperature = parseFloat(process.env.EXTRACTION_TEMPERATURE);
+
+  return { ...TASK_DEFAULTS[request.task], ...env, ...request.options };
+}
+
+function getFixturesDir(): string {
+  return path.resolve(process.env.EXTRACTION_FIXTURES_DIR || path.join('fixtures', 'extraction'));
+}
+
+/**
+ * Stable key for a request's content. Images are keyed by their hash, and
+ * model settings are left out so fixtures survive a model change.
+ */
+export function getExtractionFixtureKey(request: ExtractionRequest): string {
+  const hash = (value: string) => createHash('sha256').update(value).digest('hex');
+
+  const messages = request.messages.map(message => ({
+    role: message.role,
+    content: typeof message.content === 'string'
+      ? message.content
+      : message.content.map(block => (block.type === 'image' ? { type: 'image', sha256: hash(block.data) } : block)),
+  }));
+
+  return hash(JSON.stringify({ task: request.task, system: request.system ?? null, messages })).slice(0, 32);
+}
+
+// A recorded response, stored as <fixtures dir>/<task>/<key>.json
+interface ExtractionFixture {
+  task: ExtractionTask;
+  key: string;
+  model: string;
+  text: string;
+  toolCalls?: ExtractionToolCall[];
+  recordedAt: string;
+}
+
+async function readFixture(filePath: string): Promise<ExtractionFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Save a live response so the fixture provider can replay it
+ */
+export async function recordExtractionFixture(request: ExtractionRequest, response: ExtractionResponse): Promise<string> {
+  const key = getExtractionFixtureKey(request);
+  const taskDir = path.join(getFixturesDir(), request.task);
+  await fs.mkdir(taskDir, { recursive: true });
+
+  const fixture: ExtractionFixture = {
+    task: request.task,
+    key,
+    model: response.model,
+    text: response.text,
+    ...(response.toolCalls?.length && { toolCalls: response.toolCalls }),
+    recordedAt: new Date().toISOString(),
+  };
+  const filePath = path.join(taskDir, `${key}.json`);
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+  return filePath;
+}
+
+let anthropicClient: Anthropic | null = null;
+
+const anthropicProvider: ExtractionProvider = {
+  name: 'anthropic',
+  getConfigurationError() {
+    return process.env.ANTHROPIC_API_KEY ? null : 'ANTHROPIC_API_KEY not configured';
+  },
+  async complete(request, options) {
+    const configurationError = this.getConfigurationError();
+    if (configurationError) throw new Error(configurationError);
+
+    anthropicClient ??= new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+    const message = await anthropicClient.messages.create({
+      model: options.model,
+      max_tokens: options.maxTokens,
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(request.system && { system: request.system }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: { type: 'object' as const, ...tool.inputSchema },
+        })),
+      }),
+      ...(request.toolChoice && { tool_choice: request.toolChoice }),
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(block => {
+            switch (block.type) {
+              case 'image':
+                return { type: 'image' as const, source: { type: 'base64' as const, media_type: block.mediaType, data: block.data } };
+              case 'tool_result':
+                return { type: 'tool_result' as const, tool_use_id: block.toolUseId, content: block.content, is_error: block.isError };
+              default:
+                return block;
+            }
+          }),
+      })),
+    });
+
+    const toolCalls: ExtractionToolCall[] = message.content.flatMap(block =>
+      block.type === 'tool_use' ? [{ id: block.id, name: block.name, input: block.input as Record<string, unknown> }] : []
+    );
+    return {
+      text: message.content.map(block => (block.type === 'text' ? block.text : '')).join(''),
+      ...(toolCalls.length > 0 && { toolCalls }),
+      model: message.model,
+      provider: 'anthropic',
+      usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+    };
+  },
+};
+
+const fixtureProvider: ExtractionProvider = {
+  name: FIXTURE_PROVIDER_NAME,
+  getConfigurationError() {
+    return null;
+  },
+  // Replays the response recorded for this exact request, or the task's
+  // default.json for requests nobody has recorded (e.g. a new upload)
+  async complete(request) {
+    const key = getExtractionFixtureKey(request);
+    const taskDir = path.join(getFixturesDir(), request.task);
+
+    const fixture = (await readFixture(path.join(taskDir, `${key}.json`)))
+      ?? (await readFixture(path.join(taskDir, 'default.json')));
+    if (!fixture) {
+      throw new Error(`No recorded ${request.task} response for request ${key} in ${taskDir}`);
+    }
+
+    return { text: fixture.text, toolCalls: fixture.toolCalls, model: fixture.model, provider: 'fixture' };
+  },
+};
+
+const providers = new Map<string, ExtractionProvider>([
+  [anthropicProvider.name, anthropicProvider],
+  [fixtureProvider.name, fixtureProvider],
+]);
+
+/**
+ * Register (or replace) a provider so EXTRACTION_PROVIDER can select it
+ */
+export function registerExtractionProvider(provider: ExtractionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * The provider selected by EXTRACTION_PROVIDER
+ */
+export function getExtractionProvider(): ExtractionProvider {
+  const name = process.env.EXTRACTION_PROVIDER || anthropicProvider.name;
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown extraction provider "${name}"`);
+  }
+  return provider;
+}
+
+/**
+ * Why extraction cannot run with the configured provider; null when it can
+ */
+export function getExtractionProviderError(): string | null {
+  try {
+    return getExtractionProvider().getConfigurationError();
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Send a request to the configured provider
+ */
+export async function completeExtraction(request: ExtractionRequest): Promise<ExtractionResponse> {
+  const provider = getExtractionProvider();
+  const response = await provider.complete(request, getExtractionModelOptions(request));
+
+  if (process.env.EXTRACTION_RECORD_FIXTURES === 'true' && provider.name !== fixtureProvider.name) {
+    try {
+      await recordExtractionFixture(request, response);
+    } catch (error) {
+      console.error('Failed to record extraction fixture:', error);
+    }
+  }
+
+  return response;
+}
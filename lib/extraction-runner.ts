@@ -0,0 +1,425 @@
+/**
+ * Extraction Job Runner
+ * Executes queued extraction jobs one page at a time, checkpointing each
+ * page so an interrupted or retried job picks up where it stopped
+ */
+
+import { randomUUID } from 'crypto';
+import { after } from 'next/server';
+import { ExtractionJob as ExtractionJobRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  ExtractionJobLockLostError,
+  ExtractionPageResult,
+  claimNextExtractionJob,
+  completeExtractionJob,
+  failExtractionJob,
+  getJobPageResults,
+  isExtractionJobCancelRequested,
+  markExtractionJobCancelled,
+  reclaimStaleExtractionJobs,
+  recordExtractionJobEvent,
+  recordExtractionPage,
+  setExtractionJobTotalPages,
+} from '@/lib/extraction-jobs';
+import {
+  BatchDiagramResult,
+  CachedExtractionTask,
+  ExtractionSource,
+  applyCSIMatches,
+  combinePageResults,
+  extractDrawingPage,
+  extractSingleImage,
+  getPageContextNote,
+  loadExtractionSource,
+  renderExtractionPage,
+  saveBatchExtraction,
+  saveBidPackageExtraction,
+  saveProjectExtraction,
+} from '@/lib/extraction-pipeline';
+import { getExtractionProviderError } from '@/lib/extraction-provider';
+import { getCachedExtraction, hashPageImage, saveCachedExtraction } from '@/lib/extraction-cache';
+import { replaceDiagramSchedules } from '@/lib/diagram-schedules';
+import { generateMockBidPackages, generateMockExtraction } from '@/lib/mockDataGenerator';
+import {
+  BatchExtractionInput,
+  BidPackageExtractionInput,
+  ExtractionJobKind,
+  ExtractionLineItem,
+  ExtractionResult,
+  ProjectExtractionInput,
+} from '@/types/extractionJob';
+import { ScheduleTable } from '@/types/schedule';
+
+// How long an idle worker waits before looking for new jobs
+const POLL_INTERVAL_MS = 2000;
+
+// Thrown between pages when the job's cancellation was requested
+class ExtractionCancelledError extends Error {
+  constructor() {
+    super('Extraction cancelled');
+    this.name = 'ExtractionCancelledError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Revision of the diagram's file that the items are extracted from
+ */
+async function getSourceRevision(diagramId: string | undefined): Promise<number | null> {
+  if (!diagramId) return null;
+  const diagram = await prisma.diagram.findUnique({
+    where: { id: diagramId },
+    select: { currentRevision: true }
+  });
+  return diagram?.currentRevision ?? null;
+}
+
+// Line items in a page result: batch results list them directly, others per bid package
+const countLineItems = (result: ExtractionResult): number =>
+  Array.isArray(result?.line_items)
+    ? result.line_items.length
+    : (result?.bid_packages || []).reduce((sum, pkg) => sum + (pkg.line_items?.length || 0), 0);
+
+/**
+ * Extract every page of the job's files that has not been checkpointed yet.
+ * With `cache`, pages extracted before with the same prompt, model and
+ * instructions are read from the extraction cache instead of the model.
+ * `onPage` runs after each page is parsed, before it is checkpointed.
+ */
+async function extractPages(
+  job: ExtractionJobRow,
+  workerId: string,
+  fileUrls: string[],
+  extractPage: (
+    image: { imageBuffer: Buffer; mediaType: ExtractionSource['mediaType'] },
+    pageNumber: number,
+    source: ExtractionSource
+  ) => Promise<ExtractionResult>,
+  options: {
+    skipUnreadableFiles?: boolean;
+    cache?: {
+      task: CachedExtractionTask;
+      instructions?: string;
+      context?: (source: ExtractionSource, pageNumber: number) => string | undefined;
+    };
+    onPage?: (page: ExtractionPageResult, pageResults: ExtractionPageResult[]) => Promise<void>;
+  } = {}
+): Promise<{ pageResults: ExtractionPageResult[]; unreadable: Map<number, string> }> {
+  const configurationError = getExtractionProviderError();
+  if (configurationError) throw new Error(configurationError);
+
+  const pageResults = getJobPageResults(job);
+  const unreadable = new Map<number, string>(); // Source index -> error
+
+  // Open every file first so progress can be shown against the total
+  const sources: (ExtractionSource | null)[] = [];
+  for (let i = 0; i < fileUrls.length; i++) {
+    try {
+      sources.push(await loadExtractionSource(fileUrls[i]));
+    } catch (error) {
+      if (!options.skipUnreadableFiles) throw error;
+      console.error(`Extraction job ${job.id}: could not read ${fileUrls[i]}:`, error);
+      unreadable.set(i, error instanceof Error ? error.message : 'Unknown error');
+      sources.push(null);
+    }
+  }
+
+  const totalPages = sources.reduce((sum, source) => sum + (source?.pageCount ?? 0), 0);
+  await setExtractionJobTotalPages(job.id, workerId, totalPages);
+
+  for (let i = 0; i < sources.length; i++) {
+    const source = sources[i];
+    if (!source) continue;
+
+    for (let pageNumber = 1; pageNumber <= source.pageCount; pageNumber++) {
+      if (pageResults.some(page => page.source === i && page.pageNumber === pageNumber)) continue;
+
+      const pageRef = { source: i, pageNumber };
+
+      const image = await renderExtractionPage(source, pageNumber);
+      await recordExtractionJobEvent(job.id, 'page_rendered', pageRef);
+
+      const cacheLookup = options.cache && {
+        task: options.cache.task,
+        imageHash: hashPageImage(image.imageBuffer),
+        fileHash: source.fileHash,
+        pageNumber,
+        instructions: options.cache.instructions,
+        context: options.cache.context?.(source, pageNumber),
+      };
+
+      let result: ExtractionResult | null = cacheLookup ? await getCachedExtraction(cacheLookup) : null;
+      const cached = result !== null;
+      if (!result) {
+        await recordExtractionJobEvent(job.id, 'page_sent', pageRef);
+        result = await extractPage(image, pageNumber, source);
+        if (cacheLookup) await saveCachedExtraction(cacheLookup, result);
+      }
+
+      await recordExtractionJobEvent(job.id, 'page_parsed', {
+        ...pageRef,
+        data: { itemCount: countLineItems(result), ...(cached && { cached: true }) }
+      });
+
+      const page = { ...pageRef, isPDF: source.isPDF, result };
+      pageResults.push(page);
+      await options.onPage?.(page, pageResults);
+
+      const cancelRequested = await recordExtractionPage(job.id, workerId, pageResults);
+      if (cancelRequested) throw new ExtractionCancelledError();
+    }
+  }
+
+  const order = (page: ExtractionPageResult) => page.source * 100000 + page.pageNumber;
+  return { pageResults: pageResults.sort((a, b) => order(a) - order(b)), unreadable };
+}
+
+/**
+ * Bid packages and line items from a single drawing, as /api/extract-v2 returns them
+ */
+async function extractBidPackages(
+  job: ExtractionJobRow,
+  workerId: string,
+  input: { imageUrl: string; instructions?: string }
+) {
+  const { pageResults } = await extractPages(
+    job,
+    workerId,
+    [input.imageUrl],
+    (image, pageNumber, source) => extractDrawingPage(source, image, pageNumber, input.instructions),
+    {
+      cache: { task: 'drawing', instructions: input.instructions, context: getPageContextNote },
+      // Stream the result so far, so the review screen fills in as pages complete
+      onPage: async (page, pages) => {
+        const pageRef = { source: page.source, pageNumber: page.pageNumber };
+        applyCSIMatches(page.result);
+        await recordExtractionJobEvent(job.id, 'page_matched', {
+          ...pageRef,
+          data: { itemCount: countLineItems(page.result) }
+        });
+        await recordExtractionJobEvent(job.id, 'merged', { ...pageRef, data: combinePageResults(pages) });
+      }
+    }
+  );
+
+  // Apply CSI matching so codes are always populated, whether or not the result is saved
+  const result = applyCSIMatches(combinePageResults(pageResults));
+
+  // Schedules read from every page, with the page each is on
+  const schedules = pageResults.flatMap(page =>
+    (page.result.schedules || []).map(schedule => ({ ...schedule, pageNumber: page.pageNumber }))
+  );
+  return { ...result, schedules };
+}
+
+/**
+ * Keep the schedules read from a diagram, replacing those of earlier extractions
+ */
+async function saveExtractedSchedules(
+  diagramId: string | undefined,
+  result: { schedules: (ScheduleTable & { pageNumber: number })[] }
+) {
+  if (!diagramId) return;
+  await prisma.$transaction(tx => replaceDiagramSchedules(diagramId, result.schedules, tx));
+}
+
+async function runProjectExtraction(job: ExtractionJobRow, workerId: string, input: ProjectExtractionInput) {
+  const sourceRevision = await getSourceRevision(input.diagramId);
+
+  if (input.useMockData) {
+    const mockResult = await generateMockExtraction(2000);
+    return saveProjectExtraction(mockResult, input, sourceRevision, true);
+  }
+
+  const result = await extractBidPackages(job, workerId, input);
+  await saveExtractedSchedules(input.diagramId, result);
+  return saveProjectExtraction(result, input, sourceRevision);
+}
+
+async function runBidPackageExtraction(job: ExtractionJobRow, workerId: string, input: BidPackageExtractionInput) {
+  const sourceRevision = await getSourceRevision(input.diagramId);
+  const result = await extractBidPackages(job, workerId, input);
+  await saveExtractedSchedules(input.diagramId, result);
+  return saveBidPackageExtraction(result, input, sourceRevision);
+}
+
+async function runBatchExtraction(job: ExtractionJobRow, workerId: string, input: BatchExtractionInput) {
+  const allLineItems: ExtractionLineItem[] = [];
+  let extractedProjectName: string | null = null;
+  let extractionResults: BatchDiagramResult[] = [];
+
+  if (input.useMockData) {
+    const mockData = generateMockBidPackages();
+    for (const pkg of mockData.bid_packages) {
+      allLineItems.push(...(pkg.line_items || []));
+    }
+    extractedProjectName = mockData.project_name;
+    extractionResults = input.diagrams.map(diagram => ({
+      diagramId: diagram.diagramId,
+      success: true,
+      project_name: mockData.project_name,
+      line_items: [],
+      extraction_confidence: mockData.extraction_confidence,
+    }));
+  } else {
+    const { pageResults, unreadable } = await extractPages(
+      job,
+      workerId,
+      input.diagrams.map(diagram => diagram.imageUrl),
+      (image) => extractSingleImage(image.imageBuffer, image.mediaType),
+      { skipUnreadableFiles: true, cache: { task: 'drawing_batch' } }
+    );
+
+    extractionResults = input.diagrams.map((diagram, index) => {
+      if (unreadable.has(index)) {
+        return { diagramId: diagram.diagramId, success: false, line_items: [], error: unreadable.get(index) };
+      }
+
+      const pages = pageResults.filter(page => page.source === index);
+      const lineItems = pages.flatMap(page =>
+        (page.result.line_items || []).map(item => page.isPDF
+          ? {
+              ...item,
+              source_page: page.pageNumber,
+              notes: item.notes ? `${item.notes} (Page ${page.pageNumber})` : `Page ${page.pageNumber}`
+            }
+          : item
+        )
+      );
+
+      return {
+        diagramId: diagram.diagramId,
+        success: true,
+        project_name: pages.find(page => page.result.project_name)?.result.project_name ?? null,
+        line_items: lineItems,
+        extraction_confidence: pages.length === 1 && !pages[0].isPDF
+          ? pages[0].result.extraction_confidence || 'medium'
+          : 'medium',
+      };
+    });
+
+    for (const result of extractionResults) {
+      allLineItems.push(...result.line_items);
+      if (result.project_name && !extractedProjectName) {
+        extractedProjectName = result.project_name;
+      }
+    }
+  }
+
+  return saveBatchExtraction(input, extractionResults, allLineItems, extractedProjectName);
+}
+
+// Input each kind of job is queued with
+interface ExtractionJobInputs {
+  bid_package: BidPackageExtractionInput;
+  project: ProjectExtractionInput;
+  batch: BatchExtractionInput;
+}
+
+const runners: {
+  [Kind in ExtractionJobKind]: (job: ExtractionJobRow, workerId: string, input: ExtractionJobInputs[Kind]) => Promise<unknown>;
+} = {
+  bid_package: runBidPackageExtraction,
+  project: runProjectExtraction,
+  batch: runBatchExtraction,
+};
+
+/**
+ * Run a claimed job to completion, cancellation, or a failed attempt.
+ * Stops without touching the job once another worker has reclaimed it.
+ */
+export async function runExtractionJob(job: ExtractionJobRow, workerId: string): Promise<void> {
+  try {
+    if (await isExtractionJobCancelRequested(job.id)) {
+      throw new ExtractionCancelledError();
+    }
+
+    const runner = runners[job.kind as ExtractionJobKind];
+    if (!runner) {
+      throw new Error(`Unknown extraction job kind: ${job.kind}`);
+    }
+
+    const result = await runner(job, workerId, JSON.parse(job.input));
+    await completeExtractionJob(job.id, workerId, result);
+    console.log(`Extraction job ${job.id} complete`);
+  } catch (error) {
+    // A lock lost while running or while recording the outcome leaves the job to its new owner
+    try {
+      if (error instanceof ExtractionJobLockLostError) throw error;
+
+      if (error instanceof ExtractionCancelledError) {
+        await markExtractionJobCancelled(job.id, workerId);
+        console.log(`Extraction job ${job.id} cancelled`);
+        return;
+      }
+
+      console.error(`Extraction job ${job.id} attempt ${job.attempts} failed:`, error);
+      await failExtractionJob(job, workerId, error);
+    } catch (updateError) {
+      if (!(updateError instanceof ExtractionJobLockLostError)) throw updateError;
+      console.log(`Worker ${workerId} stopped extraction job ${job.id}: another worker took it over`);
+    }
+  }
+}
+
+/**
+ * Claim and run jobs until the queue is empty (or, with `keepAlive`, until
+ * the signal is aborted). Resolves to the number of jobs run.
+ */
+export async function runExtractionWorker(
+  workerId: string,
+  options: { keepAlive?: boolean; signal?: AbortSignal } = {}
+): Promise<number> {
+  let jobsRun = 0;
+
+  while (!options.signal?.aborted) {
+    const job = await claimNextExtractionJob(workerId);
+
+    if (!job) {
+      if (!options.keepAlive) break;
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    console.log(`Worker ${workerId} running extraction job ${job.id} (${job.kind}, attempt ${job.attempts})`);
+    await runExtractionJob(job, workerId);
+    jobsRun++;
+  }
+
+  return jobsRun;
+}
+
+/**
+ * Work through the queue in the background of the request that queued a job.
+ * That worker shares the request's function time limit (maxDuration, 300s on
+ * the routes that start one), so a long extraction can be cut off; its job
+ * is requeued once its lock goes stale (see reclaimStaleExtractionJobs) and
+ * resumes from its checkpoints without using up an attempt.
+ * For real isolation set EXTRACTION_WORKER=external and run a separate
+ * worker process (scripts/extraction-worker.ts); this is then skipped.
+ */
+export function scheduleExtractionWorker() {
+  if (process.env.EXTRACTION_WORKER === 'external') return;
+
+  after(async () => {
+    try {
+      await runExtractionWorker(`server-${process.pid}-${randomUUID()}`);
+    } catch (error) {
+      console.error('Error running extraction worker:', error);
+    }
+  });
+}
+
+/**
+ * Requeue jobs whose worker went away and, if any, start a worker for them
+ */
+export async function resumeStaleExtractionJobs(): Promise<number> {
+  const requeued = await reclaimStaleExtractionJobs();
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} stale extraction job(s)`);
+    scheduleExtractionWorker();
+  }
+  return requeued;
+}
@@ -1,6 +1,8 @@
 import crypto from 'crypto';
 import fs from 'fs';
+import { writeFile, mkdir, unlink } from 'fs/promises';
 import path from 'path';
+import { put, del } from '@vercel/blob';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -35,11 +37,17 @@ export function calculateBufferHash(buffer: Buffer): string {
 }
 
 /**
- * Check if a file with the given hash already exists
+ * Check if a file with the given hash already exists, either as a diagram's
+ * current file or as one of its earlier revisions
  */
 export async function checkDuplicateFile(fileHash: string) {
   const existingDiagram = await prisma.diagram.findFirst({
-    where: { fileHash },
+    where: {
+      OR: [
+        { fileHash },
+        { revisions: { some: { fileHash } } }
+      ]
+    },
     include: {
       bcProject: true,
       project: true,
@@ -49,6 +57,60 @@ export async function checkDuplicateFile(fileHash: string) {
   return existingDiagram;
 }
 
+/**
+ * Store an uploaded file and return its URL: Vercel Blob Storage when
+ * configured, otherwise public/uploads for local development
+ */
+export async function saveUploadedFile(file: File, buffer: Buffer): Promise<string> {
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    const blob = await put(file.name, file, {
+      access: 'public',
+    });
+    return blob.url;
+  }
+
+  const uploadDir = path.join(process.cwd(), 'public', 'uploads');
+  await mkdir(uploadDir, { recursive: true });
+
+  // Generate unique filename
+  const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+  const filename = `${uniqueSuffix}-${file.name}`;
+  await writeFile(path.join(uploadDir, filename), buffer);
+
+  return `/uploads/${filename}`;
+}
+
+/**
+ * Remove a stored file (local upload or blob). Failures are logged, not
+ * thrown, since this only cleans up after another error.
+ */
+export async function deleteUploadedFile(fileUrl: string): Promise<void> {
+  try {
+    if (fileUrl.startsWith('/uploads/')) {
+      await unlink(path.join(process.cwd(), 'public', fileUrl));
+    } else if (process.env.BLOB_READ_WRITE_TOKEN) {
+      await del(fileUrl);
+    }
+  } catch (error) {
+    console.error('Error deleting file:', error);
+  }
+}
+
+/**
+ * Read a stored file back from its URL (local upload or remote blob)
+ */
+export async function readUploadedFile(fileUrl: string): Promise<Buffer> {
+  if (fileUrl.startsWith('/uploads/')) {
+    return fs.promises.readFile(path.join(process.cwd(), 'public', fileUrl));
+  }
+
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error('Failed to fetch file');
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
 /**
  * Generate a copy number for duplicate projects
  * e.g., "Project Name" -> "COPY 1 Project Name"
@@ -0,0 +1,357 @@
+/**
+ * Inbox Intake
+ * Turns inbound emails (bid invitations) into inbox items: stores the
+ * sender, subject and body, saves drawing attachments as diagrams (reusing
+ * fileHash duplicate detection) and tracks the item until a project is
+ * created from it. Development delivers mail as .eml files in a drop folder
+ * (EMAIL_INBOX_DIR, default ./tmp/inbox); a mail relay can POST raw messages
+ * to /api/inbox instead.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Prisma, InboxItem as InboxItemRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { calculateBufferHash, checkDuplicateFile, deleteUploadedFile, saveUploadedFile } from '@/lib/file-utils';
+import { indexDiagramSheets } from '@/lib/diagram-sheets';
+import { parseEmail } from '@/lib/email/emailParser';
+import { getInboxRules, loadInboxRuleContext, planInboxRules } from '@/lib/inbox-rules';
+import { getUserDisplayName } from '@/types/user';
+import { InboxAttachment, InboxItem, InboxRule, InboxRulePreviewMatch, InboxSource, InboxStatus } from '@/types/inbox';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Loaded with every inbox item for the assignee's name
+export const inboxItemInclude = {
+  assignedTo: { select: { userName: true, firstName: true, lastName: true } },
+} satisfies Prisma.InboxItemInclude;
+
+type InboxItemRowWithAssignee = Prisma.InboxItemGetPayload<{ include: typeof inboxItemInclude }>;
+
+// Drawing attachments by extension; everything else is listed but not saved
+const DRAWING_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+export interface DropFolderResult {
+  processed: number;
+  duplicates: number; // Messages already in the inbox (same Message-ID)
+  failed: { file: string; error: string }[];
+}
+
+/**
+ * Folder watched for .eml deliveries
+ */
+export function getInboxDropDir(): string {
+  return path.resolve(process.env.EMAIL_INBOX_DIR || path.join('tmp', 'inbox'));
+}
+
+function parseJsonArray<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to parse inbox item JSON:', error);
+    return [];
+  }
+}
+
+/**
+ * Convert an InboxItem row into the API shape
+ */
+export function fromInboxItemRow(row: InboxItemRow | InboxItemRowWithAssignee): InboxItem {
+  const attachments = parseJsonArray<InboxAttachment>(row.attachments);
+  const assignedTo = 'assignedTo' in row ? row.assignedTo : null;
+  return {
+    id: row.id,
+    sender: row.sender,
+    senderEmail: row.senderEmail,
+    subject: row.subject,
+    receivedAt: row.receivedAt.getTime(),
+    diagramUrl: attachments.find(attachment => attachment.fileUrl)?.fileUrl ?? '',
+    status: row.status as InboxStatus,
+    projectId: row.bcProjectId ?? undefined,
+    body: row.body,
+    source: row.source as InboxSource,
+    attachments,
+    tags: parseJsonArray<string>(row.tags),
+    assignedToId: row.assignedToId,
+    assignedToName: assignedTo ? getUserDisplayName(assignedTo) : null,
+  };
+}
+
+/**
+ * Inbox items, newest first
+ */
+export async function getInboxItems(
+  filters: { status?: InboxStatus } = {},
+  client: DbClient = prisma
+): Promise<InboxItem[]> {
+  const rows = await client.inboxItem.findMany({
+    where: filters.status ? { status: filters.status } : {},
+    include: inboxItemInclude,
+    orderBy: { receivedAt: 'desc' },
+  });
+  return rows.map(fromInboxItemRow);
+}
+
+/**
+ * Store an inbound message as an inbox item and run the triage rules on it.
+ * A message already received (same Message-ID) is returned as is.
+ */
+export async function ingestEmail(
+  raw: Buffer,
+  options: { source: InboxSource; sourceFile?: string }
+): Promise<{ item: InboxItem; created: boolean }> {
+  const email = parseEmail(raw);
+
+  if (email.messageId) {
+    const existing = await prisma.inboxItem.findUnique({ where: { messageId: email.messageId }, include: inboxItemInclude });
+    if (existing) return { item: fromInboxItemRow(existing), created: false };
+  }
+
+  // Save drawings first; duplicates point at the diagram already on file
+  const attachments: InboxAttachment[] = [];
+  const newDrawings: { attachment: InboxAttachment; fileHash: string }[] = [];
+
+  let row: InboxItemRow;
+  try {
+    for (const file of email.attachments) {
+      const fileHash = calculateBufferHash(file.content);
+      const extension = path.extname(file.fileName).toLowerCase();
+      const drawingType = DRAWING_TYPES[extension];
+      const attachment: InboxAttachment = {
+        fileName: file.fileName,
+        fileType: drawingType ?? file.contentType,
+        fileSize: file.content.length,
+        fileHash,
+        diagramId: null,
+        fileUrl: null,
+      };
+      attachments.push(attachment);
+
+      if (!drawingType) {
+        attachment.skippedReason = 'Not a drawing (PDF or image)';
+        continue;
+      }
+
+      if (newDrawings.some(drawing => drawing.fileHash === fileHash)) {
+        attachment.skippedReason = 'Attached twice';
+        continue;
+      }
+
+      const existingDiagram = await checkDuplicateFile(fileHash);
+      if (existingDiagram) {
+        attachment.diagramId = existingDiagram.id;
+        attachment.fileUrl = existingDiagram.fileUrl;
+        attachment.duplicate = true;
+        attachment.existingProjectId = existingDiagram.bcProjectId || existingDiagram.projectId || null;
+        attachment.existingProjectName = existingDiagram.bcProject?.name || existingDiagram.project?.name || null;
+        continue;
+      }
+
+      const upload = new File([new Uint8Array(file.content)], file.fileName, { type: drawingType });
+      attachment.fileUrl = await saveUploadedFile(upload, file.content);
+      newDrawings.push({ attachment, fileHash });
+    }
+
+    row = await prisma.$transaction(async (tx) => {
+      const created = await tx.inboxItem.create({
+        data: {
+          messageId: email.messageId,
+          sender: email.from?.name || email.from?.address || 'Unknown sender',
+          senderEmail: email.from?.address || '',
+          subject: email.subject || '(no subject)',
+          body: email.text,
+          receivedAt: email.date ?? new Date(),
+          source: options.source,
+          sourceFile: options.sourceFile ?? null,
+          attachments: '[]',
+        },
+      });
+
+      for (const { attachment, fileHash } of newDrawings) {
+        const diagram = await tx.diagram.create({
+          data: {
+            inboxItemId: created.id,
+            fileName: attachment.fileName,
+            fileUrl: attachment.fileUrl!,
+            fileType: attachment.fileType,
+            fileSize: attachment.fileSize,
+            fileHash,
+          },
+        });
+        attachment.diagramId = diagram.id;
+      }
+
+      return tx.inboxItem.update({
+        where: { id: created.id },
+        data: { attachments: JSON.stringify(attachments) },
+      });
+    });
+  } catch (error) {
+    // Nothing references the drawings saved so far; don't leave them behind
+    await Promise.all(newDrawings.map(({ attachment }) => deleteUploadedFile(attachment.fileUrl!)));
+
+    // The same message delivered twice at once: the other delivery won
+    if (email.messageId && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await prisma.inboxItem.findUnique({ where: { messageId: email.messageId }, include: inboxItemInclude });
+      if (existing) return { item: fromInboxItemRow(existing), created: false };
+    }
+    throw error;
+  }
+
+  // Sheet metadata is a convenience; an unreadable text layer never fails intake
+  for (const { attachment } of newDrawings) {
+    try {
+      await indexDiagramSheets(attachment.diagramId!);
+    } catch (error) {
+      console.error('Error indexing diagram sheets:', error);
+    }
+  }
+
+  // A broken rule never loses the email; it stays untriaged in the inbox
+  try {
+    return { item: await applyInboxRules(row.id), created: true };
+  } catch (error) {
+    console.error('Error applying inbox rules:', error);
+    return { item: fromInboxItemRow(row), created: true };
+  }
+}
+
+/**
+ * Ingest every .eml file in the drop folder, moving each to processed/ or,
+ * when it cannot be read, to failed/
+ */
+export async function ingestDropFolder(dir: string = getInboxDropDir()): Promise<DropFolderResult> {
+  await fs.mkdir(dir, { recursive: true });
+  const files = (await fs.readdir(dir)).filter(file => file.toLowerCase().endsWith('.eml')).sort();
+  const result: DropFolderResult = { processed: 0, duplicates: 0, failed: [] };
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    let target = 'processed';
+    try {
+      const { created } = await ingestEmail(await fs.readFile(filePath), { source: 'drop_folder', sourceFile: file });
+      if (created) result.processed++;
+      else result.duplicates++;
+    } catch (error) {
+      console.error(`Error ingesting ${file}:`, error);
+      result.failed.push({ file, error: error instanceof Error ? error.message : String(error) });
+      target = 'failed';
+    }
+
+    await fs.mkdir(path.join(dir, target), { recursive: true });
+    await fs.rename(filePath, path.join(dir, target, file));
+  }
+
+  return result;
+}
+
+/**
+ * Link an inbox item to the project created from it. Its new drawings now
+ * belong to that project. The item's status is left alone; completing or
+ * archiving it is up to the caller, the user or an archive rule.
+ */
+export async function linkInboxItemToProject(
+  inboxItemId: string,
+  bcProjectId: string,
+  client: DbClient = prisma
+): Promise<void> {
+  await client.inboxItem.update({
+    where: { id: inboxItemId },
+    data: { bcProjectId },
+  });
+  await client.diagram.updateMany({
+    where: { inboxItemId, bcProjectId: null, projectId: null },
+    data: { bcProjectId },
+  });
+}
+
+/**
+ * Run the enabled triage rules on an inbox item, apply what they decide and
+ * log each rule that fired
+ */
+export async function applyInboxRules(inboxItemId: string): Promise<InboxItem> {
+  const [row, rules, context] = await Promise.all([
+    prisma.inboxItem.findUniqueOrThrow({ where: { id: inboxItemId }, include: inboxItemInclude }),
+    getInboxRules(),
+    loadInboxRuleContext(),
+  ]);
+  const item = fromInboxItemRow(row);
+  const plan = planInboxRules(rules, item, context);
+  if (plan.fired.length === 0) return item;
+
+  await prisma.$transaction(async (tx) => {
+    if (plan.projectId && plan.projectId !== item.projectId) {
+      await linkInboxItemToProject(inboxItemId, plan.projectId, tx);
+    }
+
+    await tx.inboxItem.update({
+      where: { id: inboxItemId },
+      data: {
+        tags: JSON.stringify(plan.tags),
+        assignedToId: plan.assignedToId,
+        ...(plan.archived && item.status !== 'archived' ? { status: 'archived' } : {}),
+      },
+    });
+
+    await tx.inboxRuleLog.createMany({
+      data: plan.fired.map(({ rule, reasons, actions }) => ({
+        inboxItemId,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        reasons: JSON.stringify(reasons),
+        actions: JSON.stringify(actions),
+      })),
+    });
+  });
+
+  const updated = await prisma.inboxItem.findUniqueOrThrow({ where: { id: inboxItemId }, include: inboxItemInclude });
+  return fromInboxItemRow(updated);
+}
+
+/**
+ * Dry run for the rules editor: the past inbox items a draft rule would
+ * fire on, and what it would do to each. Nothing is changed.
+ */
+export async function previewInboxRule(
+  rule: Pick<InboxRule, 'conditions' | 'actions'>,
+  limit = 200
+): Promise<{ checked: number; matches: InboxRulePreviewMatch[] }> {
+  const [rows, context] = await Promise.all([
+    prisma.inboxItem.findMany({ include: inboxItemInclude, orderBy: { receivedAt: 'desc' }, take: limit }),
+    loadInboxRuleContext(),
+  ]);
+  const draft: InboxRule = {
+    ...rule,
+    id: 'preview',
+    name: 'Preview',
+    enabled: true,
+    position: 0,
+    stopProcessing: true,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+
+  const matches = rows.flatMap(row => {
+    const item = fromInboxItemRow(row);
+    const fired = planInboxRules([draft], item, context).fired[0];
+    if (!fired) return [];
+    return [{
+      inboxItemId: item.id,
+      subject: item.subject,
+      sender: item.sender,
+      receivedAt: item.receivedAt,
+      reasons: fired.reasons,
+      actions: fired.actions,
+    }];
+  });
+
+  return { checked: rows.length, matches };
+}
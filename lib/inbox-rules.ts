@@ -0,0 +1,318 @@
+/**
+ * Inbox Triage Rules
+ * Rules match inbound emails on sender domain, subject keywords, owner or
+ * architect names and attachment types, then tag the item, route it to a
+ * precon lead, link it to an existing project by project number or archive
+ * it as noise. Enabled rules run in position order; a rule can stop the
+ * ones after it. Planning is pure so the rules editor can dry-run a draft
+ * against past items; lib/inbox-intake applies the plan to new emails and
+ * logs which rules fired.
+ */
+
+import path from 'path';
+import { Prisma, InboxRule as InboxRuleRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { UserRole, getUserDisplayName } from '@/types/user';
+import { InboxItem, InboxRule, InboxRuleActions, InboxRuleConditions, InboxRuleLogEntry } from '@/types/inbox';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export const EMPTY_RULE_CONDITIONS: InboxRuleConditions = {
+  senderDomains: [],
+  subjectKeywords: [],
+  partyNames: [],
+  attachmentTypes: [],
+};
+
+export const EMPTY_RULE_ACTIONS: InboxRuleActions = {
+  tags: [],
+  assignToUserId: null,
+  linkByProjectNumber: false,
+  archive: false,
+};
+
+// Project numbers shorter than this ("1", "07") would match any email
+const MIN_PROJECT_NUMBER_LENGTH = 3;
+
+export interface InboxRuleContext {
+  projects: { id: string; name: string; projectNumber: string }[]; // Projects that have a number
+  leads: Map<string, string>; // Active precon leads: id -> display name
+}
+
+export interface InboxRulePlan {
+  fired: { rule: InboxRule; reasons: string[]; actions: string[] }[];
+  tags: string[];
+  assignedToId: string | null;
+  projectId: string | null;
+  archived: boolean;
+}
+
+const cleanList = (value: unknown, normalize: (entry: string) => string = entry => entry): string[] => {
+  if (!Array.isArray(value)) return [];
+  const entries = value
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => normalize(entry.trim()))
+    .filter(Boolean);
+  return Array.from(new Set(entries));
+};
+
+// Fields of an untrusted object, each still to be checked
+const asFields = <T>(value: unknown): Partial<Record<keyof T, unknown>> =>
+  typeof value === 'object' && value !== null ? value : {};
+
+/**
+ * Conditions from a request body or stored JSON, trimmed and deduplicated
+ */
+export function normalizeRuleConditions(value: unknown): InboxRuleConditions {
+  const conditions = asFields<InboxRuleConditions>(value);
+  return {
+    senderDomains: cleanList(conditions.senderDomains, entry => entry.toLowerCase().replace(/^.*@/, '').replace(/^\.+/, '')),
+    subjectKeywords: cleanList(conditions.subjectKeywords),
+    partyNames: cleanList(conditions.partyNames),
+    attachmentTypes: cleanList(conditions.attachmentTypes, entry => entry.toLowerCase().replace(/^\*?\.+/, '')),
+  };
+}
+
+/**
+ * Actions from a request body or stored JSON
+ */
+export function normalizeRuleActions(value: unknown): InboxRuleActions {
+  const actions = asFields<InboxRuleActions>(value);
+  return {
+    tags: cleanList(actions.tags),
+    assignToUserId: typeof actions.assignToUserId === 'string' && actions.assignToUserId ? actions.assignToUserId : null,
+    linkByProjectNumber: actions.linkByProjectNumber === true,
+    archive: actions.archive === true,
+  };
+}
+
+/**
+ * Why a rule cannot be saved, or null when it is valid
+ */
+export function validateRule(rule: { name: string; conditions: InboxRuleConditions; actions: InboxRuleActions }): string | null {
+  if (!rule.name.trim()) return 'Rule name is required';
+
+  const { conditions, actions } = rule;
+  const conditionCount = conditions.senderDomains.length + conditions.subjectKeywords.length
+    + conditions.partyNames.length + conditions.attachmentTypes.length;
+  if (conditionCount === 0) return 'A rule needs at least one condition';
+
+  if (actions.tags.length === 0 && !actions.assignToUserId && !actions.linkByProjectNumber && !actions.archive) {
+    return 'A rule needs at least one action';
+  }
+  return null;
+}
+
+/**
+ * Why a rule cannot route items to a user, or null when the user is an active precon lead
+ */
+export async function validateRuleAssignee(userId: string | null, client: DbClient = prisma): Promise<string | null> {
+  if (!userId) return null;
+  const user = await client.user.findUnique({ where: { id: userId }, select: { role: true, isActive: true } });
+  if (!user || !user.isActive) return 'Assigned user not found';
+  if (user.role !== UserRole.PRECON_LEAD) return 'Rules can only assign items to precon leads';
+  return null;
+}
+
+function parseJson<T>(value: string, fallback: T): T {
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('Failed to parse inbox rule JSON:', error);
+    return fallback;
+  }
+}
+
+/**
+ * Convert an InboxRule row into the API shape
+ */
+export function fromInboxRuleRow(row: InboxRuleRow): InboxRule {
+  return {
+    id: row.id,
+    name: row.name,
+    enabled: row.enabled,
+    position: row.position,
+    conditions: normalizeRuleConditions(parseJson(row.conditions, EMPTY_RULE_CONDITIONS)),
+    actions: normalizeRuleActions(parseJson(row.actions, EMPTY_RULE_ACTIONS)),
+    stopProcessing: row.stopProcessing,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+/**
+ * Rules in the order they run
+ */
+export async function getInboxRules(client: DbClient = prisma): Promise<InboxRule[]> {
+  const rows = await client.inboxRule.findMany({ orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] });
+  return rows.map(fromInboxRuleRow);
+}
+
+/**
+ * Projects and leads the rule actions can refer to
+ */
+export async function loadInboxRuleContext(client: DbClient = prisma): Promise<InboxRuleContext> {
+  const [projects, leads] = await Promise.all([
+    client.buildingConnectedProject.findMany({
+      where: { projectNumber: { not: null } },
+      select: { id: true, name: true, projectNumber: true },
+    }),
+    client.user.findMany({
+      where: { role: UserRole.PRECON_LEAD, isActive: true },
+      select: { id: true, userName: true, firstName: true, lastName: true },
+    }),
+  ]);
+
+  return {
+    projects: projects.map(project => ({ id: project.id, name: project.name, projectNumber: project.projectNumber! })),
+    leads: new Map(leads.map(lead => [lead.id, getUserDisplayName(lead)])),
+  };
+}
+
+/**
+ * Rule firings, newest first (optionally for one rule or one item)
+ */
+export async function getInboxRuleLog(
+  filters: { ruleId?: string; inboxItemId?: string; limit?: number } = {},
+  client: DbClient = prisma
+): Promise<InboxRuleLogEntry[]> {
+  const rows = await client.inboxRuleLog.findMany({
+    where: {
+      ...(filters.ruleId ? { ruleId: filters.ruleId } : {}),
+      ...(filters.inboxItemId ? { inboxItemId: filters.inboxItemId } : {}),
+    },
+    include: { inboxItem: { select: { subject: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: filters.limit ?? 200,
+  });
+
+  return rows.map(row => ({
+    id: row.id,
+    inboxItemId: row.inboxItemId,
+    inboxItemSubject: row.inboxItem.subject,
+    ruleId: row.ruleId,
+    ruleName: row.ruleName,
+    reasons: parseJson<string[]>(row.reasons, []),
+    actions: parseJson<string[]>(row.actions, []),
+    createdAt: row.createdAt.getTime(),
+  }));
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+const getSenderDomain = (senderEmail: string) => senderEmail.toLowerCase().split('@')[1] ?? '';
+
+/**
+ * The conditions an item meets, or null when the rule does not match it
+ */
+export function matchRuleConditions(conditions: InboxRuleConditions, item: InboxItem): string[] | null {
+  const reasons: string[] = [];
+
+  if (conditions.senderDomains.length > 0) {
+    const domain = getSenderDomain(item.senderEmail);
+    const match = conditions.senderDomains.find(entry => domain === entry || domain.endsWith(`.${entry}`));
+    if (!match) return null;
+    reasons.push(`Sender domain ${match}`);
+  }
+
+  if (conditions.subjectKeywords.length > 0) {
+    const subject = normalizeText(item.subject);
+    const match = conditions.subjectKeywords.find(keyword => subject.includes(normalizeText(keyword)));
+    if (!match) return null;
+    reasons.push(`Subject contains "${match}"`);
+  }
+
+  if (conditions.partyNames.length > 0) {
+    const text = normalizeText(`${item.subject}\n${item.body ?? ''}`);
+    const match = conditions.partyNames.find(name => text.includes(normalizeText(name)));
+    if (!match) return null;
+    reasons.push(`Mentions "${match}"`);
+  }
+
+  if (conditions.attachmentTypes.length > 0) {
+    const types = new Set((item.attachments ?? []).map(attachment => path.extname(attachment.fileName).slice(1).toLowerCase()));
+    const match = conditions.attachmentTypes.find(type => types.has(type));
+    if (!match) return null;
+    reasons.push(`Has a .${match} attachment`);
+  }
+
+  return reasons.length > 0 ? reasons : null;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Existing project whose number appears in the subject, body or an
+ * attachment name. The longest number wins, so 2024-015A beats 2024-015.
+ */
+export function findProjectByNumber(item: InboxItem, projects: InboxRuleContext['projects']) {
+  const text = [item.subject, item.body ?? '', ...(item.attachments ?? []).map(attachment => attachment.fileName)].join('\n');
+
+  return projects
+    .filter(project => project.projectNumber.trim().length >= MIN_PROJECT_NUMBER_LENGTH)
+    .sort((a, b) => b.projectNumber.trim().length - a.projectNumber.trim().length)
+    .find(project => new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(project.projectNumber.trim())}(?![A-Za-z0-9])`, 'i').test(text))
+    ?? null;
+}
+
+/**
+ * What the rules would do to an item, rule by rule. Items keep the tags,
+ * lead and project they already have; an item linked to a project is not
+ * archived.
+ */
+export function planInboxRules(rules: InboxRule[], item: InboxItem, context: InboxRuleContext): InboxRulePlan {
+  const plan: InboxRulePlan = {
+    fired: [],
+    tags: [...(item.tags ?? [])],
+    assignedToId: item.assignedToId ?? null,
+    projectId: item.projectId ?? null,
+    archived: item.status === 'archived',
+  };
+
+  for (const rule of [...rules].sort((a, b) => a.position - b.position)) {
+    if (!rule.enabled) continue;
+    const reasons = matchRuleConditions(rule.conditions, item);
+    if (!reasons) continue;
+
+    const actions: string[] = [];
+    const newTags = rule.actions.tags.filter(tag => !plan.tags.some(existing => existing.toLowerCase() === tag.toLowerCase()));
+    if (newTags.length > 0) {
+      plan.tags.push(...newTags);
+      actions.push(`Tagged ${newTags.join(', ')}`);
+    }
+
+    if (rule.actions.assignToUserId && !plan.assignedToId) {
+      const leadName = context.leads.get(rule.actions.assignToUserId);
+      if (leadName) {
+        plan.assignedToId = rule.actions.assignToUserId;
+        actions.push(`Assigned to ${leadName}`);
+      } else {
+        actions.push('Not assigned: the lead is no longer an active precon lead');
+      }
+    }
+
+    if (rule.actions.linkByProjectNumber && !plan.projectId) {
+      const project = findProjectByNumber(item, context.projects);
+      if (project) {
+        plan.projectId = project.id;
+        actions.push(`Linked to project ${project.projectNumber} ${project.name}`);
+      } else {
+        actions.push('Not linked: no known project number in the email');
+      }
+    }
+
+    if (rule.actions.archive && !plan.archived) {
+      if (plan.projectId) {
+        actions.push('Not archived: linked to a project');
+      } else {
+        plan.archived = true;
+        actions.push('Archived');
+      }
+    }
+
+    plan.fired.push({ rule, reasons, actions });
+    if (rule.stopProcessing) break;
+  }
+
+  return plan;
+}
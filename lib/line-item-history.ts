@@ -0,0 +1,135 @@
+/**
+ * Line Item History Utilities
+ * Records and reads the append-only audit trail of line item edits
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LineItem } from '@/components/BidFormTable';
+import { FieldChange } from '@/types/chat';
+import {
+  LineItemChangeContext,
+  LineItemChangeSource,
+  LineItemChangeSourceLabels,
+  LineItemHistoryAction,
+  LineItemHistoryEntry,
+  TRACKED_FIELDS,
+} from '@/types/lineItemHistory';
+import { UserPublic, getUserDisplayName } from '@/types/user';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface LineItemHistoryRecord {
+  lineItemId: string;
+  bidPackageId?: string | null;
+  action: LineItemHistoryAction;
+  changes: FieldChange[];
+}
+
+/**
+ * Normalize empty values so '' / undefined / null compare as equal
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  return value;
+}
+
+/**
+ * Compute field-level changes between two versions of a line item.
+ * Pass null for `before` on create and null for `after` on delete.
+ */
+export function diffLineItems(before: LineItem | null, after: LineItem | null): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    const oldValue = normalizeValue(before?.[field]);
+    const newValue = normalizeValue(after?.[field]);
+
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Check whether a value is a known change source
+ */
+export function isLineItemChangeSource(value: unknown): value is LineItemChangeSource {
+  return typeof value === 'string' && Object.hasOwn(LineItemChangeSourceLabels, value);
+}
+
+/**
+ * Build the change context for a request: the acting user (if any)
+ * and the surface the change came from
+ */
+export function getChangeContext(
+  user: UserPublic | null,
+  source: unknown
+): LineItemChangeContext {
+  return {
+    source: isLineItemChangeSource(source) ? source : 'api',
+    userId: user?.id ?? null,
+    userName: user ? getUserDisplayName(user) : null,
+  };
+}
+
+/**
+ * Append history entries. Entries without any field changes are skipped.
+ */
+export async function recordLineItemHistory(
+  records: LineItemHistoryRecord[],
+  context: LineItemChangeContext,
+  client: DbClient = prisma
+): Promise<void> {
+  const data = records
+    .filter(record => record.changes.length > 0)
+    .map(record => ({
+      lineItemId: record.lineItemId,
+      bidPackageId: record.bidPackageId ?? null,
+      action: record.action,
+      changes: JSON.stringify(record.changes),
+      source: context.source,
+      userId: context.userId ?? null,
+      userName: context.userName ?? null,
+    }));
+
+  if (data.length === 0) return;
+
+  await client.lineItemHistory.createMany({ data });
+}
+
+/**
+ * Get the history of a line item, newest first
+ */
+export async function getLineItemHistory(
+  lineItemId: string,
+  client: DbClient = prisma
+): Promise<LineItemHistoryEntry[]> {
+  const rows = await client.lineItemHistory.findMany({
+    where: { lineItemId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return rows.map(row => {
+    let changes: FieldChange[] = [];
+    try {
+      changes = JSON.parse(row.changes);
+    } catch (error) {
+      console.error('Failed to parse line item history changes:', row.id, error);
+    }
+
+    return {
+      id: row.id,
+      lineItemId: row.lineItemId,
+      bidPackageId: row.bidPackageId,
+      action: row.action as LineItemHistoryAction,
+      changes,
+      source: isLineItemChangeSource(row.source) ? row.source : 'api',
+      userId: row.userId,
+      userName: row.userName,
+      createdAt: row.createdAt,
+    };
+  });
+}
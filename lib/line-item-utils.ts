@@ -0,0 +1,365 @@
+/**
+ * Line Item Persistence Utilities
+ * Maps between workspace line items (BidFormTable shape) and LineItem rows,
+ * and keeps a bid package's rows in sync with the items a captain edits
+ */
+
+import { Prisma, LineItem as LineItemRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { LineItem } from '@/components/BidFormTable';
+import { ChatMessage } from '@/types/chat';
+import { LineItemChangeContext } from '@/types/lineItemHistory';
+import { diffLineItems, LineItemHistoryRecord, recordLineItemHistory } from '@/lib/line-item-history';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Line item as received from clients - accepts both the workspace
+ * (snake_case) and database (camelCase) field names
+ */
+export type LineItemInput = LineItem & {
+  itemNumber?: string | null;
+  unitPrice?: number | null;
+  totalPrice?: number | null;
+  order?: number;
+};
+
+/**
+ * Calculate approval percentage from line items
+ */
+export function calculateApprovalPercentage(lineItems: Array<{ approved?: boolean | null }>): number {
+  if (!lineItems || lineItems.length === 0) {
+    return 0;
+  }
+
+  const approvedCount = lineItems.filter(item => item.approved === true).length;
+  return Math.round((approvedCount / lineItems.length) * 100);
+}
+
+/**
+ * Parse a stored boundingBox JSON string
+ */
+function parseBoundingBox(raw: string | null): LineItem['boundingBox'] {
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (
+      typeof parsed?.x === 'number' &&
+      typeof parsed?.y === 'number' &&
+      typeof parsed?.width === 'number' &&
+      typeof parsed?.height === 'number'
+    ) {
+      return parsed;
+    }
+  } catch (error) {
+    console.error('Failed to parse line item boundingBox:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Convert a LineItem row into the workspace line item shape
+ */
+export function fromLineItemRow(row: LineItemRow): LineItem {
+  return {
+    id: row.id,
+    item_number: row.itemNumber,
+    description: row.description,
+    quantity: row.quantity,
+    unit: row.unit,
+    unit_price: row.unitPrice,
+    total_price: row.totalPrice,
+    notes: row.notes,
+    verified: row.verified,
+    approved: row.approved,
+    confidence: row.confidence,
+    boundingBox: parseBoundingBox(row.boundingBox),
+    csiCode: row.csiCode,
+    csiTitle: row.csiTitle,
+    sourceRevision: row.sourceRevision,
+    needsRevisionReview: row.needsRevisionReview,
+  };
+}
+
+/**
+ * Convert a workspace line item into LineItem row data (without bidFormId)
+ */
+export function toLineItemData(item: LineItemInput, order: number) {
+  return {
+    itemNumber: item.item_number ?? item.itemNumber ?? null,
+    description: item.description || '',
+    quantity: item.quantity ?? null,
+    unit: item.unit ?? null,
+    unitPrice: item.unit_price ?? item.unitPrice ?? null,
+    totalPrice: item.total_price ?? item.totalPrice ?? null,
+    notes: item.notes ?? null,
+    order: item.order ?? order,
+    verified: item.verified ?? false,
+    approved: item.approved ?? false,
+    confidence: item.confidence ?? null,
+    boundingBox: item.boundingBox ? JSON.stringify(item.boundingBox) : null,
+    csiCode: item.csiCode ?? null,
+    csiTitle: item.csiTitle ?? null,
+    sourceRevision: item.sourceRevision ?? null,
+    needsRevisionReview: item.needsRevisionReview ?? false,
+  };
+}
+
+/**
+ * Parse BidPackage.workspaceData, tolerating legacy payloads that still
+ * carry a lineItems array. `data` is the parsed JSON object, or null when
+ * the stored value is empty or not a JSON object.
+ */
+export function parseWorkspaceData(raw: string | null | undefined): {
+  chatMessages: ChatMessage[];
+  lineItems: LineItem[];
+  data: Record<string, unknown> | null;
+} {
+  if (!raw || raw.trim() === '') {
+    return { chatMessages: [], lineItems: [], data: null };
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      console.error('Workspace data is not a JSON object');
+      return { chatMessages: [], lineItems: [], data: null };
+    }
+    return {
+      chatMessages: Array.isArray(parsed.chatMessages) ? parsed.chatMessages : [],
+      lineItems: Array.isArray(parsed.lineItems) ? parsed.lineItems : [],
+      data: parsed,
+    };
+  } catch (error) {
+    console.error('Failed to parse workspace data:', error);
+    return { chatMessages: [], lineItems: [], data: null };
+  }
+}
+
+/**
+ * Get all line items for a bid package, ordered as the workspace shows them
+ */
+export async function getBidPackageLineItems(
+  bidPackageId: string,
+  client: DbClient = prisma
+): Promise<LineItem[]> {
+  const rows = await client.lineItem.findMany({
+    where: { bidForm: { bidPackageId } },
+    orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return rows.map(fromLineItemRow);
+}
+
+/**
+ * Get the bid form that receives new workspace line items for a package,
+ * creating one if the package has none yet
+ */
+export async function getOrCreateWorkspaceBidForm(
+  bidPackageId: string,
+  client: DbClient = prisma
+) {
+  const existing = await client.bidForm.findFirst({
+    where: { bidPackageId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  return client.bidForm.create({
+    data: {
+      bidPackageId,
+      status: 'draft',
+    },
+  });
+}
+
+/**
+ * Replace a bid package's line items with the given workspace items.
+ * Existing rows are updated in place (keeping their IDs), new items are
+ * created on the package's workspace bid form and missing rows are deleted.
+ * A new item keeps the ID it came with unless another row (in any package)
+ * or an earlier item of the same request already uses it; then the database
+ * assigns one and `idMap` maps the sent ID to it.
+ * When a change context is given, field-level changes are recorded in history.
+ */
+export async function syncBidPackageLineItems(
+  bidPackageId: string,
+  items: LineItemInput[],
+  client: DbClient = prisma,
+  context?: LineItemChangeContext
+): Promise<{ lineItems: LineItem[]; idMap: Map<string, string> }> {
+  const existingRows = await client.lineItem.findMany({
+    where: { bidForm: { bidPackageId } },
+  });
+  const existingById = new Map(existingRows.map(row => [row.id, fromLineItemRow(row)]));
+  const keptIds = new Set<string>();
+  const idMap = new Map<string, string>();
+  const historyRecords: LineItemHistoryRecord[] = [];
+
+  // IDs sent for new items that already belong to rows of other packages
+  const newItemIds = items
+    .map(item => item.id)
+    .filter((id): id is string => !!id && !existingById.has(id));
+  const takenIds = new Set(
+    newItemIds.length > 0
+      ? (await client.lineItem.findMany({
+          where: { id: { in: newItemIds } },
+          select: { id: true },
+        })).map(row => row.id)
+      : []
+  );
+
+  let workspaceFormId: string | null = null;
+
+  for (const [index, item] of items.entries()) {
+    const data = toLineItemData(item, index);
+    // The workspace order always wins over any stored order
+    data.order = index;
+
+    const existing = item.id && !keptIds.has(item.id) ? existingById.get(item.id) : undefined;
+
+    if (item.id && existing) {
+      const updated = await client.lineItem.update({
+        where: { id: item.id },
+        data,
+      });
+      keptIds.add(item.id);
+      historyRecords.push({
+        lineItemId: updated.id,
+        bidPackageId,
+        action: 'update',
+        changes: diffLineItems(existing, fromLineItemRow(updated)),
+      });
+      continue;
+    }
+
+    if (!workspaceFormId) {
+      workspaceFormId = (await getOrCreateWorkspaceBidForm(bidPackageId, client)).id;
+    }
+
+    // A repeated ID keeps pointing at the first item that used it
+    const repeated = !!item.id && keptIds.has(item.id);
+    const keepId = !!item.id && !repeated && !takenIds.has(item.id);
+    const created = await client.lineItem.create({
+      data: {
+        ...(keepId && { id: item.id }),
+        ...data,
+        bidFormId: workspaceFormId,
+      },
+    });
+    keptIds.add(created.id);
+    if (item.id && !keepId && !repeated) {
+      idMap.set(item.id, created.id);
+    }
+    historyRecords.push({
+      lineItemId: created.id,
+      bidPackageId,
+      action: 'create',
+      changes: diffLineItems(null, fromLineItemRow(created)),
+    });
+  }
+
+  const removedIds = [...existingById.keys()].filter(id => !keptIds.has(id));
+  if (removedIds.length > 0) {
+    await client.lineItem.deleteMany({
+      where: { id: { in: removedIds } },
+    });
+    for (const id of removedIds) {
+      historyRecords.push({
+        lineItemId: id,
+        bidPackageId,
+        action: 'delete',
+        changes: diffLineItems(existingById.get(id) ?? null, null),
+      });
+    }
+  }
+
+  if (context) {
+    await recordLineItemHistory(historyRecords, context, client);
+  }
+
+  return { lineItems: await getBidPackageLineItems(bidPackageId, client), idMap };
+}
+
+/**
+ * Move a line item to another bid package, appended to its list and
+ * unapproved. A persisted item keeps its row (and ID); an item only in the
+ * source workspace is created in the target. Progress of both packages is
+ * recalculated. Returns the moved item's ID.
+ */
+export async function reallocateLineItem(
+  input: { itemId: string; sourcePackageId: string; targetPackageId: string; item: LineItemInput },
+  context: LineItemChangeContext,
+  client: DbClient = prisma
+): Promise<string> {
+  const { itemId, sourcePackageId, targetPackageId, item } = input;
+
+  const targetForm = await getOrCreateWorkspaceBidForm(targetPackageId, client);
+  const targetCount = await client.lineItem.count({
+    where: { bidForm: { bidPackageId: targetPackageId } }
+  });
+
+  // Move the existing row if the item is persisted in the source package
+  const existingItem = await client.lineItem.findFirst({
+    where: { id: itemId, bidForm: { bidPackageId: sourcePackageId } }
+  });
+
+  let movedId: string;
+  if (existingItem) {
+    await client.lineItem.update({
+      where: { id: existingItem.id },
+      data: {
+        bidFormId: targetForm.id,
+        order: targetCount,
+        approved: false // Reset approval status when reallocating
+      }
+    });
+    movedId = existingItem.id;
+
+    await recordLineItemHistory([{
+      lineItemId: movedId,
+      bidPackageId: targetPackageId,
+      action: 'reallocate',
+      changes: [
+        { field: 'bidPackageId', oldValue: sourcePackageId, newValue: targetPackageId },
+        ...(existingItem.approved ? [{ field: 'approved', oldValue: true, newValue: false }] : [])
+      ]
+    }], context, client);
+  } else {
+    const created = await client.lineItem.create({
+      data: {
+        ...toLineItemData({ ...item, approved: false }, targetCount),
+        bidFormId: targetForm.id
+      }
+    });
+    movedId = created.id;
+
+    await recordLineItemHistory([{
+      lineItemId: movedId,
+      bidPackageId: targetPackageId,
+      action: 'reallocate',
+      changes: [
+        { field: 'bidPackageId', oldValue: sourcePackageId, newValue: targetPackageId }
+      ]
+    }], context, client);
+  }
+
+  // Recalculate progress for both packages
+  for (const packageId of [sourcePackageId, targetPackageId]) {
+    const items = await client.lineItem.findMany({
+      where: { bidForm: { bidPackageId: packageId } },
+      select: { approved: true }
+    });
+    await client.bidPackage.update({
+      where: { id: packageId },
+      data: { progress: calculateApprovalPercentage(items) }
+    });
+  }
+
+  return movedId;
+}
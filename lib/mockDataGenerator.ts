@@ -7,8 +7,9 @@
 
 import { getDivisions, searchCSICodes, getAllCSICodes } from './csi/csiLookup';
 import type { CSICode } from './csi/csiTypes';
+import type { ExtractionBidPackage, ExtractionLineItem, ExtractionResult } from '@/types/extractionJob';
 
-export interface MockLineItem {
+export interface MockLineItem extends ExtractionLineItem {
   id?: string;
   item_number?: string | null;
   description: string;
@@ -29,13 +30,13 @@ export interface MockLineItem {
   } | null;
 }
 
-export interface MockBidPackage {
+export interface MockBidPackage extends ExtractionBidPackage {
   name: string;
   csi_division: string;
   line_items: MockLineItem[];
 }
 
-export interface MockExtractionResult {
+export interface MockExtractionResult extends ExtractionResult {
   project_name: string;
   bid_packages: MockBidPackage[];
   extraction_confidence: 'high' | 'medium' | 'low';
@@ -1,6 +1,7 @@
 import { PDFDocument } from 'pdf-lib';
 import sharp from 'sharp';
 import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
 import { Canvas, createCanvas } from 'canvas';
 import { readFile } from 'fs/promises';
 import path from 'path';
@@ -19,6 +20,21 @@ export interface PDFPageImage {
   height: number;
 }
 
+export interface PDFTextItem {
+  text: string;
+  x: number; // Left of the text baseline, 0-1 across the page
+  y: number; // Text baseline, 0-1 down the page
+  width: number;
+  height: number; // Font size as a fraction of the page height
+}
+
+export interface PDFPageText {
+  pageNumber: number;
+  width: number;
+  height: number;
+  items: PDFTextItem[];
+}
+
 export interface PDFInfo {
   pageCount: number;
   title?: string;
@@ -61,6 +77,7 @@ export async function getPDFInfo(pdfBuffer: Buffer): Promise<PDFInfo> {
 export async function convertPDFToImages(
   pdfBuffer: Buffer,
   options: {
+    firstPage?: number;
     maxPages?: number;
     scale?: number;
     format?: 'png' | 'jpeg';
@@ -68,6 +85,7 @@ export async function convertPDFToImages(
   } = {}
 ): Promise<PDFPageImage[]> {
   const {
+    firstPage = 1,
     maxPages = 10, // Default to first 10 pages to avoid excessive processing
     scale = 2.0, // Higher scale for better quality
     format = 'png',
@@ -81,11 +99,11 @@ export async function convertPDFToImages(
       useSystemFonts: true,
     });
     const pdfDoc = await loadingTask.promise;
-    const numPages = Math.min(pdfDoc.numPages, maxPages);
+    const lastPage = Math.min(pdfDoc.numPages, firstPage + maxPages - 1);
     const images: PDFPageImage[] = [];
 
     // Process each page
-    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+    for (let pageNum = firstPage; pageNum <= lastPage; pageNum++) {
       const page = await pdfDoc.getPage(pageNum);
       const viewport = page.getViewport({ scale });
 
@@ -164,6 +182,97 @@ export async function extractPDFText(pdfBuffer: Buffer, maxPages = 10): Promise<
   }
 }
 
+/**
+ * Positioned text items of a loaded PDF page, normalized to the page
+ */
+async function readPageTextItems(pdfDoc: PDFDocumentProxy, pageNum: number): Promise<PDFPageText> {
+  const page = await pdfDoc.getPage(pageNum);
+  const viewport = page.getViewport({ scale: 1 });
+  const textContent = await page.getTextContent();
+
+  const items: PDFTextItem[] = [];
+  for (const item of textContent.items) {
+    // Skip marked content markers
+    if (!('str' in item)) continue;
+    const text = item.str.trim();
+    if (!text) continue;
+
+    // Convert from PDF space (origin bottom-left) to viewport space
+    const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+    const fontSize = Math.hypot(item.transform[2], item.transform[3]);
+    items.push({
+      text,
+      x: x / viewport.width,
+      y: y / viewport.height,
+      width: (item.width || 0) / viewport.width,
+      height: fontSize / viewport.height,
+    });
+  }
+
+  // Clean up
+  page.cleanup();
+
+  return {
+    pageNumber: pageNum,
+    width: viewport.width,
+    height: viewport.height,
+    items,
+  };
+}
+
+/**
+ * Extract positioned text from each page's text layer. Positions are
+ * normalized to the page (0-1, origin top-left); height is the font size
+ * as a fraction of the page height.
+ */
+export async function extractPDFTextItems(pdfBuffer: Buffer, maxPages = 500): Promise<PDFPageText[]> {
+  let pdfDoc: PDFDocumentProxy | undefined;
+  try {
+    const loadingTask = pdfjsLib.getDocument({
+      data: new Uint8Array(pdfBuffer),
+      useSystemFonts: true,
+    });
+    pdfDoc = await loadingTask.promise;
+    const numPages = Math.min(pdfDoc.numPages, maxPages);
+    const pages: PDFPageText[] = [];
+
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      pages.push(await readPageTextItems(pdfDoc, pageNum));
+    }
+
+    return pages;
+  } catch (error) {
+    console.error('Error extracting PDF text items:', error);
+    throw new Error('Failed to extract PDF text');
+  } finally {
+    // Free the document's worker and memory
+    await pdfDoc?.destroy();
+  }
+}
+
+/**
+ * Positioned text of a single page, as extractPDFTextItems reads it.
+ * Resolves to null when the PDF has no such page.
+ */
+export async function extractPDFPageTextItems(pdfBuffer: Buffer, pageNumber: number): Promise<PDFPageText | null> {
+  let pdfDoc: PDFDocumentProxy | undefined;
+  try {
+    const loadingTask = pdfjsLib.getDocument({
+      data: new Uint8Array(pdfBuffer),
+      useSystemFonts: true,
+    });
+    pdfDoc = await loadingTask.promise;
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pdfDoc.numPages) return null;
+
+    return await readPageTextItems(pdfDoc, pageNumber);
+  } catch (error) {
+    console.error('Error extracting PDF text items:', error);
+    throw new Error('Failed to extract PDF text');
+  } finally {
+    await pdfDoc?.destroy();
+  }
+}
+
 /**
  * Determine if a file is a PDF based on its content or filename
  */
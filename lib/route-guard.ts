@@ -0,0 +1,313 @@
+/**
+ * API Route Guards
+ * Shared session, permission and assignment checks for project data routes
+ *
+ * Usage:
+ *   const { user, response } = await requireBidPackageAccess(request, id, 'edit', [Permission.EDIT_LINE_ITEMS]);
+ *   if (response) return response;
+ *
+ * Access rules:
+ * - Admins and Precon Leads (MANAGE_ASSIGNMENTS) can see and change everything
+ * - Roles with VIEW_ALL_PROJECTS can see every project but only change what they are assigned to
+ * - Everyone else can only see what they are assigned to
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  getCurrentUser,
+  isUserAssignedToBidPackage,
+  isUserAssignedToProject,
+} from '@/lib/auth';
+import { Permission, hasAllPermissions, hasPermission } from '@/types/permissions';
+import { UserPublic } from '@/types/user';
+
+export type AccessMode = 'view' | 'edit';
+
+export type GuardResult =
+  | { user: UserPublic; response: null }
+  | { user: null; response: NextResponse };
+
+function unauthorized(): GuardResult {
+  return {
+    user: null,
+    response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+  };
+}
+
+function forbidden(): GuardResult {
+  return {
+    user: null,
+    response: NextResponse.json(
+      { error: 'Forbidden - insufficient permissions' },
+      { status: 403 }
+    ),
+  };
+}
+
+function notFound(resource: string): GuardResult {
+  return {
+    user: null,
+    response: NextResponse.json({ error: `${resource} not found` }, { status: 404 }),
+  };
+}
+
+/**
+ * Whether a machine caller (cron job, mail relay) sent the shared secret
+ * configured for it, in the given header (a "Bearer " prefix is allowed).
+ * Always false when no secret is configured.
+ */
+export function hasSharedSecret(request: NextRequest, secret: string | undefined, header: string): boolean {
+  const value = request.headers.get(header)?.replace(/^Bearer\s+/i, '');
+  if (!secret || !value) return false;
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(value);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Whether the user's role grants access to every project and bid package
+ */
+export function hasFullProjectAccess(user: UserPublic): boolean {
+  return hasPermission(user.role, Permission.MANAGE_ASSIGNMENTS);
+}
+
+/**
+ * Check whether a user can view or edit a project
+ * Project access is granted by a project assignment, or by captaining or
+ * being assigned to any of its bid packages
+ */
+export async function canAccessProject(
+  user: UserPublic,
+  bcProjectId: string,
+  mode: AccessMode
+): Promise<boolean> {
+  if (hasFullProjectAccess(user)) return true;
+  if (mode === 'view' && hasPermission(user.role, Permission.VIEW_ALL_PROJECTS)) return true;
+
+  if (await isUserAssignedToProject(user.id, bcProjectId)) return true;
+
+  const packageAccess = await prisma.bidPackage.findFirst({
+    where: {
+      bcProjectId,
+      OR: [
+        { captainId: user.id },
+        { userAssignments: { some: { userId: user.id } } },
+      ],
+    },
+    select: { id: true },
+  });
+  return !!packageAccess;
+}
+
+/**
+ * Check whether a user can view or edit a bid package
+ * Package access is granted by being its captain, a package assignment or a project assignment
+ */
+export async function canAccessBidPackage(
+  user: UserPublic,
+  bidPackage: { id: string; bcProjectId: string; captainId: string | null },
+  mode: AccessMode
+): Promise<boolean> {
+  if (hasFullProjectAccess(user)) return true;
+  if (mode === 'view' && hasPermission(user.role, Permission.VIEW_ALL_PROJECTS)) return true;
+
+  if (bidPackage.captainId === user.id) return true;
+  if (await isUserAssignedToBidPackage(user.id, bidPackage.id)) return true;
+  return isUserAssignedToProject(user.id, bidPackage.bcProjectId);
+}
+
+/**
+ * Require a caller that may ingest inbound email: the mail relay or
+ * drop-folder job sending the INBOX_INGEST_TOKEN shared secret in the
+ * X-Inbox-Token header, or a user who can create projects
+ */
+export async function requireInboxIngestAccess(request: NextRequest): Promise<{ response: NextResponse | null }> {
+  if (hasSharedSecret(request, process.env.INBOX_INGEST_TOKEN, 'x-inbox-token')) return { response: null };
+
+  const { response } = await requirePermission(request, [Permission.CREATE_PROJECT]);
+  return { response };
+}
+
+/**
+ * Require an authenticated user holding all of the given permissions
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permissions: Permission[] = []
+): Promise<GuardResult> {
+  const user = await getCurrentUser(request);
+  if (!user) return unauthorized();
+
+  if (!hasAllPermissions(user.role, permissions)) return forbidden();
+
+  return { user, response: null };
+}
+
+/**
+ * Require access to a project (plus any permissions)
+ */
+export async function requireProjectAccess(
+  request: NextRequest,
+  bcProjectId: string,
+  mode: AccessMode,
+  permissions: Permission[] = []
+): Promise<GuardResult> {
+  const result = await requirePermission(request, permissions);
+  if (result.response) return result;
+
+  const project = await prisma.buildingConnectedProject.findUnique({
+    where: { id: bcProjectId },
+    select: { id: true },
+  });
+  if (!project) return notFound('Project');
+
+  if (!(await canAccessProject(result.user, bcProjectId, mode))) return forbidden();
+
+  return result;
+}
+
+/**
+ * Require access to a bid package (plus any permissions)
+ */
+export async function requireBidPackageAccess(
+  request: NextRequest,
+  bidPackageId: string,
+  mode: AccessMode,
+  permissions: Permission[] = []
+): Promise<GuardResult> {
+  const result = await requirePermission(request, permissions);
+  if (result.response) return result;
+
+  const bidPackage = await prisma.bidPackage.findUnique({
+    where: { id: bidPackageId },
+    select: { id: true, bcProjectId: true, captainId: true },
+  });
+  if (!bidPackage) return notFound('Bid package');
+
+  if (!(await canAccessBidPackage(result.user, bidPackage, mode))) return forbidden();
+
+  return result;
+}
+
+/**
+ * Require access to a bid form through its bid package (plus any permissions)
+ */
+export async function requireBidFormAccess(
+  request: NextRequest,
+  bidFormId: string,
+  mode: AccessMode,
+  permissions: Permission[] = []
+): Promise<GuardResult> {
+  const result = await requirePermission(request, permissions);
+  if (result.response) return result;
+
+  const bidForm = await prisma.bidForm.findUnique({
+    where: { id: bidFormId },
+    select: {
+      bidPackage: { select: { id: true, bcProjectId: true, captainId: true } },
+    },
+  });
+  if (!bidForm) return notFound('Bid form');
+
+  // Legacy bid forms without a bid package are only reachable with full access
+  if (!bidForm.bidPackage) {
+    return hasFullProjectAccess(result.user) ? result : forbidden();
+  }
+
+  if (!(await canAccessBidPackage(result.user, bidForm.bidPackage, mode))) return forbidden();
+
+  return result;
+}
+
+/**
+ * Require access to a diagram through its project (plus any permissions)
+ */
+export async function requireDiagramAccess(
+  request: NextRequest,
+  diagramId: string,
+  mode: AccessMode,
+  permissions: Permission[] = []
+): Promise<GuardResult> {
+  const result = await requirePermission(request, permissions);
+  if (result.response) return result;
+
+  const diagram = await prisma.diagram.findUnique({
+    where: { id: diagramId },
+    select: { bcProjectId: true },
+  });
+  if (!diagram) return notFound('Diagram');
+
+  // Legacy diagrams without a project are only reachable with full access
+  if (!diagram.bcProjectId) {
+    return hasFullProjectAccess(result.user) ? result : forbidden();
+  }
+
+  if (!(await canAccessProject(result.user, diagram.bcProjectId, mode))) return forbidden();
+
+  return result;
+}
+
+/**
+ * Require access to an extraction job (plus any permissions)
+ * Jobs are reachable by the user who queued them and by anyone with
+ * access to the job's project
+ */
+export async function requireExtractionJobAccess(
+  request: NextRequest,
+  jobId: string,
+  mode: AccessMode,
+  permissions: Permission[] = []
+): Promise<GuardResult> {
+  const result = await requirePermission(request, permissions);
+  if (result.response) return result;
+
+  const job = await prisma.extractionJob.findUnique({
+    where: { id: jobId },
+    select: { createdBy: true, bcProjectId: true },
+  });
+  if (!job) return notFound('Extraction job');
+
+  if (job.createdBy === result.user.id || hasFullProjectAccess(result.user)) return result;
+
+  if (!job.bcProjectId || !(await canAccessProject(result.user, job.bcProjectId, mode))) return forbidden();
+
+  return result;
+}
+
+/**
+ * Prisma filter for the projects a user can see
+ */
+export function accessibleProjectsWhere(user: UserPublic): Prisma.BuildingConnectedProjectWhereInput {
+  if (hasFullProjectAccess(user) || hasPermission(user.role, Permission.VIEW_ALL_PROJECTS)) {
+    return {};
+  }
+
+  return {
+    OR: [
+      { userAssignments: { some: { userId: user.id } } },
+      { bidPackages: { some: { captainId: user.id } } },
+      { bidPackages: { some: { userAssignments: { some: { userId: user.id } } } } },
+    ],
+  };
+}
+
+/**
+ * Prisma filter for the bid packages a user can see
+ */
+export function accessibleBidPackagesWhere(user: UserPublic): Prisma.BidPackageWhereInput {
+  if (hasFullProjectAccess(user) || hasPermission(user.role, Permission.VIEW_ALL_PROJECTS)) {
+    return {};
+  }
+
+  return {
+    OR: [
+      { captainId: user.id },
+      { userAssignments: { some: { userId: user.id } } },
+      { project: { userAssignments: { some: { userId: user.id } } } },
+    ],
+  };
+}
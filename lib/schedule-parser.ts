@@ -0,0 +1,343 @@
+/**
+ * Schedule Parsing
+ * Finds tabular schedules (doors, windows, room finishes, equipment,
+ * fixtures) on drawing sheets, reconstructs their rows and columns, and
+ * counts them into line items in the schedule's CSI division
+ */
+
+import type { PDFPageText, PDFTextItem } from '@/lib/pdf-utils';
+import { groupTextLines } from '@/lib/text-layer';
+import { getCodeByCode } from '@/lib/csi/csiLookup';
+import { ScheduleKind, ScheduleKindLabels, ScheduleLineItem, ScheduleTable } from '@/types/schedule';
+
+const SCHEDULE_TITLE_PATTERN = /\bSCHEDULE\b/i;
+
+// Checked in order: 'PLUMBING FIXTURE SCHEDULE' is a fixture schedule, not a finish one
+const SCHEDULE_KIND_PATTERNS: [ScheduleKind, RegExp][] = [
+  ['door', /\bDOORS?\b/i],
+  ['window', /\bWINDOWS?\b/i],
+  ['plumbing_fixture', /\bPLUMBING\b/i],
+  ['lighting_fixture', /\b(LIGHTING|LIGHT|LUMINAIRES?)\b/i],
+  ['finish', /\bFINISH(ES)?\b/i],
+  ['equipment', /\bEQUIPMENT\b/i],
+];
+
+// Package each kind of schedule is counted into, and the CSI code of its items
+const SCHEDULE_PACKAGES: Record<Exclude<ScheduleKind, 'other' | 'finish'>, { name: string; division: string; csiCode: string }> = {
+  door: { name: 'Doors, Frames & Hardware', division: '08', csiCode: '08 10 00' },
+  window: { name: 'Windows', division: '08', csiCode: '08 50 00' },
+  equipment: { name: 'Equipment', division: '11', csiCode: '11 00 00' },
+  plumbing_fixture: { name: 'Plumbing Fixtures', division: '22', csiCode: '22 40 00' },
+  lighting_fixture: { name: 'Lighting', division: '26', csiCode: '26 50 00' },
+};
+
+// Finish schedule columns, each counted separately; floors and ceilings take the room area
+const FINISH_COLUMNS: { pattern: RegExp; label: string; csiCode: string; usesArea: boolean }[] = [
+  { pattern: /\b(FLOOR|FLR)\b/i, label: 'Floor finish', csiCode: '09 60 00', usesArea: true },
+  { pattern: /\bBASE\b/i, label: 'Base', csiCode: '09 65 13', usesArea: false },
+  { pattern: /\bWALLS?\b/i, label: 'Wall finish', csiCode: '09 90 00', usesArea: false },
+  { pattern: /\b(CEILING|CLG)\b/i, label: 'Ceiling', csiCode: '09 50 00', usesArea: true },
+];
+
+// Cells that mean "nothing here"
+const BLANK_CELL_PATTERN = /^(-+|—|–|N\/?A|NONE)?$/i;
+
+/**
+ * Kind of schedule a title names, or null when it is not a schedule title
+ */
+export function getScheduleKind(title: string): ScheduleKind | null {
+  if (!SCHEDULE_TITLE_PATTERN.test(title)) return null;
+  return SCHEDULE_KIND_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0] ?? 'other';
+}
+
+const center = (item: PDFTextItem) => item.x + item.width / 2;
+
+/**
+ * Reconstruct the schedules on a page from its text layer: a line naming a
+ * schedule, a header line below it giving the columns, then one row per line
+ * until the rows stop. Cells go to the column whose header is nearest.
+ */
+export function detectScheduleTables(page: PDFPageText): ScheduleTable[] {
+  const lines = groupTextLines(page.items);
+  const tables: ScheduleTable[] = [];
+
+  for (let i = 0; i < lines.length - 2; i++) {
+    const titleItem = lines[i].find(item => getScheduleKind(item.text) !== null);
+    if (!titleItem) continue;
+
+    // Header cells start at the title and run right until a wide gap (the next table)
+    const header: PDFTextItem[] = [];
+    for (const item of lines[i + 1].filter(item => item.x >= titleItem.x - 0.01)) {
+      const previous = header[header.length - 1];
+      if (previous && item.x - (previous.x + previous.width) > 0.2) break;
+      header.push(item);
+    }
+    if (header.length < 3) continue;
+
+    const left = header[0].x - 0.02;
+    const right = header[header.length - 1].x + header[header.length - 1].width + 0.05;
+    const centers = header.map(center);
+
+    const rows: string[][] = [];
+    let last = lines[i + 1];
+    let j = i + 2;
+    for (; j < lines.length; j++) {
+      const cells = lines[j].filter(item => item.x >= left && item.x <= right);
+      if (cells.length < 2 || lines[j][0].y - last[0].y > last[0].height * 2.5) break;
+      if (cells.some(item => getScheduleKind(item.text) !== null)) break;
+
+      const row = header.map(() => '');
+      for (const cell of cells) {
+        const column = centers.reduce((best, c, index) =>
+          Math.abs(c - center(cell)) < Math.abs(centers[best] - center(cell)) ? index : best, 0);
+        row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+      }
+      rows.push(row);
+      last = lines[j];
+    }
+    if (rows.length === 0) continue;
+
+    const tableItems = [titleItem, ...lines.slice(i + 1, j).flat().filter(item => item.x >= left && item.x <= right)];
+    const boxLeft = Math.min(...tableItems.map(item => item.x));
+    const boxRight = Math.max(...tableItems.map(item => item.x + item.width));
+    const top = Math.min(...tableItems.map(item => item.y - item.height));
+    const bottom = Math.max(...tableItems.map(item => item.y + item.height * 0.25));
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+
+    tables.push({
+      kind: getScheduleKind(titleItem.text)!,
+      title: titleItem.text.replace(/\s+/g, ' ').trim(),
+      columns: header.map(item => item.text.trim()),
+      rows,
+      boundingBox: { x: round(boxLeft), y: round(top), width: round(boxRight - boxLeft), height: round(bottom - top) },
+      source: 'text_layer',
+    });
+    i = j - 1;
+  }
+
+  return tables;
+}
+
+/**
+ * The page without the text inside its schedules, so schedule rows are not
+ * also read as numbered notes
+ */
+export function removeScheduleText(page: PDFPageText, tables: ScheduleTable[]): PDFPageText {
+  const boxes = tables.map(table => table.boundingBox).filter(box => box !== null);
+  if (boxes.length === 0) return page;
+
+  return {
+    ...page,
+    items: page.items.filter(item => !boxes.some(box =>
+      item.x >= box.x - 0.01 && item.x <= box.x + box.width + 0.01 &&
+      item.y >= box.y && item.y <= box.y + box.height + 0.01
+    )),
+  };
+}
+
+// A schedule as the model transcribes it, before it is checked
+interface RawScheduleTable {
+  title?: unknown;
+  kind?: unknown;
+  columns: unknown[];
+  rows: unknown[];
+  boundingBox?: ScheduleTable['boundingBox'];
+}
+
+const isRawScheduleTable = (table: unknown): table is RawScheduleTable =>
+  typeof table === 'object' && table !== null &&
+  Array.isArray((table as RawScheduleTable).columns) && Array.isArray((table as RawScheduleTable).rows);
+
+const isScheduleKind = (kind: unknown): kind is ScheduleKind => typeof kind === 'string' && Object.hasOwn(ScheduleKindLabels, kind);
+
+/**
+ * Schedules as transcribed by the model, checked and padded to their columns
+ */
+export function normalizeScheduleTables(raw: unknown): ScheduleTable[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter(isRawScheduleTable)
+    .map(table => {
+      const title = String(table.title || 'Schedule').trim();
+      const columns = table.columns.map(column => String(column ?? '').trim());
+      const rows = table.rows
+        .filter((row): row is unknown[] => Array.isArray(row))
+        .map(row => columns.map((_, index) => String(row[index] ?? '').trim()));
+      const kind = getScheduleKind(title) ?? (isScheduleKind(table.kind) ? table.kind : 'other');
+      const box = table.boundingBox;
+
+      return {
+        kind,
+        title,
+        columns,
+        rows,
+        boundingBox: box && typeof box.x === 'number' ? { x: box.x, y: box.y, width: box.width, height: box.height } : null,
+        source: 'vision' as const,
+      };
+    })
+    .filter(table => table.columns.length > 0 && table.rows.length > 0);
+}
+
+const findColumn = (columns: string[], pattern: RegExp, exclude?: RegExp) =>
+  columns.findIndex(column => pattern.test(column) && !exclude?.test(column));
+
+const cellValue = (row: string[], column: number) => {
+  const value = column >= 0 ? row[column]?.trim() ?? '' : '';
+  return BLANK_CELL_PATTERN.test(value) ? '' : value;
+};
+
+const parseNumber = (value: string): number | null => {
+  const number = parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Group rows by a key, keeping the marks (door numbers, room numbers) of each group
+ */
+function groupRows(rows: string[][], keyOf: (row: string[]) => string | null, markColumn: number) {
+  const groups = new Map<string, { rows: string[][]; marks: string[] }>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    const group = groups.get(key) ?? { rows: [], marks: [] };
+    group.rows.push(row);
+    const mark = cellValue(row, markColumn);
+    if (mark) group.marks.push(mark);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+const withCSI = (csiCode: string) => ({ csiCode, csiTitle: getCodeByCode(csiCode)?.title ?? 'N/A' });
+
+/**
+ * Line items counted from a schedule: e.g. 14 EA of door type D3 with
+ * hardware set 5. Schedules of unknown kind give none.
+ */
+export function getScheduleLineItems(table: ScheduleTable): ScheduleLineItem[] {
+  const { columns, rows } = table;
+  const markColumn = Math.max(findColumn(columns, /\b(MARK|NO\.?|NUMBER|TAG|ROOM)\b|#/i), 0);
+  const lineItem = (description: string, quantity: number | null, unit: string | null, marks: string[], csiCode: string): ScheduleLineItem => ({
+    item_number: null,
+    description,
+    quantity,
+    unit,
+    notes: marks.length > 0 ? `${table.title}: ${marks.join(', ')}` : table.title,
+    boundingBox: table.boundingBox,
+    ...withCSI(csiCode),
+  });
+
+  switch (table.kind) {
+    case 'door': {
+      const typeColumn = findColumn(columns, /\bTYPE\b/i, /FRAME/i);
+      const hardwareColumn = findColumn(columns, /HARDWARE|HDW|\bHW\b/i);
+      const groups = groupRows(rows, row => `${cellValue(row, typeColumn)}|${cellValue(row, hardwareColumn)}`, markColumn);
+
+      return Array.from(groups, ([key, group]) => {
+        const [type, hardware] = key.split('|');
+        const description = [type ? `Door type ${type}` : 'Doors', hardware && `hardware set ${hardware}`].filter(Boolean).join(', ');
+        return lineItem(description, group.rows.length, 'EA', group.marks, SCHEDULE_PACKAGES.door.csiCode);
+      });
+    }
+
+    case 'window': {
+      const typeColumn = findColumn(columns, /\bTYPE\b/i);
+      const groups = groupRows(rows, row => cellValue(row, typeColumn >= 0 ? typeColumn : markColumn), markColumn);
+      return Array.from(groups, ([type, group]) =>
+        lineItem(type ? `Window type ${type}` : 'Windows', group.rows.length, 'EA', group.marks, SCHEDULE_PACKAGES.window.csiCode)
+      );
+    }
+
+    case 'equipment':
+    case 'plumbing_fixture':
+    case 'lighting_fixture': {
+      const tagColumn = Math.max(findColumn(columns, /\b(MARK|TAG|TYPE|NO\.?)\b/i), 0);
+      const descriptionColumn = columns.findIndex((column, index) =>
+        index !== tagColumn && /DESCRIPTION|ITEM|EQUIPMENT|FIXTURE|NAME/i.test(column));
+      const quantityColumn = findColumn(columns, /^(QTY|QUANTITY|COUNT)\b/i);
+      const kind = table.kind;
+      const label = { equipment: 'Equipment', plumbing_fixture: 'Plumbing fixture', lighting_fixture: 'Light fixture type' }[kind];
+      const groups = groupRows(rows, row => cellValue(row, tagColumn) || null, -1);
+
+      return Array.from(groups, ([tag, group]) => {
+        const description = cellValue(group.rows[0], descriptionColumn);
+        const quantities = group.rows.map(row => parseNumber(cellValue(row, quantityColumn)));
+        const quantity = quantityColumn >= 0 && quantities.some(q => q !== null)
+          ? quantities.reduce<number>((sum, q) => sum + (q ?? 1), 0)
+          : group.rows.length;
+        return lineItem(`${label} ${tag}${description ? `: ${description}` : ''}`, quantity, 'EA', [], SCHEDULE_PACKAGES[kind].csiCode);
+      });
+    }
+
+    case 'finish': {
+      const areaColumn = findColumn(columns, /AREA|\bSF\b|\bSQ/i);
+      const roomColumn = Math.max(findColumn(columns, /\b(ROOM|NO\.?|NUMBER)\b/i), 0);
+
+      return FINISH_COLUMNS.flatMap(finish => {
+        const finishColumns = columns
+          .map((column, index) => (finish.pattern.test(column) ? index : -1))
+          .filter(index => index >= 0);
+        if (finishColumns.length === 0) return [];
+
+        // Rooms per finish code; a room with the same code on several walls counts once
+        const rooms = new Map<string, string[][]>();
+        for (const row of rows) {
+          const codes = new Set(finishColumns.map(index => cellValue(row, index)).filter(Boolean));
+          for (const code of codes) rooms.set(code, [...(rooms.get(code) ?? []), row]);
+        }
+
+        return Array.from(rooms, ([code, finishRows]) => {
+          const areas = finishRows.map(row => parseNumber(cellValue(row, areaColumn)));
+          const area = finish.usesArea && areaColumn >= 0 && areas.every(a => a !== null)
+            ? areas.reduce<number>((sum, a) => sum + (a ?? 0), 0)
+            : null;
+          const marks = finishRows.map(row => cellValue(row, roomColumn)).filter(Boolean);
+          return lineItem(`${finish.label} ${code}`, area, area !== null ? 'SF' : null, marks, finish.csiCode);
+        });
+      });
+    }
+
+    default:
+      return [];
+  }
+}
+
+// The parts of a page's extraction result that schedules are added to
+interface ScheduleExtractionResult {
+  bid_packages?: { name: string; csi_division: string; description?: string; line_items?: unknown[] }[];
+  schedules?: ScheduleTable[];
+}
+
+/**
+ * Add the line items counted from a page's schedules to its result, in the
+ * package for their CSI division, and keep the schedules on the result
+ */
+export function applySchedules<T extends ScheduleExtractionResult>(page: T, tables: ScheduleTable[]): T {
+  const result: ScheduleExtractionResult = page;
+  result.bid_packages = result.bid_packages || [];
+
+  for (const table of tables) {
+    const lineItems = getScheduleLineItems(table);
+    if (lineItems.length === 0) continue;
+
+    const target = table.kind === 'finish'
+      ? { name: 'Finishes', division: '09' }
+      : SCHEDULE_PACKAGES[table.kind as keyof typeof SCHEDULE_PACKAGES];
+
+    let pkg = result.bid_packages.find(candidate => candidate.csi_division === target.division);
+    if (!pkg) {
+      pkg = {
+        name: target.name,
+        csi_division: target.division,
+        description: `Counted from the ${ScheduleKindLabels[table.kind].toLowerCase()}`,
+        line_items: [],
+      };
+      result.bid_packages.push(pkg);
+    }
+    pkg.line_items = [...(pkg.line_items || []), ...lineItems];
+  }
+
+  result.schedules = tables;
+  return page;
+}
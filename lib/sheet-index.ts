@@ -0,0 +1,220 @@
+/**
+ * Sheet Index Parsing
+ * Reads sheet numbers, titles and revisions from the text layer of a
+ * drawing set: the title block of each page and the cover sheet index
+ */
+
+import type { PDFPageText, PDFTextItem } from '@/lib/pdf-utils';
+import { groupTextLines } from '@/lib/text-layer';
+import { SheetDisciplines, SheetIndexEntry, SheetSource } from '@/types/sheet';
+
+// Discipline designator (one or two letters), then the sheet sequence: A-101, A101, A1.01, FP-201, M-201A
+const SHEET_NUMBER_PATTERN = /^([A-Z]{1,2})[-.\s]?(\d{1,3}(?:\.\d{1,3})?[A-Z]?)$/;
+
+// Headings that introduce a cover sheet index
+const INDEX_HEADING_PATTERN = /\b(SHEET|DRAWING)S?\s+(INDEX|LIST)\b|\b(LIST|INDEX)\s+OF\s+(DRAWINGS|SHEETS)\b/i;
+
+const TITLE_LABEL_PATTERN = /^(SHEET|DRAWING|DWG\.?)\s+TITLE:?$/i;
+const REVISION_PATTERN = /^REV(?:ISION)?\.?\s*(?:NO\.?)?\s*[:#]?\s*([A-Z0-9]{1,3})$/i;
+const REVISION_LABEL_PATTERN = /^REV(?:ISION)?\.?\s*(?:NO\.?)?:?$/i;
+
+// Title blocks run along the right edge or the bottom of the sheet
+const isInTitleBlock = (item: PDFTextItem) => item.x > 0.6 || item.y > 0.75;
+
+export interface ParsedSheet {
+  pageNumber: number;
+  sheetNumber: string | null;
+  title: string | null;
+  discipline: string | null;
+  revision: string | null;
+  source: SheetSource;
+}
+
+/**
+ * Normalize a sheet number as printed ('a 101' -> 'A-101', 'A1.01' stays)
+ * or null when the text is not a sheet number
+ */
+export function normalizeSheetNumber(value: string): string | null {
+  const text = value.trim().toUpperCase();
+  const match = text.match(SHEET_NUMBER_PATTERN);
+  if (!match) return null;
+  const separator = text.length > match[1].length + match[2].length ? '-' : '';
+  return `${match[1]}${separator}${match[2]}`;
+}
+
+// Sheet numbers printed with and without a separator ('A-101', 'A101') are the same sheet
+const getSheetKey = (sheetNumber: string) => sheetNumber.replace(/-/g, '');
+
+/**
+ * Discipline designator of a sheet number, if it is a known discipline
+ */
+export function getSheetDiscipline(sheetNumber: string | null): string | null {
+  const letter = sheetNumber?.trim().charAt(0).toUpperCase();
+  return letter && letter in SheetDisciplines ? letter : null;
+}
+
+/**
+ * Text items just below a label, within its column
+ */
+function getTextBelow(label: PDFTextItem, items: PDFTextItem[]): PDFTextItem[] {
+  const maxDistance = Math.max(label.height * 6, 0.04);
+  const below = items.filter(item =>
+    item !== label &&
+    item.y > label.y &&
+    item.y - label.y <= maxDistance &&
+    item.x >= label.x - 0.1 &&
+    item.x <= label.x + Math.max(label.width, 0.05) + 0.1
+  );
+  if (below.length === 0) return [];
+
+  // Keep the lines closest to the label, up to the first gap
+  const lines = groupTextLines(below);
+  const kept = [lines[0]];
+  for (let i = 1; i < lines.length; i++) {
+    const gap = lines[i][0].y - lines[i - 1][0].y;
+    if (gap > lines[i - 1][0].height * 2) break;
+    kept.push(lines[i]);
+  }
+  return kept.flat();
+}
+
+/**
+ * Read the sheet number, title and revision from a page's title block
+ */
+export function parseTitleBlock(items: PDFTextItem[]): {
+  sheetNumber: string | null;
+  title: string | null;
+  revision: string | null;
+} {
+  // Sheet number: the largest sheet-number-shaped text, favouring the title block
+  const candidates = items
+    .map(item => ({ item, sheetNumber: normalizeSheetNumber(item.text) }))
+    .filter((c): c is { item: PDFTextItem; sheetNumber: string } => c.sheetNumber !== null);
+  const inTitleBlock = candidates.filter(c => isInTitleBlock(c.item));
+  const best = (inTitleBlock.length > 0 ? inTitleBlock : candidates)
+    .sort((a, b) => b.item.height - a.item.height || (b.item.x + b.item.y) - (a.item.x + a.item.y))[0];
+
+  // Title: the text under a 'SHEET TITLE' label
+  let title: string | null = null;
+  const titleLabel = items.find(item => isInTitleBlock(item) && TITLE_LABEL_PATTERN.test(item.text));
+  if (titleLabel) {
+    const text = getTextBelow(titleLabel, items)
+      .filter(item => item !== best?.item)
+      .map(item => item.text)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    title = text || null;
+  }
+
+  // Revision: 'REV 2' in one item, or a 'REV' label with the value beside or below it
+  let revision: string | null = null;
+  for (const item of items.filter(isInTitleBlock)) {
+    const inline = item.text.match(REVISION_PATTERN);
+    if (inline) {
+      revision = inline[1].toUpperCase();
+      break;
+    }
+    if (REVISION_LABEL_PATTERN.test(item.text)) {
+      const value = items
+        .filter(other => other !== item && /^[A-Z0-9]{1,3}$/i.test(other.text))
+        .map(other => ({ other, distance: Math.hypot(other.x - item.x - item.width, other.y - item.y) }))
+        .filter(({ other, distance }) => distance < 0.05 && other.x >= item.x && other.y >= item.y - item.height)
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (value) {
+        revision = value.other.text.toUpperCase();
+        break;
+      }
+    }
+  }
+
+  return { sheetNumber: best?.sheetNumber ?? null, title, revision };
+}
+
+/**
+ * Parse a cover sheet index: rows of a sheet number followed by its title.
+ * Returns an empty list when the page has no index heading.
+ */
+export function parseSheetIndex(items: PDFTextItem[]): SheetIndexEntry[] {
+  const text = items.map(item => item.text).join(' ');
+  if (!INDEX_HEADING_PATTERN.test(text)) return [];
+
+  const entries: SheetIndexEntry[] = [];
+  const seen = new Set<string>(); // Sheet keys
+
+  for (const line of groupTextLines(items)) {
+    // A line may hold several columns of the index side by side
+    let current: SheetIndexEntry | null = null;
+    const flush = () => {
+      if (current && current.title && !seen.has(getSheetKey(current.sheetNumber))) {
+        seen.add(getSheetKey(current.sheetNumber));
+        entries.push({ ...current, title: current.title.replace(/\s+/g, ' ').trim() });
+      }
+    };
+
+    for (const item of line) {
+      // The number and title may share one text item
+      const [first, ...rest] = item.text.split(/\s+/);
+      const sheetNumber = normalizeSheetNumber(item.text) ?? normalizeSheetNumber(first);
+      if (sheetNumber) {
+        flush();
+        current = {
+          sheetNumber,
+          title: normalizeSheetNumber(item.text) ? '' : rest.join(' '),
+        };
+      } else if (current) {
+        current.title = `${current.title} ${item.text}`;
+      }
+    }
+    flush();
+  }
+
+  return entries;
+}
+
+/**
+ * Sheet number and title from a file named after its sheet,
+ * e.g. 'A-101 First Floor Plan.pdf'
+ */
+export function parseSheetFileName(fileName: string): { sheetNumber: string; title: string | null } | null {
+  const name = fileName.replace(/\.[^.]+$/, '').replace(/_/g, ' ').trim();
+  const match = name.match(/^([A-Za-z]{1,2}[-.\s]?\d{1,3}(?:\.\d{1,3})?[A-Za-z]?)(?:\s*[-:]\s*|\s+|$)(.*)$/);
+  const sheetNumber = match ? normalizeSheetNumber(match[1]) : null;
+  if (!match || !sheetNumber) return null;
+  return { sheetNumber, title: match[2].trim() || null };
+}
+
+/**
+ * Sheet metadata for every page of a set. Title blocks come first; the
+ * cover sheet index fills in missing titles, and numbers pages in order
+ * when it lists exactly one sheet per page.
+ */
+export function parseSheets(pages: PDFPageText[]): ParsedSheet[] {
+  // The index is on one of the first few (cover) sheets
+  const index = pages.slice(0, 5).flatMap(page => parseSheetIndex(page.items));
+  const titlesByKey = new Map(index.map(entry => [getSheetKey(entry.sheetNumber), entry.title]));
+  const indexMatchesPages = index.length === pages.length;
+
+  return pages.map((page, i) => {
+    const titleBlock = parseTitleBlock(page.items);
+    let sheetNumber = titleBlock.sheetNumber;
+    let source: SheetSource = sheetNumber ? 'title_block' : 'none';
+
+    if (!sheetNumber && indexMatchesPages) {
+      sheetNumber = index[i].sheetNumber;
+      source = 'index';
+    }
+
+    const title = titleBlock.title ?? (sheetNumber ? titlesByKey.get(getSheetKey(sheetNumber)) ?? null : null);
+    if (source === 'none' && title) source = 'index';
+
+    return {
+      pageNumber: page.pageNumber,
+      sheetNumber,
+      title,
+      discipline: getSheetDiscipline(sheetNumber),
+      revision: titleBlock.revision,
+      source,
+    };
+  });
+}
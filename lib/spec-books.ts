@@ -0,0 +1,150 @@
+/**
+ * Spec Book Utilities
+ * Stores uploaded project manuals split into MasterFormat sections, and
+ * finds the sections that apply to a bid package
+ */
+
+import { Prisma, SpecBook as SpecBookRow, SpecSection as SpecSectionRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { extractPDFTextItems } from '@/lib/pdf-utils';
+import { getCodeByCode } from '@/lib/csi/csiLookup';
+import { parseSpecSections, specSectionCoversCode, validateSectionNumber } from '@/lib/spec-parser';
+import { BidPackageSpecSection, SpecBook, SpecSection, SpecSectionMatch } from '@/types/spec';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+// Spec books run far longer than drawing sets
+const MAX_SPEC_PAGES = 3000;
+
+// Section listings leave out the section text
+const sectionListSelect = {
+  id: true,
+  specBookId: true,
+  sectionNumber: true,
+  title: true,
+  csiCode: true,
+  csiMatch: true,
+  startPage: true,
+  endPage: true,
+} satisfies Prisma.SpecSectionSelect;
+
+/**
+ * Convert a SpecSection row into the API shape
+ */
+export function fromSpecSectionRow(row: Omit<SpecSectionRow, 'content'> & { content?: string }): SpecSection {
+  return {
+    id: row.id,
+    specBookId: row.specBookId,
+    sectionNumber: row.sectionNumber,
+    title: row.title,
+    csiCode: row.csiCode,
+    csiTitle: row.csiCode ? getCodeByCode(row.csiCode)?.title ?? null : null,
+    csiMatch: row.csiMatch as SpecSectionMatch,
+    startPage: row.startPage,
+    endPage: row.endPage,
+    ...(row.content !== undefined && { content: row.content }),
+  };
+}
+
+/**
+ * Convert a SpecBook row (with its section listing) into the API shape
+ */
+export function fromSpecBookRow(row: SpecBookRow & { sections: Omit<SpecSectionRow, 'content'>[] }): SpecBook {
+  return {
+    id: row.id,
+    bcProjectId: row.bcProjectId,
+    fileName: row.fileName,
+    fileUrl: row.fileUrl,
+    fileSize: row.fileSize,
+    pageCount: row.pageCount,
+    uploadedBy: row.uploadedBy,
+    uploadedAt: row.uploadedAt,
+    sections: row.sections.map(fromSpecSectionRow),
+  };
+}
+
+/**
+ * Get a project's spec books with their sections in book order
+ */
+export async function getProjectSpecBooks(bcProjectId: string, client: DbClient = prisma): Promise<SpecBook[]> {
+  const rows = await client.specBook.findMany({
+    where: { bcProjectId },
+    include: { sections: { select: sectionListSelect, orderBy: { startPage: 'asc' } } },
+    orderBy: { uploadedAt: 'asc' },
+  });
+  return rows.map(fromSpecBookRow);
+}
+
+/**
+ * Split an uploaded spec PDF into sections and store them with the book
+ */
+export async function ingestSpecBook(
+  data: {
+    bcProjectId: string;
+    fileName: string;
+    fileUrl: string;
+    fileSize: number;
+    fileHash: string | null;
+    uploadedBy: string | null;
+  },
+  buffer: Buffer,
+  client: DbClient = prisma
+): Promise<SpecBook> {
+  const pages = await extractPDFTextItems(buffer, MAX_SPEC_PAGES);
+  const sections = parseSpecSections(pages);
+
+  const book = await client.specBook.create({
+    data: {
+      ...data,
+      pageCount: pages.length,
+      sections: {
+        create: sections.map(section => {
+          const { csiCode, csiMatch } = validateSectionNumber(section.sectionNumber);
+          return { ...section, csiCode, csiMatch };
+        }),
+      },
+    },
+    include: { sections: { select: sectionListSelect, orderBy: { startPage: 'asc' } } },
+  });
+
+  return fromSpecBookRow(book);
+}
+
+/**
+ * Spec sections from the package's project that cover the CSI codes of its
+ * line items, in section number order
+ */
+export async function getBidPackageSpecSections(
+  bidPackageId: string,
+  options: { includeContent?: boolean } = {},
+  client: DbClient = prisma
+): Promise<BidPackageSpecSection[]> {
+  const bidPackage = await client.bidPackage.findUnique({
+    where: { id: bidPackageId },
+    select: { bcProjectId: true },
+  });
+  if (!bidPackage) return [];
+
+  const lineItems = await client.lineItem.findMany({
+    where: { bidForm: { bidPackageId } },
+    select: { csiCode: true },
+  });
+  const codes = Array.from(new Set(lineItems.map(item => item.csiCode).filter((code): code is string => !!code)));
+  if (codes.length === 0) return [];
+
+  const rows = await client.specSection.findMany({
+    where: { specBook: { bcProjectId: bidPackage.bcProjectId } },
+    select: {
+      ...sectionListSelect,
+      content: !!options.includeContent,
+      specBook: { select: { fileName: true } },
+    },
+    orderBy: [{ sectionNumber: 'asc' }, { startPage: 'asc' }],
+  });
+
+  return rows.flatMap(({ specBook, ...row }) => {
+    const matchedCodes = codes.filter(code => specSectionCoversCode(row.sectionNumber, code));
+    if (matchedCodes.length === 0) return [];
+    return [{ ...fromSpecSectionRow(row), fileName: specBook.fileName, matchedCodes }];
+  });
+}
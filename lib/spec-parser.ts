@@ -0,0 +1,160 @@
+/**
+ * Spec Book Parsing
+ * Splits the text layer of a project manual into MasterFormat sections by
+ * their "SECTION 09 29 00 - GYPSUM BOARD" headings, validates the section
+ * numbers against the CSI dataset, and matches sections to line item codes
+ */
+
+import type { PDFPageText } from '@/lib/pdf-utils';
+import { groupTextLines } from '@/lib/text-layer';
+import { getCodeByCode } from '@/lib/csi/csiLookup';
+import { SpecSection, SpecSectionMatch } from '@/types/spec';
+
+// SECTION 09 29 00, SECTION 092900, SECTION 09 29 16.13, then an optional title
+const SECTION_HEADING_PATTERN = /^SECTION\s+(\d{2})\s?(\d{2})\s?(\d{2})(\.\d{2})?\b\s*[-–—:]?\s*(.*)$/i;
+const END_OF_SECTION_PATTERN = /^END\s+OF\s+SECTION\b/i;
+const PART_HEADING_PATTERN = /^PART\s+\d/i;
+
+// Sections start on a new page, so headings are only read from the top lines
+// of a page (running headers included); this skips tables of contents and
+// "Section 07 92 00" references in the text
+const HEADING_LINES = 6;
+
+export interface ParsedSpecSection {
+  sectionNumber: string;
+  title: string;
+  startPage: number;
+  endPage: number;
+  content: string;
+}
+
+/**
+ * Section number and title of a heading line, or null when the line is not
+ * a section heading
+ */
+export function parseSectionHeading(text: string): { sectionNumber: string; title: string } | null {
+  const match = text.trim().match(SECTION_HEADING_PATTERN);
+  if (!match) return null;
+  return {
+    sectionNumber: `${match[1]} ${match[2]} ${match[3]}${match[4] ?? ''}`,
+    title: match[5].trim(),
+  };
+}
+
+/**
+ * Split a spec book into sections. A section runs from its heading to its
+ * "END OF SECTION" line, or to the next heading when that line is missing.
+ */
+export function parseSpecSections(pages: PDFPageText[]): ParsedSpecSection[] {
+  type OpenSection = Omit<ParsedSpecSection, 'content'> & { lines: string[] };
+  const sections: OpenSection[] = [];
+  let current = null as OpenSection | null;
+
+  for (const page of pages) {
+    const lines = groupTextLines(page.items)
+      .map(line => line.map(item => item.text).join(' ').replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+
+    for (let index = 0; index < lines.length; index++) {
+      const text = lines[index];
+      const heading = index < HEADING_LINES ? parseSectionHeading(text) : null;
+
+      if (heading && heading.sectionNumber !== current?.sectionNumber) {
+        let title = heading.title;
+        // The title is often set on its own line under the number
+        const next = lines[index + 1];
+        if (!title && next && !PART_HEADING_PATTERN.test(next) && !parseSectionHeading(next)) {
+          title = next;
+          index++;
+        }
+
+        current = {
+          sectionNumber: heading.sectionNumber,
+          title,
+          startPage: page.pageNumber,
+          endPage: page.pageNumber,
+          lines: [],
+        };
+        sections.push(current);
+        continue;
+      }
+
+      // Outside a section (front matter, divider pages) or the open section's running header
+      if (!current || heading) continue;
+
+      current.lines.push(text);
+      current.endPage = page.pageNumber;
+      if (END_OF_SECTION_PATTERN.test(text)) current = null;
+    }
+  }
+
+  return sections.map(({ lines, ...section }) => ({ ...section, content: lines.join('\n') }));
+}
+
+/**
+ * Validate a section number against MasterFormat: the code itself, or its
+ * nearest listed parent (09 29 16.13 -> 09 29 16 -> 09 29 00 -> 09 00 00)
+ */
+export function validateSectionNumber(sectionNumber: string): {
+  csiCode: string | null;
+  csiTitle: string | null;
+  csiMatch: SpecSectionMatch;
+} {
+  const exact = getCodeByCode(sectionNumber);
+  if (exact) return { csiCode: exact.code, csiTitle: exact.title, csiMatch: 'exact' };
+
+  const [division, group, item] = sectionNumber.replace(/\.\d+$/, '').split(' ');
+  const parents = [`${division} ${group} ${item}`, `${division} ${group} 00`, `${division} 00 00`]
+    .filter(code => code !== sectionNumber);
+
+  for (const code of parents) {
+    const parent = getCodeByCode(code);
+    if (parent) return { csiCode: parent.code, csiTitle: parent.title, csiMatch: 'parent' };
+  }
+
+  return { csiCode: null, csiTitle: null, csiMatch: 'none' };
+}
+
+// Code as digits without trailing "00" levels: '09 29 00' -> '0929', '09 29 16.13' -> '09291613'
+const getCodeKey = (code: string) => {
+  let key = code.replace(/\D/g, '');
+  while (key.length > 2 && key.endsWith('00')) key = key.slice(0, -2);
+  return key;
+};
+
+/**
+ * Whether a spec section applies to a line item's CSI code: the same code,
+ * or one nested under the other below the division level (a division-wide
+ * code only matches a division-wide section)
+ */
+export function specSectionCoversCode(sectionNumber: string, csiCode: string | null | undefined): boolean {
+  if (!csiCode || !/\d{2}/.test(csiCode)) return false;
+
+  const sectionKey = getCodeKey(sectionNumber);
+  const codeKey = getCodeKey(csiCode);
+  if (sectionKey === codeKey) return true;
+
+  const [shorter, longer] = sectionKey.length < codeKey.length ? [sectionKey, codeKey] : [codeKey, sectionKey];
+  return shorter.length >= 4 && longer.startsWith(shorter);
+}
+
+/**
+ * Spec sections as cited in a prompt, each cut to a share of the character budget
+ */
+export function formatSpecSectionsForPrompt(
+  sections: (SpecSection & { fileName?: string })[],
+  maxChars = 12000
+): string {
+  if (sections.length === 0) return '';
+  const perSection = Math.max(1000, Math.floor(maxChars / sections.length));
+
+  return sections
+    .slice(0, Math.max(1, Math.floor(maxChars / 1000)))
+    .map(section => {
+      const pages = section.startPage === section.endPage ? `p. ${section.startPage}` : `pp. ${section.startPage}-${section.endPage}`;
+      const content = section.content ?? '';
+      const excerpt = content.length > perSection ? `${content.slice(0, perSection)}\n[...]` : content;
+      return `SECTION ${section.sectionNumber} - ${section.title} (${section.fileName ? `${section.fileName}, ` : ''}${pages})\n${excerpt}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,234 @@
+/**
+ * Subcontractor Directory Utilities
+ * Validation and mapping for subcontractor records, and matching subs to a
+ * bid package by the CSI divisions and trades of its line items
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { categorizeLineItem, getTradeDivisions, getTradeNames, TRADE_CATEGORIES } from '@/lib/bid-package-utils';
+import { getDivisions } from '@/lib/csi/csiLookup';
+import { getBidPackageLineItems } from '@/lib/line-item-utils';
+import { getCsiDivision } from '@/lib/cost-rollup';
+import {
+  PrequalStatus,
+  PrequalStatusLabels,
+  Subcontractor,
+  SubcontractorInput,
+  SubcontractorOptions,
+  SubcontractorSuggestion,
+} from '@/types/subcontractor';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export const subcontractorInclude = {
+  contacts: { orderBy: [{ isPrimary: 'desc' }, { name: 'asc' }] },
+} satisfies Prisma.SubcontractorInclude;
+
+type SubcontractorRow = Prisma.SubcontractorGetPayload<{ include: typeof subcontractorInclude }>;
+
+// Subs with these statuses are never suggested for invitations
+const EXCLUDED_FROM_SUGGESTIONS: PrequalStatus[] = ['rejected'];
+
+/**
+ * Check whether a value is a known prequalification status
+ */
+export function isPrequalStatus(value: unknown): value is PrequalStatus {
+  return typeof value === 'string' && Object.hasOwn(PrequalStatusLabels, value);
+}
+
+function parseStringArray(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch (error) {
+    console.error('Failed to parse subcontractor list field:', error);
+    return [];
+  }
+}
+
+/**
+ * Trades and CSI divisions a subcontractor can be tagged with
+ */
+export function getSubcontractorOptions(): SubcontractorOptions {
+  return {
+    trades: Object.values(TRADE_CATEGORIES).map(config => ({
+      name: config.name,
+      csiDivisions: [...config.csiDivisions],
+    })),
+    divisions: getDivisions().map(division => ({
+      code: division.division,
+      title: division.title,
+    })),
+  };
+}
+
+/**
+ * Validate the tagged fields of a create/update body
+ * Returns an error message, or null when valid
+ */
+export function validateSubcontractorInput(input: SubcontractorInput): string | null {
+  if (input.name !== undefined && !input.name.trim()) {
+    return 'name cannot be empty';
+  }
+
+  if (input.trades !== undefined) {
+    const tradeNames = getTradeNames();
+    const unknown = input.trades.filter(trade => !tradeNames.includes(trade));
+    if (unknown.length > 0) return `Unknown trades: ${unknown.join(', ')}`;
+  }
+
+  if (input.csiDivisions !== undefined) {
+    const divisionCodes = getDivisions().map(division => division.division);
+    const unknown = input.csiDivisions.filter(code => !divisionCodes.includes(code));
+    if (unknown.length > 0) return `Unknown CSI divisions: ${unknown.join(', ')}`;
+  }
+
+  if (input.prequalStatus !== undefined && !isPrequalStatus(input.prequalStatus)) {
+    return `Invalid prequalification status "${input.prequalStatus}"`;
+  }
+
+  if (input.contacts !== undefined && input.contacts.some(contact => !contact.name?.trim())) {
+    return 'Every contact needs a name';
+  }
+
+  return null;
+}
+
+/**
+ * Map a create/update body to Subcontractor scalar data (contacts are handled separately)
+ */
+export function toSubcontractorData(input: SubcontractorInput) {
+  return {
+    ...(input.name !== undefined && { name: input.name.trim() }),
+    ...(input.website !== undefined && { website: input.website || null }),
+    ...(input.phone !== undefined && { phone: input.phone || null }),
+    ...(input.email !== undefined && { email: input.email || null }),
+    ...(input.address !== undefined && { address: input.address || null }),
+    ...(input.trades !== undefined && { trades: JSON.stringify(input.trades) }),
+    ...(input.csiDivisions !== undefined && { csiDivisions: JSON.stringify([...input.csiDivisions].sort()) }),
+    ...(input.regions !== undefined && { regions: JSON.stringify(input.regions) }),
+    ...(input.insuranceLimit !== undefined && { insuranceLimit: input.insuranceLimit }),
+    ...(input.bondingLimit !== undefined && { bondingLimit: input.bondingLimit }),
+    ...(input.prequalStatus !== undefined && { prequalStatus: input.prequalStatus }),
+    ...(input.prequalExpiresAt !== undefined && {
+      prequalExpiresAt: input.prequalExpiresAt ? new Date(input.prequalExpiresAt) : null,
+    }),
+    ...(input.notes !== undefined && { notes: input.notes || null }),
+    ...(input.isActive !== undefined && { isActive: input.isActive }),
+  };
+}
+
+/**
+ * Map contacts from a request body to SubcontractorContact create data
+ */
+export function toContactData(
+  contacts: NonNullable<SubcontractorInput['contacts']>
+): Prisma.SubcontractorContactCreateWithoutSubcontractorInput[] {
+  return contacts.map(contact => ({
+    name: contact.name.trim(),
+    title: contact.title || null,
+    email: contact.email || null,
+    phone: contact.phone || null,
+    isPrimary: contact.isPrimary ?? false,
+  }));
+}
+
+/**
+ * Convert a Subcontractor row (with contacts) to the API shape
+ */
+export function fromSubcontractorRow(row: SubcontractorRow): Subcontractor {
+  return {
+    id: row.id,
+    name: row.name,
+    website: row.website,
+    phone: row.phone,
+    email: row.email,
+    address: row.address,
+    trades: parseStringArray(row.trades),
+    csiDivisions: parseStringArray(row.csiDivisions),
+    regions: parseStringArray(row.regions),
+    insuranceLimit: row.insuranceLimit,
+    bondingLimit: row.bondingLimit,
+    prequalStatus: isPrequalStatus(row.prequalStatus) ? row.prequalStatus : 'pending',
+    prequalExpiresAt: row.prequalExpiresAt,
+    notes: row.notes,
+    isActive: row.isActive,
+    contacts: row.contacts.map(contact => ({
+      id: contact.id,
+      name: contact.name,
+      title: contact.title,
+      email: contact.email,
+      phone: contact.phone,
+      isPrimary: contact.isPrimary,
+    })),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Suggest subcontractors to invite for a bid package.
+ * Each line item counts toward a sub when the sub covers the item's CSI division,
+ * or (for items without a CSI code) the trade the item's description falls under.
+ */
+export async function suggestSubcontractorsForBidPackage(
+  bidPackageId: string,
+  client: DbClient = prisma
+): Promise<SubcontractorSuggestion[]> {
+  const lineItems = await getBidPackageLineItems(bidPackageId, client);
+
+  // Division and trade demand from the package's line items
+  const divisionCounts = new Map<string, number>();
+  const tradeCounts = new Map<string, number>();
+  for (const item of lineItems) {
+    const division = getCsiDivision(item.csiCode);
+    if (division) {
+      divisionCounts.set(division, (divisionCounts.get(division) || 0) + 1);
+    } else {
+      const trade = categorizeLineItem(item.description || '');
+      tradeCounts.set(trade, (tradeCounts.get(trade) || 0) + 1);
+    }
+  }
+
+  if (divisionCounts.size === 0 && tradeCounts.size === 0) return [];
+
+  const rows = await client.subcontractor.findMany({
+    where: {
+      isActive: true,
+      prequalStatus: { notIn: EXCLUDED_FROM_SUGGESTIONS },
+    },
+    include: subcontractorInclude,
+  });
+
+  const suggestions: SubcontractorSuggestion[] = [];
+
+  for (const row of rows) {
+    const subcontractor = fromSubcontractorRow(row);
+
+    // A sub's trades imply the divisions those trades cover
+    const coveredDivisions = new Set([
+      ...subcontractor.csiDivisions,
+      ...subcontractor.trades.flatMap(getTradeDivisions),
+    ]);
+
+    const matchedDivisions = [...divisionCounts.keys()].filter(d => coveredDivisions.has(d));
+    const matchedTrades = [...tradeCounts.keys()].filter(t => subcontractor.trades.includes(t));
+
+    const score =
+      matchedDivisions.reduce((sum, d) => sum + (divisionCounts.get(d) || 0), 0) +
+      matchedTrades.reduce((sum, t) => sum + (tradeCounts.get(t) || 0), 0);
+
+    if (score > 0) {
+      suggestions.push({ subcontractor, matchedDivisions, matchedTrades, score });
+    }
+  }
+
+  // Best coverage first; prequalified subs ahead of others on ties
+  return suggestions.sort((a, b) =>
+    b.score - a.score ||
+    Number(b.subcontractor.prequalStatus === 'approved') - Number(a.subcontractor.prequalStatus === 'approved') ||
+    a.subcontractor.name.localeCompare(b.subcontractor.name)
+  );
+}
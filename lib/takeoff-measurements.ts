@@ -0,0 +1,131 @@
+/**
+ * Takeoff Measurement Storage
+ * Loads and stores diagram scales and measurements, and totals the measured
+ * quantity of a line item for writing back to the item
+ */
+
+import { Prisma, TakeoffMeasurement as TakeoffMeasurementRow, TakeoffScale as TakeoffScaleRow } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getTakeoffBounds, measureTakeoff } from '@/lib/takeoff';
+import {
+  TakeoffItemTotal,
+  TakeoffMeasurement,
+  TakeoffPoint,
+  TakeoffScale,
+  TakeoffType,
+} from '@/types/takeoff';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+function parsePoints(raw: string): TakeoffPoint[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to parse takeoff points:', error);
+    return [];
+  }
+}
+
+/**
+ * Convert a TakeoffScale row to the API shape
+ */
+export function fromTakeoffScaleRow(row: TakeoffScaleRow): TakeoffScale {
+  let calibration: TakeoffScale['calibration'];
+  try {
+    calibration = JSON.parse(row.calibration);
+  } catch (error) {
+    console.error('Failed to parse takeoff calibration:', error);
+    calibration = { start: { x: 0, y: 0 }, end: { x: 0, y: 0 }, lengthFeet: 0 };
+  }
+
+  return {
+    id: row.id,
+    diagramId: row.diagramId,
+    pageNumber: row.pageNumber,
+    pageWidth: row.pageWidth,
+    pageHeight: row.pageHeight,
+    feetPerUnit: row.feetPerUnit,
+    calibration,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Convert a TakeoffMeasurement row to the API shape
+ */
+export function fromTakeoffMeasurementRow(row: TakeoffMeasurementRow): TakeoffMeasurement {
+  return {
+    id: row.id,
+    diagramId: row.diagramId,
+    pageNumber: row.pageNumber,
+    lineItemId: row.lineItemId,
+    type: row.type as TakeoffType,
+    points: parsePoints(row.points),
+    quantity: row.quantity,
+    unit: row.unit,
+    createdByName: row.createdByName,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Total measured quantity of a line item across all of its measurements.
+ * The bounding box covers the item's measurements on the page it was last
+ * measured on, so it can replace the extracted boundingBox.
+ */
+export async function getTakeoffItemTotal(
+  lineItemId: string,
+  client: DbClient = prisma
+): Promise<TakeoffItemTotal> {
+  const measurements = await client.takeoffMeasurement.findMany({
+    where: { lineItemId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (measurements.length === 0) {
+    return { lineItemId, quantity: null, unit: null, boundingBox: null };
+  }
+
+  const latest = measurements[0];
+  const quantity = measurements.reduce((sum, measurement) => sum + measurement.quantity, 0);
+  const pagePoints = measurements
+    .filter(m => m.diagramId === latest.diagramId && m.pageNumber === latest.pageNumber)
+    .flatMap(m => parsePoints(m.points));
+
+  return {
+    lineItemId,
+    quantity: Math.round(quantity * 100) / 100,
+    unit: latest.unit,
+    boundingBox: getTakeoffBounds(pagePoints),
+  };
+}
+
+/**
+ * Re-measure the length and area takeoffs on a page after its scale changes.
+ * Returns the new totals of the line items that were affected.
+ */
+export async function remeasurePage(
+  scale: TakeoffScale,
+  client: DbClient = prisma
+): Promise<TakeoffItemTotal[]> {
+  const measurements = await client.takeoffMeasurement.findMany({
+    where: { diagramId: scale.diagramId, pageNumber: scale.pageNumber, type: { in: ['linear', 'area'] } },
+  });
+
+  for (const measurement of measurements) {
+    const quantity = measureTakeoff(measurement.type as TakeoffType, parsePoints(measurement.points), scale);
+    if (quantity !== null && quantity !== measurement.quantity) {
+      await client.takeoffMeasurement.update({
+        where: { id: measurement.id },
+        data: { quantity },
+      });
+    }
+  }
+
+  const totals: TakeoffItemTotal[] = [];
+  for (const lineItemId of new Set(measurements.map(m => m.lineItemId))) {
+    totals.push(await getTakeoffItemTotal(lineItemId, client));
+  }
+  return totals;
+}
@@ -0,0 +1,144 @@
+/**
+ * Takeoff Geometry
+ * Scale calibration and linear / area / count quantities for measurements
+ * drawn on a diagram page. Pure functions - safe to use on the client.
+ *
+ * Points are normalized to the page (0-1), so distances are taken in the
+ * page's natural units (image pixels / PDF points) before applying the scale.
+ */
+
+import { TakeoffPageSize, TakeoffPoint, TakeoffType } from '@/types/takeoff';
+
+// Fewest points that make a measurement of each type
+export const MIN_TAKEOFF_POINTS: Record<TakeoffType, number> = {
+  linear: 2,
+  area: 3,
+  count: 1,
+};
+
+/**
+ * Check whether a value is a known measurement type
+ */
+export function isTakeoffType(value: unknown): value is TakeoffType {
+  return value === 'linear' || value === 'area' || value === 'count';
+}
+
+/**
+ * Check whether a value is a list of normalized page points
+ */
+export function isTakeoffPointList(value: unknown): value is TakeoffPoint[] {
+  return Array.isArray(value) && value.every(point =>
+    typeof point?.x === 'number' && typeof point?.y === 'number' &&
+    point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1
+  );
+}
+
+/**
+ * Distance between two points in natural page units
+ */
+export function getPageDistance(a: TakeoffPoint, b: TakeoffPoint, page: TakeoffPageSize): number {
+  return Math.hypot((b.x - a.x) * page.width, (b.y - a.y) * page.height);
+}
+
+/**
+ * Feet per natural page unit, from a known dimension drawn on the page
+ * Returns null if the calibration line has no length
+ */
+export function calibrateScale(
+  start: TakeoffPoint,
+  end: TakeoffPoint,
+  lengthFeet: number,
+  page: TakeoffPageSize
+): number | null {
+  const distance = getPageDistance(start, end, page);
+  if (distance === 0 || !(lengthFeet > 0)) return null;
+  return lengthFeet / distance;
+}
+
+/**
+ * Quantity of a measurement: feet along the line, square feet inside the
+ * polygon, or the number of points counted. Rounded to hundredths.
+ */
+export function measureTakeoff(
+  type: TakeoffType,
+  points: TakeoffPoint[],
+  scale: { feetPerUnit: number; pageWidth: number; pageHeight: number } | null
+): number | null {
+  if (type === 'count') return points.length;
+  if (!scale || points.length < MIN_TAKEOFF_POINTS[type]) return null;
+
+  const page = { width: scale.pageWidth, height: scale.pageHeight };
+
+  if (type === 'linear') {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += getPageDistance(points[i - 1], points[i], page);
+    }
+    return Math.round(length * scale.feetPerUnit * 100) / 100;
+  }
+
+  // Shoelace formula over the closed polygon
+  let twiceArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    twiceArea += (a.x * page.width) * (b.y * page.height) - (b.x * page.width) * (a.y * page.height);
+  }
+  const area = Math.abs(twiceArea) / 2 * scale.feetPerUnit * scale.feetPerUnit;
+  return Math.round(area * 100) / 100;
+}
+
+/**
+ * Normalized bounding box around a set of points
+ */
+export function getTakeoffBounds(points: TakeoffPoint[]): { x: number; y: number; width: number; height: number } | null {
+  if (points.length === 0) return null;
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Parse a length typed by the user in feet: "12.5", "12'", "12'-6\"", "12' 6", "6\""
+ * Returns null if it can't be read
+ */
+export function parseFeetInches(value: string): number | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const number = '(\\d+(?:\\.\\d+)?)';
+  const feetMark = `\\s*(?:'|ft|feet)`;
+  const inchMark = '\\s*(?:"|in|inches)';
+
+  // Feet with a marker and optional inches, inches only, or a bare number of feet
+  const feetAndInches = text.match(new RegExp(`^${number}${feetMark}\\s*-?\\s*(?:${number}(?:${inchMark})?)?$`, 'i'));
+  const inchesOnly = text.match(new RegExp(`^${number}${inchMark}$`, 'i'));
+  const bareFeet = text.match(new RegExp(`^${number}$`));
+
+  let total: number;
+  if (feetAndInches) {
+    total = parseFloat(feetAndInches[1]) + (feetAndInches[2] ? parseFloat(feetAndInches[2]) / 12 : 0);
+  } else if (inchesOnly) {
+    total = parseFloat(inchesOnly[1]) / 12;
+  } else if (bareFeet) {
+    total = parseFloat(bareFeet[1]);
+  } else {
+    return null;
+  }
+  return total > 0 ? total : null;
+}
+
+/**
+ * Format a length in feet as feet and inches (12.5 → 12'-6")
+ */
+export function formatFeetInches(feet: number): string {
+  let wholeFeet = Math.floor(feet);
+  let inches = Math.round((feet - wholeFeet) * 12);
+  if (inches === 12) {
+    wholeFeet += 1;
+    inches = 0;
+  }
+  return `${wholeFeet}'-${inches}"`;
+}
@@ -0,0 +1,236 @@
+/**
+ * Drawing Text Layer
+ * Reads numbered notes from the text layer of vector PDFs, with their exact
+ * position on the page, to seed vision extraction: the text gives item
+ * numbers, wording and bounding boxes, and the model reconciles them with
+ * what it sees on the page
+ */
+
+import type { PDFPageText, PDFTextItem } from '@/lib/pdf-utils';
+
+// Pages with fewer text items are treated as scanned or raster drawings
+const MIN_TEXT_ITEMS = 5;
+
+// Note numbers as printed: 2.1, 8.3, 10.12, 3.2.1, A1, A1.2 (optionally followed by '.' or ')')
+const ITEM_NUMBER_PATTERN = /^(\d{1,2}(?:\.\d{1,2}){1,2}|[A-Z]\d{1,2}(?:\.\d{1,2})?)[.)]?$/;
+
+// A quantity with its unit somewhere in a note, e.g. '(12 EA)', '- 420 LF'
+const QUANTITY_PATTERN = /(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)\s*(LF|SF|SY|CY|CF|EA|LS|TONS?|GAL|LBS?|SQ|MBF)\b/gi;
+
+export interface TextLayerItem {
+  ref: string; // T1, T2, ... in page order, as given to the model
+  item_number: string;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  boundingBox: { x: number; y: number; width: number; height: number }; // Normalized 0-1, origin top-left
+}
+
+/**
+ * Group text items into lines, top to bottom, each sorted left to right
+ */
+export function groupTextLines(items: PDFTextItem[]): PDFTextItem[][] {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: PDFTextItem[][] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    // Items share a line when their baselines are within half a font height
+    if (line && Math.abs(line[0].y - item.y) <= Math.max(line[0].height, item.height) / 2) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Whether a page has a real text layer (a vector drawing) rather than
+ * scanned artwork
+ */
+export function hasUsableTextLayer(page: PDFPageText | null | undefined): page is PDFPageText {
+  return !!page && page.items.length >= MIN_TEXT_ITEMS;
+}
+
+// Box around text items; the top is a font height above the first baseline
+function getTextBounds(items: PDFTextItem[]): TextLayerItem['boundingBox'] {
+  const left = Math.min(...items.map(item => item.x));
+  const right = Math.max(...items.map(item => item.x + item.width));
+  const top = Math.min(...items.map(item => item.y - item.height));
+  const bottom = Math.max(...items.map(item => item.y + item.height * 0.25)); // Descenders
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return { x: round(left), y: round(top), width: round(right - left), height: round(bottom - top) };
+}
+
+/**
+ * Last quantity and unit stated in a note, if any
+ */
+export function parseQuantity(text: string): { quantity: number; unit: string } | null {
+  const matches = [...text.matchAll(QUANTITY_PATTERN)];
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+
+  const unit = last[2].toUpperCase();
+  return {
+    quantity: parseFloat(last[1].replace(/,/g, '')),
+    unit: unit === 'TONS' ? 'TON' : unit === 'LBS' ? 'LB' : unit,
+  };
+}
+
+/**
+ * Numbered notes on a page. A note runs on over the lines below it that
+ * start at or right of its text, until the next numbered line or heading.
+ */
+export function findTextLayerItems(page: PDFPageText): TextLayerItem[] {
+  const found: { item_number: string; items: PDFTextItem[]; descriptionX: number }[] = [];
+  let current: (typeof found)[number] | null = null;
+  let lastLine: PDFTextItem[] | null = null;
+
+  for (const line of groupTextLines(page.items)) {
+    // The number may be its own text item or the start of the first one
+    const [firstWord] = line[0].text.split(/\s+/);
+    const numberMatch = firstWord.match(ITEM_NUMBER_PATTERN);
+
+    if (numberMatch) {
+      const descriptionItem = line[0].text.trim() === firstWord ? line[1] : line[0];
+      current = {
+        item_number: numberMatch[1],
+        items: [...line],
+        descriptionX: descriptionItem?.x ?? line[0].x,
+      };
+      found.push(current);
+    } else if (
+      current &&
+      lastLine &&
+      line[0].x >= current.descriptionX - line[0].height &&
+      line[0].y - lastLine[0].y <= lastLine[0].height * 1.8
+    ) {
+      current.items.push(...line);
+    } else {
+      current = null;
+    }
+    lastLine = line;
+  }
+
+  return found
+    .map((note, index) => {
+      const text = groupTextLines(note.items)
+        .map(line => line.map(item => item.text).join(' '))
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+      const description = text.slice(text.indexOf(note.item_number) + note.item_number.length).replace(/^[.)]?\s*/, '');
+      const quantity = parseQuantity(description);
+
+      return {
+        ref: `T${index + 1}`,
+        item_number: note.item_number,
+        description,
+        quantity: quantity?.quantity ?? null,
+        unit: quantity?.unit ?? null,
+        boundingBox: getTextBounds(note.items),
+      };
+    })
+    .filter(note => note.description.length > 0);
+}
+
+/**
+ * The notes as listed in the drawing prompt
+ */
+export function formatTextLayerForPrompt(items: TextLayerItem[]): string {
+  return items
+    .map(item => `[${item.ref}] ${item.item_number} ${item.description}${item.quantity !== null ? ` (${item.quantity} ${item.unit})` : ''}`)
+    .join('\n');
+}
+
+// A line item as the model returns it; only the fields reconciled here are typed
+interface ModelLineItem {
+  item_number?: string | null;
+  text_ref?: string;
+  quantity?: number | null;
+  unit?: string | null;
+  [field: string]: unknown;
+}
+
+// The parts of a page's extraction result reconciled with the text layer
+interface TextLayerPageResult {
+  bid_packages?: { name: string; csi_division?: string; description?: string; line_items?: ModelLineItem[] }[];
+  excluded_text_refs?: unknown;
+}
+
+const normalizeItemNumber = (value: unknown) =>
+  typeof value === 'string' ? value.trim().replace(/[.)]$/, '').toUpperCase() : '';
+
+/**
+ * Reconcile a page result with the page's text layer: items the model took
+ * from a note get the note's exact bounding box and any quantity the note
+ * states, and notes the model neither used nor excluded are added to the
+ * package holding their section.
+ */
+export function applyTextLayer<T extends TextLayerPageResult>(page: T, textItems: TextLayerItem[]): T {
+  if (textItems.length === 0) return page;
+
+  const result: TextLayerPageResult = page;
+  const byRef = new Map(textItems.map(item => [item.ref, item]));
+  const byNumber = new Map(textItems.map(item => [normalizeItemNumber(item.item_number), item]));
+  const excluded = new Set<string>(Array.isArray(result.excluded_text_refs) ? result.excluded_text_refs : []);
+  const used = new Set<string>();
+
+  const packages = (result.bid_packages || []).map(pkg => ({
+    ...pkg,
+    line_items: (pkg.line_items || []).map(lineItem => {
+      const { text_ref, ...rest } = lineItem;
+      const note = (text_ref && byRef.get(text_ref)) || byNumber.get(normalizeItemNumber(lineItem.item_number));
+      if (!note || used.has(note.ref)) return rest;
+
+      used.add(note.ref);
+      return {
+        ...rest,
+        item_number: rest.item_number || note.item_number,
+        // A quantity written in the note is exact; otherwise keep what the model read
+        quantity: note.quantity ?? rest.quantity,
+        unit: note.unit ?? rest.unit,
+        boundingBox: note.boundingBox,
+      };
+    }),
+  }));
+  result.bid_packages = packages;
+
+  const missed = textItems.filter(item => !used.has(item.ref) && !excluded.has(item.ref));
+  for (const note of missed) {
+    // Section of a note: '2' for 2.1, 'A' for A1.2
+    const section = note.item_number.match(/^(\d+|[A-Z])/)?.[1];
+    const pkg = packages.find(candidate =>
+      (candidate.line_items || []).some(lineItem => normalizeItemNumber(lineItem.item_number).match(/^(\d+|[A-Z])/)?.[1] === section)
+    ) ?? packages.find(candidate => candidate.name === 'GENERAL');
+
+    const lineItem = {
+      item_number: note.item_number,
+      description: note.description,
+      quantity: note.quantity,
+      unit: note.unit,
+      notes: null,
+      boundingBox: note.boundingBox,
+    };
+
+    if (pkg) {
+      pkg.line_items = [...(pkg.line_items || []), lineItem];
+    } else {
+      packages.push({
+        name: 'GENERAL',
+        csi_division: '00',
+        description: 'General bid items',
+        line_items: [lineItem],
+      });
+    }
+  }
+
+  if (missed.length > 0) {
+    console.log(`Added ${missed.length} text layer notes the model left out`);
+  }
+  delete result.excluded_text_refs;
+  return page;
+}
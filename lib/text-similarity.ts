@@ -0,0 +1,24 @@
+/**
+ * Text Similarity
+ * Word-overlap comparison of line item descriptions, used to pair extracted
+ * items with expected ones and to spot scope repeated across bid packages
+ */
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+}
+
+/**
+ * Jaccard similarity of two descriptions' words
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+}
@@ -2,58 +2,31 @@
  * Auto-update bid package statuses based on business rules
  * Run with: npx tsx scripts/auto-update-bid-package-statuses.ts
  *
- * Rules:
- * 1. No captain assigned → "to do"
- * 2. Captain assigned, no work started → "assigned"
- * 3. Captain assigned, work started → "in progress"
- * 4. Keep existing "in review", "bidding", "bidding leveling", "completed" statuses
+ * Applies the automatic transitions defined in lib/bid-package-status.ts:
+ * 1. Captain assigned while "to do" → "assigned"
+ * 2. Captain removed while "assigned" → "to do"
+ * 3. First line item approved while "to do" or "assigned" → "in progress"
+ * Later statuses ("in review" onwards) only change through the app.
+ * Transitions are recorded without an acting user.
  */
 
 import { PrismaClient } from '@prisma/client';
+import { applyAutomaticStatusTransition } from '../lib/bid-package-status';
 
 const prisma = new PrismaClient();
 
-function calculateStatus(bidPackage: {
-  captainName: string | null;
-  progress: number;
-  bidForms: any[];
-  status: string;
-}): string {
-  // Don't override these advanced statuses - keep them as is
-  const preservedStatuses = ['in review', 'bidding', 'bidding leveling', 'completed'];
-  if (preservedStatuses.includes(bidPackage.status)) {
-    return bidPackage.status;
-  }
-
-  // Rule 1: No captain assigned → "to do"
-  if (!bidPackage.captainName) {
-    return 'to do';
-  }
-
-  // Rule 2 & 3: Captain assigned
-  // If work has started (progress > 0 OR has bid forms), it's "in progress"
-  // Otherwise it's just "assigned"
-  const hasStartedWork = bidPackage.progress > 0 || bidPackage.bidForms.length > 0;
-
-  if (hasStartedWork) {
-    return 'in progress';
-  } else {
-    return 'assigned';
-  }
-}
-
 async function autoUpdateBidPackageStatuses() {
   console.log('Starting automatic bid package status update...\n');
 
   try {
-    // Get all bid packages with related data
+    // Get all bid packages
     const bidPackages = await prisma.bidPackage.findMany({
-      include: {
-        bidForms: {
-          select: {
-            id: true,
-          },
-        },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        captainName: true,
+        progress: true,
       },
     });
 
@@ -64,26 +37,15 @@ async function autoUpdateBidPackageStatuses() {
 
     for (const pkg of bidPackages) {
       const currentStatus = pkg.status;
-      const calculatedStatus = calculateStatus({
-        captainName: pkg.captainName,
-        progress: pkg.progress,
-        bidForms: pkg.bidForms,
-        status: pkg.status,
-      });
+      const newStatus = await applyAutomaticStatusTransition(pkg.id, null, prisma);
 
-      if (calculatedStatus !== currentStatus) {
+      if (newStatus) {
         console.log(`📦 "${pkg.name}"`);
         console.log(`   Captain: ${pkg.captainName || 'None'}`);
         console.log(`   Progress: ${pkg.progress}%`);
-        console.log(`   Bid Forms: ${pkg.bidForms.length}`);
-        console.log(`   Status: "${currentStatus}" → "${calculatedStatus}"`);
+        console.log(`   Status: "${currentStatus}" → "${newStatus}"`);
         console.log();
 
-        await prisma.bidPackage.update({
-          where: { id: pkg.id },
-          data: { status: calculatedStatus },
-        });
-
         updatedCount++;
       } else {
         console.log(`✓ "${pkg.name}" - status correct: "${currentStatus}"`);
@@ -0,0 +1,174 @@
+/**
+ * Extraction evaluation
+ * Run with: npx tsx scripts/eval-extraction.ts [--mode replay|record|live] [--case <name>] [--baseline <report.json>] [--out <dir>]
+ *
+ * Extracts every golden drawing under fixtures/golden (one folder per case,
+ * with the drawing and an expected.json) and scores the result: item recall
+ * and precision, quantity, unit and CSI code accuracy, and bounding-box IoU.
+ * Writes report.json and report.html to --out (default tmp/eval/<timestamp>).
+ *
+ * Modes:
+ * - replay (default): use the model responses recorded in <case>/responses, offline
+ * - record: call the configured extraction provider and save its responses
+ * - live: call the configured extraction provider without saving
+ *
+ * Pass the report.json of an earlier run as --baseline to see what a prompt
+ * change did to each score.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  applyCSIMatches,
+  combinePageResults,
+  createExtractionSource,
+  extractDrawingPage,
+  renderExtractionPage,
+} from '../lib/extraction-pipeline';
+import { getExtractionProvider, registerExtractionProvider } from '../lib/extraction-provider';
+import {
+  combineEvalScores,
+  formatEvalSummary,
+  renderEvalReportHtml,
+  scoreExtraction,
+} from '../lib/extraction-eval';
+import { EvalCaseResult, EvalReport, GoldenCase } from '../types/extractionEval';
+
+type EvalMode = EvalReport['mode'];
+
+const GOLDEN_DIR = path.join(process.cwd(), 'fixtures', 'golden');
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+// The page being extracted, so responses are replayed or recorded per page
+const current = { caseDir: '', pageNumber: 0 };
+const responsePath = () => path.join(current.caseDir, 'responses', `page-${current.pageNumber}.txt`);
+
+let reportModel: string | null = null;
+
+/**
+ * Provider that serves the golden case's recorded responses, or calls the
+ * configured provider and (when recording) saves what it returns
+ */
+function registerEvalProvider(mode: EvalMode): string {
+  const liveProvider = mode === 'replay' ? null : getExtractionProvider();
+
+  registerExtractionProvider({
+    name: 'golden-eval',
+    getConfigurationError: () => liveProvider?.getConfigurationError() ?? null,
+    async complete(request, options) {
+      if (!liveProvider) {
+        try {
+          return { text: await fs.readFile(responsePath(), 'utf-8'), model: 'recorded', provider: 'replay' };
+        } catch {
+          throw new Error(`No recorded response at ${path.relative(process.cwd(), responsePath())}; run with --mode record`);
+        }
+      }
+
+      const response = await liveProvider.complete(request, options);
+      reportModel ??= response.model;
+
+      if (mode === 'record') {
+        await fs.mkdir(path.dirname(responsePath()), { recursive: true });
+        await fs.writeFile(responsePath(), response.text, 'utf-8');
+      }
+      return response;
+    },
+  });
+
+  process.env.EXTRACTION_PROVIDER = 'golden-eval';
+  return liveProvider?.name ?? 'replay';
+}
+
+async function runCase(caseDir: string): Promise<EvalCaseResult> {
+  const golden: GoldenCase = JSON.parse(await fs.readFile(path.join(caseDir, 'expected.json'), 'utf-8'));
+  const name = path.basename(caseDir);
+  const startedAt = Date.now();
+  current.caseDir = caseDir;
+
+  let result: unknown = null;
+  let error: string | undefined;
+
+  try {
+    const buffer = await fs.readFile(path.join(caseDir, golden.drawing));
+    const source = await createExtractionSource(buffer, golden.drawing);
+
+    const pages = [];
+    for (let pageNumber = 1; pageNumber <= source.pageCount; pageNumber++) {
+      current.pageNumber = pageNumber;
+      const image = await renderExtractionPage(source, pageNumber);
+      const pageResult = await extractDrawingPage(source, image, pageNumber, golden.instructions);
+      pages.push({ pageNumber, isPDF: source.isPDF, result: pageResult });
+    }
+
+    result = applyCSIMatches(combinePageResults(pages));
+  } catch (caseError) {
+    error = caseError instanceof Error ? caseError.message : String(caseError);
+  }
+
+  return {
+    name,
+    durationMs: Date.now() - startedAt,
+    ...(error && { error }),
+    ...scoreExtraction(golden, result),
+  };
+}
+
+async function main() {
+  const mode = (getArg('mode') || 'replay') as EvalMode;
+  if (!['replay', 'record', 'live'].includes(mode)) {
+    throw new Error(`Unknown mode "${mode}"; use replay, record or live`);
+  }
+
+  const onlyCase = getArg('case');
+  const baselinePath = getArg('baseline');
+  const outDir = path.resolve(getArg('out') || path.join('tmp', 'eval', new Date().toISOString().replace(/[:.]/g, '-')));
+
+  const provider = registerEvalProvider(mode);
+
+  const caseNames = (await fs.readdir(GOLDEN_DIR, { withFileTypes: true }))
+    .filter(entry => entry.isDirectory() && (!onlyCase || entry.name === onlyCase))
+    .map(entry => entry.name)
+    .sort();
+  if (caseNames.length === 0) {
+    throw new Error(onlyCase ? `No golden case named "${onlyCase}"` : `No golden cases in ${GOLDEN_DIR}`);
+  }
+
+  const cases: EvalCaseResult[] = [];
+  for (const caseName of caseNames) {
+    console.log(`Evaluating ${caseName}...`);
+    const result = await runCase(path.join(GOLDEN_DIR, caseName));
+    if (result.error) console.error(`  ${result.error}`);
+    cases.push(result);
+  }
+
+  const report: EvalReport = {
+    createdAt: new Date().toISOString(),
+    mode,
+    provider,
+    model: reportModel,
+    cases,
+    scores: combineEvalScores(cases),
+  };
+
+  const baseline: EvalReport | undefined = baselinePath
+    ? JSON.parse(await fs.readFile(baselinePath, 'utf-8'))
+    : undefined;
+
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(path.join(outDir, 'report.json'), JSON.stringify(report, null, 2), 'utf-8');
+  await fs.writeFile(path.join(outDir, 'report.html'), renderEvalReportHtml(report, baseline), 'utf-8');
+
+  console.log(`\n${formatEvalSummary(report, baseline)}\n`);
+  console.log(`Report written to ${path.relative(process.cwd(), outDir)}/report.html`);
+
+  if (cases.some(result => result.error)) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('Extraction evaluation failed:', error);
+  process.exitCode = 1;
+});
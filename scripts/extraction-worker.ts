@@ -0,0 +1,40 @@
+/**
+ * Extraction worker
+ * Run with: npx tsx scripts/extraction-worker.ts [--once]
+ *
+ * Claims queued extraction jobs and runs them page by page. Set
+ * EXTRACTION_WORKER=external on the web server so it only queues jobs and
+ * leaves them to this process. Several workers can run side by side.
+ * With --once the worker exits when the queue is empty.
+ */
+
+import os from 'os';
+import { prisma } from '../lib/prisma';
+import { runExtractionWorker } from '../lib/extraction-runner';
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const workerId = `${os.hostname()}-${process.pid}`;
+  const controller = new AbortController();
+
+  // Finish the job in progress, then stop
+  const stop = () => {
+    console.log('Stopping after the current job...');
+    controller.abort();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`Extraction worker ${workerId} started${once ? ' (until the queue is empty)' : ''}`);
+  const jobsRun = await runExtractionWorker(workerId, { keepAlive: !once, signal: controller.signal });
+  console.log(`Extraction worker ${workerId} stopped after ${jobsRun} job(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Extraction worker failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,52 @@
+/**
+ * Inbox ingestion
+ * Run with: npx tsx scripts/ingest-inbox.ts [--watch]
+ *
+ * Ingests the .eml files delivered to the inbox drop folder (EMAIL_INBOX_DIR)
+ * as inbox items. With --watch the folder is checked again every
+ * INBOX_POLL_SECONDS (default 60) until the process is stopped.
+ */
+
+import { prisma } from '../lib/prisma';
+import { getInboxDropDir, ingestDropFolder } from '../lib/inbox-intake';
+
+async function ingestOnce(dir: string) {
+  const result = await ingestDropFolder(dir);
+  if (result.processed > 0 || result.duplicates > 0 || result.failed.length > 0) {
+    console.log(
+      `Ingested ${result.processed} email(s), ${result.duplicates} already in the inbox, ${result.failed.length} failed`
+    );
+  }
+  for (const failure of result.failed) {
+    console.log(`  ${failure.file}: ${failure.error}`);
+  }
+}
+
+async function main() {
+  const watch = process.argv.includes('--watch');
+  const intervalMs = Math.max(5, Number(process.env.INBOX_POLL_SECONDS) || 60) * 1000;
+  const dir = getInboxDropDir();
+  let stopped = false;
+
+  const stop = () => {
+    console.log('Stopping inbox ingestion...');
+    stopped = true;
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(`Reading inbound email from ${dir}${watch ? ` every ${intervalMs / 1000}s` : ''}`);
+  do {
+    await ingestOnce(dir);
+    if (watch && !stopped) await new Promise(resolve => setTimeout(resolve, intervalMs));
+  } while (watch && !stopped);
+}
+
+main()
+  .catch((error) => {
+    console.error('Inbox ingestion failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
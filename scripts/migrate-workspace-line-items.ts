@@ -0,0 +1,103 @@
+/**
+ * Migration script to move workspace line items out of BidPackage.workspaceData
+ * JSON and into LineItem rows. Chat messages are kept in workspaceData.
+ * Run with: npx tsx scripts/migrate-workspace-line-items.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import {
+  calculateApprovalPercentage,
+  parseWorkspaceData,
+  syncBidPackageLineItems,
+} from '../lib/line-item-utils';
+
+const prisma = new PrismaClient();
+
+async function migrateWorkspaceLineItems() {
+  console.log('Starting workspace line item migration...\n');
+
+  try {
+    // Only packages that still carry workspace JSON need migrating
+    const bidPackages = await prisma.bidPackage.findMany({
+      where: { workspaceData: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        workspaceData: true,
+      },
+    });
+
+    console.log(`Found ${bidPackages.length} bid packages with workspace data\n`);
+
+    let migratedCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+    let itemCount = 0;
+
+    for (const pkg of bidPackages) {
+      const { lineItems, chatMessages, data } = parseWorkspaceData(pkg.workspaceData);
+
+      if (!data) {
+        console.log(`✗ "${pkg.name}" has unparseable workspace data - skipping`);
+        failedCount++;
+        continue;
+      }
+
+      if (!Array.isArray(data.lineItems)) {
+        console.log(`✓ "${pkg.name}" has no workspace line items - skipping`);
+        skippedCount++;
+        continue;
+      }
+
+      try {
+        // The workspace JSON was the source of truth for packages that had it,
+        // so it replaces whatever rows were created at extraction time
+        const { idMap } = await prisma.$transaction(async (tx) => {
+          const saved = await syncBidPackageLineItems(pkg.id, lineItems, tx);
+          await tx.bidPackage.update({
+            where: { id: pkg.id },
+            data: {
+              workspaceData: JSON.stringify({ chatMessages }),
+              progress: calculateApprovalPercentage(lineItems),
+            },
+          });
+          return saved;
+        });
+
+        console.log(`Migrated "${pkg.name}": ${lineItems.length} line items`);
+        if (idMap.size > 0) {
+          console.log(`  ${idMap.size} line items were already in use elsewhere and got new IDs`);
+        }
+        migratedCount++;
+        itemCount += lineItems.length;
+      } catch (error) {
+        console.error(`✗ Failed to migrate "${pkg.name}":`, error);
+        failedCount++;
+      }
+    }
+
+    console.log('\n' + '='.repeat(50));
+    console.log(`Migration complete!`);
+    console.log(`Migrated: ${migratedCount} bid packages (${itemCount} line items)`);
+    console.log(`Skipped: ${skippedCount} bid packages`);
+    console.log(`Failed: ${failedCount} bid packages`);
+    console.log('='.repeat(50));
+
+  } catch (error) {
+    console.error('Error during migration:', error);
+    throw error;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the migration
+migrateWorkspaceLineItems()
+  .then(() => {
+    console.log('\n✅ Migration script finished successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Migration script failed:', error);
+    process.exit(1);
+  });
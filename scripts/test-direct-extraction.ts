@@ -4,6 +4,20 @@
  * Direct test of extraction API for construction drawings
  */
 
+// Extraction routes queue a job; poll it until it finishes
+async function waitForJob(jobId: string): Promise<any> {
+  while (true) {
+    const response = await fetch(`http://localhost:3000/api/extraction-jobs/${jobId}`);
+    const { job } = await response.json();
+    if (job.status === 'succeeded') return job.result;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(`Extraction job ${job.status}: ${job.error || 'no result'}`);
+    }
+    console.log(`  ${job.status}: ${job.completedPages}/${job.totalPages ?? '?'} pages`);
+    await new Promise(resolve => setTimeout(resolve, 2000));
+  }
+}
+
 async function testExtraction() {
   console.log('🔍 Testing extraction on construction drawing...\n');
 
@@ -27,13 +41,15 @@ async function testExtraction() {
       })
     });
 
-    const extractData = await extractResponse.json();
+    const extractJob = await extractResponse.json();
 
     if (!extractResponse.ok) {
-      console.error('❌ Extraction failed:', extractData);
+      console.error('❌ Extraction failed:', extractJob);
       return;
     }
 
+    const extractData = await waitForJob(extractJob.job.id);
+
     console.log('✅ Extraction successful!');
     console.log('Project Name:', extractData.project_name || 'Not found');
     console.log('Confidence:', extractData.extraction_confidence);
@@ -65,13 +81,15 @@ async function testExtraction() {
       })
     });
 
-    const batchData = await batchResponse.json();
+    const batchJob = await batchResponse.json();
 
     if (!batchResponse.ok) {
-      console.error('❌ Batch extraction failed:', batchData);
+      console.error('❌ Batch extraction failed:', batchJob);
       return;
     }
 
+    const batchData = await waitForJob(batchJob.job.id);
+
     console.log('✅ Batch extraction successful!');
     console.log('Message:', batchData.message);
     if (batchData.bidPackages) {
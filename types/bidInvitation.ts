@@ -0,0 +1,101 @@
+/**
+ * Bid Invitation Types
+ * Invitations to bid sent to subcontractors for a bid package, the packet
+ * they receive, and how each invitee responds
+ */
+
+export type BidInvitationStatus = 'invited' | 'viewed' | 'declined' | 'intending' | 'submitted';
+
+export const BID_INVITATION_STATUSES: BidInvitationStatus[] = [
+  'invited',
+  'viewed',
+  'declined',
+  'intending',
+  'submitted',
+];
+
+// Display labels for invitation statuses
+export const BidInvitationStatusLabels: Record<BidInvitationStatus, string> = {
+  invited: 'Invited',
+  viewed: 'Viewed',
+  declined: 'Declined',
+  intending: 'Intends to Bid',
+  submitted: 'Bid Submitted',
+};
+
+export interface BidInvitation {
+  id: string;
+  bidPackageId: string;
+  subcontractorId?: string | null;
+  companyName: string;
+  contactName?: string | null;
+  contactEmail?: string | null;
+  status: BidInvitationStatus;
+  dueDate?: Date | string | null;
+  instructions?: string | null;
+  declineReason?: string | null;
+  sentAt?: Date | string | null;
+  viewedAt?: Date | string | null;
+  respondedAt?: Date | string | null;
+  submittedAt?: Date | string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// One company to invite: a directory subcontractor, or an ad-hoc company/contact
+export interface BidInviteeInput {
+  subcontractorId?: string;
+  companyName?: string;
+  contactName?: string | null;
+  contactEmail?: string | null;
+}
+
+// Body for POST /api/bid-packages/[id]/invitations
+export interface CreateBidInvitationsInput {
+  invitees: BidInviteeInput[];
+  dueDate?: string | null; // Defaults to the package's bidDueDate
+  instructions?: string | null;
+  send?: boolean; // Email the invitations right away (default true)
+}
+
+// Body for PUT /api/bid-packages/[id]/invitations/[invitationId]
+export interface UpdateBidInvitationInput {
+  status?: BidInvitationStatus;
+  declineReason?: string | null;
+  contactName?: string | null;
+  contactEmail?: string | null;
+}
+
+// Invitee response from the packet link
+export interface BidInvitationResponseInput {
+  response: 'intending' | 'declined';
+  reason?: string | null;
+}
+
+export interface InvitationPacketLineItem {
+  itemNumber: string | null;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  csiCode: string | null;
+  csiTitle: string | null;
+  notes: string | null;
+}
+
+export interface InvitationPacketDiagram {
+  id: string;
+  fileName: string;
+  fileUrl: string;
+  category: string | null;
+  sheets: string[]; // Sheets of this drawing the package covers, e.g. 'A-101 First Floor Plan'
+}
+
+// Everything an invitee needs to price the work
+export interface InvitationPacket {
+  projectName: string;
+  bidPackageName: string;
+  dueDate: Date | string | null;
+  instructions: string | null;
+  scope: InvitationPacketLineItem[]; // Approved line items only
+  diagrams: InvitationPacketDiagram[];
+}
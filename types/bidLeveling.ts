@@ -0,0 +1,100 @@
+/**
+ * Bid Leveling Types
+ * Subcontractor bids recorded against a bid package's line items and the
+ * side-by-side comparison used to level them
+ */
+
+import { BidPackageStatus } from './bidPackage';
+
+// Bids can be recorded and edited while the package is out to bid
+export const BID_LEVELING_STATUSES: BidPackageStatus[] = ['bidding', 'bidding leveling'];
+
+export interface BidAlternate {
+  description: string;
+  amount: number | null;
+}
+
+export interface SubcontractorBidItem {
+  id?: string;
+  lineItemId: string;
+  unitPrice: number | null;
+  totalPrice: number | null;
+  included: boolean; // false = bidder explicitly excluded this item
+  notes?: string | null;
+}
+
+export interface SubcontractorBid {
+  id: string;
+  bidPackageId: string;
+  bidderName: string;
+  invitationId?: string | null; // Invitation the bid answers
+  contactName?: string | null;
+  contactEmail?: string | null;
+  baseBidAmount?: number | null;
+  exclusions?: string | null;
+  alternates: BidAlternate[];
+  notes?: string | null;
+  isRecommended: boolean;
+  receivedAt: Date | string;
+  items: SubcontractorBidItem[];
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Body for creating or updating a bid
+export interface SubcontractorBidInput {
+  bidderName?: string;
+  invitationId?: string | null;
+  contactName?: string | null;
+  contactEmail?: string | null;
+  baseBidAmount?: number | null;
+  exclusions?: string | null;
+  alternates?: BidAlternate[];
+  notes?: string | null;
+  items?: SubcontractorBidItem[];
+  isRecommended?: boolean;
+}
+
+// How a bidder's price compares to the other bidders on the same line item
+export type LevelingCellFlag =
+  | 'missing' // No price and not marked excluded
+  | 'excluded' // Bidder explicitly excluded the item
+  | 'high' // Above the median by more than the outlier threshold
+  | 'low'; // Below the median by more than the outlier threshold
+
+export interface LevelingCell {
+  bidId: string;
+  unitPrice: number | null;
+  totalPrice: number | null;
+  deviation: number | null; // Fraction above/below the row median (0.3 = 30% high)
+  flags: LevelingCellFlag[];
+}
+
+export interface LevelingRow {
+  lineItemId: string;
+  itemNumber: string | null;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  medianTotal: number | null;
+  lowBidId: string | null;
+  cells: LevelingCell[];
+}
+
+export interface LevelingBidSummary {
+  bidId: string;
+  bidderName: string;
+  itemsTotal: number; // Sum of priced line items
+  baseBidAmount: number | null;
+  missingCount: number;
+  excludedCount: number;
+  outlierCount: number;
+  isRecommended: boolean;
+}
+
+export interface LevelingComparison {
+  rows: LevelingRow[];
+  bids: LevelingBidSummary[];
+  outlierThreshold: number;
+  lowBidId: string | null; // Lowest items total among bids with complete scope
+}
@@ -7,6 +7,44 @@
 import { LineItem } from '@/components/BidFormTable';
 import { Diagram } from './diagram';
 
+// Workflow states, in order (transitions are enforced by lib/bid-package-status.ts)
+export type BidPackageStatus =
+  | 'to do'
+  | 'assigned'
+  | 'in progress'
+  | 'in review'
+  | 'bidding'
+  | 'bidding leveling'
+  | 'completed';
+
+export const BID_PACKAGE_STATUSES: BidPackageStatus[] = [
+  'to do',
+  'assigned',
+  'in progress',
+  'in review',
+  'bidding',
+  'bidding leveling',
+  'completed',
+];
+
+// What caused a status transition
+export type BidPackageStatusTrigger =
+  | 'manual' // Explicit status change by a user
+  | 'captain_assigned' // Captain set on a package with no captain
+  | 'captain_removed' // Captain cleared before work started
+  | 'item_approved'; // First line item approved
+
+export interface BidPackageStatusTransition {
+  id: string;
+  bidPackageId: string;
+  fromStatus: BidPackageStatus;
+  toStatus: BidPackageStatus;
+  trigger: BidPackageStatusTrigger;
+  userId?: string | null;
+  userName?: string | null;
+  createdAt: Date | string;
+}
+
 export interface BidPackage {
   // Core identifiers
   id: string; // Internal database ID
@@ -20,7 +58,7 @@ export interface BidPackage {
   bidDueDate?: Date;
 
   // Status tracking (workflow-controlled, not user-editable)
-  status: 'to do' | 'assigned' | 'in progress' | 'in review' | 'completed';
+  status: BidPackageStatus;
   progress: number; // 0-100 percentage
 
   // Assignment
@@ -36,9 +74,13 @@ export interface BidPackage {
 
   // Diagram references (diagrams are owned by parent project)
   diagramIds?: string[]; // IDs of diagrams from parent project to use for this package
+  sheetIds?: string[]; // IDs of individual sheets (pages) of those diagrams the package covers
 
   // Workspace data (flexible JSON storage)
-  workspaceData?: string; // JSON string containing lineItems, chatMessages, etc.
+  workspaceData?: string; // Legacy JSON string with chatMessages, moved into chat threads on first read
+
+  // Line items flattened from bidForms (populated by the bid package API)
+  lineItems?: LineItem[];
 
   // Relations (will be populated by database queries)
   bidForms?: any[]; // Will be BidForm[] when imported
@@ -81,15 +123,16 @@ export interface BidPackageCreateInput {
   bcProjectId: string;
   name: string;
   bidDueDate?: Date;
-  status?: 'to do' | 'assigned' | 'in progress' | 'in review' | 'completed';
+  status?: BidPackageStatus;
 }
 
 export interface BidPackageUpdateInput {
   name?: string;
   bidDueDate?: Date;
-  status?: 'to do' | 'assigned' | 'in progress' | 'in review' | 'completed';
+  status?: BidPackageStatus;
   progress?: number;
   diagramIds?: string[]; // Update which diagrams from project to use
+  sheetIds?: string[]; // Update which sheets the package covers
 }
 
 // Summary view for displaying bid packages in lists
@@ -97,7 +140,7 @@ export interface BidPackageSummary {
   id: string;
   bcBidPackageId: string;
   name: string;
-  status: 'to do' | 'assigned' | 'in progress' | 'in review' | 'completed';
+  status: BidPackageStatus;
   progress: number;
   bidDueDate?: Date;
   diagramCount: number;
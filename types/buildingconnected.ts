@@ -48,6 +48,9 @@ export interface BuildingConnectedProject {
   accountManager?: string;
   owningOffice?: string;
   feePercentage?: number;
+  generalConditionsPercentage?: number;
+  contingencyPercentage?: number;
+  taxPercentage?: number;
 
   // Precon Lead (user with PRECON_LEAD or ADMIN role)
   preconLeadId?: string;
@@ -90,6 +93,9 @@ export interface BuildingConnectedProjectCreateInput {
   accountManager?: string;
   owningOffice?: string;
   feePercentage?: number;
+  generalConditionsPercentage?: number;
+  contingencyPercentage?: number;
+  taxPercentage?: number;
 }
 
 export interface BuildingConnectedProjectUpdateInput {
@@ -111,6 +117,9 @@ export interface BuildingConnectedProjectUpdateInput {
   accountManager?: string;
   owningOffice?: string;
   feePercentage?: number;
+  generalConditionsPercentage?: number;
+  contingencyPercentage?: number;
+  taxPercentage?: number;
   preconLeadId?: string;
   preconLeadEmail?: string;
   preconLeadName?: string;
@@ -4,17 +4,59 @@ export type ChatMode = 'question' | 'update';
 
 export interface ChatMessage {
   id: string;
+  threadId?: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  userName?: string | null; // Author of user messages
   proposedChanges?: ProposedChange[];
+  changeStatuses?: ProposedChangeStatus[]; // Per proposedChanges index; missing means pending
+  toolCalls?: ChatToolCall[]; // Tools the assistant called to answer, in order
 }
 
+// A server-side tool call made by the assistant, kept for auditing
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  result: string; // As given to the assistant (JSON, possibly truncated)
+  isError?: boolean;
+}
+
+// Named conversation within a bid package
+export interface ChatThread {
+  id: string;
+  bidPackageId: string;
+  title: string;
+  createdByName?: string | null;
+  messageCount: number;
+  lastMessage?: string | null; // Preview of the latest message
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// A thread matching a chat history search, with the messages that matched
+export interface ChatThreadSearchResult extends ChatThread {
+  matches: {
+    messageId: string;
+    role: ChatMessage['role'];
+    userName?: string | null;
+    snippet: string;
+    timestamp: number;
+  }[];
+}
+
+// Where a proposed change stands: undone changes can be redone from the workspace
+export type ProposedChangeStatus = 'pending' | 'applied' | 'rejected' | 'undone';
+
 export interface ProposedChange {
-  type: 'add' | 'update' | 'delete';
-  itemId?: string; // for update/delete
+  type: 'add' | 'update' | 'delete' | 'reallocate';
+  itemId?: string; // for update/delete/reallocate
   newItem?: LineItem; // for add/update
   changes?: FieldChange[];
+  targetPackageId?: string; // for reallocate: the sibling package to move the item to
+  targetPackageName?: string;
+  reason?: string;
 }
 
 export interface FieldChange {
@@ -28,10 +70,47 @@ export interface ChatRequest {
   imageUrl: string;
   currentLineItems: LineItem[];
   projectName: string;
-  conversationHistory?: ChatMessage[];
+  bidPackageId?: string; // Brings the package's spec sections into the conversation
+  threadId?: string; // Package thread to continue; a new one is started when missing
+  conversationHistory?: ChatMessage[]; // Only without a bid package; threads keep their own history
 }
 
 export interface ChatResponse {
   response: string;
   proposedChanges?: ProposedChange[];
+  threadId?: string;
+  toolCalls?: ChatToolCall[];
+  userMessage?: ChatMessage; // Both messages as stored in the thread
+  assistantMessage?: ChatMessage;
+}
+
+// A change that cannot be applied to the current line items
+export interface ProposedChangeError {
+  index: number; // Index in the message's proposedChanges
+  message: string;
+}
+
+// Line item snapshots of one applied change; index is the item's position in the list.
+// Reallocations move the item to another package and are not part of revisions.
+export interface ChatRevisionEntry {
+  type: Exclude<ProposedChange['type'], 'reallocate'>;
+  itemId: string;
+  index: number;
+  before: LineItem | null;
+  after: LineItem | null;
+}
+
+export type ChatRevisionStatus = 'applied' | 'undone' | 'discarded';
+
+export interface ChatRevision {
+  id: string;
+  bidPackageId: string;
+  messageId: string;
+  changeIndexes: number[];
+  entries: ChatRevisionEntry[];
+  summary: string;
+  status: ChatRevisionStatus;
+  userName?: string | null;
+  createdAt: Date | string;
+  undoneAt?: Date | string | null;
 }
@@ -0,0 +1,70 @@
+/**
+ * Cost Library Types
+ * Historical unit prices per CSI code and unit, and the price ranges
+ * suggested from them
+ */
+
+export type CostRecordSource = 'package' | 'import';
+
+export const CostRecordSourceLabels: Record<CostRecordSource, string> = {
+  package: 'Completed package',
+  import: 'Imported',
+};
+
+export interface CostRecord {
+  id: string;
+  csiCode: string;
+  unit: string;
+  unitPrice: number;
+  quantity?: number | null;
+  description?: string | null;
+  source: CostRecordSource;
+  projectId?: string | null;
+  projectName?: string | null;
+  bidPackageId?: string | null;
+  region?: string | null;
+  marketSector?: string | null;
+  observedAt: Date | string;
+  createdAt: Date | string;
+}
+
+// How closely the data points behind a suggestion match the project
+export type PriceSuggestionScope = 'region_sector' | 'region' | 'sector' | 'all';
+
+export const PriceSuggestionScopeLabels: Record<PriceSuggestionScope, string> = {
+  region_sector: 'same region and market sector',
+  region: 'same region',
+  sector: 'same market sector',
+  all: 'all projects',
+};
+
+// Suggested unit price range for a CSI code and unit
+export interface PriceSuggestion {
+  csiCode: string;
+  unit: string;
+  low: number; // 25th percentile
+  median: number;
+  high: number; // 75th percentile
+  min: number;
+  max: number;
+  count: number; // Data points behind the range
+  scope: PriceSuggestionScope;
+  latestObservedAt: Date | string;
+}
+
+// Item to price in a suggestion request
+export interface PriceSuggestionRequestItem {
+  csiCode?: string | null;
+  unit?: string | null;
+}
+
+export interface PriceSuggestionRequest {
+  projectId?: string | null; // Prefer data points from projects like this one
+  items: PriceSuggestionRequestItem[];
+}
+
+// Result of importing a CSV of legacy cost data
+export interface CostImportResult {
+  imported: number;
+  skipped: { row: number; error: string }[]; // 1-based spreadsheet row numbers
+}
@@ -24,11 +24,39 @@ export interface Diagram {
   description?: string;
   tags?: string[];
 
+  // Revisions - the file fields always describe the current revision
+  currentRevision?: number;
+
   // Timestamps
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Normalized (0-1) rectangle on a diagram page
+export interface DiagramRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A re-issued sheet (revision or addendum) of a diagram
+export interface DiagramRevision {
+  id: string;
+  diagramId: string;
+  revisionNumber: number;
+  label?: string | null; // e.g., 'Addendum 2', 'Rev B'
+  notes?: string | null;
+  fileName: string;
+  fileUrl: string;
+  fileType: string;
+  fileSize: number;
+  uploadedBy?: string | null;
+  changedRegions: DiagramRegion[] | null; // Changes since the previous revision; null for the first
+  flaggedItemCount: number; // Line items flagged for re-review by this revision
+  uploadedAt: Date | string;
+}
+
 export interface DiagramCreateInput {
   bcProjectId: string;
   fileName: string;
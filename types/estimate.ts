@@ -0,0 +1,67 @@
+/**
+ * Estimate Types
+ * Priced line item rollups per CSI division, bid package and project,
+ * with project-level markups
+ */
+
+// Markup percentages applied to the direct cost subtotal (e.g. 10 = 10%)
+export interface EstimateMarkups {
+  generalConditionsPercentage: number;
+  contingencyPercentage: number;
+  feePercentage: number; // From BuildingConnectedProject.feePercentage
+  taxPercentage: number;
+}
+
+export type MarkupKey = keyof EstimateMarkups;
+
+// Order markups are applied in; each applies to the running total before it
+export const MARKUP_ORDER: MarkupKey[] = [
+  'generalConditionsPercentage',
+  'contingencyPercentage',
+  'feePercentage',
+  'taxPercentage',
+];
+
+export const MarkupLabels: Record<MarkupKey, string> = {
+  generalConditionsPercentage: 'General Conditions',
+  contingencyPercentage: 'Contingency',
+  feePercentage: 'Fee',
+  taxPercentage: 'Tax',
+};
+
+export interface MarkupLine {
+  key: MarkupKey;
+  label: string;
+  percentage: number;
+  base: number; // Running total the percentage applies to
+  amount: number;
+}
+
+export interface CostSummary {
+  subtotal: number; // Sum of priced line item totals
+  itemCount: number;
+  pricedCount: number; // Items with a quantity × unit price or lump sum total
+}
+
+export interface DivisionSubtotal extends CostSummary {
+  division: string | null; // CSI division number, null for items without a CSI code
+  title: string;
+}
+
+export interface BidPackageCostSummary extends CostSummary {
+  bidPackageId: string;
+  name: string;
+  status: string;
+}
+
+export interface ProjectEstimate {
+  projectId: string;
+  packages: BidPackageCostSummary[];
+  divisions: DivisionSubtotal[];
+  subtotal: number; // Direct cost across all packages
+  itemCount: number;
+  pricedCount: number;
+  markups: EstimateMarkups;
+  markupLines: MarkupLine[];
+  total: number;
+}
@@ -0,0 +1,40 @@
+/**
+ * Extraction Cache Types
+ * Per-page extraction results cached by page image, prompt version,
+ * provider, model and instructions, and the summary shown on the admin cache page
+ */
+
+// A parsed page result as cached: bid packages and line items from the
+// model, or a result the pipeline flagged with an error
+export interface CachedPageResult {
+  error?: unknown;
+  [field: string]: unknown;
+}
+
+// Entries sharing a task, prompt version, provider and model
+export interface ExtractionCacheGroup {
+  task: string;
+  promptVersion: number;
+  provider: string;
+  model: string;
+  entries: number;
+  sizeBytes: number;
+  hits: number;
+  stale: boolean; // Written for a prompt version that is no longer current
+}
+
+export interface ExtractionCacheStats {
+  enabled: boolean;
+  entries: number;
+  sizeBytes: number;
+  hits: number; // Page extractions served from the cache
+  staleEntries: number;
+  oldestAt: Date | string | null;
+  lastUsedAt: Date | string | null;
+  groups: ExtractionCacheGroup[];
+}
+
+// What DELETE /api/admin/extraction-cache removes
+// - stale: entries for prompt versions that are no longer current
+// - all: every entry (or every entry for ?fileHash=)
+export type ExtractionCacheClearScope = 'stale' | 'all';
@@ -0,0 +1,94 @@
+/**
+ * Extraction Evaluation Types
+ * Golden drawings with the line items they should produce, and the scores
+ * of an extraction run against them
+ */
+
+export interface BoundingBox {
+  x: number; // Normalized 0.0-1.0
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GoldenLineItem {
+  item_number: string | null;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  csiCode?: string | null; // Omit to leave the item out of CSI accuracy
+  boundingBox?: BoundingBox | null;
+  page?: number; // Defaults to 1
+}
+
+// A line item as the extraction produced it; only the scored fields are typed
+export interface ExtractedLineItem {
+  item_number?: string | number | null;
+  description?: string;
+  quantity?: number | string | null;
+  unit?: string | null;
+  csiCode?: string | null;
+  boundingBox?: BoundingBox | null;
+  source_page?: number;
+  [field: string]: unknown;
+}
+
+export interface GoldenBidPackage {
+  name: string;
+  csi_division: string;
+  line_items: GoldenLineItem[];
+}
+
+// fixtures/golden/<case>/expected.json
+export interface GoldenCase {
+  name: string;
+  description?: string;
+  drawing: string; // File name within the case folder
+  instructions?: string;
+  bid_packages: GoldenBidPackage[];
+}
+
+// A ratio with what it was computed from; null when there was nothing to score
+export interface EvalRatio {
+  value: number | null;
+  numerator: number;
+  denominator: number;
+}
+
+export interface EvalScores {
+  itemRecall: EvalRatio;
+  itemPrecision: EvalRatio;
+  quantityAccuracy: EvalRatio;
+  unitAccuracy: EvalRatio;
+  csiCodeAccuracy: EvalRatio;
+  csiDivisionAccuracy: EvalRatio; // Of the bid package each matched item was placed in
+  packageRecall: EvalRatio; // Expected CSI divisions that got a bid package
+  meanBoundingBoxIoU: EvalRatio; // numerator: summed IoU, denominator: items with both boxes
+}
+
+export interface EvalItemMatch {
+  expected: GoldenLineItem;
+  extracted: ExtractedLineItem | null; // null when the item was missed
+  quantityCorrect: boolean | null;
+  unitCorrect: boolean | null;
+  csiCodeCorrect: boolean | null;
+  iou: number | null;
+}
+
+export interface EvalCaseResult {
+  name: string;
+  durationMs: number;
+  error?: string;
+  scores: EvalScores;
+  matches: EvalItemMatch[];
+  unmatchedExtracted: ExtractedLineItem[]; // Extracted items no expected item matched (false positives)
+}
+
+export interface EvalReport {
+  createdAt: string;
+  mode: 'replay' | 'record' | 'live';
+  provider: string;
+  model: string | null;
+  cases: EvalCaseResult[];
+  scores: EvalScores; // Over the items of every case
+}
@@ -0,0 +1,142 @@
+/**
+ * Extraction Job Types
+ * Drawing extraction is queued as a job and processed page by page by a
+ * worker, so large sets are not limited by the HTTP request timeout
+ */
+
+import { ScheduleTable } from './schedule';
+
+// What the job extracts into
+// - bid_package: line items added to one bid package (/api/extract)
+// - project: bid packages created in a project, or returned unsaved (/api/extract-v2)
+// - batch: several diagrams extracted into a new or existing project (/api/extract/batch)
+export type ExtractionJobKind = 'bid_package' | 'project' | 'batch';
+
+export type ExtractionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const ExtractionJobStatusLabels: Record<ExtractionJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Extracting',
+  succeeded: 'Complete',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// Statuses a job can still move on from
+export const ACTIVE_EXTRACTION_JOB_STATUSES: ExtractionJobStatus[] = ['queued', 'running'];
+
+export interface ExtractionJob {
+  id: string;
+  kind: ExtractionJobKind;
+  status: ExtractionJobStatus;
+  bcProjectId: string | null;
+  bidPackageId: string | null;
+  diagramId: string | null;
+  totalPages: number | null;
+  completedPages: number;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date | string; // Next attempt, when waiting to retry
+  cancelRequested: boolean;
+  error: string | null;
+  result: unknown | null; // Same shape the extraction route used to return
+  createdAt: Date | string;
+  startedAt: Date | string | null;
+  finishedAt: Date | string | null;
+}
+
+// Request bodies, as accepted by the extraction routes
+
+export interface BidPackageExtractionInput {
+  imageUrl: string;
+  instructions?: string;
+  bidPackageId?: string;
+  diagramId?: string;
+}
+
+export interface ProjectExtractionInput {
+  imageUrl: string;
+  instructions?: string;
+  projectId?: string;
+  diagramId?: string;
+  useMockData?: boolean;
+}
+
+export interface BatchExtractionDiagram {
+  diagramId: string;
+  imageUrl: string;
+  fileName: string;
+  fileHash?: string;
+}
+
+export interface BatchExtractionInput {
+  diagrams: BatchExtractionDiagram[];
+  bcProjectId?: string | null;
+  createNewProject?: boolean;
+  projectName?: string;
+  isDuplicate?: boolean;
+  originalProjectId?: string;
+  useMockData?: boolean;
+}
+
+export type ExtractionJobInput = BidPackageExtractionInput | ProjectExtractionInput | BatchExtractionInput;
+
+// Extraction results, as parsed from the model's response; only the fields
+// the pipeline reads are typed
+
+export interface ExtractionLineItem {
+  item_number?: string | null;
+  description: string;
+  quantity?: number | null;
+  unit?: string | null;
+  unit_price?: number | null;
+  total_price?: number | null;
+  notes?: string | null;
+  csiCode?: string | null;
+  csiTitle?: string | null;
+  boundingBox?: { x: number; y: number; width: number; height: number } | null; // Normalized 0-1
+  source_page?: number; // Page of a PDF the item was read from
+  [field: string]: unknown;
+}
+
+export interface ExtractionBidPackage {
+  name: string;
+  csi_division: string;
+  description?: string;
+  line_items?: ExtractionLineItem[];
+  [field: string]: unknown;
+}
+
+// A drawing's bid packages, from one page or its pages combined; batch
+// extraction reads a flat list of line items from each page instead
+export interface ExtractionResult {
+  project_name?: string | null;
+  project_description?: string | null;
+  bid_packages?: ExtractionBidPackage[];
+  line_items?: ExtractionLineItem[];
+  schedules?: ScheduleTable[];
+  extraction_confidence?: string;
+  page_count?: number;
+  raw_text?: string;
+  error?: unknown;
+  [field: string]: unknown;
+}
+
+// Progress events, streamed from /api/extraction-jobs/[id]/events
+// - page_rendered: the page was rendered to an image
+// - page_sent: the page image was sent to the model
+// - page_parsed: the model's response was parsed, or read from the extraction
+//   cache (then page_sent is skipped and data.cached is true)
+// - page_matched: the page's line items were matched to CSI codes
+// - merged: the pages so far were combined; data is the partial result
+export type ExtractionJobEventType = 'page_rendered' | 'page_sent' | 'page_parsed' | 'page_matched' | 'merged';
+
+export interface ExtractionJobEvent {
+  id: number;
+  jobId: string;
+  type: ExtractionJobEventType;
+  source: number | null;
+  pageNumber: number | null;
+  data: unknown; // merged: the combined result so far; page_parsed: { itemCount, cached? }; page_matched: { itemCount }
+  createdAt: Date | string;
+}
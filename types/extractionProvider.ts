@@ -0,0 +1,82 @@
+/**
+ * Extraction Provider Types
+ * Every model call (drawing extraction, categorization, chat, CSI mapping)
+ * goes through an ExtractionProvider, so the model can be swapped for
+ * recorded responses when working offline
+ */
+
+// What the model is asked to do; selects default model settings and fixtures
+export type ExtractionTask =
+  | 'drawing' // Bid packages and line items from a drawing page
+  | 'drawing_batch' // Flat line items from a drawing, for batch extraction
+  | 'categorize_document'
+  | 'project_info'
+  | 'chat'
+  | 'chat_summary' // Folds older chat messages into a thread summary
+  | 'csi_mapping';
+
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export type ExtractionContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: ImageMediaType; data: string } // Base64
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> } // In assistant messages
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean }; // In user messages
+
+// A server-side function the model may call; inputSchema is a JSON Schema object
+export interface ExtractionTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+// Whether the model may (auto), must (any, tool) or must not (none) call a tool
+export type ExtractionToolChoice =
+  | { type: 'auto' }
+  | { type: 'any' }
+  | { type: 'tool'; name: string }
+  | { type: 'none' };
+
+export interface ExtractionToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ExtractionMessage {
+  role: 'user' | 'assistant';
+  content: string | ExtractionContent[];
+}
+
+export interface ExtractionModelOptions {
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface ExtractionRequest {
+  task: ExtractionTask;
+  messages: ExtractionMessage[];
+  system?: string;
+  tools?: ExtractionTool[];
+  toolChoice?: ExtractionToolChoice; // Defaults to auto when tools are given
+  options?: Partial<ExtractionModelOptions>; // Overrides the task's defaults
+}
+
+export interface ExtractionResponse {
+  text: string;
+  toolCalls?: ExtractionToolCall[]; // Tools the model wants called before it answers
+  model: string;
+  provider: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface ExtractionProvider {
+  name: string;
+  // Why the provider cannot be used, e.g. a missing API key; null when ready
+  getConfigurationError(): string | null;
+  complete(request: ExtractionRequest, options: ExtractionModelOptions): Promise<ExtractionResponse>;
+}
@@ -1,4 +1,20 @@
-export type InboxStatus = 'pending' | 'in_progress' | 'completed';
+export type InboxStatus = 'pending' | 'in_progress' | 'completed' | 'archived';
+
+// How an email reached the inbox: an .eml file in the drop folder, or posted to /api/inbox
+export type InboxSource = 'drop_folder' | 'api';
+
+export interface InboxAttachment {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  fileHash: string;
+  diagramId: string | null; // Diagram saved for the drawing (or the existing one it duplicates)
+  fileUrl: string | null;
+  duplicate?: boolean; // Same file as a diagram that was already uploaded
+  existingProjectId?: string | null;
+  existingProjectName?: string | null;
+  skippedReason?: string; // Why the attachment was not saved as a drawing
+}
 
 export interface InboxItem {
   id: string;
@@ -10,4 +26,58 @@ export interface InboxItem {
   thumbnailUrl?: string;
   status: InboxStatus;
   projectId?: string; // Links to created project if already processed
+  body?: string;
+  source?: InboxSource;
+  attachments?: InboxAttachment[];
+  tags?: string[];
+  assignedToId?: string | null; // Precon lead the item was routed to
+  assignedToName?: string | null;
+}
+
+// Every non-empty group must match; within a group any entry matches
+export interface InboxRuleConditions {
+  senderDomains: string[]; // example.com also matches mail.example.com
+  subjectKeywords: string[];
+  partyNames: string[]; // Owner or architect names, searched in the subject and body
+  attachmentTypes: string[]; // File extensions: pdf, dwg, zip
+}
+
+export interface InboxRuleActions {
+  tags: string[];
+  assignToUserId: string | null; // Must be a precon lead
+  linkByProjectNumber: boolean; // Link to the existing project whose number appears in the email
+  archive: boolean; // Noise: archive the item
+}
+
+export interface InboxRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  position: number;
+  conditions: InboxRuleConditions;
+  actions: InboxRuleActions;
+  stopProcessing: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface InboxRuleLogEntry {
+  id: string;
+  inboxItemId: string;
+  inboxItemSubject: string;
+  ruleId: string | null;
+  ruleName: string;
+  reasons: string[];
+  actions: string[];
+  createdAt: number;
+}
+
+// A past inbox item a draft rule would fire on (rules editor dry run)
+export interface InboxRulePreviewMatch {
+  inboxItemId: string;
+  subject: string;
+  sender: string;
+  receivedAt: number;
+  reasons: string[];
+  actions: string[];
 }
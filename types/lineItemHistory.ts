@@ -0,0 +1,61 @@
+/**
+ * Line Item History Types
+ * Append-only audit trail of edits to bid package line items
+ */
+
+import { FieldChange } from './chat';
+
+// Surface in the app where a line item change originated
+export type LineItemChangeSource =
+  | 'table' // BidFormTable inline edit
+  | 'single_item' // SingleItemPanel
+  | 'chat' // Accepted chat ProposedChange
+  | 'reallocation' // Moved between bid packages
+  | 'takeoff' // Quantity measured on a diagram
+  | 'api'; // Direct API call / scripts
+
+export type LineItemHistoryAction = 'create' | 'update' | 'delete' | 'reallocate';
+
+// Fields whose changes are recorded in history (workspace field names)
+export const TRACKED_FIELDS = [
+  'item_number',
+  'description',
+  'quantity',
+  'unit',
+  'unit_price',
+  'notes',
+  'csiCode',
+  'csiTitle',
+  'approved',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+// Display labels for change sources
+export const LineItemChangeSourceLabels: Record<LineItemChangeSource, string> = {
+  table: 'Table edit',
+  single_item: 'Item panel',
+  chat: 'Chat assistant',
+  reallocation: 'Reallocation',
+  takeoff: 'Takeoff',
+  api: 'API',
+};
+
+export interface LineItemHistoryEntry {
+  id: string;
+  lineItemId: string;
+  bidPackageId?: string | null;
+  action: LineItemHistoryAction;
+  changes: FieldChange[];
+  source: LineItemChangeSource;
+  userId?: string | null;
+  userName?: string | null;
+  createdAt: Date | string;
+}
+
+// Who and where a change is attributed to when it is recorded
+export interface LineItemChangeContext {
+  source: LineItemChangeSource;
+  userId?: string | null;
+  userName?: string | null;
+}
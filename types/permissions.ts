@@ -27,6 +27,15 @@ export enum Permission {
 
   // Assignment Management
   MANAGE_ASSIGNMENTS = 'manage_assignments',
+
+  // Bid Package Management
+  MANAGE_BID_PACKAGES = 'manage_bid_packages',
+
+  // Subcontractor Directory
+  MANAGE_SUBCONTRACTORS = 'manage_subcontractors',
+
+  // Historical Cost Library
+  MANAGE_COST_LIBRARY = 'manage_cost_library',
 }
 
 // Permission sets for each organizational role
@@ -44,6 +53,9 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
     Permission.VERIFY_BID_FORMS,
     Permission.EXPORT_DATA,
     Permission.MANAGE_ASSIGNMENTS,
+    Permission.MANAGE_BID_PACKAGES,
+    Permission.MANAGE_SUBCONTRACTORS,
+    Permission.MANAGE_COST_LIBRARY,
   ],
 
   [UserRole.PRECON_LEAD]: [
@@ -58,6 +70,9 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
     Permission.VERIFY_BID_FORMS,
     Permission.EXPORT_DATA,
     Permission.MANAGE_ASSIGNMENTS,
+    Permission.MANAGE_BID_PACKAGES,
+    Permission.MANAGE_SUBCONTRACTORS,
+    Permission.MANAGE_COST_LIBRARY,
   ],
 
   [UserRole.SCOPE_CAPTAIN]: [
@@ -0,0 +1,56 @@
+/**
+ * Drawing Schedule Types
+ * Tabular schedules on drawing sheets (doors, windows, room finishes,
+ * equipment, fixtures) reconstructed row by row, and counted into line items
+ */
+
+export type ScheduleKind =
+  | 'door'
+  | 'window'
+  | 'finish'
+  | 'equipment'
+  | 'plumbing_fixture'
+  | 'lighting_fixture'
+  | 'other'; // Recognized as a schedule, but not counted into line items
+
+export const ScheduleKindLabels: Record<ScheduleKind, string> = {
+  door: 'Door Schedule',
+  window: 'Window Schedule',
+  finish: 'Finish Schedule',
+  equipment: 'Equipment Schedule',
+  plumbing_fixture: 'Plumbing Fixture Schedule',
+  lighting_fixture: 'Lighting Fixture Schedule',
+  other: 'Schedule',
+};
+
+// Where a schedule was read from: the PDF text layer (exact) or the page image
+export type ScheduleSource = 'text_layer' | 'vision';
+
+// A schedule as read from a page, before it is saved
+export interface ScheduleTable {
+  kind: ScheduleKind;
+  title: string;
+  columns: string[]; // Header cells, as printed
+  rows: string[][]; // One cell per column; '' where blank
+  boundingBox: { x: number; y: number; width: number; height: number } | null; // Normalized 0-1
+  source: ScheduleSource;
+}
+
+// A line item counted from a schedule, in the shape extraction results use
+export interface ScheduleLineItem {
+  item_number: null;
+  description: string;
+  quantity: number | null;
+  unit: string | null;
+  notes: string;
+  boundingBox: ScheduleTable['boundingBox'];
+  csiCode: string;
+  csiTitle: string;
+}
+
+export interface DrawingSchedule extends ScheduleTable {
+  id: string;
+  diagramId: string;
+  pageNumber: number;
+  createdAt: Date | string;
+}
@@ -0,0 +1,66 @@
+/**
+ * Drawing Sheet Types
+ * Each page of a diagram is a sheet identified by the sheet number, title
+ * and revision printed in its title block (or listed on the set's cover
+ * sheet index), grouped by discipline
+ */
+
+// Discipline designators (first letter of the sheet number, US National CAD Standard)
+export const SheetDisciplines: Record<string, string> = {
+  G: 'General',
+  H: 'Hazardous Materials',
+  V: 'Survey / Mapping',
+  B: 'Geotechnical',
+  W: 'Civil Works',
+  C: 'Civil',
+  L: 'Landscape',
+  S: 'Structural',
+  A: 'Architectural',
+  I: 'Interiors',
+  Q: 'Equipment',
+  F: 'Fire Protection',
+  P: 'Plumbing',
+  D: 'Process',
+  M: 'Mechanical',
+  E: 'Electrical',
+  T: 'Telecommunications',
+  R: 'Resource',
+  X: 'Other Disciplines',
+  Z: 'Contractor / Shop Drawings',
+  O: 'Operations',
+};
+
+// Where a sheet's metadata came from
+export type SheetSource = 'title_block' | 'index' | 'file_name' | 'manual' | 'none';
+
+export const SheetSourceLabels: Record<SheetSource, string> = {
+  title_block: 'Title block',
+  index: 'Sheet index',
+  file_name: 'File name',
+  manual: 'Edited',
+  none: 'Not found',
+};
+
+export interface DiagramSheet {
+  id: string;
+  diagramId: string;
+  pageNumber: number;
+  sheetNumber: string | null; // e.g. 'A-101'
+  title: string | null; // e.g. 'First Floor Plan'
+  discipline: string | null; // Discipline designator, a key of SheetDisciplines
+  revision: string | null; // Revision printed in the title block
+  source: SheetSource;
+  fileName?: string; // Diagram file, when listed across a project
+}
+
+// A row of a cover sheet index
+export interface SheetIndexEntry {
+  sheetNumber: string;
+  title: string;
+}
+
+export interface DiagramSheetUpdateInput {
+  sheetNumber?: string | null;
+  title?: string | null;
+  revision?: string | null;
+}
@@ -0,0 +1,42 @@
+/**
+ * Specification Book Types
+ * Project manuals split into MasterFormat sections ("SECTION 09 29 00"),
+ * validated against the CSI dataset and matched to bid packages by the
+ * CSI codes of their line items
+ */
+
+// How a section number validated against MasterFormat: listed as is, through
+// its nearest listed parent (e.g. 09 29 16 under 09 29 00), or not at all
+export type SpecSectionMatch = 'exact' | 'parent' | 'none';
+
+export interface SpecSection {
+  id: string;
+  specBookId: string;
+  sectionNumber: string; // "09 29 00"
+  title: string;
+  csiCode: string | null;
+  csiTitle: string | null;
+  csiMatch: SpecSectionMatch;
+  startPage: number;
+  endPage: number;
+  content?: string; // Full section text; omitted from listings
+}
+
+export interface SpecBook {
+  id: string;
+  bcProjectId: string;
+  fileName: string;
+  fileUrl: string;
+  fileSize: number;
+  pageCount: number | null;
+  uploadedBy: string | null;
+  uploadedAt: Date | string;
+  sections: SpecSection[];
+}
+
+// A spec section that applies to a bid package, with the package's line item
+// codes it covers
+export interface BidPackageSpecSection extends SpecSection {
+  fileName: string;
+  matchedCodes: string[];
+}
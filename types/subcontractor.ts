@@ -0,0 +1,64 @@
+/**
+ * Subcontractor Directory Types
+ * Subcontractor companies, their contacts, and the trades / CSI divisions they cover
+ */
+
+export type PrequalStatus = 'pending' | 'approved' | 'conditional' | 'rejected' | 'expired';
+
+// Display labels for prequalification statuses
+export const PrequalStatusLabels: Record<PrequalStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  conditional: 'Conditional',
+  rejected: 'Rejected',
+  expired: 'Expired',
+};
+
+export interface SubcontractorContact {
+  id?: string;
+  name: string;
+  title?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  isPrimary: boolean;
+}
+
+export interface Subcontractor {
+  id: string;
+  name: string;
+  website?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  trades: string[]; // Trade names from TRADE_CATEGORIES
+  csiDivisions: string[]; // CSI division numbers, e.g. "03"
+  regions: string[];
+  insuranceLimit?: number | null;
+  bondingLimit?: number | null;
+  prequalStatus: PrequalStatus;
+  prequalExpiresAt?: Date | string | null;
+  notes?: string | null;
+  isActive: boolean;
+  contacts: SubcontractorContact[];
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Body for creating or updating a subcontractor; `contacts` replaces all contacts
+export type SubcontractorInput = Partial<
+  Omit<Subcontractor, 'id' | 'createdAt' | 'updatedAt'>
+>;
+
+// Options for the directory form (trades and divisions it can pick from)
+export interface SubcontractorOptions {
+  trades: { name: string; csiDivisions: string[] }[];
+  divisions: { code: string; title: string }[];
+}
+
+// A subcontractor suggested for a bid package, with why it matched
+export interface SubcontractorSuggestion {
+  subcontractor: Subcontractor;
+  matchedDivisions: string[];
+  matchedTrades: string[];
+  score: number; // Number of package line items the sub's coverage matches
+}
@@ -0,0 +1,84 @@
+/**
+ * Takeoff Types
+ * Drawing scales calibrated against a known dimension, and linear / area /
+ * count measurements drawn on a diagram page and linked to line items
+ */
+
+export type TakeoffType = 'linear' | 'area' | 'count';
+
+// Unit written back to the line item for each measurement type
+export const TakeoffUnits: Record<TakeoffType, string> = {
+  linear: 'LF',
+  area: 'SF',
+  count: 'EA',
+};
+
+export const TakeoffTypeLabels: Record<TakeoffType, string> = {
+  linear: 'Linear',
+  area: 'Area',
+  count: 'Count',
+};
+
+// Point on a page, normalized to the page size (0-1 from the top left)
+export interface TakeoffPoint {
+  x: number;
+  y: number;
+}
+
+// Natural size of a page: image pixels, or PDF points
+export interface TakeoffPageSize {
+  width: number;
+  height: number;
+}
+
+export interface TakeoffScale {
+  id: string;
+  diagramId: string;
+  pageNumber: number;
+  pageWidth: number;
+  pageHeight: number;
+  feetPerUnit: number; // Real-world feet per natural page unit
+  calibration: {
+    start: TakeoffPoint;
+    end: TakeoffPoint;
+    lengthFeet: number; // The known dimension the scale was calibrated against
+  };
+  updatedAt: Date | string;
+}
+
+export interface TakeoffMeasurement {
+  id: string;
+  diagramId: string;
+  pageNumber: number;
+  lineItemId: string;
+  type: TakeoffType;
+  points: TakeoffPoint[];
+  quantity: number;
+  unit: string;
+  createdByName?: string | null;
+  createdAt: Date | string;
+}
+
+export interface TakeoffScaleInput {
+  pageNumber: number;
+  pageWidth: number;
+  pageHeight: number;
+  start: TakeoffPoint;
+  end: TakeoffPoint;
+  lengthFeet: number;
+}
+
+export interface TakeoffMeasurementInput {
+  pageNumber: number;
+  lineItemId: string;
+  type: TakeoffType;
+  points: TakeoffPoint[];
+}
+
+// A line item's measured quantity across all of its measurements
+export interface TakeoffItemTotal {
+  lineItemId: string;
+  quantity: number | null; // null once the last measurement is removed
+  unit: string | null;
+  boundingBox: { x: number; y: number; width: number; height: number } | null; // Bounds of the measurements on this diagram
+}
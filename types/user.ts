@@ -51,6 +51,13 @@ export interface UserPublic {
   lastLoginAt?: Date;
 }
 
+/**
+ * Name to show for a user: "First Last" when both are set, otherwise the username
+ */
+export function getUserDisplayName(user: { userName: string; firstName?: string | null; lastName?: string | null }): string {
+  return user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.userName;
+}
+
 // User registration input (self-registration)
 export interface UserRegisterInput {
   email: string;